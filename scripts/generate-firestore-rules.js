@@ -0,0 +1,191 @@
+// Generates firestore.rules from the role/permission matrix in src/config/roles.json,
+// so the security rules always match the permissions enforced in the UI.
+// Usage: npm run rules
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const config = JSON.parse(readFileSync(resolve(root, 'src/config/roles.json'), 'utf8'));
+const { permissions } = config;
+
+// Collections that existed before workspaces; readable so they can be imported into a business
+const LEGACY_COLLECTIONS = [
+  'sales',
+  'purchases',
+  'expenses',
+  'assets',
+  'investments',
+  'productCategories',
+  'expenseCategories',
+  'auditLogs'
+];
+
+const rolesFor = (permission) => {
+  const roles = permissions[permission];
+  if (!roles) {
+    throw new Error(`Unknown permission "${permission}" in roles.json`);
+  }
+  return `[${roles.map((role) => `'${role}'`).join(', ')}]`;
+};
+
+// Every "<collection>.create" permission describes a record collection under a business
+const recordCollections = Object.keys(permissions)
+  .filter((permission) => permission.endsWith('.create'))
+  .map((permission) => permission.split('.')[0]);
+
+// Anyone who can write a record also appends its audit log entry in the same batch
+const writerRoles = [...new Set(
+  Object.entries(permissions)
+    .filter(([permission]) => /\.(create|update|delete)$/.test(permission))
+    .flatMap(([, roles]) => roles)
+)];
+
+// Collections nobody may update or delete, such as the journal, are append-only
+const isAppendOnly = (name) => {
+  return permissions[`${name}.update`]?.length === 0 && permissions[`${name}.delete`]?.length === 0;
+};
+
+// Collections the ledger posts a journal entry for, see POSTING_RULES in src/utils/ledger.ts
+const POSTED_COLLECTIONS = [
+  'sales',
+  'saleReturns',
+  'salePayments',
+  'purchases',
+  'purchaseOrders',
+  'purchaseReturns',
+  'stockAdjustments',
+  'expenses',
+  'billPayments',
+  'investments',
+  'assets'
+];
+
+const creatorRoles = `{${POSTED_COLLECTIONS.map((name) => `'${name}': ${rolesFor(`${name}.create`)}`).join(', ')}}`;
+
+// Collections whose writes need more than a role check
+const CUSTOM_RULES = {
+  // Staff who cannot write to the journal still post the records they add, but only in
+  // the batch that creates the record, and never as a reversal
+  journalEntries: `
+      match /journalEntries/{recordId} {
+        function postsNewRecord() {
+          let entry = request.resource.data;
+          let source = /databases/$(database)/documents/businesses/$(businessId)/$(entry.sourceCollection)/$(entry.sourceId);
+          let creators = ${creatorRoles};
+          return entry.isReversal == false
+            && entry.sourceCollection in creators
+            && hasRole(businessId, creators[entry.sourceCollection])
+            && !exists(source)
+            && existsAfter(source);
+        }
+
+        allow read: if hasRole(businessId, ${rolesFor('journalEntries.read')});
+        allow create: if hasRole(businessId, ${rolesFor('journalEntries.create')}) || postsNewRecord();
+        // The journal is append-only; mistakes are corrected with reversals
+        allow update, delete: if false;
+      }`,
+  // The invoice sequence never goes back, or numbers already issued would be given out
+  // again. Whoever can issue invoices may move it on by one as they take a number.
+  invoiceSettings: `
+      match /invoiceSettings/{recordId} {
+        allow read: if hasRole(businessId, ${rolesFor('invoiceSettings.read')});
+        allow create: if hasRole(businessId, ${rolesFor('invoiceSettings.create')});
+        allow update: if request.resource.data.nextNumber >= resource.data.nextNumber
+          && (hasRole(businessId, ${rolesFor('invoiceSettings.update')})
+            || (hasRole(businessId, ${rolesFor('invoices.create')})
+              && request.resource.data.diff(resource.data).affectedKeys().hasOnly(['nextNumber'])
+              && request.resource.data.nextNumber == resource.data.nextNumber + 1));
+        allow delete: if hasRole(businessId, ${rolesFor('invoiceSettings.delete')});
+      }`
+};
+
+const collectionRules = recordCollections.map((name) => CUSTOM_RULES[name] ?? (isAppendOnly(name) ? `
+      match /${name}/{recordId} {
+        allow read: if hasRole(businessId, ${rolesFor(`${name}.read`)});
+        allow create: if hasRole(businessId, ${rolesFor(`${name}.create`)});
+        allow update, delete: if false;
+      }` : `
+      match /${name}/{recordId} {
+        allow read: if hasRole(businessId, ${rolesFor(`${name}.read`)});
+        allow create: if hasRole(businessId, ${rolesFor(`${name}.create`)});
+        // Soft delete and restore flip isDeleted; any other change is an edit
+        allow update: if (togglesSoftDelete() && hasRole(businessId, ${rolesFor(`${name}.delete`)}))
+          || (!togglesSoftDelete() && hasRole(businessId, ${rolesFor(`${name}.update`)}));
+        allow delete: if hasRole(businessId, ${rolesFor(`${name}.delete`)});
+      }`)).join('\n');
+
+const rules = `// GENERATED FILE - do not edit by hand.
+// Source: src/config/roles.json, generator: scripts/generate-firestore-rules.js
+rules_version = '2';
+service cloud.firestore {
+  match /databases/{database}/documents {
+    function signedIn() {
+      return request.auth != null;
+    }
+
+    function businessData(businessId) {
+      return get(/databases/$(database)/documents/businesses/$(businessId)).data;
+    }
+
+    function hasRole(businessId, roles) {
+      let business = businessData(businessId);
+      return signedIn()
+        && request.auth.uid in business.memberIds
+        && business.members[request.auth.uid].role in roles;
+    }
+
+    function togglesSoftDelete() {
+      return request.resource.data.diff(resource.data).affectedKeys().hasAny(['isDeleted']);
+    }
+
+    function invitationPath(businessId) {
+      return /databases/$(database)/documents/invitations/$(businessId + '_' + request.auth.token.email);
+    }
+
+    // An invitee may add only themselves, with exactly the role they were invited with
+    function isAcceptingInvitation(businessId) {
+      let invitation = get(invitationPath(businessId)).data;
+      return signedIn()
+        && exists(invitationPath(businessId))
+        && invitation.status == 'pending'
+        && request.resource.data.diff(resource.data).affectedKeys().hasOnly(['memberIds', 'members'])
+        && request.resource.data.members.diff(resource.data.members).affectedKeys().hasOnly([request.auth.uid])
+        && request.resource.data.members[request.auth.uid].role == invitation.role;
+    }
+
+    match /businesses/{businessId} {
+      allow read: if signedIn() && request.auth.uid in resource.data.memberIds;
+      allow create: if signedIn()
+        && request.resource.data.ownerId == request.auth.uid
+        && request.resource.data.members[request.auth.uid].role == 'owner';
+      allow update: if hasRole(businessId, ${rolesFor('members.manage')}) || isAcceptingInvitation(businessId);
+${collectionRules}
+
+      match /auditLogs/{logId} {
+        allow read: if hasRole(businessId, ${rolesFor('auditLogs.read')});
+        allow create: if hasRole(businessId, [${writerRoles.map((role) => `'${role}'`).join(', ')}]);
+        // The audit trail is append-only
+        allow update, delete: if false;
+      }
+    }
+
+    match /invitations/{invitationId} {
+      allow read: if signedIn()
+        && (resource.data.email == request.auth.token.email
+          || hasRole(resource.data.businessId, ${rolesFor('members.manage')}));
+      allow create: if hasRole(request.resource.data.businessId, ${rolesFor('members.manage')});
+      allow update: if signedIn()
+        && resource.data.email == request.auth.token.email
+        && request.resource.data.diff(resource.data).affectedKeys().hasOnly(['status', 'acceptedAt']);
+    }
+
+    match /{legacyCollection}/{recordId} {
+      allow read: if signedIn() && legacyCollection in [${LEGACY_COLLECTIONS.map((name) => `'${name}'`).join(', ')}];
+    }
+  }
+}
+`;
+
+writeFileSync(resolve(root, 'firestore.rules'), rules);
+console.log('Wrote firestore.rules');
@@ -1,28 +1,71 @@
-import { Routes, Route } from 'react-router-dom'
+import { Routes, Route, Navigate } from 'react-router-dom'
 import LoginPage from './pages/auth/LoginPage'
 import DashboardPage from './pages/dashboard/DashboardPage'
 import SalesPage from './pages/sales/SalesPage'
+import InvoicePage from './pages/sales/InvoicePage'
+import ReturnsPage from './pages/returns/ReturnsPage'
+import ReceivablesPage from './pages/receivables/ReceivablesPage'
+import StockAdjustmentsPage from './pages/products/StockAdjustmentsPage'
 import ExpensesPage from './pages/expenses/ExpensesPage'
 import AssetsPage from './pages/assets/AssetsPage'
 import InvestmentsPage from './pages/investments/InvestmentsPage'
 import SettingsPage from './pages/settings/SettingsPage'
 import PurchasesPage from './pages/purchases/PurchasesPage'
+import PurchaseOrdersPage from './pages/purchases/PurchaseOrdersPage'
+import PayablesPage from './pages/payables/PayablesPage'
+import ProductsPage from './pages/products/ProductsPage'
+import CustomersPage from './pages/customers/CustomersPage'
+import CustomerDetailPage from './pages/customers/CustomerDetailPage'
+import SuppliersPage from './pages/suppliers/SuppliersPage'
+import SupplierDetailPage from './pages/suppliers/SupplierDetailPage'
+import LedgerPage from './pages/ledger/LedgerPage'
 import ProtectedRoute from './components/auth/ProtectedRoute'
 import Sidebar from './components/dashboard/Sidebar'
 import { SidebarProvider } from './contexts/SidebarContext'
+import { BusinessProvider } from './contexts/BusinessContext'
+import { useBusiness } from './contexts/useBusiness'
+import { SyncProvider } from './contexts/SyncContext'
+import BusinessSetupPage from './pages/business/BusinessSetupPage'
 
 const AppLayout = () => {
+  const { activeBusiness, can } = useBusiness();
+
+  if (!activeBusiness) {
+    return <BusinessSetupPage />;
+  }
+
   return (
-    <div className="flex h-screen bg-background">
+    <div className="flex h-screen bg-background print:block print:h-auto">
       <Sidebar />
-      <main className="flex-1 overflow-y-auto">
+      {/* Remount pages on switch so every page reloads data for the new business */}
+      <main key={activeBusiness.id} className="flex-1 overflow-y-auto print:overflow-visible">
         <Routes>
-          <Route index element={<DashboardPage />} />
-          <Route path="sales" element={<SalesPage />} />
-          <Route path="purchases" element={<PurchasesPage />} />
-          <Route path="expenses" element={<ExpensesPage />} />
-          <Route path="assets" element={<AssetsPage />} />
-          <Route path="investments" element={<InvestmentsPage />} />
+          <Route
+            index
+            element={
+              // Roles without reports land on the first page they can work in
+              can('reports.view')
+                ? <DashboardPage />
+                : <Navigate to="/sales" replace />
+            }
+          />
+          <Route path="sales" element={<ProtectedRoute permission="sales.read"><SalesPage /></ProtectedRoute>} />
+          <Route path="sales/:saleId/invoice" element={<ProtectedRoute permission="sales.read"><InvoicePage /></ProtectedRoute>} />
+          <Route path="returns" element={<ProtectedRoute permission="saleReturns.read"><ReturnsPage /></ProtectedRoute>} />
+          <Route path="receivables" element={<ProtectedRoute permission="salePayments.read"><ReceivablesPage /></ProtectedRoute>} />
+          <Route path="purchases" element={<ProtectedRoute permission="purchases.read"><PurchasesPage /></ProtectedRoute>} />
+          <Route path="purchase-orders" element={<ProtectedRoute permission="purchaseOrders.read"><PurchaseOrdersPage /></ProtectedRoute>} />
+          <Route path="payables" element={<ProtectedRoute permission="billPayments.read"><PayablesPage /></ProtectedRoute>} />
+          <Route path="products" element={<ProtectedRoute permission="products.read"><ProductsPage /></ProtectedRoute>} />
+          <Route path="stock-adjustments" element={<ProtectedRoute permission="stockAdjustments.read"><StockAdjustmentsPage /></ProtectedRoute>} />
+          <Route path="customers" element={<ProtectedRoute permission="customers.read"><CustomersPage /></ProtectedRoute>} />
+          <Route path="customers/:customerId" element={<ProtectedRoute permission="customers.read"><CustomerDetailPage /></ProtectedRoute>} />
+          <Route path="suppliers" element={<ProtectedRoute permission="suppliers.read"><SuppliersPage /></ProtectedRoute>} />
+          <Route path="suppliers/:supplierId" element={<ProtectedRoute permission="suppliers.read"><SupplierDetailPage /></ProtectedRoute>} />
+          <Route path="expenses" element={<ProtectedRoute permission="expenses.read"><ExpensesPage /></ProtectedRoute>} />
+          <Route path="assets" element={<ProtectedRoute permission="assets.read"><AssetsPage /></ProtectedRoute>} />
+          <Route path="investments" element={<ProtectedRoute permission="investments.read"><InvestmentsPage /></ProtectedRoute>} />
+          <Route path="ledger" element={<ProtectedRoute permission="journalEntries.read"><LedgerPage /></ProtectedRoute>} />
           <Route path="settings" element={<SettingsPage />} />
         </Routes>
       </main>
@@ -39,7 +82,11 @@ const App = () => {
           path="/*"
           element={
             <ProtectedRoute>
-              <AppLayout />
+              <BusinessProvider>
+                <SyncProvider>
+                  <AppLayout />
+                </SyncProvider>
+              </BusinessProvider>
             </ProtectedRoute>
           }
         />
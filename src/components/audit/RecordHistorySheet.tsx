@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import dayjs from 'dayjs';
+import { cn } from "@/lib/utils";
+import { getAuditHistory, type AuditAction, type AuditLogEntry } from '@/utils/audit';
+import { MONEY_FIELDS, fromMinorUnits } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+
+interface RecordHistorySheetProps {
+  collectionName: string;
+  recordId: string | null;
+  title: string;
+  onClose: () => void;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored'
+};
+
+const actionStyles: Record<AuditAction, string> = {
+  create: 'bg-green-500',
+  update: 'bg-blue-500',
+  delete: 'bg-red-500',
+  restore: 'bg-amber-500'
+};
+
+const formatValue = (value: unknown, isMoney = false): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (isMoney && typeof value === 'number') {
+    return formatMoney(fromMinorUnits(value));
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const RecordHistorySheet: React.FC<RecordHistorySheetProps> = ({
+  collectionName,
+  recordId,
+  title,
+  onClose
+}) => {
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const moneyFields = MONEY_FIELDS[collectionName] ?? [];
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!recordId) return;
+
+    const loadHistory = async () => {
+      try {
+        setIsLoading(true);
+        const entries = await getAuditHistory(collectionName, recordId);
+        setHistory(entries);
+      } catch (error) {
+        console.error('Error loading history:', error);
+        toast.error('Failed to load history', {
+          dismissible: true
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [collectionName, recordId]);
+
+  return (
+    <Sheet
+      open={recordId !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>
+            Every change made to this record, newest first.
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading history...
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded for this entry</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-6">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className={cn(
+                  "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+                  actionStyles[entry.action]
+                )} />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{actionLabels[entry.action]}</span>
+                  <time className="text-xs text-muted-foreground">
+                    {dayjs(entry.timestamp).format('DD-MMM-YYYY HH:mm')}
+                  </time>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  by {entry.actorEmail || entry.actorId || 'Unknown user'}
+                </p>
+                {entry.action !== 'create' && entry.changes.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {entry.changes.map((change) => (
+                      <div key={change.field} className="text-xs">
+                        <span className="font-medium">{change.field}:</span>{' '}
+                        <span className="text-red-500 line-through">{formatValue(change.before, moneyFields.includes(change.field))}</span>{' '}
+                        <span className="text-green-500">{formatValue(change.after, moneyFields.includes(change.field))}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RecordHistorySheet;
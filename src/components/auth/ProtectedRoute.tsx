@@ -1,13 +1,19 @@
-import React from 'react';
+import React, { useContext } from 'react';
 import { Navigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import BusinessContext from '@/contexts/BusinessContext';
+import type { Permission } from '@/utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Required permission in the active business; omit to only require sign-in
+  permission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
   const { user, loading } = useAuth();
+  const business = useContext(BusinessContext);
 
   if (loading) {
     return (
@@ -21,7 +27,19 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" />;
   }
 
+  if (permission && !business?.can(permission)) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[calc(100vh-4rem)] text-center p-6">
+        <ShieldAlert className="h-10 w-10 text-muted-foreground mb-4" />
+        <h2 className="text-lg font-semibold">Access denied</h2>
+        <p className="text-sm text-muted-foreground">
+          Your role in this business does not allow access to this page.
+        </p>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute; 
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import { EMPTY_BUSINESS_PROFILE, updateBusinessProfile, type BusinessProfile } from '@/utils/business';
+
+const PROFILE_FIELDS: { key: keyof BusinessProfile; label: string; type?: string }[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'phone', label: 'Phone', type: 'tel' },
+  { key: 'email', label: 'Email', type: 'email' },
+  { key: 'taxNumber', label: 'Tax number' }
+];
+
+const BusinessProfileCard: React.FC = () => {
+  const { activeBusiness, refreshBusinesses, can } = useBusiness();
+  const [draft, setDraft] = useState<BusinessProfile>(activeBusiness?.profile ?? EMPTY_BUSINESS_PROFILE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(activeBusiness?.profile ?? EMPTY_BUSINESS_PROFILE);
+  }, [activeBusiness?.profile]);
+
+  if (!activeBusiness) {
+    return null;
+  }
+
+  const canEdit = can('members.manage');
+  const isChanged = PROFILE_FIELDS.some(({ key }) => draft[key].trim() !== activeBusiness.profile[key]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateBusinessProfile(activeBusiness.id, draft);
+      await refreshBusinesses();
+      toast.success('Business profile updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating business profile:', error);
+      toast.error('Failed to update business profile', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Business Profile</CardTitle>
+        <CardDescription>
+          Contact details printed at the top of invoices and receipts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {PROFILE_FIELDS.map(({ key, label, type }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`profile-${key}`}>{label}</Label>
+              <Input
+                id={`profile-${key}`}
+                type={type}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                disabled={isSaving || !canEdit}
+              />
+            </div>
+          ))}
+        </div>
+        {canEdit && (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={isSaving || !isChanged}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessProfileCard;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import { updateCostingMethod } from '@/utils/business';
+import { COSTING_METHODS, type CostingMethod } from '@/utils/inventory';
+
+const CostingMethodCard: React.FC = () => {
+  const { activeBusiness, refreshBusinesses, can } = useBusiness();
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!activeBusiness) {
+    return null;
+  }
+
+  const handleChange = async (method: CostingMethod) => {
+    setIsSaving(true);
+    try {
+      await updateCostingMethod(activeBusiness.id, method);
+      await refreshBusinesses();
+      toast.success('Costing method updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating costing method:', error);
+      toast.error('Failed to update costing method', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Inventory Costing</CardTitle>
+        <CardDescription>
+          How cost of goods sold and stock value are calculated on the dashboard and in the ledger.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <RadioGroup
+          value={activeBusiness.costingMethod}
+          onValueChange={(value) => handleChange(value as CostingMethod)}
+          disabled={isSaving || !can('members.manage')}
+        >
+          {COSTING_METHODS.map((option) => (
+            <div key={option.value} className="flex items-start space-x-2">
+              <RadioGroupItem value={option.value} id={`costing-${option.value}`} className="mt-0.5" />
+              <div>
+                <Label htmlFor={`costing-${option.value}`}>{option.label}</Label>
+                <p className="text-sm text-muted-foreground">{option.description}</p>
+              </div>
+            </div>
+          ))}
+        </RadioGroup>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CostingMethodCard;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+
+interface CreateBusinessFormProps {
+  allowImport?: boolean;
+  onCreated?: () => void;
+}
+
+const CreateBusinessForm: React.FC<CreateBusinessFormProps> = ({
+  allowImport = false,
+  onCreated
+}) => {
+  const { createNewBusiness } = useBusiness();
+  const [name, setName] = useState('');
+  const [importExisting, setImportExisting] = useState(allowImport);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error('Business name is required', {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createNewBusiness(name, allowImport && importExisting);
+      setName('');
+      toast.success('Business created successfully', {
+        dismissible: true
+      });
+      onCreated?.();
+    } catch (error) {
+      console.error('Error creating business:', error);
+      toast.error('Failed to create business', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="business-name">Business Name</Label>
+        <Input
+          id="business-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Enter business name"
+          required
+          disabled={isSubmitting}
+        />
+      </div>
+      {allowImport && (
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="import-existing" className="text-sm">
+            Import records created before workspaces were introduced
+          </Label>
+          <Switch
+            id="import-existing"
+            checked={importExisting}
+            onCheckedChange={setImportExisting}
+            disabled={isSubmitting}
+          />
+        </div>
+      )}
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Creating...
+          </>
+        ) : (
+          'Create Business'
+        )}
+      </Button>
+    </form>
+  );
+};
+
+export default CreateBusinessForm;
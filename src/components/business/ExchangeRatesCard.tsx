@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import { updateBaseCurrency } from '@/utils/business';
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  normalizeCurrencyCode,
+  saveExchangeRate,
+  type ExchangeRate
+} from '@/utils/currency';
+import { formatDate } from '@/utils/dateFormat';
+
+const ExchangeRatesCard: React.FC = () => {
+  const { activeBusiness, refreshBusinesses, can } = useBusiness();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState(activeBusiness?.baseCurrency ?? '');
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+
+  useEffect(() => {
+    setBaseCurrency(activeBusiness?.baseCurrency ?? '');
+  }, [activeBusiness?.baseCurrency]);
+
+  const loadRates = async () => {
+    try {
+      setRates(await getExchangeRates());
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      toast.error('Failed to load exchange rates', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  if (!activeBusiness) {
+    return null;
+  }
+
+  const canEditRates = can('exchangeRates.update');
+  const canEditBase = can('members.manage');
+
+  const handleSaveBaseCurrency = async () => {
+    const currency = normalizeCurrencyCode(baseCurrency);
+    if (!currency) {
+      toast.error('Currency must be a three-letter code', {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateBaseCurrency(activeBusiness.id, currency);
+      await refreshBusinesses();
+      toast.success('Base currency updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating base currency:', error);
+      toast.error('Failed to update base currency', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const currency = normalizeCurrencyCode(newCurrency);
+    if (currency === activeBusiness.baseCurrency) {
+      toast.error(`${currency} is the base currency`, {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveExchangeRate(newCurrency, parseFloat(newRate));
+      setNewCurrency('');
+      setNewRate('');
+      await loadRates();
+      toast.success('Exchange rate saved', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save exchange rate', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRate = async (currency: string) => {
+    setIsSaving(true);
+    try {
+      await deleteExchangeRate(currency);
+      await loadRates();
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Failed to delete exchange rate', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Currencies</CardTitle>
+        <CardDescription>
+          Reports and stock costing are in the base currency. Purchases in other currencies are
+          converted at the rate entered on each purchase, which defaults to the rate below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="base-currency">Base currency</Label>
+          <div className="flex gap-2">
+            <Input
+              id="base-currency"
+              value={baseCurrency}
+              maxLength={3}
+              onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+              className="w-[120px]"
+              disabled={isSaving || !canEditBase}
+            />
+            {canEditBase && (
+              <Button
+                variant="outline"
+                onClick={handleSaveBaseCurrency}
+                disabled={isSaving || baseCurrency === activeBusiness.baseCurrency}
+              >
+                Save
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Exchange rates</Label>
+          {isLoading ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading rates...
+            </div>
+          ) : rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No exchange rates yet</p>
+          ) : (
+            <div className="grid gap-2">
+              {rates.map((rate) => (
+                <div
+                  key={rate.currency}
+                  className="flex items-center justify-between gap-4 p-2 rounded-md border"
+                >
+                  <span className="text-sm">
+                    1 {rate.currency} = {rate.rate} {activeBusiness.baseCurrency}
+                    {rate.updatedAt && (
+                      <span className="text-muted-foreground"> (updated {formatDate(rate.updatedAt)})</span>
+                    )}
+                  </span>
+                  {can('exchangeRates.delete') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteRate(rate.currency)}
+                      className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {canEditRates && (
+          <form onSubmit={handleSaveRate} className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="rate-currency">Currency</Label>
+              <Input
+                id="rate-currency"
+                value={newCurrency}
+                maxLength={3}
+                onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+                placeholder="USD"
+                className="w-[120px]"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Rate to {activeBusiness.baseCurrency}</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                min="0"
+                step="any"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                placeholder="0"
+                className="w-[160px]"
+                disabled={isSaving}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving || !newCurrency || !newRate}>
+              Save Rate
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesCard;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { inviteMember, type Business } from '@/utils/business';
+import {
+  DEFAULT_INVITE_ROLE,
+  ROLES,
+  getRoleDescription,
+  getRoleLabel,
+  type Role
+} from '@/utils/permissions';
+
+interface InviteMemberDialogProps {
+  business: Business;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const InviteMemberDialog: React.FC<InviteMemberDialogProps> = ({
+  business,
+  open,
+  onOpenChange
+}) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>(DEFAULT_INVITE_ROLE);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await inviteMember(business, email, role);
+      setEmail('');
+      onOpenChange(false);
+      toast.success(`Invitation sent to ${email}`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to invite member', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite to {business.name}</DialogTitle>
+          <DialogDescription>
+            The invitation appears when they sign in with this email address.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="teammate@example.com"
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select
+              value={role}
+              onValueChange={(value) => setRole(value as Role)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {getRoleLabel(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{getRoleDescription(role)}</p>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Send Invitation'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteMemberDialog;
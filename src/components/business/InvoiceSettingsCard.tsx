@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import {
+  DEFAULT_INVOICE_SETTINGS,
+  MAX_INVOICE_DIGITS,
+  formatInvoiceNumber,
+  getInvoiceSettings,
+  saveInvoiceSettings,
+  type InvoiceSettings
+} from '@/utils/invoices';
+
+const InvoiceSettingsCard: React.FC = () => {
+  const { can } = useBusiness();
+  const [saved, setSaved] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS);
+  const [draft, setDraft] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      const settings = await getInvoiceSettings();
+      setSaved(settings);
+      setDraft(settings);
+    } catch (error) {
+      console.error('Error loading invoice settings:', error);
+      toast.error('Failed to load invoice settings', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const canEdit = can('members.manage');
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(saved);
+  const isValid = Number.isInteger(draft.nextNumber) && draft.nextNumber >= 1
+    && Number.isInteger(draft.digits) && draft.digits >= 1 && draft.digits <= MAX_INVOICE_DIGITS;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveInvoiceSettings(draft);
+      await loadSettings();
+      toast.success('Invoice settings updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error saving invoice settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update invoice settings', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const disabled = isLoading || isSaving || !canEdit;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invoices</CardTitle>
+        <CardDescription>
+          Invoice numbers are issued in sequence the first time a sale's invoice is opened.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-prefix">Prefix</Label>
+            <Input
+              id="invoice-prefix"
+              value={draft.prefix}
+              maxLength={12}
+              onChange={(e) => setDraft({ ...draft, prefix: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-next-number">Next number</Label>
+            <Input
+              id="invoice-next-number"
+              type="number"
+              min={1}
+              step={1}
+              value={draft.nextNumber}
+              onChange={(e) => setDraft({ ...draft, nextNumber: e.target.valueAsNumber })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-digits">Digits</Label>
+            <Input
+              id="invoice-digits"
+              type="number"
+              min={1}
+              max={MAX_INVOICE_DIGITS}
+              step={1}
+              value={draft.digits}
+              onChange={(e) => setDraft({ ...draft, digits: e.target.valueAsNumber })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="invoice-footer">Footer</Label>
+          <Input
+            id="invoice-footer"
+            value={draft.footer}
+            onChange={(e) => setDraft({ ...draft, footer: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Next invoice:{' '}
+            <span className="font-medium text-foreground">
+              {isValid ? formatInvoiceNumber({ ...draft, prefix: draft.prefix.trim() }, draft.nextNumber) : '-'}
+            </span>
+          </p>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={disabled || !isChanged || !isValid}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InvoiceSettingsCard;
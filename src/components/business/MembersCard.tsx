@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBusiness } from '@/contexts/useBusiness';
+import { updateMemberRole } from '@/utils/business';
+import { ROLES, getRoleLabel, type Role } from '@/utils/permissions';
+
+const MembersCard: React.FC = () => {
+  const { user } = useAuth();
+  const { activeBusiness, refreshBusinesses } = useBusiness();
+  const [updatingMemberId, setUpdatingMemberId] = useState<string | null>(null);
+
+  if (!activeBusiness) {
+    return null;
+  }
+
+  const members = Object.entries(activeBusiness.members)
+    .sort(([, a], [, b]) => (a.email ?? '').localeCompare(b.email ?? ''));
+
+  const handleRoleChange = async (memberId: string, role: Role) => {
+    setUpdatingMemberId(memberId);
+    try {
+      await updateMemberRole(activeBusiness, memberId, role);
+      await refreshBusinesses();
+      toast.success('Role updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update role', {
+        dismissible: true
+      });
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Members</CardTitle>
+        <CardDescription>
+          Roles control which pages and actions each member of {activeBusiness.name} can use.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-2">
+          {members.map(([memberId, member]) => (
+            <div
+              key={memberId}
+              className="flex items-center justify-between gap-4 p-2 rounded-md border"
+            >
+              <span className="text-sm truncate">
+                {member.email || memberId}
+                {memberId === user?.uid && (
+                  <span className="text-muted-foreground"> (you)</span>
+                )}
+              </span>
+              <Select
+                value={member.role}
+                onValueChange={(value) => handleRoleChange(memberId, value as Role)}
+                disabled={updatingMemberId !== null}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {getRoleLabel(role)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MembersCard;
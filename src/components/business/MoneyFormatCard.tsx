@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import { updateMoneyFormat } from '@/utils/business';
+import { toMinorUnits } from '@/utils/money';
+import {
+  DECIMAL_OPTIONS,
+  DIGIT_GROUPINGS,
+  formatMoney,
+  type DigitGrouping,
+  type MoneyFormat
+} from '@/utils/numberFormat';
+
+const PREVIEW_AMOUNT = toMinorUnits(1234567.89);
+
+const MoneyFormatCard: React.FC = () => {
+  const { activeBusiness, refreshBusinesses, can } = useBusiness();
+  const [draft, setDraft] = useState<MoneyFormat | null>(activeBusiness?.moneyFormat ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(activeBusiness?.moneyFormat ?? null);
+  }, [activeBusiness?.moneyFormat]);
+
+  if (!activeBusiness || !draft) {
+    return null;
+  }
+
+  const canEdit = can('members.manage');
+  const symbol = draft.symbol.trim();
+  const isChanged = JSON.stringify({ ...draft, symbol }) !== JSON.stringify(activeBusiness.moneyFormat);
+
+  const handleSave = async () => {
+    if (!symbol) {
+      toast.error('Please enter a currency symbol', {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateMoneyFormat(activeBusiness.id, { ...draft, symbol });
+      await refreshBusinesses();
+      toast.success('Number format updated', {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating number format:', error);
+      toast.error('Failed to update number format', {
+        dismissible: true
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Currency & Number Format</CardTitle>
+        <CardDescription>
+          How amounts are shown across the app. Amounts are always stored to two decimal places.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="money-symbol">Currency symbol</Label>
+            <Input
+              id="money-symbol"
+              value={draft.symbol}
+              maxLength={4}
+              onChange={(e) => setDraft({ ...draft, symbol: e.target.value })}
+              disabled={isSaving || !canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="money-decimals">Decimal places</Label>
+            <Select
+              value={String(draft.decimals)}
+              onValueChange={(value) => setDraft({ ...draft, decimals: Number(value) as MoneyFormat['decimals'] })}
+              disabled={isSaving || !canEdit}
+            >
+              <SelectTrigger id="money-decimals">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DECIMAL_OPTIONS.map((decimals) => (
+                  <SelectItem key={decimals} value={String(decimals)}>
+                    {decimals}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Digit grouping</Label>
+          <RadioGroup
+            value={draft.grouping}
+            onValueChange={(value) => setDraft({ ...draft, grouping: value as DigitGrouping })}
+            disabled={isSaving || !canEdit}
+          >
+            {DIGIT_GROUPINGS.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`grouping-${option.value}`} />
+                <Label htmlFor={`grouping-${option.value}`}>
+                  {option.label} <span className="text-muted-foreground">({option.example})</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Preview: <span className="font-medium text-foreground">{formatMoney(PREVIEW_AMOUNT, { ...draft, symbol })}</span>
+          </p>
+          {canEdit && (
+            <Button onClick={handleSave} disabled={isSaving || !isChanged}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MoneyFormatCard;
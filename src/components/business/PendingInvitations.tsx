@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import type { BusinessInvitation } from '@/utils/business';
+
+const PendingInvitations = () => {
+  const { invitations, acceptBusinessInvitation } = useBusiness();
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  const handleAccept = async (invitation: BusinessInvitation) => {
+    if (!invitation.id) return;
+
+    try {
+      setAcceptingId(invitation.id);
+      await acceptBusinessInvitation(invitation);
+      toast.success(`Joined ${invitation.businessName}`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast.error('Failed to accept invitation', {
+        dismissible: true
+      });
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-muted-foreground">Pending Invitations</h3>
+      {invitations.map((invitation) => (
+        <div
+          key={invitation.id}
+          className="flex items-center justify-between p-2 rounded-md border"
+        >
+          <div>
+            <p className="text-sm font-medium">{invitation.businessName}</p>
+            {invitation.invitedBy && (
+              <p className="text-xs text-muted-foreground">Invited by {invitation.invitedBy}</p>
+            )}
+          </div>
+          <Button
+            size="sm"
+            onClick={() => handleAccept(invitation)}
+            disabled={acceptingId !== null}
+          >
+            {acceptingId === invitation.id ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              'Accept'
+            )}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PendingInvitations;
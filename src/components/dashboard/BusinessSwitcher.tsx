@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { PlusIcon, PersonIcon } from '@radix-ui/react-icons';
+import { useBusiness } from '@/contexts/useBusiness';
+import CreateBusinessForm from '@/components/business/CreateBusinessForm';
+import InviteMemberDialog from '@/components/business/InviteMemberDialog';
+import PendingInvitations from '@/components/business/PendingInvitations';
+
+const BusinessSwitcher = () => {
+  const { businesses, activeBusiness, invitations, switchBusiness, can } = useBusiness();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  if (!activeBusiness) {
+    return null;
+  }
+
+  return (
+    <div className="border-b p-3 space-y-2">
+      <Select value={activeBusiness.id} onValueChange={switchBusiness}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select business" />
+        </SelectTrigger>
+        <SelectContent>
+          {businesses.map((business) => (
+            <SelectItem key={business.id} value={business.id}>
+              {business.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex-1 justify-start gap-2"
+          onClick={() => setIsCreateOpen(true)}
+        >
+          <PlusIcon className="h-4 w-4" />
+          New
+          {invitations.length > 0 && (
+            <span className="ml-auto rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+              {invitations.length}
+            </span>
+          )}
+        </Button>
+        {can('members.manage') && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1 justify-start gap-2"
+            onClick={() => setIsInviteOpen(true)}
+          >
+            <PersonIcon className="h-4 w-4" />
+            Invite
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Business</DialogTitle>
+            <DialogDescription>
+              Each business keeps its own sales, purchases, expenses and settings.
+            </DialogDescription>
+          </DialogHeader>
+          <CreateBusinessForm onCreated={() => setIsCreateOpen(false)} />
+          {invitations.length > 0 && (
+            <>
+              <Separator />
+              <PendingInvitations />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <InviteMemberDialog
+        business={activeBusiness}
+        open={isInviteOpen}
+        onOpenChange={setIsInviteOpen}
+      />
+    </div>
+  );
+};
+
+export default BusinessSwitcher;
@@ -1,6 +1,7 @@
 import { NavLink } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
 import { useAuth } from '@/contexts/AuthContext';
+import { useBusiness } from '@/contexts/useBusiness';
 import { 
   HomeIcon, 
   MinusIcon,
@@ -9,104 +10,274 @@ import {
   ExitIcon,
   BarChartIcon,
   LayersIcon,
-  RocketIcon
+  RocketIcon,
+  ReaderIcon,
+  CubeIcon,
+  PersonIcon,
+  ArchiveIcon,
+  ResetIcon,
+  MixerHorizontalIcon,
+  ClipboardIcon,
+  TimerIcon,
+  CountdownTimerIcon
 } from '@radix-ui/react-icons';
 import ThemeToggle from '../theme/ThemeToggle';
+import BusinessSwitcher from './BusinessSwitcher';
+import SyncStatus from './SyncStatus';
 import fullLogo from '@/assets/opulec-full-logo.png';
 
 const Sidebar = () => {
   const { logout } = useAuth();
+  const { can } = useBusiness();
 
   return (
-    <div className="h-screen w-64 border-r bg-background flex flex-col flex-shrink-0">
+    <div className="h-screen w-64 border-r bg-background flex flex-col flex-shrink-0 print:hidden">
       <div className="h-16 border-b flex items-center justify-center px-4">
         <img src={fullLogo} alt="Opulec Logo" className="h-8 object-contain" />
       </div>
+
+      <BusinessSwitcher />
       
       <nav className="flex-1 p-3 space-y-1 overflow-y-auto">
-        <NavLink 
-          to="/" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <HomeIcon className="h-4 w-4" />
-          Dashboard
-        </NavLink>
+        {can('reports.view') && (
+          <NavLink 
+            to="/" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <HomeIcon className="h-4 w-4" />
+            Dashboard
+          </NavLink>
+        )}
         
-        <NavLink 
-          to="/sales" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <BarChartIcon className="h-4 w-4" />
-          Sales
-        </NavLink>
+        {can('sales.read') && (
+          <NavLink 
+            to="/sales" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <BarChartIcon className="h-4 w-4" />
+            Sales
+          </NavLink>
+        )}
 
-        <NavLink 
-          to="/purchases" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <BackpackIcon className="h-4 w-4" />
-          Purchases
-        </NavLink>
+        {can('saleReturns.read') && (
+          <NavLink 
+            to="/returns" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <ResetIcon className="h-4 w-4" />
+            Returns
+          </NavLink>
+        )}
 
-        <NavLink 
-          to="/expenses" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <MinusIcon className="h-4 w-4" />
-          Expenses
-        </NavLink>
+        {can('salePayments.read') && (
+          <NavLink 
+            to="/receivables" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <TimerIcon className="h-4 w-4" />
+            Receivables
+          </NavLink>
+        )}
 
-        <NavLink 
-          to="/assets" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <LayersIcon className="h-4 w-4" />
-          Assets
-        </NavLink>
+        {can('purchases.read') && (
+          <NavLink 
+            to="/purchases" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <BackpackIcon className="h-4 w-4" />
+            Purchases
+          </NavLink>
+        )}
 
-        <NavLink 
-          to="/investments" 
-          className={({ isActive }) => 
-            `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
-              isActive 
-                ? 'bg-secondary text-secondary-foreground' 
-                : 'hover:bg-secondary/50'
-            }`
-          }
-        >
-          <RocketIcon className="h-4 w-4" />
-          Investments
-        </NavLink>
+        {can('purchaseOrders.read') && (
+          <NavLink 
+            to="/purchase-orders" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <ClipboardIcon className="h-4 w-4" />
+            Purchase Orders
+          </NavLink>
+        )}
+
+        {can('billPayments.read') && (
+          <NavLink 
+            to="/payables" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <CountdownTimerIcon className="h-4 w-4" />
+            Payables
+          </NavLink>
+        )}
+
+        {can('products.read') && (
+          <NavLink 
+            to="/products" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <CubeIcon className="h-4 w-4" />
+            Products
+          </NavLink>
+        )}
+
+        {can('stockAdjustments.read') && (
+          <NavLink 
+            to="/stock-adjustments" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <MixerHorizontalIcon className="h-4 w-4" />
+            Stock Adjustments
+          </NavLink>
+        )}
+
+        {can('customers.read') && (
+          <NavLink 
+            to="/customers" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <PersonIcon className="h-4 w-4" />
+            Customers
+          </NavLink>
+        )}
+
+        {can('suppliers.read') && (
+          <NavLink 
+            to="/suppliers" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <ArchiveIcon className="h-4 w-4" />
+            Suppliers
+          </NavLink>
+        )}
+
+        {can('expenses.read') && (
+          <NavLink 
+            to="/expenses" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <MinusIcon className="h-4 w-4" />
+            Expenses
+          </NavLink>
+        )}
+
+        {can('assets.read') && (
+          <NavLink 
+            to="/assets" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <LayersIcon className="h-4 w-4" />
+            Assets
+          </NavLink>
+        )}
+
+        {can('investments.read') && (
+          <NavLink 
+            to="/investments" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <RocketIcon className="h-4 w-4" />
+            Investments
+          </NavLink>
+        )}
+
+        {can('journalEntries.read') && (
+          <NavLink 
+            to="/ledger" 
+            className={({ isActive }) => 
+              `flex items-center gap-3 px-3 py-2 text-sm rounded-md transition-colors ${
+                isActive 
+                  ? 'bg-secondary text-secondary-foreground' 
+                  : 'hover:bg-secondary/50'
+              }`
+            }
+          >
+            <ReaderIcon className="h-4 w-4" />
+            Ledger
+          </NavLink>
+        )}
 
         <NavLink 
           to="/settings" 
@@ -123,6 +294,8 @@ const Sidebar = () => {
         </NavLink>
       </nav>
 
+      <SyncStatus />
+
       <div className="border-t p-3 flex-shrink-0">
         <div className="flex items-center gap-2">
           <Button 
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { CheckCircledIcon, ExclamationTriangleIcon, UpdateIcon } from '@radix-ui/react-icons';
+import { useSync } from '@/contexts/useSync';
+import ConflictReviewDialog from '@/components/sync/ConflictReviewDialog';
+
+const SyncStatus = () => {
+  const { isOnline, isSyncing, pendingCount, conflicts, syncNow } = useSync();
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+
+  const renderStatus = () => {
+    if (isSyncing) {
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Syncing...
+        </span>
+      );
+    }
+    if (!isOnline) {
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <span className="h-2 w-2 rounded-full bg-yellow-500" />
+          Offline{pendingCount > 0 && ` · ${pendingCount} pending`}
+        </span>
+      );
+    }
+    if (pendingCount > 0) {
+      return (
+        <Button variant="ghost" size="sm" className="h-auto p-0 gap-2 font-normal" onClick={syncNow}>
+          <UpdateIcon className="h-3 w-3" />
+          {pendingCount} pending · Sync now
+        </Button>
+      );
+    }
+    return (
+      <span className="flex items-center gap-2 text-muted-foreground">
+        <CheckCircledIcon className="h-3 w-3" />
+        All changes synced
+      </span>
+    );
+  };
+
+  return (
+    <div className="px-3 pb-2 space-y-1 text-xs">
+      {renderStatus()}
+      {conflicts.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-auto p-0 gap-2 font-normal text-yellow-600 dark:text-yellow-500"
+          onClick={() => setIsReviewOpen(true)}
+        >
+          <ExclamationTriangleIcon className="h-3 w-3" />
+          {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'} to review
+        </Button>
+      )}
+      <ConflictReviewDialog open={isReviewOpen} onOpenChange={setIsReviewOpen} />
+    </div>
+  );
+};
+
+export default SyncStatus;
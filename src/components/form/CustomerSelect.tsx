@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CaretSortIcon, CheckIcon } from "@radix-ui/react-icons";
+import { Plus } from 'lucide-react';
+import type { Customer } from '@/utils/database';
+
+interface CustomerSelectProps {
+  // Id of the selected customer, or empty for none
+  value: string;
+  // Shown when the selected customer is no longer in the list, e.g. after being deleted
+  fallbackLabel?: string;
+  onSelect: (customer: Customer | null) => void;
+  customers: Customer[];
+  onAddCustomer?: (name: string) => Promise<Customer>;
+  disabled?: boolean;
+}
+
+// Pick a customer by name or phone number; the selection can be cleared
+const CustomerSelect: React.FC<CustomerSelectProps> = ({
+  value,
+  fallbackLabel,
+  onSelect,
+  customers,
+  onAddCustomer,
+  disabled = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = customers.find(customer => customer.id === value);
+
+  const handleSelect = (customer: Customer | null) => {
+    onSelect(customer);
+    setInputValue('');
+    setOpen(false);
+    setError(null);
+  };
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && inputValue && onAddCustomer) {
+      e.preventDefault();
+      try {
+        handleSelect(await onAddCustomer(inputValue));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+        console.error('CustomerSelect error:', err);
+      }
+    }
+  };
+
+  const search = inputValue.toLowerCase();
+  const filteredCustomers = customers.filter(customer =>
+    customer.name.toLowerCase().includes(search) || customer.phone.includes(search)
+  );
+
+  return (
+    <div className="relative">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between"
+            disabled={disabled}
+          >
+            {selected?.name || (value && fallbackLabel) || 'Walk-in customer'}
+            <CaretSortIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start" sideOffset={4}>
+          <Command shouldFilter={false} className="w-full">
+            <CommandInput
+              placeholder={onAddCustomer ? 'Search or add customer...' : 'Search name or phone...'}
+              value={inputValue}
+              onValueChange={setInputValue}
+              onKeyDown={handleKeyDown}
+            />
+            <CommandList>
+              <CommandEmpty className="py-2 text-center text-sm">
+                {inputValue && onAddCustomer && (
+                  <div className="flex items-center justify-center gap-2 text-sm">
+                    <Plus className="h-4 w-4" />
+                    <span>Press Enter to add "{inputValue}"</span>
+                  </div>
+                )}
+                {!inputValue && filteredCustomers.length === 0 && 'No customers found'}
+              </CommandEmpty>
+              <CommandGroup className="p-0">
+                {value && !inputValue && (
+                  <div
+                    className="px-2 py-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground cursor-pointer"
+                    onClick={() => handleSelect(null)}
+                    role="button"
+                    tabIndex={0}
+                  >
+                    No customer
+                  </div>
+                )}
+                {filteredCustomers.map((customer) => (
+                  <div
+                    key={customer.id}
+                    className="flex items-center justify-between px-2 py-1.5 hover:bg-accent hover:text-accent-foreground cursor-pointer"
+                    onClick={() => handleSelect(customer)}
+                    role="button"
+                    tabIndex={0}
+                  >
+                    <span>
+                      {customer.name}
+                      {customer.phone && <span className="text-muted-foreground"> ({customer.phone})</span>}
+                    </span>
+                    {value === customer.id && (
+                      <CheckIcon className="h-4 w-4" />
+                    )}
+                  </div>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {error && (
+        <div className="text-sm text-red-500 mt-1">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerSelect;
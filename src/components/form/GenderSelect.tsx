@@ -5,12 +5,18 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 interface GenderSelectProps {
   value: string;
   onValueChange: (value: string) => void;
+  // Defaults to the product audiences Men, Women and Unisex
+  options?: string[];
+  // Keeps radio ids unique when the select appears more than once on a page
+  idPrefix?: string;
   disabled?: boolean;
 }
 
 const GenderSelect: React.FC<GenderSelectProps> = ({
   value,
   onValueChange,
+  options = ['Men', 'Women', 'Unisex'],
+  idPrefix = '',
   disabled = false
 }) => {
   return (
@@ -20,20 +26,14 @@ const GenderSelect: React.FC<GenderSelectProps> = ({
       className="flex gap-4"
       disabled={disabled}
     >
-      <div className="flex items-center space-x-2">
-        <RadioGroupItem value="Men" id="men" />
-        <Label htmlFor="men">Men</Label>
-      </div>
-      <div className="flex items-center space-x-2">
-        <RadioGroupItem value="Women" id="women" />
-        <Label htmlFor="women">Women</Label>
-      </div>
-      <div className="flex items-center space-x-2">
-        <RadioGroupItem value="Unisex" id="unisex" />
-        <Label htmlFor="unisex">Unisex</Label>
-      </div>
+      {options.map((option) => (
+        <div key={option} className="flex items-center space-x-2">
+          <RadioGroupItem value={option} id={`${idPrefix}${option.toLowerCase()}`} />
+          <Label htmlFor={`${idPrefix}${option.toLowerCase()}`}>{option}</Label>
+        </div>
+      ))}
     </RadioGroup>
   );
 };
 
-export default GenderSelect; 
\ No newline at end of file
+export default GenderSelect;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CaretSortIcon, CheckIcon } from "@radix-ui/react-icons";
+import { Plus } from 'lucide-react';
+import type { Product } from '@/utils/database';
+
+interface ProductSelectProps {
+  // Id of the selected product
+  value: string;
+  // Shown when the record names a product that is not linked to one
+  fallbackLabel?: string;
+  onSelect: (product: Product) => void;
+  products: Product[];
+  onAddProduct?: (name: string) => Promise<Product>;
+  disabled?: boolean;
+}
+
+// Pick a product by name or SKU. Inactive products are hidden unless already selected.
+const ProductSelect: React.FC<ProductSelectProps> = ({
+  value,
+  fallbackLabel,
+  onSelect,
+  products,
+  onAddProduct,
+  disabled = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = products.find(product => product.id === value);
+
+  const handleSelect = (product: Product) => {
+    onSelect(product);
+    setInputValue('');
+    setOpen(false);
+    setError(null);
+  };
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && inputValue && onAddProduct) {
+      e.preventDefault();
+      try {
+        handleSelect(await onAddProduct(inputValue));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+        console.error('ProductSelect error:', err);
+      }
+    }
+  };
+
+  const search = inputValue.toLowerCase();
+  const filteredProducts = products.filter(product =>
+    (product.isActive || product.id === value) &&
+    (product.name.toLowerCase().includes(search) || product.sku.toLowerCase().includes(search))
+  );
+
+  return (
+    <div className="relative">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between"
+            disabled={disabled}
+          >
+            {selected?.name || fallbackLabel || 'Select product'}
+            <CaretSortIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start" sideOffset={4}>
+          <Command shouldFilter={false} className="w-full">
+            <CommandInput
+              placeholder={onAddProduct ? 'Search or add product...' : 'Search product or SKU...'}
+              value={inputValue}
+              onValueChange={setInputValue}
+              onKeyDown={handleKeyDown}
+            />
+            <CommandList>
+              <CommandEmpty className="py-2 text-center text-sm">
+                {inputValue && onAddProduct && (
+                  <div className="flex items-center justify-center gap-2 text-sm">
+                    <Plus className="h-4 w-4" />
+                    <span>Press Enter to add "{inputValue}"</span>
+                  </div>
+                )}
+                {!inputValue && filteredProducts.length === 0 && 'No products found'}
+              </CommandEmpty>
+              <CommandGroup className="p-0">
+                {filteredProducts.map((product) => (
+                  <div
+                    key={product.id}
+                    className="flex items-center justify-between px-2 py-1.5 hover:bg-accent hover:text-accent-foreground cursor-pointer"
+                    onClick={() => handleSelect(product)}
+                    role="button"
+                    tabIndex={0}
+                  >
+                    <span>
+                      {product.name}
+                      {product.sku && <span className="text-muted-foreground"> ({product.sku})</span>}
+                    </span>
+                    {value === product.id && (
+                      <CheckIcon className="h-4 w-4" />
+                    )}
+                  </div>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {error && (
+        <div className="text-sm text-red-500 mt-1">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductSelect;
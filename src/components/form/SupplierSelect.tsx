@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CaretSortIcon, CheckIcon } from "@radix-ui/react-icons";
+import { Plus } from 'lucide-react';
+import type { Supplier } from '@/utils/database';
+
+interface SupplierSelectProps {
+  // Id of the selected supplier, or empty for none
+  value: string;
+  // Shown when the selected supplier is no longer in the list, e.g. after being deleted
+  fallbackLabel?: string;
+  onSelect: (supplier: Supplier | null) => void;
+  suppliers: Supplier[];
+  onAddSupplier?: (name: string) => Promise<Supplier>;
+  disabled?: boolean;
+}
+
+// Pick a supplier by name or phone number; the selection can be cleared
+const SupplierSelect: React.FC<SupplierSelectProps> = ({
+  value,
+  fallbackLabel,
+  onSelect,
+  suppliers,
+  onAddSupplier,
+  disabled = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = suppliers.find(supplier => supplier.id === value);
+
+  const handleSelect = (supplier: Supplier | null) => {
+    onSelect(supplier);
+    setInputValue('');
+    setOpen(false);
+    setError(null);
+  };
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Enter' && inputValue && onAddSupplier) {
+      e.preventDefault();
+      try {
+        handleSelect(await onAddSupplier(inputValue));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+        console.error('SupplierSelect error:', err);
+      }
+    }
+  };
+
+  const search = inputValue.toLowerCase();
+  const filteredSuppliers = suppliers.filter(supplier =>
+    supplier.name.toLowerCase().includes(search) || supplier.phone.includes(search)
+  );
+
+  return (
+    <div className="relative">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between"
+            disabled={disabled}
+          >
+            {selected?.name || (value && fallbackLabel) || 'Select supplier'}
+            <CaretSortIcon className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="p-0 w-[--radix-popover-trigger-width]" align="start" sideOffset={4}>
+          <Command shouldFilter={false} className="w-full">
+            <CommandInput
+              placeholder={onAddSupplier ? 'Search or add supplier...' : 'Search name or phone...'}
+              value={inputValue}
+              onValueChange={setInputValue}
+              onKeyDown={handleKeyDown}
+            />
+            <CommandList>
+              <CommandEmpty className="py-2 text-center text-sm">
+                {inputValue && onAddSupplier && (
+                  <div className="flex items-center justify-center gap-2 text-sm">
+                    <Plus className="h-4 w-4" />
+                    <span>Press Enter to add "{inputValue}"</span>
+                  </div>
+                )}
+                {!inputValue && filteredSuppliers.length === 0 && 'No suppliers found'}
+              </CommandEmpty>
+              <CommandGroup className="p-0">
+                {value && !inputValue && (
+                  <div
+                    className="px-2 py-1.5 text-muted-foreground hover:bg-accent hover:text-accent-foreground cursor-pointer"
+                    onClick={() => handleSelect(null)}
+                    role="button"
+                    tabIndex={0}
+                  >
+                    No supplier
+                  </div>
+                )}
+                {filteredSuppliers.map((supplier) => (
+                  <div
+                    key={supplier.id}
+                    className="flex items-center justify-between px-2 py-1.5 hover:bg-accent hover:text-accent-foreground cursor-pointer"
+                    onClick={() => handleSelect(supplier)}
+                    role="button"
+                    tabIndex={0}
+                  >
+                    <span>
+                      {supplier.name}
+                      {supplier.phone && <span className="text-muted-foreground"> ({supplier.phone})</span>}
+                    </span>
+                    {value === supplier.id && (
+                      <CheckIcon className="h-4 w-4" />
+                    )}
+                  </div>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {error && (
+        <div className="text-sm text-red-500 mt-1">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierSelect;
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface NewRowsIndicatorProps {
+  count: number;
+}
+
+const NewRowsIndicator: React.FC<NewRowsIndicatorProps> = ({ count }) => {
+  if (count === 0) return null;
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+      <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+      {count === 1 ? '1 new entry' : `${count} new entries`}
+    </span>
+  );
+};
+
+export default NewRowsIndicator;
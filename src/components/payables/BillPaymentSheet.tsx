@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import dayjs from 'dayjs';
+import {
+  PAYMENT_METHODS,
+  addBillPayment,
+  deleteBillPayment,
+  getBillBalance,
+  getBillPaymentsForBill,
+  getPurchaseReturnsForPurchase,
+  type Bill,
+  type BillPayment,
+  type PaymentMethod,
+  type PurchaseReturn
+} from '@/utils/database';
+import { toMajorUnits, toMinorUnits } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+import { useBusiness } from '@/contexts/useBusiness';
+
+interface BillPaymentSheetProps {
+  // The purchase or expense being paid; the sheet is closed while null
+  bill: Bill | null;
+  onClose: () => void;
+}
+
+interface PaymentFormValues {
+  date: string;
+  // As typed, in major units
+  amount: string;
+  method: PaymentMethod;
+  notes: string;
+}
+
+const methodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(option => option.value === method)?.label ?? method;
+};
+
+const BillPaymentSheet: React.FC<BillPaymentSheetProps> = ({ bill, onClose }) => {
+  const { can } = useBusiness();
+  const [payments, setPayments] = useState<BillPayment[]>([]);
+  const [returns, setReturns] = useState<PurchaseReturn[]>([]);
+  const [values, setValues] = useState<PaymentFormValues>({ date: todayISODate(), amount: '', method: 'cash', notes: '' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Reload what has been settled and start the next payment from what is still owed
+  const loadPayments = async (target: Bill) => {
+    try {
+      setIsLoading(true);
+      const [billPayments, purchaseReturns] = await Promise.all([
+        getBillPaymentsForBill(target.id),
+        target.type === 'purchase' ? getPurchaseReturnsForPurchase(target.id) : Promise.resolve([])
+      ]);
+      setPayments(billPayments);
+      setReturns(purchaseReturns);
+      const { due } = getBillBalance(target, billPayments, purchaseReturns);
+      setValues({
+        date: todayISODate(),
+        amount: due > 0 ? String(toMajorUnits(due)) : '',
+        method: 'cash',
+        notes: ''
+      });
+    } catch (error) {
+      console.error('Error loading bill payments:', error);
+      toast.error('Failed to load payments', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!bill?.id) return;
+    loadPayments(bill);
+  }, [bill]);
+
+  if (!bill) {
+    return null;
+  }
+
+  const balance = getBillBalance(bill, payments, returns);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      await addBillPayment({
+        date: values.date,
+        billType: bill.type,
+        billId: bill.id,
+        amount: toMinorUnits(values.amount),
+        method: values.method,
+        notes: values.notes
+      });
+      toast.success(savedMessage('Payment recorded successfully'), {
+        dismissible: true
+      });
+      await loadPayments(bill);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (payment: BillPayment) => {
+    if (!payment.id) return;
+
+    try {
+      setDeletingId(payment.id);
+      await deleteBillPayment(payment.id);
+      toast.success(savedMessage('Payment deleted successfully'), {
+        dismissible: true
+      });
+      await loadPayments(bill);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete payment', {
+        dismissible: true
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Payments</SheetTitle>
+          <SheetDescription>
+            Money paid to {bill.payee} for {bill.reference}, due {dayjs(bill.dueDate).format('DD-MMM-YYYY')}.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading payments...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Bill</span>
+                <span>{formatMoney(bill.amount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid</span>
+                <span>{formatMoney(balance.paid)}</span>
+              </div>
+              {balance.credited > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Credited by returns</span>
+                  <span>{formatMoney(balance.credited)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Balance due</span>
+                <span>{formatMoney(balance.due)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Paid</h3>
+              {bill.paidOnEntry > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {dayjs(bill.date).format('DD-MMM-YYYY')}
+                    <span className="text-muted-foreground"> (when entered)</span>
+                  </span>
+                  <span>{formatMoney(bill.paidOnEntry)}</span>
+                </div>
+              )}
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p>{dayjs(payment.date).format('DD-MMM-YYYY')} · {methodLabel(payment.method)}</p>
+                    {payment.notes && (
+                      <p className="text-xs text-muted-foreground truncate">{payment.notes}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span>{formatMoney(payment.amount)}</span>
+                    {can('billPayments.delete') && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(payment)}
+                        className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        disabled={deletingId !== null}
+                        title="Delete payment"
+                      >
+                        {deletingId === payment.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {bill.paidOnEntry === 0 && payments.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing paid yet</p>
+              )}
+            </div>
+
+            {can('billPayments.create') && balance.due > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+                <h3 className="text-sm font-medium">Record Payment</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="payment-date">Date</Label>
+                    <Input
+                      id="payment-date"
+                      type="date"
+                      value={values.date}
+                      min={bill.date}
+                      onChange={(e) => setValues({ ...values, date: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment-amount">Amount</Label>
+                    <Input
+                      id="payment-amount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={values.amount}
+                      onChange={(e) => setValues({ ...values, amount: e.target.value })}
+                      placeholder={moneyPlaceholder()}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="payment-method">Method</Label>
+                  <Select
+                    value={values.method}
+                    onValueChange={(method) => setValues({ ...values, method: method as PaymentMethod })}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="payment-notes">Notes</Label>
+                  <Input
+                    id="payment-notes"
+                    value={values.notes}
+                    onChange={(e) => setValues({ ...values, notes: e.target.value })}
+                    placeholder="Cheque number, transaction ID..."
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Record Payment'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default BillPaymentSheet;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ZERO_MONEY, subtractMoney, toMinorUnits, type Money } from '@/utils/money';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import type { BillPaymentTerms, BillTermsValues } from '@/utils/billTerms';
+
+interface BillTermsFieldsProps {
+  values: BillTermsValues;
+  onChange: (values: BillTermsValues) => void;
+  // What is owed in cash, in the base currency
+  amount: Money;
+  // Offered as the due date once the bill is not paid in full, e.g. from supplier terms
+  defaultDueDate: string;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Payment fields shared by the purchase and expense forms
+const BillTermsFields: React.FC<BillTermsFieldsProps> = ({
+  values,
+  onChange,
+  amount,
+  defaultDueDate,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-2">
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}payment`}>Payment</Label>
+        <Select
+          value={values.payment}
+          onValueChange={(payment) => onChange({
+            ...values,
+            payment: payment as BillPaymentTerms,
+            dueDate: values.dueDate || defaultDueDate
+          })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}payment`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="full">Paid in full</SelectItem>
+            <SelectItem value="part">Part paid</SelectItem>
+            <SelectItem value="none">Not yet paid</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {values.payment !== 'full' && (
+        <div>
+          <Label htmlFor={`${idPrefix}dueDate`}>Due Date</Label>
+          <Input
+            id={`${idPrefix}dueDate`}
+            type="date"
+            value={values.dueDate}
+            onChange={(e) => onChange({ ...values, dueDate: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+
+    {values.payment === 'part' && (
+      <div>
+        <Label htmlFor={`${idPrefix}paidOnEntry`}>Paid Now</Label>
+        <Input
+          id={`${idPrefix}paidOnEntry`}
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.paidOnEntry}
+          onChange={(e) => onChange({ ...values, paidOnEntry: e.target.value })}
+          placeholder={moneyPlaceholder()}
+          disabled={disabled}
+        />
+      </div>
+    )}
+
+    {values.payment !== 'full' && (
+      <p className="text-xs text-muted-foreground">
+        {formatMoney(subtractMoney(amount, values.payment === 'part' ? toMinorUnits(values.paidOnEntry) : ZERO_MONEY))} will be owed
+      </p>
+    )}
+  </div>
+);
+
+export default BillTermsFields;
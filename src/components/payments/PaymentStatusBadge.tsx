@@ -0,0 +1,31 @@
+import React from 'react';
+import { cn } from "@/lib/utils";
+import { PAYMENT_STATUSES, type PaymentStatus } from '@/utils/database';
+import { formatMoney } from '@/utils/numberFormat';
+import type { Money } from '@/utils/money';
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  paid: 'bg-green-500/10 text-green-600',
+  partial: 'bg-amber-500/10 text-amber-600',
+  unpaid: 'bg-red-500/10 text-red-500'
+};
+
+const statusLabel = (status: PaymentStatus): string => {
+  return PAYMENT_STATUSES.find(option => option.value === status)?.label ?? status;
+};
+
+// Payment state of a sale or bill, with what is still owed under it
+const PaymentStatusBadge: React.FC<{ status: PaymentStatus; due: Money }> = ({ status, due }) => (
+  <>
+    <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_STYLES[status])}>
+      {statusLabel(status)}
+    </span>
+    {due > 0 && (
+      <div className="text-xs text-muted-foreground mt-1">
+        {formatMoney(due)} due
+      </div>
+    )}
+  </>
+);
+
+export default PaymentStatusBadge;
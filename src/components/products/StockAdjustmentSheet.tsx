@@ -0,0 +1,286 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  ADJUSTMENT_REASONS,
+  addStockAdjustment,
+  getInventoryValuation,
+  type AdjustmentReason,
+  type Product
+} from '@/utils/database';
+import { productKey, type CostingMethod, type StockItem } from '@/utils/inventory';
+import { multiplyMoney, toMajorUnits, toMinorUnits } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+import ProductSelect from '@/components/form/ProductSelect';
+
+interface StockAdjustmentSheetProps {
+  open: boolean;
+  products: Product[];
+  costingMethod: CostingMethod;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Amounts are held as typed, in major units, until the form is submitted
+interface AdjustmentFormValues {
+  date: string;
+  productId: string;
+  product: string;
+  reason: AdjustmentReason;
+  // Units as typed; only count corrections take a sign, other reasons set it
+  quantity: string;
+  unitCost: string;
+  notes: string;
+}
+
+const emptyAdjustmentForm = (): AdjustmentFormValues => ({
+  date: todayISODate(),
+  productId: '',
+  product: '',
+  reason: 'damaged',
+  quantity: '',
+  unitCost: '',
+  notes: ''
+});
+
+// The signed change in stock the form describes
+const quantityChange = (values: AdjustmentFormValues): number => {
+  const units = Number(values.quantity) || 0;
+  const direction = ADJUSTMENT_REASONS.find(option => option.value === values.reason)?.direction;
+  if (direction === 'out') return -Math.abs(units);
+  if (direction === 'in') return Math.abs(units);
+  return units;
+};
+
+const StockAdjustmentSheet: React.FC<StockAdjustmentSheetProps> = ({
+  open,
+  products,
+  costingMethod,
+  onClose,
+  onSaved
+}) => {
+  const [values, setValues] = useState<AdjustmentFormValues>(emptyAdjustmentForm());
+  const [stock, setStock] = useState<Record<string, StockItem>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadStock = async (method: CostingMethod) => {
+      try {
+        setIsLoading(true);
+        setValues(emptyAdjustmentForm());
+        setStock((await getInventoryValuation(method)).stock);
+      } catch (error) {
+        console.error('Error loading stock:', error);
+        toast.error('Failed to load current stock', {
+          dismissible: true
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadStock(costingMethod);
+  }, [open, costingMethod]);
+
+  const current = values.productId ? stock[values.productId] : undefined;
+  const change = quantityChange(values);
+  const direction = ADJUSTMENT_REASONS.find(option => option.value === values.reason)?.direction;
+
+  // Suggest the average cost on hand, which the user can override
+  const handleProductChange = (product: Product) => {
+    const item = stock[productKey({ productId: product.id, product: product.name })];
+    setValues(prev => ({
+      ...prev,
+      productId: product.id,
+      product: product.name,
+      unitCost: item ? String(toMajorUnits(item.averageCost)) : prev.unitCost
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      await addStockAdjustment({
+        date: values.date,
+        productId: values.productId,
+        product: values.product,
+        quantity: change,
+        reason: values.reason,
+        unitCost: toMinorUnits(Number(values.unitCost) || 0),
+        notes: values.notes
+      });
+      toast.success(savedMessage('Stock adjusted successfully'), {
+        dismissible: true
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error adjusting stock:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to adjust stock', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Adjust Stock</SheetTitle>
+          <SheetDescription>
+            Record opening stock, or stock that was damaged, lost, given away or found in a count.
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading stock...
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-date">Date</Label>
+              <Input
+                id="adjustment-date"
+                type="date"
+                value={values.date}
+                onChange={(e) => setValues({ ...values, date: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Product</Label>
+              <ProductSelect
+                value={values.productId}
+                onSelect={handleProductChange}
+                products={products}
+                disabled={isSubmitting}
+              />
+              {values.productId && (
+                <p className="text-sm text-muted-foreground">
+                  {current
+                    ? `${current.quantity} on hand at ${formatMoney(current.averageCost)} each`
+                    : 'No stock recorded yet'}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-reason">Reason</Label>
+              <Select
+                value={values.reason}
+                onValueChange={(value) => setValues({ ...values, reason: value as AdjustmentReason })}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="adjustment-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADJUSTMENT_REASONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-quantity">
+                {direction === 'either' ? 'Change in units' : direction === 'in' ? 'Units added' : 'Units removed'}
+              </Label>
+              <Input
+                id="adjustment-quantity"
+                type="number"
+                step={1}
+                min={direction === 'either' ? undefined : 1}
+                placeholder="0"
+                value={values.quantity}
+                onChange={(e) => setValues({ ...values, quantity: e.target.value })}
+                disabled={isSubmitting}
+              />
+              {direction === 'either' && (
+                <p className="text-sm text-muted-foreground">Use a negative number when the count found fewer units</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-unit-cost">Unit cost</Label>
+              <Input
+                id="adjustment-unit-cost"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={moneyPlaceholder()}
+                value={values.unitCost}
+                onChange={(e) => setValues({ ...values, unitCost: e.target.value })}
+                disabled={isSubmitting}
+              />
+              {change < 0 && (
+                <p className="text-sm text-muted-foreground">Units taken out are written off at what the costing method says they cost</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-notes">Notes</Label>
+              <Input
+                id="adjustment-notes"
+                value={values.notes}
+                onChange={(e) => setValues({ ...values, notes: e.target.value })}
+                placeholder="Add notes..."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="rounded-md border p-3 text-sm">
+              <div className="flex justify-between font-medium">
+                <span>
+                  {values.reason === 'opening'
+                    ? 'Opening stock value'
+                    : change < 0 ? 'Written off' : 'Written back'}
+                </span>
+                <span>{formatMoney(multiplyMoney(toMinorUnits(Number(values.unitCost) || 0), Math.abs(change)))}</span>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Adjustment'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default StockAdjustmentSheet;
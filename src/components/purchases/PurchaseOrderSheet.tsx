@@ -0,0 +1,431 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  addPurchaseOrder,
+  updatePurchaseOrder,
+  type Product,
+  type PurchaseOrder,
+  type PurchaseOrderInput,
+  type Supplier
+} from '@/utils/database';
+import { convertToBase, defaultExchangeRate, type ExchangeRate } from '@/utils/currency';
+import { ZERO_MONEY, multiplyMoney, sumMoney, toMajorUnits, toMinorUnits } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatCurrencyAmount, formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+import ProductSelect from '@/components/form/ProductSelect';
+import SupplierSelect from '@/components/form/SupplierSelect';
+
+interface PurchaseOrderSheetProps {
+  open: boolean;
+  // The order being edited, or null for a new one
+  order: PurchaseOrder | null;
+  products: Product[];
+  suppliers: Supplier[];
+  exchangeRates: ExchangeRate[];
+  baseCurrency: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Amounts are held as typed, in major units, until the form is submitted.
+// Line prices are in the order currency; the advance is in the base currency.
+interface OrderLineFormValues {
+  productId: string;
+  product: string;
+  quantity: string;
+  price: string;
+}
+
+interface PurchaseOrderFormValues {
+  date: string;
+  order_number: string;
+  supplierId: string;
+  supplier: string;
+  expectedDate: string;
+  currency: string;
+  exchangeRate: string;
+  items: OrderLineFormValues[];
+  advance: string;
+  notes: string;
+}
+
+const emptyOrderLine = (): OrderLineFormValues => ({
+  productId: '',
+  product: '',
+  quantity: '',
+  price: ''
+});
+
+const emptyOrderForm = (baseCurrency: string): PurchaseOrderFormValues => ({
+  date: todayISODate(),
+  order_number: '',
+  supplierId: '',
+  supplier: '',
+  expectedDate: '',
+  currency: baseCurrency,
+  exchangeRate: '1',
+  items: [emptyOrderLine()],
+  advance: '',
+  notes: ''
+});
+
+const orderFormValues = (order: PurchaseOrder): PurchaseOrderFormValues => ({
+  date: order.date,
+  order_number: order.order_number,
+  supplierId: order.supplierId ?? '',
+  supplier: order.supplier ?? '',
+  expectedDate: order.expectedDate,
+  currency: order.currency,
+  exchangeRate: String(order.exchangeRate),
+  items: order.items.map(line => ({
+    productId: line.productId ?? '',
+    product: line.product,
+    quantity: String(line.quantity),
+    price: String(toMajorUnits(line.price))
+  })),
+  advance: order.advance > 0 ? String(toMajorUnits(order.advance)) : '',
+  notes: order.notes
+});
+
+const toOrderInput = (values: PurchaseOrderFormValues, status: PurchaseOrderInput['status']): PurchaseOrderInput => ({
+  date: values.date,
+  order_number: values.order_number,
+  supplierId: values.supplierId,
+  supplier: values.supplier,
+  expectedDate: values.expectedDate,
+  currency: values.currency,
+  exchangeRate: Number(values.exchangeRate),
+  items: values.items.map(line => ({
+    productId: line.productId,
+    product: line.product,
+    quantity: Number(line.quantity),
+    price: toMinorUnits(Number(line.price) || 0)
+  })),
+  advance: toMinorUnits(Number(values.advance) || 0),
+  status,
+  notes: values.notes
+});
+
+// Change one line of the order, leaving the others as they are
+const updateOrderLine = (
+  prev: PurchaseOrderFormValues,
+  index: number,
+  changes: Partial<OrderLineFormValues>
+): PurchaseOrderFormValues => ({
+  ...prev,
+  items: prev.items.map((line, i) => i === index ? { ...line, ...changes } : line)
+});
+
+const PurchaseOrderSheet: React.FC<PurchaseOrderSheetProps> = ({
+  open,
+  order,
+  products,
+  suppliers,
+  exchangeRates,
+  baseCurrency,
+  onClose,
+  onSaved
+}) => {
+  const [values, setValues] = useState<PurchaseOrderFormValues>(emptyOrderForm(baseCurrency));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(order ? orderFormValues(order) : emptyOrderForm(baseCurrency));
+  }, [open, order, baseCurrency]);
+
+  const isForeign = values.currency !== baseCurrency;
+  // An edited order keeps its currency even if it has since left the rate table
+  const currencyOptions = [...new Set([baseCurrency, ...exchangeRates.map(rate => rate.currency), values.currency])];
+  const orderTotal = sumMoney(toOrderInput(values, 'draft').items, line => multiplyMoney(line.price, line.quantity));
+  const baseTotal = convertToBase(orderTotal, Number(values.exchangeRate) || 0);
+  // Drafts can be placed from the form; placed orders stay placed
+  const canSaveDraft = !order || order.status === 'draft';
+
+  const handleSave = async (status: PurchaseOrderInput['status']) => {
+    try {
+      setIsSubmitting(true);
+      const input = toOrderInput(values, status);
+      if (order?.id) {
+        await updatePurchaseOrder(order.id, input);
+      } else {
+        await addPurchaseOrder(input);
+      }
+      toast.success(savedMessage(status === 'draft' ? 'Draft order saved successfully' : 'Purchase order placed successfully'), {
+        dismissible: true
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save purchase order', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>{order ? 'Edit Purchase Order' : 'New Purchase Order'}</SheetTitle>
+          <SheetDescription>
+            Stock is added when the goods are received, not when the order is placed.
+          </SheetDescription>
+        </SheetHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave('ordered');
+          }}
+          className="space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="order-date">Order date</Label>
+              <Input
+                id="order-date"
+                type="date"
+                value={values.date}
+                onChange={(e) => setValues({ ...values, date: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-expected">Expected delivery</Label>
+              <Input
+                id="order-expected"
+                type="date"
+                value={values.expectedDate}
+                min={values.date || undefined}
+                onChange={(e) => setValues({ ...values, expectedDate: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-number">Order number</Label>
+            <Input
+              id="order-number"
+              value={values.order_number}
+              onChange={(e) => setValues({ ...values, order_number: e.target.value })}
+              placeholder="PO #"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supplier</Label>
+            <SupplierSelect
+              value={values.supplierId}
+              fallbackLabel={values.supplier}
+              onSelect={(supplier) => setValues(prev => ({
+                ...prev,
+                supplierId: supplier?.id ?? '',
+                supplier: supplier?.name ?? ''
+              }))}
+              suppliers={suppliers}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="order-currency">Currency</Label>
+              <Select
+                value={values.currency}
+                onValueChange={(currency) => setValues(prev => ({
+                  ...prev,
+                  currency,
+                  exchangeRate: String(defaultExchangeRate(exchangeRates, currency, baseCurrency))
+                }))}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="order-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencyOptions.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-rate">Rate to {baseCurrency}</Label>
+              <Input
+                id="order-rate"
+                type="number"
+                min="0"
+                step="any"
+                value={values.exchangeRate}
+                onChange={(e) => setValues({ ...values, exchangeRate: e.target.value })}
+                disabled={isSubmitting || !isForeign}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            {values.items.map((line, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <ProductSelect
+                      value={line.productId}
+                      fallbackLabel={line.product}
+                      onSelect={(product) => setValues(prev => updateOrderLine(prev, index, {
+                        productId: product.id,
+                        product: product.name
+                      }))}
+                      products={products}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setValues(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                    className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                    disabled={isSubmitting || values.items.length === 1}
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-3 gap-2 items-end">
+                  <div>
+                    <Label htmlFor={`order-item-${index}-quantity`} className="text-xs">Quantity</Label>
+                    <Input
+                      id={`order-item-${index}-quantity`}
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={line.quantity}
+                      onChange={(e) => setValues(prev => updateOrderLine(prev, index, { quantity: e.target.value }))}
+                      placeholder="0"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`order-item-${index}-price`} className="text-xs">Price</Label>
+                    <Input
+                      id={`order-item-${index}-price`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.price}
+                      onChange={(e) => setValues(prev => updateOrderLine(prev, index, { price: e.target.value }))}
+                      placeholder={isForeign ? formatCurrencyAmount(ZERO_MONEY, values.currency) : moneyPlaceholder()}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <p className="text-sm text-right pb-2">
+                    {formatCurrencyAmount(
+                      multiplyMoney(toMinorUnits(Number(line.price) || 0), Number(line.quantity) || 0),
+                      values.currency
+                    )}
+                  </p>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setValues(prev => ({ ...prev, items: [...prev.items, emptyOrderLine()] }))}
+              disabled={isSubmitting}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Product
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-advance">Advance paid ({baseCurrency})</Label>
+            <Input
+              id="order-advance"
+              type="number"
+              min="0"
+              step="0.01"
+              value={values.advance}
+              onChange={(e) => setValues({ ...values, advance: e.target.value })}
+              placeholder={moneyPlaceholder()}
+              disabled={isSubmitting || !values.supplierId}
+            />
+            <p className="text-sm text-muted-foreground">
+              {values.supplierId
+                ? 'Paid in cash when the order is placed and used towards the goods as they arrive'
+                : 'Choose a supplier to pay an advance'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-notes">Notes</Label>
+            <Input
+              id="order-notes"
+              value={values.notes}
+              onChange={(e) => setValues({ ...values, notes: e.target.value })}
+              placeholder="Add notes..."
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <div className="flex justify-between font-medium">
+              <span>Order total</span>
+              <span>{formatMoney(baseTotal)}</span>
+            </div>
+            {isForeign && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>In {values.currency}</span>
+                <span>{formatCurrencyAmount(orderTotal, values.currency)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {canSaveDraft && (
+              <Button type="button" variant="outline" onClick={() => handleSave('draft')} disabled={isSubmitting}>
+                Save Draft
+              </Button>
+            )}
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : order?.status === 'ordered' ? (
+                'Save Changes'
+              ) : (
+                'Place Order'
+              )}
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PurchaseOrderSheet;
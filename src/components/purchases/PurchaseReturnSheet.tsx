@@ -0,0 +1,236 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  RETURN_SETTLEMENTS,
+  addPurchaseReturn,
+  getPurchaseReturnsForPurchase,
+  getReturnableQuantity,
+  type PurchaseEntry,
+  type ReturnSettlement
+} from '@/utils/database';
+import { multiplyMoney } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+
+interface PurchaseReturnSheetProps {
+  // The purchase being returned against; the sheet is closed while null
+  purchase: PurchaseEntry | null;
+  onClose: () => void;
+}
+
+interface PurchaseReturnFormValues {
+  date: string;
+  quantity: string;
+  reason: string;
+  settlement: ReturnSettlement;
+  notes: string;
+}
+
+const emptyReturnForm = (purchase: PurchaseEntry): PurchaseReturnFormValues => ({
+  date: todayISODate(),
+  quantity: '',
+  reason: '',
+  // Purchases without a supplier can only be refunded
+  settlement: purchase.supplierId ? 'credit' : 'refund',
+  notes: ''
+});
+
+const PurchaseReturnSheet: React.FC<PurchaseReturnSheetProps> = ({ purchase, onClose }) => {
+  const [returnable, setReturnable] = useState(0);
+  const [values, setValues] = useState<PurchaseReturnFormValues | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!purchase?.id) return;
+
+    const loadReturnable = async (target: PurchaseEntry, purchaseId: string) => {
+      try {
+        setIsLoading(true);
+        setValues(emptyReturnForm(target));
+        setReturnable(getReturnableQuantity(target, await getPurchaseReturnsForPurchase(purchaseId)));
+      } catch (error) {
+        console.error('Error loading purchase returns:', error);
+        toast.error('Failed to load earlier returns', {
+          dismissible: true
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReturnable(purchase, purchase.id);
+  }, [purchase]);
+
+  if (!purchase || !values) {
+    return null;
+  }
+
+  const amount = multiplyMoney(purchase.price, Number(values.quantity) || 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchase.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await addPurchaseReturn({
+        date: values.date,
+        purchaseId: purchase.id,
+        quantity: Number(values.quantity),
+        reason: values.reason,
+        settlement: values.settlement,
+        notes: values.notes
+      });
+      toast.success(savedMessage('Return recorded successfully'), {
+        dismissible: true
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error recording purchase return:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record return', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Return to Supplier</SheetTitle>
+          <SheetDescription>
+            Send units of {purchase.product} back{purchase.supplier ? ` to ${purchase.supplier}` : ''}.
+            They leave stock at the {formatMoney(purchase.price)} each they cost.
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading purchase...
+          </div>
+        ) : returnable === 0 ? (
+          <p className="text-sm text-muted-foreground">Everything on this purchase has already been returned.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="purchase-return-date">Return date</Label>
+              <Input
+                id="purchase-return-date"
+                type="date"
+                value={values.date}
+                min={purchase.date}
+                onChange={(e) => setValues({ ...values, date: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-return-quantity">Quantity</Label>
+              <Input
+                id="purchase-return-quantity"
+                type="number"
+                min={1}
+                max={returnable}
+                step={1}
+                placeholder="0"
+                value={values.quantity}
+                onChange={(e) => setValues({ ...values, quantity: e.target.value })}
+                disabled={isSubmitting}
+              />
+              <p className="text-sm text-muted-foreground">
+                {returnable} of {purchase.quantity} units can still be returned
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-return-reason">Reason</Label>
+              <Input
+                id="purchase-return-reason"
+                value={values.reason}
+                onChange={(e) => setValues({ ...values, reason: e.target.value })}
+                placeholder="e.g. Damaged in transit"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Settled as</Label>
+              <RadioGroup
+                value={values.settlement}
+                onValueChange={(value) => setValues({ ...values, settlement: value as ReturnSettlement })}
+                disabled={isSubmitting}
+              >
+                {RETURN_SETTLEMENTS.map((option) => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem
+                      value={option.value}
+                      id={`purchase-return-settlement-${option.value}`}
+                      disabled={option.value === 'credit' && !purchase.supplierId}
+                    />
+                    <Label htmlFor={`purchase-return-settlement-${option.value}`}>
+                      {option.label} <span className="text-muted-foreground">({option.description})</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {!purchase.supplierId && (
+                <p className="text-sm text-muted-foreground">
+                  Link a supplier to this purchase to return it for credit.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase-return-notes">Notes</Label>
+              <Input
+                id="purchase-return-notes"
+                value={values.notes}
+                onChange={(e) => setValues({ ...values, notes: e.target.value })}
+                placeholder="Add notes..."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="rounded-md border p-3 text-sm">
+              <div className="flex justify-between font-medium">
+                <span>{values.settlement === 'credit' ? 'Supplier credit' : 'Refund due'}</span>
+                <span>{formatMoney(amount)}</span>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Record Return'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PurchaseReturnSheet;
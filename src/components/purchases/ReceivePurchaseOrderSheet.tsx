@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  displayProductName,
+  receivePurchaseOrder,
+  type Product,
+  type PurchaseOrder
+} from '@/utils/database';
+import { convertToBase } from '@/utils/currency';
+import { addMoney, multiplyMoney, subtractMoney } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+
+interface ReceivePurchaseOrderSheetProps {
+  // The order goods are arriving against; the sheet is closed while null
+  order: PurchaseOrder | null;
+  products: Product[];
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+interface ReceiptFormValues {
+  date: string;
+  // Units as typed for each order line
+  quantities: string[];
+  notes: string;
+}
+
+// Start from everything still outstanding, the usual case for a delivery
+const emptyReceiptForm = (order: PurchaseOrder): ReceiptFormValues => ({
+  date: todayISODate(),
+  quantities: order.items.map(line => String(line.quantity - line.received)),
+  notes: ''
+});
+
+const ReceivePurchaseOrderSheet: React.FC<ReceivePurchaseOrderSheetProps> = ({
+  order,
+  products,
+  onClose,
+  onReceived
+}) => {
+  const [values, setValues] = useState<ReceiptFormValues | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setValues(order ? emptyReceiptForm(order) : null);
+  }, [order]);
+
+  if (!order || !values) {
+    return null;
+  }
+
+  // Each line is converted on its own, as the purchases it becomes are
+  const receivedValue = addMoney(...order.items.map((line, index) => convertToBase(
+    multiplyMoney(line.price, Number(values.quantities[index]) || 0),
+    order.exchangeRate
+  )));
+  const advanceLeft = subtractMoney(order.advance, order.advanceUsed);
+  const advanceApplied = advanceLeft < receivedValue ? advanceLeft : receivedValue;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await receivePurchaseOrder(order.id, {
+        date: values.date,
+        quantities: values.quantities.map(quantity => Number(quantity) || 0),
+        notes: values.notes
+      });
+      toast.success(savedMessage('Goods received successfully'), {
+        dismissible: true
+      });
+      onReceived();
+      onClose();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to receive goods', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Receive Goods</SheetTitle>
+          <SheetDescription>
+            Record what arrived against order {order.order_number}{order.supplier ? ` from ${order.supplier}` : ''}.
+            Each product received is added to stock as a purchase.
+          </SheetDescription>
+        </SheetHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="receipt-date">Date received</Label>
+            <Input
+              id="receipt-date"
+              type="date"
+              value={values.date}
+              min={order.date}
+              onChange={(e) => setValues({ ...values, date: e.target.value })}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Units received</Label>
+            {order.items.map((line, index) => {
+              const outstanding = line.quantity - line.received;
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{displayProductName(line, products)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {line.received} of {line.quantity} received
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={outstanding}
+                    step="1"
+                    className="w-24"
+                    value={values.quantities[index]}
+                    onChange={(e) => setValues({
+                      ...values,
+                      quantities: values.quantities.map((quantity, i) => i === index ? e.target.value : quantity)
+                    })}
+                    disabled={isSubmitting || outstanding === 0}
+                    aria-label={`Units of ${line.product} received`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-notes">Notes</Label>
+            <Input
+              id="receipt-notes"
+              value={values.notes}
+              onChange={(e) => setValues({ ...values, notes: e.target.value })}
+              placeholder="Delivery note, carrier..."
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <div className="flex justify-between font-medium">
+              <span>Value received</span>
+              <span>{formatMoney(receivedValue)}</span>
+            </div>
+            {advanceApplied > 0 && (
+              <>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>From advance</span>
+                  <span>{formatMoney(advanceApplied)}</span>
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>To pay</span>
+                  <span>{formatMoney(subtractMoney(receivedValue, advanceApplied))}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Receive Goods'
+              )}
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReceivePurchaseOrderSheet;
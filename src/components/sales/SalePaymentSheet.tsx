@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import dayjs from 'dayjs';
+import {
+  PAYMENT_METHODS,
+  addSalePayment,
+  deleteSalePayment,
+  getSaleBalance,
+  getSalePaymentsForSale,
+  getSaleReturnsForSale,
+  type PaymentMethod,
+  type SaleEntry,
+  type SalePayment,
+  type SaleReturn
+} from '@/utils/database';
+import { toMajorUnits, toMinorUnits } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+import { useBusiness } from '@/contexts/useBusiness';
+
+interface SalePaymentSheetProps {
+  // The sale being paid for; the sheet is closed while null
+  sale: SaleEntry | null;
+  onClose: () => void;
+}
+
+interface PaymentFormValues {
+  date: string;
+  // As typed, in major units
+  amount: string;
+  method: PaymentMethod;
+  notes: string;
+}
+
+const methodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(option => option.value === method)?.label ?? method;
+};
+
+const SalePaymentSheet: React.FC<SalePaymentSheetProps> = ({ sale, onClose }) => {
+  const { can } = useBusiness();
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+  const [returns, setReturns] = useState<SaleReturn[]>([]);
+  const [values, setValues] = useState<PaymentFormValues>({ date: todayISODate(), amount: '', method: 'cash', notes: '' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // Reload what has been settled and start the next payment from what is still owed
+  const loadPayments = async (target: SaleEntry, saleId: string) => {
+    try {
+      setIsLoading(true);
+      const [salePayments, saleReturns] = await Promise.all([
+        getSalePaymentsForSale(saleId),
+        getSaleReturnsForSale(saleId)
+      ]);
+      setPayments(salePayments);
+      setReturns(saleReturns);
+      const { due } = getSaleBalance(target, salePayments, saleReturns);
+      setValues({
+        date: todayISODate(),
+        amount: due > 0 ? String(toMajorUnits(due)) : '',
+        method: target.paymentMethod,
+        notes: ''
+      });
+    } catch (error) {
+      console.error('Error loading sale payments:', error);
+      toast.error('Failed to load payments', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!sale?.id) return;
+    loadPayments(sale, sale.id);
+  }, [sale]);
+
+  if (!sale) {
+    return null;
+  }
+
+  const balance = getSaleBalance(sale, payments, returns);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sale.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await addSalePayment({
+        date: values.date,
+        saleId: sale.id,
+        amount: toMinorUnits(values.amount),
+        method: values.method,
+        notes: values.notes
+      });
+      toast.success(savedMessage('Payment recorded successfully'), {
+        dismissible: true
+      });
+      await loadPayments(sale, sale.id);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record payment', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (payment: SalePayment) => {
+    if (!payment.id || !sale.id) return;
+
+    try {
+      setDeletingId(payment.id);
+      await deleteSalePayment(payment.id);
+      toast.success(savedMessage('Payment deleted successfully'), {
+        dismissible: true
+      });
+      await loadPayments(sale, sale.id);
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete payment', {
+        dismissible: true
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Payments</SheetTitle>
+          <SheetDescription>
+            Money received for order {sale.order_number}{sale.customer ? ` from ${sale.customer}` : ''} after the sale.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading payments...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Order total</span>
+                <span>{formatMoney(sale.total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid</span>
+                <span>{formatMoney(balance.paid)}</span>
+              </div>
+              {balance.credited > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Credited by returns</span>
+                  <span>{formatMoney(balance.credited)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Balance due</span>
+                <span>{formatMoney(balance.due)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Received</h3>
+              {sale.paidOnSale > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {dayjs(sale.date).format('DD-MMM-YYYY')} · {methodLabel(sale.paymentMethod)}
+                    <span className="text-muted-foreground"> (on sale)</span>
+                  </span>
+                  <span>{formatMoney(sale.paidOnSale)}</span>
+                </div>
+              )}
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <p>{dayjs(payment.date).format('DD-MMM-YYYY')} · {methodLabel(payment.method)}</p>
+                    {payment.notes && (
+                      <p className="text-xs text-muted-foreground truncate">{payment.notes}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span>{formatMoney(payment.amount)}</span>
+                    {can('salePayments.delete') && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(payment)}
+                        className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        disabled={deletingId !== null}
+                        title="Delete payment"
+                      >
+                        {deletingId === payment.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {sale.paidOnSale === 0 && payments.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nothing received yet</p>
+              )}
+            </div>
+
+            {can('salePayments.create') && balance.due > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+                <h3 className="text-sm font-medium">Record Payment</h3>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="payment-date">Date</Label>
+                    <Input
+                      id="payment-date"
+                      type="date"
+                      value={values.date}
+                      min={sale.date}
+                      onChange={(e) => setValues({ ...values, date: e.target.value })}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="payment-amount">Amount</Label>
+                    <Input
+                      id="payment-amount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={values.amount}
+                      onChange={(e) => setValues({ ...values, amount: e.target.value })}
+                      placeholder={moneyPlaceholder()}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="payment-method">Method</Label>
+                  <Select
+                    value={values.method}
+                    onValueChange={(method) => setValues({ ...values, method: method as PaymentMethod })}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger id="payment-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="payment-notes">Notes</Label>
+                  <Input
+                    id="payment-notes"
+                    value={values.notes}
+                    onChange={(e) => setValues({ ...values, notes: e.target.value })}
+                    placeholder="Courier, transaction ID..."
+                    disabled={isSubmitting}
+                  />
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Record Payment'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SalePaymentSheet;
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  RETURN_CONDITIONS,
+  addSaleReturn,
+  calculateReturnTotals,
+  displayProductName,
+  getReturnableItems,
+  getSaleReturnsForSale,
+  type Product,
+  type ReturnCondition,
+  type ReturnableItem,
+  type SaleEntry
+} from '@/utils/database';
+import { productKey } from '@/utils/inventory';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+
+interface SaleReturnSheetProps {
+  // The sale being returned against; the sheet is closed while null
+  sale: SaleEntry | null;
+  products: Product[];
+  onClose: () => void;
+}
+
+interface ReturnFormValues {
+  date: string;
+  // Units to return, keyed by productKey
+  quantities: Record<string, string>;
+  reason: string;
+  condition: ReturnCondition;
+  notes: string;
+}
+
+const emptyReturnForm = (): ReturnFormValues => ({
+  date: todayISODate(),
+  quantities: {},
+  reason: '',
+  condition: 'restock',
+  notes: ''
+});
+
+const SaleReturnSheet: React.FC<SaleReturnSheetProps> = ({ sale, products, onClose }) => {
+  const [returnable, setReturnable] = useState<ReturnableItem[]>([]);
+  const [values, setValues] = useState<ReturnFormValues>(emptyReturnForm());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!sale?.id) return;
+
+    const loadReturnable = async (target: SaleEntry, saleId: string) => {
+      try {
+        setIsLoading(true);
+        setValues(emptyReturnForm());
+        setReturnable(getReturnableItems(target, await getSaleReturnsForSale(saleId)));
+      } catch (error) {
+        console.error('Error loading returns:', error);
+        toast.error('Failed to load earlier returns', {
+          dismissible: true
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReturnable(sale, sale.id);
+  }, [sale]);
+
+  if (!sale) {
+    return null;
+  }
+
+  const items = returnable.map(item => ({
+    ...item,
+    quantity: Number(values.quantities[productKey(item)]) || 0
+  }));
+  const refund = calculateReturnTotals(sale, items);
+  const hasReturnable = returnable.some(item => item.sold > item.returned);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sale.id) return;
+
+    try {
+      setIsSubmitting(true);
+      await addSaleReturn({
+        date: values.date,
+        saleId: sale.id,
+        items: items.map(({ productId, product, quantity }) => ({ productId, product, quantity })),
+        reason: values.reason,
+        condition: values.condition,
+        notes: values.notes
+      });
+      toast.success(savedMessage('Return recorded successfully'), {
+        dismissible: true
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error recording return:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record return', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>Return Items</SheetTitle>
+          <SheetDescription>
+            Record items brought back from {sale.order_number ? `order ${sale.order_number}` : 'this sale'}.
+            The refund is taken off revenue on the return date.
+          </SheetDescription>
+        </SheetHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading sale...
+          </div>
+        ) : !hasReturnable ? (
+          <p className="text-sm text-muted-foreground">Everything on this sale has already been returned.</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="return-date">Return date</Label>
+              <Input
+                id="return-date"
+                type="date"
+                value={values.date}
+                min={sale.date}
+                onChange={(e) => setValues({ ...values, date: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Items returned</Label>
+              {returnable.map((item) => {
+                const key = productKey(item);
+                const remaining = item.sold - item.returned;
+                return (
+                  <div key={key} className="flex items-center justify-between gap-4 rounded-md border p-2">
+                    <div className="text-sm">
+                      <p>{displayProductName(item, products)}</p>
+                      <p className="text-muted-foreground">
+                        {formatMoney(item.price)} each · {remaining} of {item.sold} returnable
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      className="w-20"
+                      min={0}
+                      max={remaining}
+                      step={1}
+                      placeholder="0"
+                      value={values.quantities[key] ?? ''}
+                      onChange={(e) => setValues({
+                        ...values,
+                        quantities: { ...values.quantities, [key]: e.target.value }
+                      })}
+                      disabled={isSubmitting || remaining === 0}
+                      aria-label={`Quantity of ${item.product} returned`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Reason</Label>
+              <Input
+                id="return-reason"
+                value={values.reason}
+                onChange={(e) => setValues({ ...values, reason: e.target.value })}
+                placeholder="e.g. Wrong size"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Returned items are</Label>
+              <RadioGroup
+                value={values.condition}
+                onValueChange={(value) => setValues({ ...values, condition: value as ReturnCondition })}
+                disabled={isSubmitting}
+              >
+                {RETURN_CONDITIONS.map((option) => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <RadioGroupItem value={option.value} id={`return-condition-${option.value}`} />
+                    <Label htmlFor={`return-condition-${option.value}`}>
+                      {option.label} <span className="text-muted-foreground">({option.description})</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-notes">Notes</Label>
+              <Input
+                id="return-notes"
+                value={values.notes}
+                onChange={(e) => setValues({ ...values, notes: e.target.value })}
+                placeholder="Add notes..."
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Items</span>
+                <span>{formatMoney(refund.subtotal)}</span>
+              </div>
+              {refund.discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Share of order discount</span>
+                  <span>-{formatMoney(refund.discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Refund</span>
+                <span>{formatMoney(refund.total)}</span>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Record Return'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SaleReturnSheet;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { migrateDates, type DateMigrationReport } from '@/utils/migrations';
+import type { SlashDateOrder } from '@/utils/dateFormat';
+
+const DateMigrationCard: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<DateMigrationReport | null>(null);
+
+  // Run first without a slash order; if some dates read both ways, the user says which
+  const handleMigrate = async (slashOrder?: SlashDateOrder) => {
+    setIsRunning(true);
+    try {
+      const result = await migrateDates(slashOrder);
+      setReport(result);
+      toast.success(`Normalized dates on ${result.updated} records`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error migrating dates:', error);
+      toast.error('Failed to normalize dates', {
+        dismissible: true
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Normalize Dates</CardTitle>
+        <CardDescription>
+          Convert dates saved in older formats to the standard YYYY-MM-DD format and mark older records as active so they appear in filtered lists. Safe to run more than once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={() => handleMigrate()} disabled={isRunning}>
+          {isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Normalizing...
+            </>
+          ) : (
+            'Normalize Dates'
+          )}
+        </Button>
+        {report && (
+          <div className="space-y-2 text-sm">
+            <p>
+              Scanned {report.scanned} records, updated {report.updated}.
+            </p>
+            {report.ambiguous.length > 0 && (
+              <>
+                <p className="text-red-500">
+                  {report.ambiguous.length} dates could be day first or month first and were left unchanged.
+                  Which way round are the dates in your older records?
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => handleMigrate('day-first')} disabled={isRunning}>
+                    Day first (DD/MM/YYYY)
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleMigrate('month-first')} disabled={isRunning}>
+                    Month first (MM/DD/YYYY)
+                  </Button>
+                </div>
+                <div className="grid gap-1">
+                  {report.ambiguous.map((date) => (
+                    <div
+                      key={`${date.collection}-${date.recordId}-${date.field}`}
+                      className="flex items-center justify-between gap-4 p-2 rounded-md border"
+                    >
+                      <span>{date.collection} / {date.recordId}</span>
+                      <span className="text-muted-foreground">{date.field}: {date.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            {report.failed.length === 0 ? (
+              <p className="text-muted-foreground">Every date could be read.</p>
+            ) : (
+              <>
+                <p className="text-red-500">
+                  {report.failed.length} dates could not be read and were left unchanged:
+                </p>
+                <div className="grid gap-1">
+                  {report.failed.map((failure) => (
+                    <div
+                      key={`${failure.collection}-${failure.recordId}-${failure.field}`}
+                      className="flex items-center justify-between gap-4 p-2 rounded-md border"
+                    >
+                      <span>{failure.collection} / {failure.recordId}</span>
+                      <span className="text-muted-foreground">{failure.field}: {failure.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DateMigrationCard;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { migrateMoney, type MoneyMigrationReport } from '@/utils/migrations';
+
+const MoneyMigrationCard: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<MoneyMigrationReport | null>(null);
+
+  const handleMigrate = async () => {
+    setIsRunning(true);
+    try {
+      const result = await migrateMoney();
+      setReport(result);
+      toast.success(`Converted amounts on ${result.updated} records`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error migrating amounts:', error);
+      toast.error('Failed to convert amounts', {
+        dismissible: true
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Convert Amounts</CardTitle>
+        <CardDescription>
+          Store amounts saved by older versions as exact whole poisha so summary totals add up without rounding drift. Safe to run more than once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleMigrate} disabled={isRunning}>
+          {isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Converting...
+            </>
+          ) : (
+            'Convert Amounts'
+          )}
+        </Button>
+        {report && (
+          <p className="text-sm">
+            Scanned {report.scanned} records, converted {report.updated}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MoneyMigrationCard;
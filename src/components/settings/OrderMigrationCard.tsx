@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { mergeSaleOrders, type OrderMigrationReport } from '@/utils/migrations';
+
+const OrderMigrationCard: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<OrderMigrationReport | null>(null);
+
+  const handleMigrate = async () => {
+    setIsRunning(true);
+    try {
+      const result = await mergeSaleOrders();
+      setReport(result);
+      toast.success(`Merged ${result.orders} orders`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error merging orders:', error);
+      toast.error('Failed to merge orders', {
+        dismissible: true
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Merge Order Lines</CardTitle>
+        <CardDescription>
+          Older orders with several products were saved as one sale per product. Merge sales that share an order number and date into a single order, so order counts and average order value are correct. Safe to run more than once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleMigrate} disabled={isRunning}>
+          {isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Merging...
+            </>
+          ) : (
+            'Merge Orders'
+          )}
+        </Button>
+        {report && (
+          <p className="text-sm">
+            Merged {report.merged} sales into {report.orders} orders.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderMigrationCard;
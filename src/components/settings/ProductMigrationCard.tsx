@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { migrateProducts, type ProductMigrationReport } from '@/utils/migrations';
+
+const ProductMigrationCard: React.FC = () => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<ProductMigrationReport | null>(null);
+
+  const handleMigrate = async () => {
+    setIsRunning(true);
+    try {
+      const result = await migrateProducts();
+      setReport(result);
+      toast.success(`Linked ${result.linked} records to products`, {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error migrating products:', error);
+      toast.error('Failed to link products', {
+        dismissible: true
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Link Products</CardTitle>
+        <CardDescription>
+          Create products from the old product list and link existing sales and purchases to them by name, so stock stays correct when a product is renamed. Safe to run more than once.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleMigrate} disabled={isRunning}>
+          {isRunning ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Linking...
+            </>
+          ) : (
+            'Link Products'
+          )}
+        </Button>
+        {report && (
+          <p className="text-sm">
+            Created {report.created} products, linked {report.linked} records.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProductMigrationCard;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from 'sonner';
+import { diffRecords } from '@/utils/audit';
+import { useSync } from '@/contexts/useSync';
+import type { OutboxEntry } from '@/utils/outbox';
+
+interface ConflictReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<OutboxEntry['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+const ConflictReviewDialog: React.FC<ConflictReviewDialogProps> = ({ open, onOpenChange }) => {
+  const { conflicts, resolveConflict } = useSync();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const handleResolve = async (entry: OutboxEntry, keepMine: boolean) => {
+    setResolvingId(entry.id);
+    try {
+      await resolveConflict(entry, keepMine);
+      toast.success(keepMine ? 'Your change was applied' : 'Your change was discarded', {
+        dismissible: true
+      });
+      if (conflicts.length === 1) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve conflict', {
+        dismissible: true
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review Offline Changes</DialogTitle>
+          <DialogDescription>
+            These changes were made offline, but the records were changed by someone else before they could sync.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          ) : (
+            conflicts.map((entry) => {
+              const changes = entry.current
+                ? diffRecords(entry.current, { ...entry.current, ...entry.data })
+                : [];
+
+              return (
+                <div key={entry.id} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {ACTION_LABELS[entry.action]} {entry.collectionName} / {entry.recordId}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {new Date(entry.queuedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {!entry.current ? (
+                    <p className="text-sm text-red-500">This record has since been removed.</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">The record already matches your change.</p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <span className="text-muted-foreground">Field</span>
+                      <span className="text-muted-foreground">Current</span>
+                      <span className="text-muted-foreground">Yours</span>
+                      {changes.map((change) => (
+                        <React.Fragment key={change.field}>
+                          <span>{change.field}</span>
+                          <span>{formatValue(change.before)}</span>
+                          <span>{formatValue(change.after)}</span>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResolve(entry, false)}
+                      disabled={resolvingId === entry.id}
+                    >
+                      Discard Mine
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleResolve(entry, true)}
+                      disabled={resolvingId === entry.id || !entry.current}
+                    >
+                      Apply Mine
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictReviewDialog;
@@ -0,0 +1,146 @@
+import React, { createContext, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from './AuthContext';
+import {
+  acceptInvitation,
+  createBusiness,
+  getMyBusinesses,
+  getPendingInvitations,
+  importLegacyData,
+  setActiveBusinessId,
+  setActiveMembership,
+  type Business,
+  type BusinessInvitation
+} from '@/utils/business';
+import { hasPermission, type Permission, type Role } from '@/utils/permissions';
+import { setMoneyFormat } from '@/utils/numberFormat';
+import { DEFAULT_COSTING_METHOD } from '@/utils/inventory';
+import { repostCostOfSales } from '@/utils/database';
+
+interface BusinessContextType {
+  businesses: Business[];
+  activeBusiness: Business | null;
+  invitations: BusinessInvitation[];
+  role: Role | null;
+  can: (permission: Permission) => boolean;
+  switchBusiness: (businessId: string) => void;
+  createNewBusiness: (name: string, importExisting?: boolean) => Promise<void>;
+  acceptBusinessInvitation: (invitation: BusinessInvitation) => Promise<void>;
+  refreshBusinesses: () => Promise<void>;
+}
+
+const ACTIVE_BUSINESS_KEY = 'activeBusinessId';
+
+const BusinessContext = createContext<BusinessContextType | null>(null);
+
+export const BusinessProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [invitations, setInvitations] = useState<BusinessInvitation[]>([]);
+  const [activeBusinessId, setActiveId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_BUSINESS_KEY)
+  );
+  const [loading, setLoading] = useState(true);
+
+  const activeBusiness = businesses.find(business => business.id === activeBusinessId)
+    ?? businesses[0]
+    ?? null;
+
+  const role = (user && activeBusiness?.members[user.uid]?.role) || null;
+
+  const can = (permission: Permission) => hasPermission(role, permission);
+
+  const currentBusinessId = activeBusiness?.id ?? null;
+  const costingMethod = activeBusiness?.costingMethod ?? DEFAULT_COSTING_METHOD;
+
+  // Scope database.ts to the active business before any child renders or loads data
+  setActiveBusinessId(currentBusinessId);
+  setActiveMembership(role, costingMethod);
+  setMoneyFormat(activeBusiness?.moneyFormat ?? null);
+
+  // Cost of goods sold follows the costing method, and sales recorded by staff who
+  // cannot cost them are costed once someone who can opens the business
+  useEffect(() => {
+    if (currentBusinessId && role) {
+      repostCostOfSales();
+    }
+  }, [currentBusinessId, role, costingMethod]);
+
+  useEffect(() => {
+    if (activeBusiness) {
+      localStorage.setItem(ACTIVE_BUSINESS_KEY, activeBusiness.id);
+    }
+  }, [activeBusiness]);
+
+  const refreshBusinesses = async () => {
+    try {
+      const [myBusinesses, pendingInvitations] = await Promise.all([
+        getMyBusinesses(),
+        getPendingInvitations()
+      ]);
+      setBusinesses(myBusinesses);
+      setInvitations(pendingInvitations);
+    } catch (error) {
+      console.error('Error loading businesses:', error);
+      toast.error('Failed to load businesses', {
+        dismissible: true
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refreshBusinesses();
+  }, []);
+
+  const switchBusiness = (businessId: string) => {
+    setActiveId(businessId);
+  };
+
+  const createNewBusiness = async (name: string, importExisting = false) => {
+    const businessId = await createBusiness(name);
+    if (importExisting) {
+      await importLegacyData(businessId);
+    }
+    await refreshBusinesses();
+    setActiveId(businessId);
+  };
+
+  const acceptBusinessInvitation = async (invitation: BusinessInvitation) => {
+    await acceptInvitation(invitation);
+    await refreshBusinesses();
+    setActiveId(invitation.businessId);
+  };
+
+  const value = {
+    businesses,
+    activeBusiness,
+    invitations,
+    role,
+    can,
+    switchBusiness,
+    createNewBusiness,
+    acceptBusinessInvitation,
+    refreshBusinesses
+  };
+
+  if (loading) {
+    return (
+      <BusinessContext.Provider value={value}>
+        <div className="h-screen w-screen flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </BusinessContext.Provider>
+    );
+  }
+
+  return (
+    <BusinessContext.Provider value={value}>
+      {children}
+    </BusinessContext.Provider>
+  );
+};
+
+export default BusinessContext;
@@ -0,0 +1,126 @@
+import React, { createContext, useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useBusiness } from './useBusiness';
+import { resolveOutboxConflict, syncOutbox } from '@/utils/database';
+import { getOutboxEntries, hasNoNetwork, isOffline, subscribeToOutbox, type OutboxEntry } from '@/utils/outbox';
+
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: OutboxEntry[];
+  syncNow: () => Promise<void>;
+  resolveConflict: (entry: OutboxEntry, keepMine: boolean) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | null>(null);
+
+// A server that could not be reached sends no event when it comes back
+const SYNC_RETRY_INTERVAL = 30000;
+
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { activeBusiness } = useBusiness();
+  const businessId = activeBusiness?.id ?? null;
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  const refreshEntries = useCallback(async () => {
+    if (!businessId) {
+      setEntries([]);
+      return;
+    }
+    try {
+      setEntries(await getOutboxEntries(businessId));
+    } catch (error) {
+      console.error('Error reading offline changes:', error);
+    }
+  }, [businessId]);
+
+  // Tried whenever there is a network, since a sync is how a server that could not be
+  // reached is found to be back
+  const syncNow = useCallback(async () => {
+    if (!businessId || hasNoNetwork()) return;
+    setIsSyncing(true);
+    try {
+      const result = await syncOutbox();
+      if (result.synced > 0) {
+        toast.success(`Synced ${result.synced} offline ${result.synced === 1 ? 'change' : 'changes'}`, {
+          dismissible: true
+        });
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} offline ${result.conflicts === 1 ? 'change needs' : 'changes need'} review`, {
+          dismissible: true
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+      // Still out of reach; the next retry will try again
+      if (!isOffline()) {
+        toast.error('Failed to sync offline changes', {
+          dismissible: true
+        });
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [businessId]);
+
+  const resolveConflict = async (entry: OutboxEntry, keepMine: boolean) => {
+    await resolveOutboxConflict(entry, keepMine);
+  };
+
+  useEffect(() => {
+    const handleOutboxChange = () => {
+      setIsOnline(!isOffline());
+      refreshEntries();
+    };
+    refreshEntries();
+    return subscribeToOutbox(handleOutboxChange);
+  }, [refreshEntries]);
+
+  // Replay queued writes as soon as we're back online, and on load or switch
+  // in case they were left over from an earlier session
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(!isOffline());
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const interval = setInterval(syncNow, SYNC_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [pendingCount, syncNow]);
+
+  const value = {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    conflicts: entries.filter(entry => entry.status === 'conflict'),
+    syncNow,
+    resolveConflict
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+export default SyncContext;
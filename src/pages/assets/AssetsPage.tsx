@@ -3,10 +3,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { addAsset, getAssets, type AssetEntry } from '@/utils/database';
-import { Loader2, ChevronRight } from 'lucide-react';
+import { savedMessage } from '@/utils/outbox';
+import { multiplyMoney, subtractMoney, toMinorUnits } from '@/utils/money';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { Loader2, ChevronRight, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
-import { formatDateForInput } from "@/utils/dateFormat";
+import { parseISODate, todayISODate } from "@/utils/dateFormat";
 import {
   Table,
   TableBody,
@@ -16,6 +19,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useSidebar } from '@/contexts/SidebarContext';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import { useBusiness } from '@/contexts/useBusiness';
 
 const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
   <div className="flex items-center gap-1">
@@ -24,15 +29,21 @@ const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> =
   </div>
 );
 
+// The cost is held as typed, in major units, until the form is submitted
+type AssetFormData = Omit<AssetEntry, 'id' | 'cost'> & { cost: number };
+
 const AssetsPage = () => {
   const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('assets.create');
   const [assets, setAssets] = useState<AssetEntry[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [historyAsset, setHistoryAsset] = useState<AssetEntry | null>(null);
   
-  const [formData, setFormData] = useState<Omit<AssetEntry, 'id'>>({
+  const [formData, setFormData] = useState<AssetFormData>({
     name: '',
-    purchaseDate: new Date().toISOString().split('T')[0],
+    purchaseDate: todayISODate(),
     cost: 0,
     usefulLife: 0,
     note: ''
@@ -57,7 +68,7 @@ const AssetsPage = () => {
     }
   };
 
-  const handleInputChange = (name: keyof Omit<AssetEntry, 'id'>, value: string | number) => {
+  const handleInputChange = (name: keyof AssetFormData, value: string | number) => {
     setFormData(prev => ({
       ...prev,
       [name]: value
@@ -101,16 +112,16 @@ const AssetsPage = () => {
 
     setIsSubmitting(true);
     try {
-      await addAsset(formData);
+      await addAsset({ ...formData, cost: toMinorUnits(formData.cost) });
       await loadAssets();
       setFormData({
         name: '',
-        purchaseDate: formatDateForInput(new Date()),
+        purchaseDate: todayISODate(),
         cost: 0,
         usefulLife: 0,
         note: ''
       });
-      toast.success('Asset added successfully', {
+      toast.success(savedMessage('Asset added successfully'), {
         dismissible: true
       });
     } catch (error) {
@@ -128,7 +139,7 @@ const AssetsPage = () => {
       <div 
         className={cn(
           "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-6 overflow-auto",
-          isSidebarOpen ? "pr-[400px]" : "pr-2"
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
         )}
       >
         <div className="flex justify-between items-center border-b pb-4">
@@ -148,12 +159,13 @@ const AssetsPage = () => {
                 <TableHead className="w-[150px]">Purchase Price</TableHead>
                 <TableHead className="w-[150px]">Current Value</TableHead>
                 <TableHead>Notes</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8">
+                  <TableCell colSpan={7} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <Loader2 className="h-6 w-6 animate-spin mr-2" />
                       Loading assets data...
@@ -162,31 +174,44 @@ const AssetsPage = () => {
                 </TableRow>
               ) : assets.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No assets entries yet
                   </TableCell>
                 </TableRow>
               ) : (
                 assets.map((asset) => {
-                  const depreciationPerMonth = asset.cost / (asset.usefulLife * 12);
-                  const purchaseDate = new Date(asset.purchaseDate);
+                  const purchaseDate = parseISODate(asset.purchaseDate);
                   const today = new Date();
                   const monthsElapsed = (today.getFullYear() - purchaseDate.getFullYear()) * 12 + 
                                      (today.getMonth() - purchaseDate.getMonth());
-                  const accumulatedDepreciation = Math.min(
-                    depreciationPerMonth * monthsElapsed,
-                    asset.cost
+                  // Straight-line depreciation, rounded once on the elapsed share of the cost
+                  const accumulatedDepreciation = multiplyMoney(
+                    asset.cost,
+                    Math.min(monthsElapsed / (asset.usefulLife * 12), 1)
                   );
-                  const netBookValue = asset.cost - accumulatedDepreciation;
+                  const netBookValue = subtractMoney(asset.cost, accumulatedDepreciation);
 
                   return (
                     <TableRow key={asset.id}>
-                      <TableCell>{new Date(asset.purchaseDate).toLocaleDateString()}</TableCell>
+                      <TableCell>{parseISODate(asset.purchaseDate).toLocaleDateString()}</TableCell>
                       <TableCell>{asset.name}</TableCell>
                       <TableCell>{asset.usefulLife} years</TableCell>
-                      <TableCell>৳{asset.cost.toFixed(2)}</TableCell>
-                      <TableCell>৳{netBookValue.toFixed(2)}</TableCell>
+                      <TableCell>{formatMoney(asset.cost)}</TableCell>
+                      <TableCell>{formatMoney(netBookValue)}</TableCell>
                       <TableCell>{asset.note || '-'}</TableCell>
+                      <TableCell>
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryAsset(asset)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
                     </TableRow>
                   );
                 })
@@ -196,115 +221,124 @@ const AssetsPage = () => {
         </div>
       </div>
 
-      <div 
-        className={cn(
-          "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
-          isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
-        )}
-      >
-        <Button
-          variant="outline"
-          size="icon"
+      {canCreate && (
+        <div 
           className={cn(
-            "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
-            !isSidebarOpen && "rotate-180"
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
           )}
-          onClick={toggleSidebar}
         >
-          <ChevronRight className="h-6 w-6" />
-        </Button>
-        <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
-          <div className="p-6">
-            <h2 className="text-lg font-semibold mb-4">New Asset Entry</h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-4">
-                <div>
-                  <RequiredLabel htmlFor="name">Asset Name</RequiredLabel>
-                  <Input
-                    id="name"
-                    type="text"
-                    value={formData.name}
-                    onChange={(e) => handleInputChange('name', e.target.value)}
-                    placeholder="Enter asset name"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="purchaseDate">Purchase Date</RequiredLabel>
-                  <Input
-                    id="purchaseDate"
-                    type="date"
-                    value={formData.purchaseDate}
-                    onChange={(e) => handleInputChange('purchaseDate', e.target.value)}
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="cost">Cost</RequiredLabel>
-                  <Input
-                    id="cost"
-                    type="number"
-                    min="0.01"
-                    step="0.01"
-                    value={formData.cost}
-                    onChange={(e) => handleInputChange('cost', parseFloat(e.target.value))}
-                    placeholder="৳0.00"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Asset Entry</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-4">
+                  <div>
+                    <RequiredLabel htmlFor="name">Asset Name</RequiredLabel>
+                    <Input
+                      id="name"
+                      type="text"
+                      value={formData.name}
+                      onChange={(e) => handleInputChange('name', e.target.value)}
+                      placeholder="Enter asset name"
+                      className="w-full"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <RequiredLabel htmlFor="purchaseDate">Purchase Date</RequiredLabel>
+                    <Input
+                      id="purchaseDate"
+                      type="date"
+                      value={formData.purchaseDate}
+                      onChange={(e) => handleInputChange('purchaseDate', e.target.value)}
+                      className="w-full"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <RequiredLabel htmlFor="cost">Cost</RequiredLabel>
+                    <Input
+                      id="cost"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={formData.cost}
+                      onChange={(e) => handleInputChange('cost', parseFloat(e.target.value))}
+                      placeholder={moneyPlaceholder()}
+                      className="w-full"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <RequiredLabel htmlFor="usefulLife">Useful Life (Years)</RequiredLabel>
+                    <Input
+                      id="usefulLife"
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={formData.usefulLife}
+                      onChange={(e) => handleInputChange('usefulLife', parseInt(e.target.value))}
+                      placeholder="1"
+                      className="w-full"
+                      required
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="note">Note (Optional)</Label>
+                    <Input
+                      id="note"
+                      type="text"
+                      value={formData.note}
+                      onChange={(e) => handleInputChange('note', e.target.value)}
+                      placeholder="Add a note..."
+                      className="w-full"
+                      disabled={isSubmitting}
+                    />
+                  </div>
                 </div>
-                <div>
-                  <RequiredLabel htmlFor="usefulLife">Useful Life (Years)</RequiredLabel>
-                  <Input
-                    id="usefulLife"
-                    type="number"
-                    min="1"
-                    step="1"
-                    value={formData.usefulLife}
-                    onChange={(e) => handleInputChange('usefulLife', parseInt(e.target.value))}
-                    placeholder="1"
-                    className="w-full"
-                    required
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
                     disabled={isSubmitting}
-                  />
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Entry'
+                    )}
+                  </Button>
                 </div>
-                <div>
-                  <Label htmlFor="note">Note (Optional)</Label>
-                  <Input
-                    id="note"
-                    type="text"
-                    value={formData.note}
-                    onChange={(e) => handleInputChange('note', e.target.value)}
-                    placeholder="Add a note..."
-                    className="w-full"
-                    disabled={isSubmitting}
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end">
-                <Button 
-                  type="submit" 
-                  disabled={isSubmitting}
-                >
-                  {isSubmitting ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    'Save Entry'
-                  )}
-                </Button>
-              </div>
-            </form>
+              </form>
+            </div>
           </div>
         </div>
-      </div>
+      )}
+
+      <RecordHistorySheet
+        collectionName="assets"
+        recordId={historyAsset?.id ?? null}
+        title="Asset History"
+        onClose={() => setHistoryAsset(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import CreateBusinessForm from '@/components/business/CreateBusinessForm';
+import PendingInvitations from '@/components/business/PendingInvitations';
+import { useBusiness } from '@/contexts/useBusiness';
+
+// Shown after sign in when the user does not belong to any business yet
+const BusinessSetupPage = () => {
+  const { invitations } = useBusiness();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Set up your business</CardTitle>
+          <CardDescription>
+            Create a business to start recording transactions, or join one you were invited to
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <CreateBusinessForm allowImport />
+          {invitations.length > 0 && (
+            <>
+              <Separator />
+              <PendingInvitations />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BusinessSetupPage;
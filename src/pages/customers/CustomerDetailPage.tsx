@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  displaySaleItems,
+  getCustomer,
+  getCustomerSales,
+  getProducts,
+  type Customer,
+  type Product,
+  type SaleEntry
+} from '@/utils/database';
+import { divideMoney, sumMoney } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const CustomerDetailPage = () => {
+  const { customerId } = useParams<{ customerId: string }>();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [sales, setSales] = useState<SaleEntry[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadCustomer = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const [customerData, salesData, productsData] = await Promise.all([
+        getCustomer(id),
+        getCustomerSales(id),
+        getProducts()
+      ]);
+      setCustomer(customerData);
+      setSales(salesData);
+      setProducts(productsData);
+    } catch (error) {
+      console.error('Error loading customer:', error);
+      toast.error('Failed to load customer', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (customerId) {
+      loadCustomer(customerId);
+    }
+  }, [customerId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading customer...
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link to="/customers" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Customers
+        </Link>
+        <p className="text-muted-foreground">This customer does not exist.</p>
+      </div>
+    );
+  }
+
+  // Sales are newest first
+  const lifetimeValue = sumMoney(sales, sale => sale.total);
+  const lastOrderDate = sales[0]?.date;
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6">
+      <div className="border-b pb-4 space-y-2">
+        <Link to="/customers" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Customers
+        </Link>
+        <h1 className="text-2xl font-bold">
+          {customer.name}
+          {customer.isDeleted && <span className="ml-2 text-sm font-normal text-muted-foreground">(deleted)</span>}
+        </h1>
+        <div className="text-sm text-muted-foreground space-y-1">
+          {customer.phone && <p>{customer.phone}</p>}
+          {customer.address && <p>{customer.address}</p>}
+          {customer.gender && <p>{customer.gender}</p>}
+          {customer.notes && <p>{customer.notes}</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Lifetime Value</h3>
+          <p className="text-2xl font-bold mt-1">{formatMoney(lifetimeValue)}</p>
+          <p className="text-sm text-muted-foreground mt-1">All orders</p>
+        </div>
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Orders</h3>
+          <p className="text-2xl font-bold mt-1">{sales.length}</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {sales.reduce((sum, sale) => sum + sale.quantity, 0)} items
+          </p>
+        </div>
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Average Order Value</h3>
+          <p className="text-2xl font-bold mt-1">{formatMoney(divideMoney(lifetimeValue, sales.length))}</p>
+          <p className="text-sm text-muted-foreground mt-1">Per order</p>
+        </div>
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Last Order</h3>
+          <p className="text-2xl font-bold mt-1">{lastOrderDate ? formatDate(lastOrderDate) : '-'}</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            {customer.createdAt ? `Customer since ${formatDate(customer.createdAt)}` : ''}
+          </p>
+        </div>
+      </div>
+
+      <div className="border rounded-lg w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Date</TableHead>
+              <TableHead className="w-[150px]">Order Number</TableHead>
+              <TableHead className="w-[250px]">Products</TableHead>
+              <TableHead className="w-[120px]">Quantity</TableHead>
+              <TableHead className="w-[150px]">Total</TableHead>
+              <TableHead className="w-[250px]">Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sales.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No orders from this customer yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              sales.map((sale) => (
+                <TableRow key={sale.id}>
+                  <TableCell>{formatDate(sale.date)}</TableCell>
+                  <TableCell>{sale.order_number}</TableCell>
+                  <TableCell>{displaySaleItems(sale, products)}</TableCell>
+                  <TableCell>{sale.quantity}</TableCell>
+                  <TableCell>{formatMoney(sale.total)}</TableCell>
+                  <TableCell>{sale.notes}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetailPage;
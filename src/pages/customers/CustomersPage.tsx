@@ -0,0 +1,477 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  addCustomer,
+  deleteCustomer,
+  getCustomers,
+  newCustomerInput,
+  updateCustomer,
+  CUSTOMER_GENDERS,
+  type Customer,
+  type CustomerInput
+} from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { Loader2, ChevronRight, Pencil, History, Trash2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from "@/lib/utils";
+import { useSidebar } from '@/contexts/SidebarContext';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import GenderSelect from '@/components/form/GenderSelect';
+
+const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
+  <div className="flex items-center gap-1">
+    <Label htmlFor={htmlFor}>{children}</Label>
+    <span className="text-red-500">*</span>
+  </div>
+);
+
+interface CustomerFormFieldsProps {
+  values: CustomerInput;
+  onFieldChange: (name: keyof CustomerInput, value: string) => void;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new customer panel and the edit sheet
+const CustomerFormFields: React.FC<CustomerFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}name`}>Name</RequiredLabel>
+      <Input
+        id={`${idPrefix}name`}
+        value={values.name}
+        onChange={(e) => onFieldChange('name', e.target.value)}
+        placeholder="Enter customer name"
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}phone`}>Phone</Label>
+      <Input
+        id={`${idPrefix}phone`}
+        type="tel"
+        value={values.phone}
+        onChange={(e) => onFieldChange('phone', e.target.value)}
+        placeholder="01XXXXXXXXX"
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}address`}>Address</Label>
+      <Input
+        id={`${idPrefix}address`}
+        value={values.address}
+        onChange={(e) => onFieldChange('address', e.target.value)}
+        placeholder="Delivery address"
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="space-y-2">
+      <Label>Gender</Label>
+      <GenderSelect
+        value={values.gender}
+        onValueChange={(value) => onFieldChange('gender', value)}
+        options={CUSTOMER_GENDERS}
+        idPrefix={`${idPrefix}gender-`}
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}notes`}>Notes (Optional)</Label>
+      <Input
+        id={`${idPrefix}notes`}
+        value={values.notes}
+        onChange={(e) => onFieldChange('notes', e.target.value)}
+        placeholder="Add notes..."
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
+
+const CustomersPage = () => {
+  const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('customers.create');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [search, setSearch] = useState('');
+  const [formData, setFormData] = useState<CustomerInput>(newCustomerInput(''));
+  const [customerToEdit, setCustomerToEdit] = useState<Customer | null>(null);
+  const [editFormData, setEditFormData] = useState<CustomerInput | null>(null);
+  const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+
+  useEffect(() => {
+    loadCustomers();
+  }, []);
+
+  const loadCustomers = async () => {
+    try {
+      setIsLoading(true);
+      setCustomers(await getCustomers());
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast.error('Failed to load customers', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (name: keyof CustomerInput, value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEditInputChange = (name: keyof CustomerInput, value: string) => {
+    setEditFormData(prev => prev && { ...prev, [name]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await addCustomer(formData);
+      await loadCustomers();
+      setFormData(newCustomerInput(''));
+      toast.success(savedMessage('Customer added successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error adding customer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add customer', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setCustomerToEdit(customer);
+    setEditFormData({
+      name: customer.name,
+      phone: customer.phone,
+      address: customer.address,
+      gender: customer.gender,
+      notes: customer.notes
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customerToEdit || !editFormData) return;
+
+    setIsUpdating(true);
+    try {
+      await updateCustomer(customerToEdit.id, editFormData);
+      await loadCustomers();
+      setCustomerToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Customer updated successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update customer', {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    try {
+      await deleteCustomer(customer.id);
+      await loadCustomers();
+      toast.success(savedMessage('Customer deleted successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error deleting customer:', error);
+      toast.error('Failed to delete customer', {
+        dismissible: true
+      });
+    } finally {
+      setCustomerToDelete(null);
+    }
+  };
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleCustomers = customers.filter(customer =>
+    customer.name.toLowerCase().includes(searchTerm) || customer.phone.includes(searchTerm)
+  );
+
+  return (
+    <div className="flex h-full">
+      <div
+        className={cn(
+          "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-6 overflow-auto",
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
+        )}
+      >
+        <div className="flex justify-between items-center border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Customers</h1>
+            <p className="text-muted-foreground">Keep track of who buys from you</p>
+          </div>
+          <div className="relative w-[250px]">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or phone"
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <div className="border rounded-lg mt-4 w-full">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Name</TableHead>
+                <TableHead className="w-[150px]">Phone</TableHead>
+                <TableHead className="w-[250px]">Address</TableHead>
+                <TableHead className="w-[100px]">Gender</TableHead>
+                <TableHead className="w-[250px]">Notes</TableHead>
+                <TableHead className="w-[140px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <div className="flex items-center justify-center">
+                      <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                      Loading customers...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : visibleCustomers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {searchTerm ? 'No customers match your search' : 'No customers yet'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleCustomers.map((customer) => (
+                  <TableRow key={customer.id}>
+                    <TableCell>
+                      <Link to={`/customers/${customer.id}`} className="font-medium hover:underline">
+                        {customer.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{customer.phone || '-'}</TableCell>
+                    <TableCell>{customer.address || '-'}</TableCell>
+                    <TableCell>{customer.gender || '-'}</TableCell>
+                    <TableCell>{customer.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryCustomer(customer)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('customers.update') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(customer)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('customers.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setCustomerToDelete(customer)}
+                            className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {canCreate && (
+        <div
+          className={cn(
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
+          )}
+        >
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Customer</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <CustomerFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  disabled={isSubmitting}
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Customer'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Sheet
+        open={customerToEdit !== null}
+        onOpenChange={(open) => !open && setCustomerToEdit(null)}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Customer</SheetTitle>
+            <SheetDescription>
+              Changes show on all of this customer's sales, including past ones.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <CustomerFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={isUpdating}
+                >
+                  {isUpdating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Updating...
+                    </>
+                  ) : (
+                    'Update Customer'
+                  )}
+                </Button>
+              </div>
+            </form>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog
+        open={customerToDelete !== null}
+        onOpenChange={(open) => !open && setCustomerToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {customerToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The customer will no longer be offered on new sales. Their past sales are kept and
+              still show their name.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => customerToDelete && handleDelete(customerToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="customers"
+        recordId={historyCustomer?.id ?? null}
+        title="Customer History"
+        onClose={() => setHistoryCustomer(null)}
+      />
+    </div>
+  );
+};
+
+export default CustomersPage;
@@ -1,60 +1,221 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Calendar } from "lucide-react";
+import { Calendar, Download } from "lucide-react";
 import { toast } from 'sonner';
 import { Loader2 } from "lucide-react";
 import dayjs from 'dayjs';
-import { getSales, getPurchases, getExpenses } from '@/utils/database';
+import {
+  subscribeToSales,
+  subscribeToPurchases,
+  subscribeToExpenses,
+  subscribeToSaleReturns,
+  subscribeToPurchaseReturns,
+  subscribeToStockAdjustments,
+  subscribeToPurchaseOrders,
+  subscribeToBillPayments,
+  outstandingBills,
+  getProducts,
+  getSuppliers,
+  displayProductName,
+  type SaleEntry,
+  type PurchaseEntry,
+  type ExpenseEntry,
+  type Product,
+  type SaleReturn,
+  type PurchaseReturn,
+  type StockAdjustment,
+  type PurchaseOrder,
+  type Supplier,
+  type BillPayment
+} from '@/utils/database';
 import { cn } from "@/lib/utils";
+import { useBusiness } from '@/contexts/useBusiness';
+import { ISO_DATE_FORMAT } from '@/utils/dateFormat';
+import { getCostingMethodLabel, productKey, valueInventory, type StockItem } from '@/utils/inventory';
+import NewRowsIndicator from '@/components/live/NewRowsIndicator';
+import { useNewRowHighlights } from '@/utils/newRowHighlights';
+import { ZERO_MONEY, addMoney, multiplyMoney, subtractMoney, sumMoney, type Money } from '@/utils/money';
+import { formatMoney, formatPercent } from '@/utils/numberFormat';
+import { convertToBase } from '@/utils/currency';
+import { VELOCITY_WINDOW_DAYS, incomingStock, reorderCsvRows, suggestReorders } from '@/utils/reorder';
+import { downloadCsv } from '@/utils/csv';
 
 // Helper function to format date for display
 const formatDate = (date: Date | string): string => {
   return dayjs(date).format('DD-MMM-YYYY');
 };
 
+// Bills falling due within this many days are listed alongside those already overdue
+const UPCOMING_PAYMENT_DAYS = 14;
+
 type DateRange = {
   from: Date;
   to: Date;
 } | null;
 
 const DashboardPage = () => {
-  const [isLoading, setIsLoading] = useState(true);
+  const { activeBusiness, can } = useBusiness();
+  const costingMethod = activeBusiness?.costingMethod ?? 'fifo';
+  // Null until the first snapshot of each collection arrives
+  const [sales, setSales] = useState<SaleEntry[] | null>(null);
+  const [purchases, setPurchases] = useState<PurchaseEntry[] | null>(null);
+  const [expenses, setExpenses] = useState<ExpenseEntry[] | null>(null);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[] | null>(null);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[] | null>(null);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[] | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const canReadOrders = can('purchaseOrders.read');
+  const [billPayments, setBillPayments] = useState<BillPayment[]>([]);
+  const canReadBillPayments = can('billPayments.read');
+  const isLoading = !sales || !purchases || !expenses || !saleReturns || !purchaseReturns || !adjustments;
+  const { newCount, markNew } = useNewRowHighlights();
   const [dateRange, setDateRange] = useState<DateRange>(null);
   const [activeFilter, setActiveFilter] = useState<string>('all');
   const [dateRangeDisplay, setDateRangeDisplay] = useState<string>('');
   const [dashboardData, setDashboardData] = useState<{
-    sales: number;
-    purchases: number;
-    cogs: number;
-    grossProfit: number;
-    operatingExpenses: number;
-    netProfit: number;
-    currentStock: {
-      [key: string]: {
-        product: string;
-        quantity: number;
-        totalPurchaseValue: number;
-        totalPurchaseQuantity: number;
-        averageCost: number;
-        currentValue: number;
-      };
-    };
+    sales: Money;
+    returns: Money;
+    netSales: Money;
+    purchases: Money;
+    cogs: Money;
+    grossProfit: Money;
+    operatingExpenses: Money;
+    writeOffs: Money;
+    netProfit: Money;
+    currentStock: Record<string, StockItem>;
   }>({
-    sales: 0,
-    purchases: 0,
-    cogs: 0,
-    grossProfit: 0,
-    operatingExpenses: 0,
-    netProfit: 0,
+    sales: ZERO_MONEY,
+    returns: ZERO_MONEY,
+    netSales: ZERO_MONEY,
+    purchases: ZERO_MONEY,
+    cogs: ZERO_MONEY,
+    grossProfit: ZERO_MONEY,
+    operatingExpenses: ZERO_MONEY,
+    writeOffs: ZERO_MONEY,
+    netProfit: ZERO_MONEY,
     currentStock: {}
   });
 
+  // Inventory valuation needs the whole history, so every active record is kept live
+  useEffect(() => {
+    const handleError = (error: Error) => {
+      console.error('Error loading dashboard data:', error);
+      toast.error('Failed to load dashboard data', {
+        dismissible: true
+      });
+    };
+
+    const unsubscribers = [
+      subscribeToSales(({ items, newIds }) => {
+        setSales(items);
+        markNew(newIds);
+      }, handleError),
+      subscribeToPurchases(({ items, newIds }) => {
+        setPurchases(items);
+        markNew(newIds);
+      }, handleError),
+      subscribeToExpenses(({ items, newIds }) => {
+        setExpenses(items);
+        markNew(newIds);
+      }, handleError),
+      subscribeToSaleReturns(({ items, newIds }) => {
+        setSaleReturns(items);
+        markNew(newIds);
+      }, handleError),
+      subscribeToPurchaseReturns(({ items, newIds }) => {
+        setPurchaseReturns(items);
+        markNew(newIds);
+      }, handleError),
+      subscribeToStockAdjustments(({ items, newIds }) => {
+        setAdjustments(items);
+        markNew(newIds);
+      }, handleError)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [markNew]);
+
+  // Orders don't affect the figures above, only what is still to arrive
+  useEffect(() => {
+    if (!canReadOrders) return;
+
+    return subscribeToPurchaseOrders(({ items }) => setPurchaseOrders(items), (error) => {
+      console.error('Error loading purchase orders:', error);
+    });
+  }, [canReadOrders]);
+
+  // Payments against bills only decide what is still owed
+  useEffect(() => {
+    if (!canReadBillPayments) return;
+
+    return subscribeToBillPayments(({ items }) => setBillPayments(items), (error) => {
+      console.error('Error loading bill payments:', error);
+    });
+  }, [canReadBillPayments]);
+
+  // Stock rows show each product's current name; reorder suggestions need
+  // reorder levels and supplier lead times
+  useEffect(() => {
+    loadProducts();
+    loadSuppliers();
+  }, []);
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  const loadSuppliers = async () => {
+    try {
+      setSuppliers(await getSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+    }
+  };
+
+  const incoming = useMemo(() => incomingStock(purchaseOrders), [purchaseOrders]);
+
+  const openOrders = useMemo(() => {
+    const open = purchaseOrders.filter(order => order.status === 'ordered' || order.status === 'partial');
+    return {
+      count: open.length,
+      drafts: purchaseOrders.filter(order => order.status === 'draft').length,
+      outstandingValue: sumMoney(open, order => addMoney(...order.items.map(line => convertToBase(
+        multiplyMoney(line.price, line.quantity - line.received),
+        order.exchangeRate
+      )))),
+      advancesHeld: sumMoney(open, order => subtractMoney(order.advance, order.advanceUsed))
+    };
+  }, [purchaseOrders]);
+
+  const upcomingPayments = useMemo(() => {
+    if (!purchases || !expenses || !purchaseReturns) return [];
+    const horizon = dayjs().add(UPCOMING_PAYMENT_DAYS, 'day').format(ISO_DATE_FORMAT);
+    return outstandingBills(purchases, expenses, billPayments, purchaseReturns)
+      .filter(({ bill }) => bill.dueDate <= horizon);
+  }, [purchases, expenses, billPayments, purchaseReturns]);
+
+  const reorderSuggestions = useMemo(() => {
+    if (!sales || !purchases) return [];
+    return suggestReorders(products, dashboardData.currentStock, sales, purchases, suppliers, incoming);
+  }, [products, dashboardData.currentStock, sales, purchases, suppliers, incoming]);
+
+  const exportReorderList = () => {
+    downloadCsv(`reorder-list-${dayjs().format(ISO_DATE_FORMAT)}.csv`, reorderCsvRows(reorderSuggestions));
+  };
+
   useEffect(() => {
-    loadDashboardData();
-  }, [dateRange, activeFilter]);
+    calculateDashboardData();
+  }, [sales, purchases, expenses, saleReturns, purchaseReturns, adjustments, dateRange, activeFilter, costingMethod]);
 
   useEffect(() => {
     updateDateRangeDisplay();
@@ -98,15 +259,10 @@ const DashboardPage = () => {
     }
   };
 
-  const loadDashboardData = async () => {
-    try {
-      setIsLoading(true);
-      const [sales, purchases, expenses] = await Promise.all([
-        getSales(),
-        getPurchases(),
-        getExpenses()
-      ]);
+  const calculateDashboardData = () => {
+    if (!sales || !purchases || !expenses || !saleReturns || !purchaseReturns || !adjustments) return;
 
+    try {
       // Filter data based on date range and active filter
       let start = new Date(0);
       let end = new Date();
@@ -134,90 +290,78 @@ const DashboardPage = () => {
       const endDay = dayjs(end).endOf('day');
 
       const filteredSales = sales.filter(sale => {
-        const saleDate = dayjs(sale.date, 'DD-MMM-YYYY');
-        return saleDate.isAfter(startDay) && saleDate.isBefore(endDay);
+        const saleDate = dayjs(sale.date, ISO_DATE_FORMAT);
+        return !saleDate.isBefore(startDay) && !saleDate.isAfter(endDay);
       });
 
       const filteredPurchases = purchases.filter(purchase => {
-        const purchaseDate = dayjs(purchase.date, 'DD-MMM-YYYY');
-        return purchaseDate.isAfter(startDay) && purchaseDate.isBefore(endDay);
+        const purchaseDate = dayjs(purchase.date, ISO_DATE_FORMAT);
+        return !purchaseDate.isBefore(startDay) && !purchaseDate.isAfter(endDay);
       });
 
       const filteredExpenses = expenses.filter(expense => {
-        const expenseDate = dayjs(expense.date, 'DD-MMM-YYYY');
-        return expenseDate.isAfter(startDay) && expenseDate.isBefore(endDay);
+        const expenseDate = dayjs(expense.date, ISO_DATE_FORMAT);
+        return !expenseDate.isBefore(startDay) && !expenseDate.isAfter(endDay);
       });
 
-      // Calculate current stock
-      const currentStock: {
-        [key: string]: {
-          product: string;
-          quantity: number;
-          totalPurchaseValue: number;
-          totalPurchaseQuantity: number;
-          averageCost: number;
-          currentValue: number;
-        };
-      } = {};
-
-      // Add all purchases
-      purchases.forEach(purchase => {
-        if (!currentStock[purchase.product]) {
-          currentStock[purchase.product] = {
-            product: purchase.product,
-            quantity: 0,
-            totalPurchaseValue: 0,
-            totalPurchaseQuantity: 0,
-            averageCost: 0,
-            currentValue: 0
-          };
-        }
-        currentStock[purchase.product].totalPurchaseValue += purchase.total;
-        currentStock[purchase.product].totalPurchaseQuantity += purchase.quantity;
-        currentStock[purchase.product].quantity += purchase.quantity;
+      // Returns count in the period they happen, not the period of the sale
+      const filteredReturns = saleReturns.filter(saleReturn => {
+        const returnDate = dayjs(saleReturn.date, ISO_DATE_FORMAT);
+        return !returnDate.isBefore(startDay) && !returnDate.isAfter(endDay);
       });
 
-      // Subtract all sales
-      sales.forEach(sale => {
-        if (currentStock[sale.product]) {
-          currentStock[sale.product].quantity -= sale.quantity;
-        }
+      const filteredAdjustments = adjustments.filter(adjustment => {
+        const adjustmentDate = dayjs(adjustment.date, ISO_DATE_FORMAT);
+        return !adjustmentDate.isBefore(startDay) && !adjustmentDate.isAfter(endDay);
       });
 
-      // Calculate average cost and current value for each product
-      Object.values(currentStock).forEach(stock => {
-        if (stock.totalPurchaseQuantity > 0) {
-          stock.averageCost = stock.totalPurchaseValue / stock.totalPurchaseQuantity;
-          stock.currentValue = stock.quantity * stock.averageCost;
-        }
-      });
+      // Cost each sale from the purchase layers of its product, replaying all
+      // history so stock bought before the selected period is costed correctly
+      const { saleCosts, returnCosts, writeOffs, stock: currentStock } = valueInventory(
+        purchases,
+        sales,
+        costingMethod,
+        saleReturns,
+        purchaseReturns,
+        adjustments
+      );
 
       // Calculate totals
-      const totalSales = filteredSales.reduce((sum, sale) => sum + sale.total, 0);
-      const totalPurchases = filteredPurchases.reduce((sum, purchase) => sum + purchase.total, 0);
-      const totalOperatingExpenses = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+      const totalSales = sumMoney(filteredSales, sale => sale.total);
+      const totalReturns = sumMoney(filteredReturns, saleReturn => saleReturn.total);
+      const netSales = subtractMoney(totalSales, totalReturns);
+      const totalPurchases = sumMoney(filteredPurchases, purchase => purchase.total);
+      const totalOperatingExpenses = sumMoney(filteredExpenses, expense => expense.amount);
       
-      // COGS is the total purchases for the period
-      const totalCOGS = totalPurchases;
-      const grossProfit = totalSales - totalCOGS;
-      const netProfit = grossProfit - totalOperatingExpenses;
+      // Restocked returns give back the cost of the units that came back
+      const totalCOGS = subtractMoney(
+        sumMoney(filteredSales, sale => (sale.id && saleCosts[sale.id]) || ZERO_MONEY),
+        sumMoney(filteredReturns, saleReturn => (saleReturn.id && returnCosts[saleReturn.id]) || ZERO_MONEY)
+      );
+      const totalWriteOffs = sumMoney(
+        filteredAdjustments,
+        adjustment => (adjustment.id && writeOffs[adjustment.id]) || ZERO_MONEY
+      );
+      const grossProfit = subtractMoney(netSales, totalCOGS);
+      const netProfit = subtractMoney(grossProfit, addMoney(totalOperatingExpenses, totalWriteOffs));
 
       setDashboardData({
         sales: totalSales,
+        returns: totalReturns,
+        netSales,
         purchases: totalPurchases,
         cogs: totalCOGS,
         grossProfit,
         operatingExpenses: totalOperatingExpenses,
+        writeOffs: totalWriteOffs,
         netProfit,
         currentStock
       });
     } catch (error) {
-      console.error('Error loading dashboard data:', error);
-      toast.error('Failed to load dashboard data', {
+      console.error('Error calculating dashboard data:', error);
+      toast.error('Failed to calculate dashboard data', {
         dismissible: true
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -369,6 +513,7 @@ const DashboardPage = () => {
           <div className="text-sm text-muted-foreground flex items-center gap-2">
             <Calendar className="h-4 w-4" />
             {dateRangeDisplay}
+            <NewRowsIndicator count={newCount} />
           </div>
         )}
       </div>
@@ -383,9 +528,19 @@ const DashboardPage = () => {
             <div className="space-y-4">
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground mb-2">Revenue</h3>
-                <div className="flex items-center justify-between border-b pb-2">
-                  <span className="text-sm">Total Sales</span>
-                  <span className="text-lg font-semibold">৳{dashboardData.sales.toFixed(2)}</span>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between border-b pb-2">
+                    <span className="text-sm">Total Sales</span>
+                    <span className="text-lg font-semibold">{formatMoney(dashboardData.sales)}</span>
+                  </div>
+                  <div className="flex items-center justify-between border-b pb-2">
+                    <span className="text-sm">Returns</span>
+                    <span className="text-lg font-semibold text-red-500">{formatMoney(dashboardData.returns)}</span>
+                  </div>
+                  <div className="flex items-center justify-between border-b pb-2 pt-1">
+                    <span className="text-sm font-medium">Net Sales</span>
+                    <span className="text-lg font-semibold">{formatMoney(dashboardData.netSales)}</span>
+                  </div>
                 </div>
               </div>
 
@@ -394,16 +549,22 @@ const DashboardPage = () => {
                 <h3 className="text-sm font-medium text-muted-foreground mb-2">Costs</h3>
                 <div className="space-y-2">
                   <div className="flex items-center justify-between border-b pb-2">
-                    <span className="text-sm">Cost of Goods Sold (COGS)</span>
-                    <span className="text-lg font-semibold text-red-500">৳{dashboardData.cogs.toFixed(2)}</span>
+                    <span className="text-sm">Cost of Goods Sold ({getCostingMethodLabel(costingMethod)})</span>
+                    <span className="text-lg font-semibold text-red-500">{formatMoney(dashboardData.cogs)}</span>
                   </div>
                   <div className="flex items-center justify-between border-b pb-2">
                     <span className="text-sm">Operating Expenses</span>
-                    <span className="text-lg font-semibold text-red-500">৳{dashboardData.operatingExpenses.toFixed(2)}</span>
+                    <span className="text-lg font-semibold text-red-500">{formatMoney(dashboardData.operatingExpenses)}</span>
+                  </div>
+                  <div className="flex items-center justify-between border-b pb-2">
+                    <span className="text-sm">Inventory Write-offs</span>
+                    <span className="text-lg font-semibold text-red-500">{formatMoney(dashboardData.writeOffs)}</span>
                   </div>
                   <div className="flex items-center justify-between border-b pb-2 pt-1">
                     <span className="text-sm font-medium">Total Cost</span>
-                    <span className="text-lg font-semibold text-red-500">৳{(dashboardData.cogs + dashboardData.operatingExpenses).toFixed(2)}</span>
+                    <span className="text-lg font-semibold text-red-500">
+                      {formatMoney(addMoney(dashboardData.cogs, addMoney(dashboardData.operatingExpenses, dashboardData.writeOffs)))}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -416,7 +577,7 @@ const DashboardPage = () => {
                 <div className="space-y-2">
                   <div>
                     <div className="text-xs text-muted-foreground mb-1">
-                      Gross Profit = Total Sales - COGS
+                      Gross Profit = Net Sales - COGS
                     </div>
                     <div className="flex items-center justify-between border-b pb-2">
                       <span className="text-sm">Gross Profit</span>
@@ -424,13 +585,13 @@ const DashboardPage = () => {
                         "text-lg font-semibold",
                         dashboardData.grossProfit < 0 ? "text-red-500" : "text-green-500"
                       )}>
-                        {dashboardData.grossProfit < 0 ? "-" : ""}৳{Math.abs(dashboardData.grossProfit).toFixed(2)}
+                        {formatMoney(dashboardData.grossProfit)}
                       </span>
                     </div>
                   </div>
                   <div>
                     <div className="text-xs text-muted-foreground mb-1">
-                      Net Profit = Gross Profit - Operating Expenses
+                      Net Profit = Gross Profit - Operating Expenses - Write-offs
                     </div>
                     <div className="flex items-center justify-between border-b pb-2">
                       <span className="text-sm">Net Profit</span>
@@ -438,7 +599,7 @@ const DashboardPage = () => {
                         "text-lg font-semibold",
                         dashboardData.netProfit < 0 ? "text-red-500" : "text-green-500"
                       )}>
-                        {dashboardData.netProfit < 0 ? "-" : ""}৳{Math.abs(dashboardData.netProfit).toFixed(2)}
+                        {formatMoney(dashboardData.netProfit)}
                       </span>
                     </div>
                   </div>
@@ -451,7 +612,7 @@ const DashboardPage = () => {
                 <div className="space-y-2">
                   <div>
                     <div className="text-xs text-muted-foreground mb-1">
-                      Gross Margin = (Gross Profit ÷ Total Sales) × 100
+                      Gross Margin = (Gross Profit ÷ Net Sales) × 100
                     </div>
                     <div className="flex items-center justify-between border-b pb-2">
                       <span className="text-sm">Gross Margin</span>
@@ -459,15 +620,15 @@ const DashboardPage = () => {
                         "text-lg font-semibold",
                         dashboardData.grossProfit < 0 ? "text-red-500" : "text-green-500"
                       )}>
-                        {dashboardData.sales > 0 
-                          ? ((dashboardData.grossProfit / dashboardData.sales) * 100).toFixed(1)
-                          : "0.0"}%
+                        {formatPercent(dashboardData.netSales > 0
+                          ? (dashboardData.grossProfit / dashboardData.netSales) * 100
+                          : 0)}
                       </span>
                     </div>
                   </div>
                   <div>
                     <div className="text-xs text-muted-foreground mb-1">
-                      Net Margin = (Net Profit ÷ Total Sales) × 100
+                      Net Margin = (Net Profit ÷ Net Sales) × 100
                     </div>
                     <div className="flex items-center justify-between border-b pb-2">
                       <span className="text-sm">Net Margin</span>
@@ -475,9 +636,9 @@ const DashboardPage = () => {
                         "text-lg font-semibold",
                         dashboardData.netProfit < 0 ? "text-red-500" : "text-green-500"
                       )}>
-                        {dashboardData.sales > 0 
-                          ? ((dashboardData.netProfit / dashboardData.sales) * 100).toFixed(1)
-                          : "0.0"}%
+                        {formatPercent(dashboardData.netSales > 0
+                          ? (dashboardData.netProfit / dashboardData.netSales) * 100
+                          : 0)}
                       </span>
                     </div>
                   </div>
@@ -489,8 +650,189 @@ const DashboardPage = () => {
       </Card>
 
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1">
+            <CardTitle>Low Stock</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              At or below the reorder level, or selling out before a new order could arrive.
+              Daily sales are averaged over the last {VELOCITY_WINDOW_DAYS} days.
+            </p>
+          </div>
+          <Button variant="outline" onClick={exportReorderList} disabled={reorderSuggestions.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Reorder List
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading stock data...
+            </div>
+          ) : reorderSuggestions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Every product is above its reorder level</p>
+          ) : (
+            <div className="relative w-full overflow-auto">
+              <table className="w-full caption-bottom text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="h-12 px-4 text-left align-middle font-medium">Product</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">On Hand</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">Reorder Level</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">Daily Sales</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">Days Left</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Supplier</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">On Order</th>
+                    <th className="h-12 px-4 text-right align-middle font-medium">Suggested Order</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reorderSuggestions.map(suggestion => (
+                    <tr key={suggestion.productId} className="border-b">
+                      <td className="p-4 align-middle">{suggestion.product}</td>
+                      <td className={cn("p-4 align-middle text-right", suggestion.onHand <= 0 && "text-red-500")}>
+                        {suggestion.onHand}
+                      </td>
+                      <td className="p-4 align-middle text-right">{suggestion.reorderLevel}</td>
+                      <td className="p-4 align-middle text-right">{suggestion.dailySales.toFixed(1)}</td>
+                      <td className="p-4 align-middle text-right">
+                        {suggestion.daysLeft === null ? '-' : Math.floor(suggestion.daysLeft)}
+                      </td>
+                      <td className="p-4 align-middle">
+                        {suggestion.supplierId ? (
+                          <Link to={`/suppliers/${suggestion.supplierId}`} className="hover:underline">
+                            {suggestion.supplier}
+                          </Link>
+                        ) : '-'}
+                        <div className="text-xs text-muted-foreground">{suggestion.leadTimeDays} days lead time</div>
+                      </td>
+                      <td className="p-4 align-middle text-right">{suggestion.onOrder || '-'}</td>
+                      <td className="p-4 align-middle text-right font-medium">
+                        {suggestion.suggestedQuantity} {suggestion.unit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canReadOrders && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div className="space-y-1">
+              <CardTitle>Incoming Stock</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {openOrders.count} outstanding purchase {openOrders.count === 1 ? 'order' : 'orders'} worth{' '}
+                {formatMoney(openOrders.outstandingValue)}
+                {openOrders.advancesHeld > 0 && `, with ${formatMoney(openOrders.advancesHeld)} paid in advance`}
+                {openOrders.drafts > 0 && `; ${openOrders.drafts} ${openOrders.drafts === 1 ? 'draft' : 'drafts'} not yet placed`}
+              </p>
+            </div>
+            <Link to="/purchase-orders" className="text-sm text-muted-foreground hover:underline">
+              Purchase orders
+            </Link>
+          </CardHeader>
+          <CardContent>
+            {Object.keys(incoming).length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Nothing on order</p>
+            ) : (
+              <div className="relative w-full overflow-auto">
+                <table className="w-full caption-bottom text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="h-12 px-4 text-left align-middle font-medium">Product</th>
+                      <th className="h-12 px-4 text-right align-middle font-medium">On Order</th>
+                      <th className="h-12 px-4 text-right align-middle font-medium">Value</th>
+                      <th className="h-12 px-4 text-left align-middle font-medium">Supplier</th>
+                      <th className="h-12 px-4 text-left align-middle font-medium">Expected</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.values(incoming)
+                      .sort((a, b) => (a.expectedDate || '9999').localeCompare(b.expectedDate || '9999'))
+                      .map(item => (
+                        <tr key={productKey(item)} className="border-b">
+                          <td className="p-4 align-middle">{displayProductName(item, products)}</td>
+                          <td className="p-4 align-middle text-right">{item.quantity}</td>
+                          <td className="p-4 align-middle text-right">{formatMoney(item.value)}</td>
+                          <td className="p-4 align-middle">{item.supplier || '-'}</td>
+                          <td className={cn(
+                            "p-4 align-middle",
+                            item.expectedDate && item.expectedDate < dayjs().format(ISO_DATE_FORMAT) && "text-red-500"
+                          )}>
+                            {item.expectedDate ? formatDate(item.expectedDate) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {canReadBillPayments && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div className="space-y-1">
+              <CardTitle>Upcoming Payments</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Bills overdue or due in the next {UPCOMING_PAYMENT_DAYS} days, totalling{' '}
+                {formatMoney(sumMoney(upcomingPayments, ({ balance }) => balance.due))}
+              </p>
+            </div>
+            <Link to="/payables" className="text-sm text-muted-foreground hover:underline">
+              Payables
+            </Link>
+          </CardHeader>
+          <CardContent>
+            {upcomingPayments.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">Nothing falls due in the next {UPCOMING_PAYMENT_DAYS} days</p>
+            ) : (
+              <div className="relative w-full overflow-auto">
+                <table className="w-full caption-bottom text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="h-12 px-4 text-left align-middle font-medium">Due Date</th>
+                      <th className="h-12 px-4 text-left align-middle font-medium">Payee</th>
+                      <th className="h-12 px-4 text-left align-middle font-medium">Bill</th>
+                      <th className="h-12 px-4 text-right align-middle font-medium">Due</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {upcomingPayments.map(({ bill, balance }) => (
+                      <tr key={`${bill.type}-${bill.id}`} className="border-b">
+                        <td className={cn(
+                          "p-4 align-middle",
+                          bill.dueDate < dayjs().format(ISO_DATE_FORMAT) && "text-red-500"
+                        )}>
+                          {formatDate(bill.dueDate)}
+                        </td>
+                        <td className="p-4 align-middle">{bill.payee}</td>
+                        <td className="p-4 align-middle">{bill.reference}</td>
+                        <td className="p-4 align-middle text-right">{formatMoney(balance.due)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Current Stock</CardTitle>
+          {can('stockAdjustments.read') && (
+            <Link to="/stock-adjustments" className="text-sm text-muted-foreground hover:underline">
+              Stock adjustments
+            </Link>
+          )}
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -515,11 +857,11 @@ const DashboardPage = () => {
                   {Object.values(dashboardData.currentStock)
                     .filter(item => item.quantity > 0)
                     .map(item => (
-                      <tr key={item.product} className="border-b">
-                        <td className="p-4 align-middle">{item.product}</td>
+                      <tr key={productKey(item)} className="border-b">
+                        <td className="p-4 align-middle">{displayProductName(item, products)}</td>
                         <td className="p-4 align-middle text-right">{item.quantity}</td>
-                        <td className="p-4 align-middle text-right">৳{item.averageCost.toFixed(2)}</td>
-                        <td className="p-4 align-middle text-right">৳{item.currentValue.toFixed(2)}</td>
+                        <td className="p-4 align-middle text-right">{formatMoney(item.averageCost)}</td>
+                        <td className="p-4 align-middle text-right">{formatMoney(item.currentValue)}</td>
                       </tr>
                     ))}
                   {/* Total Row */}
@@ -532,9 +874,10 @@ const DashboardPage = () => {
                     </td>
                     <td className="p-4 align-middle text-right font-medium">-</td>
                     <td className="p-4 align-middle text-right font-medium">
-                      ৳{Object.values(dashboardData.currentStock)
-                        .filter(item => item.quantity > 0)
-                        .reduce((sum, item) => sum + item.currentValue, 0).toFixed(2)}
+                      {formatMoney(sumMoney(
+                        Object.values(dashboardData.currentStock).filter(item => item.quantity > 0),
+                        item => item.currentValue
+                      ))}
                     </td>
                   </tr>
                 </tbody>
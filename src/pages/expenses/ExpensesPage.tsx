@@ -2,12 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { addExpense, getExpenses, addExpenseCategory, getExpenseCategories, type ExpenseEntry as DBExpenseEntry, type ExpenseCategory, deleteExpense, getDeletedExpenses, restoreExpense } from '@/utils/database';
-import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar } from 'lucide-react';
+import { addExpense, subscribeToExpensesPage, getExpensesTotals, DEFAULT_PAGE_SIZE, addExpenseCategory, getExpenseCategories, type ExpenseEntry as DBExpenseEntry, type ExpenseCategory, type ExpenseInput, type ExpenseTotals, deleteExpense, restoreExpense, updateExpense, expenseBill, getBillBalance, groupByBill, subscribeToBillPayments, type Bill, type BillPayment } from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { ZERO_MONEY, divideMoney, sumMoney, toMajorUnits, toMinorUnits } from '@/utils/money';
+import { formatMoney, formatPercent, moneyPlaceholder } from '@/utils/numberFormat';
+import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar, Pencil, History, Wallet } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
-import { formatDate, formatDateForInput } from "@/utils/dateFormat";
+import { formatDate, getFilterBounds, monthsSpanned, parseISODate, todayISODate } from "@/utils/dateFormat";
 import CategorySelect from '@/components/form/CategorySelect';
+import BillTermsFields from '@/components/payables/BillTermsFields';
+import BillPaymentSheet from '@/components/payables/BillPaymentSheet';
+import PaymentStatusBadge from '@/components/payments/PaymentStatusBadge';
+import { billTermsFrom, emptyBillTerms, getBillTermsError, toBillTerms, type BillTermsValues } from '@/utils/billTerms';
 import {
   Table,
   TableBody,
@@ -33,27 +40,57 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useSidebar } from '@/contexts/SidebarContext';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import { useBusiness } from '@/contexts/useBusiness';
+import NewRowsIndicator from '@/components/live/NewRowsIndicator';
+import { useNewRowHighlights } from '@/utils/newRowHighlights';
 
-// Define Firestore Timestamp type for internal use
-type FirestoreTimestamp = {
-  seconds: number;
-  nanoseconds: number;
-};
 
 type DateRange = {
   from: Date;
   to: Date;
 } | null;
 
+// The amount is held as typed, in major units, until the form is submitted
 interface ExpenseFormData {
   date: string;
   category: string;
   description: string;
   amount: number;
+  terms: BillTermsValues;
   notes: string;
 }
 
+const emptyExpenseForm = (): ExpenseFormData => ({
+  date: todayISODate(),
+  category: '',
+  description: '',
+  amount: 0,
+  terms: emptyBillTerms(),
+  notes: ''
+});
+
+const toExpenseInput = (values: ExpenseFormData): ExpenseInput => {
+  const { paidOnEntry, dueDate } = toBillTerms(values.terms, values.date);
+  return {
+    date: values.date,
+    category: values.category,
+    description: values.description,
+    amount: toMinorUnits(values.amount),
+    // Left out when paid in full, so the bill follows the amount
+    ...(paidOnEntry !== undefined && { paidOnExpense: paidOnEntry, dueDate }),
+    notes: values.notes
+  };
+};
+
 const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
   <div className="flex items-center gap-1">
     <Label htmlFor={htmlFor}>{children}</Label>
@@ -61,62 +98,183 @@ const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> =
   </div>
 );
 
+// Validate an expense form, returning the first error message if any
+const getExpenseValidationError = (expense: ExpenseFormData): string | null => {
+  const requiredFields = {
+    date: 'Date',
+    category: 'Category',
+    description: 'Description',
+    amount: 'Amount'
+  } as const;
+
+  const missingFields = Object.entries(requiredFields).filter(
+    ([key]) => !expense[key as keyof typeof requiredFields]
+  ).map(([, label]) => label);
+
+  if (missingFields.length > 0) {
+    return `Required fields missing: ${missingFields.join(', ')}`;
+  }
+
+  if (Number(expense.amount) <= 0) {
+    return 'Amount must be greater than 0';
+  }
+
+  return getBillTermsError(expense.terms, toMinorUnits(expense.amount), expense.date);
+};
+
+interface ExpenseFormFieldsProps {
+  values: ExpenseFormData;
+  onFieldChange: (name: keyof ExpenseFormData, value: string | number) => void;
+  onTermsChange: (terms: BillTermsValues) => void;
+  categories: ExpenseCategory[];
+  onAddCategory?: (name: string) => Promise<void>;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new entry panel and the edit sheet
+const ExpenseFormFields: React.FC<ExpenseFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  onTermsChange,
+  categories,
+  onAddCategory,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}date`}>Date</RequiredLabel>
+      <Input
+        id={`${idPrefix}date`}
+        type="date"
+        value={values.date}
+        onChange={(e) => onFieldChange('date', e.target.value)}
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}category`}>Category</RequiredLabel>
+      <CategorySelect
+        value={values.category}
+        onValueChange={(value) => onFieldChange('category', value)}
+        categories={categories}
+        onAddCategory={onAddCategory}
+        placeholder="Select category"
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}description`}>Description</RequiredLabel>
+      <Input
+        id={`${idPrefix}description`}
+        type="text"
+        value={values.description}
+        onChange={(e) => onFieldChange('description', e.target.value)}
+        placeholder="Enter description"
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}amount`}>Amount</RequiredLabel>
+      <Input
+        id={`${idPrefix}amount`}
+        type="number"
+        min="0.01"
+        step="0.01"
+        value={values.amount}
+        onChange={(e) => onFieldChange('amount', parseFloat(e.target.value))}
+        placeholder={moneyPlaceholder()}
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <BillTermsFields
+      values={values.terms}
+      onChange={onTermsChange}
+      amount={toMinorUnits(values.amount)}
+      defaultDueDate={values.date}
+      disabled={disabled}
+      idPrefix={idPrefix}
+    />
+    <div>
+      <Label htmlFor={`${idPrefix}notes`}>Notes (Optional)</Label>
+      <Input
+        id={`${idPrefix}notes`}
+        type="text"
+        value={values.notes}
+        onChange={(e) => onFieldChange('notes', e.target.value)}
+        placeholder="Notes"
+        className="w-full"
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
+
 const ExpensesPage = () => {
   const [expenses, setExpenses] = useState<DBExpenseEntry[]>([]);
-  const [filteredExpenses, setFilteredExpenses] = useState<DBExpenseEntry[]>([]);
+  const [expensesTotals, setExpensesTotals] = useState<ExpenseTotals | null>(null);
+  // Pages shown so far; the live query grows instead of paging with cursors
+  const [pageCount, setPageCount] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('expenses.create');
+  const { newCount, markNew, isNew } = useNewRowHighlights();
   const [expenseToDelete, setExpenseToDelete] = useState<DBExpenseEntry | null>(null);
+  const [expenseToEdit, setExpenseToEdit] = useState<DBExpenseEntry | null>(null);
+  const [historyExpense, setHistoryExpense] = useState<DBExpenseEntry | null>(null);
+  const [editFormData, setEditFormData] = useState<ExpenseFormData | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
   const [showDeleted, setShowDeleted] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange>(null);
   const [activeFilter, setActiveFilter] = useState<string>('all');
   const [dateRangeDisplay, setDateRangeDisplay] = useState<string>('');
   
-  const [formData, setFormData] = useState<ExpenseFormData>({
-    date: formatDateForInput(new Date()),
-    category: '',
-    description: '',
-    amount: 0,
-    notes: ''
-  });
+  const [formData, setFormData] = useState<ExpenseFormData>(emptyExpenseForm());
+  const [billToPay, setBillToPay] = useState<Bill | null>(null);
+  // Every live bill payment, to show what is still owed on each expense
+  const [billPayments, setBillPayments] = useState<BillPayment[]>([]);
+  const canReadPayments = can('billPayments.read');
+  const paymentsByBill = React.useMemo(() => groupByBill(billPayments), [billPayments]);
+
+  useEffect(() => {
+    if (!canReadPayments) return;
+
+    return subscribeToBillPayments(({ items }) => setBillPayments(items), (error) => {
+      console.error('Error loading bill payments:', error);
+      toast.error('Failed to load bill payments', {
+        dismissible: true
+      });
+    });
+  }, [canReadPayments]);
 
-  // Calculate expenses summary based on filtered expenses
+  // Summary figures cover the whole filtered period, not just the loaded pages
   const expensesSummary = React.useMemo(() => {
-    // Group expenses by category and calculate total for each
-    const categoryTotals = filteredExpenses.reduce((acc, expense) => {
-      const category = expense.category;
-      acc[category] = (acc[category] || 0) + expense.amount;
-      return acc;
-    }, {} as Record<string, number>);
+    const categoryTotals = expensesTotals?.categoryTotals ?? {};
+    const totalExpenses = expensesTotals?.amount ?? ZERO_MONEY;
 
     // Find category with highest total
     let highestCategory = {
       name: '',
-      amount: 0,
+      amount: ZERO_MONEY,
       percentage: 0
     };
 
-    // Calculate total expenses first
-    const totalExpenses = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
-
-    // Calculate average monthly expenses
-    const dates = filteredExpenses.map(expense => 
-      typeof expense.date === 'string' 
-        ? new Date(expense.date) 
-        : new Date((expense.date as FirestoreTimestamp).seconds * 1000)
-    );
-    
-    let monthlyAverage = 0;
-    if (dates.length > 0) {
-      const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-      const latest = new Date(Math.max(...dates.map(d => d.getTime())));
-      const monthDiff = (latest.getFullYear() - earliest.getFullYear()) * 12 + 
-                       (latest.getMonth() - earliest.getMonth()) + 1;
-      monthlyAverage = totalExpenses / Math.max(1, monthDiff);
-    }
+    const monthlyAverage = expensesTotals?.firstDate && expensesTotals.lastDate
+      ? divideMoney(totalExpenses, Math.max(1, monthsSpanned(expensesTotals.firstDate, expensesTotals.lastDate)))
+      : ZERO_MONEY;
 
     Object.entries(categoryTotals).forEach(([category, total]) => {
       if (total > highestCategory.amount) {
@@ -129,11 +287,13 @@ const ExpensesPage = () => {
     });
 
     // Calculate Facebook ads spending
-    const facebookAdsTotal = filteredExpenses
-      .filter(expense => expense.category.toLowerCase().includes('facebook') || 
-                        expense.category.toLowerCase().includes('fb') ||
-                        expense.category.toLowerCase().includes('meta'))
-      .reduce((sum, expense) => sum + expense.amount, 0);
+    const facebookAdsTotal = sumMoney(
+      Object.entries(categoryTotals)
+        .filter(([category]) => category.toLowerCase().includes('facebook') || 
+                                category.toLowerCase().includes('fb') ||
+                                category.toLowerCase().includes('meta')),
+      ([, total]) => total
+    );
 
     return {
       totalExpenses,
@@ -144,87 +304,63 @@ const ExpensesPage = () => {
         percentage: totalExpenses > 0 ? (facebookAdsTotal / totalExpenses) * 100 : 0
       }
     };
-  }, [filteredExpenses]);
+  }, [expensesTotals]);
 
   useEffect(() => {
-    loadExpenses();
-    loadCategories();
-  }, []);
+    setPageCount(1);
+  }, [showDeleted, dateRange, activeFilter]);
 
+  // Keep the list live; totals come from aggregate queries, so they are
+  // re-fetched whenever the list changes
   useEffect(() => {
-    loadData();
-  }, [showDeleted]);
+    let isActive = true;
+    const filter = getFilter();
+    if (pageCount === 1) setIsLoading(true);
 
-  useEffect(() => {
-    if (expenses.length > 0) {
-      filterExpenses();
-    }
-  }, [expenses, dateRange, activeFilter]);
-
-  useEffect(() => {
-    updateDateRangeDisplay();
-  }, [filteredExpenses, activeFilter, dateRange]);
-
-  const filterExpenses = () => {
-    let filtered = [...expenses];
-    
-    if (dateRange?.from && dateRange?.to) {
-      filtered = filtered.filter(expense => {
-        const expenseDate = typeof expense.date === 'string' 
-          ? new Date(expense.date) 
-          : new Date((expense.date as FirestoreTimestamp).seconds * 1000);
-        return expenseDate >= dateRange.from && expenseDate <= dateRange.to;
-      });
-    } else {
-      const today = new Date();
-      const fromDate = new Date();
-
-      switch (activeFilter) {
-        case '7days':
-          fromDate.setDate(today.getDate() - 7);
-          break;
-        case '1month':
-          fromDate.setMonth(today.getMonth() - 1);
-          break;
-        case '3months':
-          fromDate.setMonth(today.getMonth() - 3);
-          break;
-        default:
-          setFilteredExpenses(filtered);
-          return;
+    const unsubscribe = subscribeToExpensesPage(
+      { ...filter, pageSize: DEFAULT_PAGE_SIZE * pageCount },
+      async (page) => {
+        setExpenses(page.items);
+        setHasMore(page.hasMore);
+        markNew(page.newIds);
+        setIsLoading(false);
+        setIsLoadingMore(false);
+        try {
+          // Category totals are aggregated per known category for the summary cards
+          const expenseCats = await getExpenseCategories();
+          const totals = await getExpensesTotals(filter, expenseCats.map(category => category.name));
+          if (isActive) {
+            setCategories(expenseCats);
+            setExpensesTotals(totals);
+          }
+        } catch (error) {
+          console.error('Error loading expenses totals:', error);
+        }
+      },
+      (error) => {
+        console.error('Error loading data:', error);
+        toast.error('Failed to load expenses data', {
+          dismissible: true
+        });
+        setIsLoading(false);
+        setIsLoadingMore(false);
       }
+    );
 
-      filtered = filtered.filter(expense => {
-        const expenseDate = typeof expense.date === 'string' 
-          ? new Date(expense.date) 
-          : new Date((expense.date as FirestoreTimestamp).seconds * 1000);
-        return expenseDate >= fromDate && expenseDate <= today;
-      });
-    }
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [showDeleted, dateRange, activeFilter, pageCount, markNew]);
 
-    setFilteredExpenses(filtered);
-  };
+  useEffect(() => {
+    updateDateRangeDisplay();
+  }, [expensesTotals, activeFilter, dateRange]);
 
-  const loadExpenses = async () => {
-    try {
-      setIsLoading(true);
-      const data = await getExpenses();
-      // Sort expenses by date (most recent first)
-      const sortedExpenses = data.sort((a, b) => {
-        const dateA = new Date(a.date);
-        const dateB = new Date(b.date);
-        return dateB.getTime() - dateA.getTime();
-      });
-      setExpenses(sortedExpenses);
-    } catch (error) {
-      console.error('Error loading expenses:', error);
-      toast.error('Failed to load expenses', {
-        dismissible: true
-      });
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const getFilter = () => ({
+    ...getFilterBounds(activeFilter, dateRange),
+    deleted: showDeleted
+  });
 
   const loadCategories = async () => {
     try {
@@ -238,25 +374,9 @@ const ExpensesPage = () => {
     }
   };
 
-  const loadData = async () => {
-    try {
-      setIsLoading(true);
-      const expensesData = await (showDeleted ? getDeletedExpenses() : getExpenses());
-      // Sort expenses by date (most recent first)
-      const sortedExpenses = expensesData.sort((a, b) => {
-        const dateA = new Date(a.date);
-        const dateB = new Date(b.date);
-        return dateB.getTime() - dateA.getTime();
-      });
-      setExpenses(sortedExpenses);
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load expenses data', {
-        dismissible: true
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const loadMore = () => {
+    setIsLoadingMore(true);
+    setPageCount(prev => prev + 1);
   };
 
   const handleInputChange = (name: keyof ExpenseFormData, value: string | number) => {
@@ -266,6 +386,13 @@ const ExpensesPage = () => {
     }));
   };
 
+  const handleEditInputChange = (name: keyof ExpenseFormData, value: string | number) => {
+    setEditFormData(prev => prev && {
+      ...prev,
+      [name]: value
+    });
+  };
+
   const handleAddCategory = async (categoryName: string) => {
     if (!categoryName.trim()) return;
     setIsSubmitting(true);
@@ -286,52 +413,70 @@ const ExpensesPage = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const requiredFields = {
-      date: 'Date',
-      category: 'Category',
-      description: 'Description',
-      amount: 'Amount'
-    } as const;
-
-    const missingFields = Object.entries(requiredFields).filter(
-      ([key]) => !formData[key as keyof typeof requiredFields]
-    ).map(([, label]) => label);
-
-    if (missingFields.length > 0) {
-      toast.error(`Required fields missing: ${missingFields.join(', ')}`, {
+    const validationError = getExpenseValidationError(formData);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
     }
 
-    if (Number(formData.amount) <= 0) {
-      toast.error('Amount must be greater than 0', {
+    setIsSubmitting(true);
+    try {
+      await addExpense(toExpenseInput(formData));
+      setFormData(emptyExpenseForm());
+      toast.success(savedMessage('Expense added successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error adding expense:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add expense', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (expense: DBExpenseEntry) => {
+    setExpenseToEdit(expense);
+    setEditFormData({
+      date: expense.date,
+      category: expense.category,
+      description: expense.description,
+      amount: toMajorUnits(expense.amount),
+      terms: billTermsFrom(expense.amount, expense.paidOnExpense, expense.dueDate),
+      notes: expense.notes || ''
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expenseToEdit?.id || !editFormData) return;
+
+    const validationError = getExpenseValidationError(editFormData);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
     }
 
-    setIsSubmitting(true);
+    setIsUpdating(true);
     try {
-      await addExpense(formData);
-      await loadData();
-      setFormData({
-        date: formatDateForInput(new Date()),
-        category: '',
-        description: '',
-        amount: 0,
-        notes: ''
-      });
-      toast.success('Expense added successfully', {
+      await updateExpense(expenseToEdit.id, toExpenseInput(editFormData));
+      setExpenseToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Expense updated successfully'), {
         dismissible: true
       });
     } catch (error) {
-      console.error('Error adding expense:', error);
-      toast.error('Failed to add expense', {
+      console.error('Error updating expense:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update expense', {
         dismissible: true
       });
     } finally {
-      setIsSubmitting(false);
+      setIsUpdating(false);
     }
   };
 
@@ -340,13 +485,12 @@ const ExpensesPage = () => {
     
     try {
       await deleteExpense(expense.id);
-      await loadData();
-      toast.success('Expense entry deleted successfully', {
+      toast.success(savedMessage('Expense entry deleted successfully'), {
         dismissible: true
       });
     } catch (error) {
       console.error('Error deleting expense:', error);
-      toast.error('Failed to delete expense entry', {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete expense entry', {
         dismissible: true
       });
     } finally {
@@ -360,8 +504,7 @@ const ExpensesPage = () => {
     try {
       setIsRestoring(true);
       await restoreExpense(expense.id);
-      await loadData();
-      toast.success('Expense entry restored successfully', {
+      toast.success(savedMessage('Expense entry restored successfully'), {
         dismissible: true
       });
     } catch (error) {
@@ -375,19 +518,14 @@ const ExpensesPage = () => {
   };
 
   const updateDateRangeDisplay = () => {
-    if (filteredExpenses.length === 0) {
+    if (!expensesTotals?.firstDate || !expensesTotals.lastDate) {
       setDateRangeDisplay('No data to display');
       return;
     }
 
-    // Get the earliest and latest dates from filtered data
-    const dates = filteredExpenses.map(expense => 
-      typeof expense.date === 'string' 
-        ? new Date(expense.date) 
-        : new Date((expense.date as FirestoreTimestamp).seconds * 1000)
-    );
-    const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-    const latest = new Date(Math.max(...dates.map(d => d.getTime())));
+    // Get the earliest and latest dates of the filtered period
+    const earliest = parseISODate(expensesTotals.firstDate);
+    const latest = parseISODate(expensesTotals.lastDate);
 
     // Format date to "Jan 1 2025" style
     const formatDisplayDate = (date: Date) => {
@@ -425,7 +563,7 @@ const ExpensesPage = () => {
       <div 
         className={cn(
           "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-16 overflow-auto",
-          isSidebarOpen ? "pr-[400px]" : "pr-2"
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
         )}
       >
         <div className="flex justify-between items-center border-b pb-4">
@@ -582,6 +720,7 @@ const ExpensesPage = () => {
             <div className="text-sm text-muted-foreground flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               {dateRangeDisplay}
+              <NewRowsIndicator count={newCount} />
             </div>
           )}
         </div>
@@ -590,28 +729,28 @@ const ExpensesPage = () => {
         <div className="grid grid-cols-4 gap-4 mt-4 mb-6">
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Total Expenses</h3>
-            <p className="text-2xl font-bold mt-1">৳{expensesSummary.totalExpenses.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(expensesSummary.totalExpenses)}</p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Monthly Average</h3>
-            <p className="text-2xl font-bold mt-1">৳{expensesSummary.monthlyAverage.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(expensesSummary.monthlyAverage)}</p>
             <p className="text-sm text-muted-foreground mt-1">Per month</p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Highest Spending</h3>
-            <p className="text-2xl font-bold mt-1">৳{expensesSummary.highestCategory.amount.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(expensesSummary.highestCategory.amount)}</p>
             <p className="text-sm text-muted-foreground mt-1">
               {expensesSummary.highestCategory.name 
-                ? `${expensesSummary.highestCategory.name} (${expensesSummary.highestCategory.percentage.toFixed(1)}% of total)`
+                ? `${expensesSummary.highestCategory.name} (${formatPercent(expensesSummary.highestCategory.percentage)} of total)`
                 : 'No expenses'}
             </p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Facebook Ads</h3>
-            <p className="text-2xl font-bold mt-1">৳{expensesSummary.facebookAds.amount.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(expensesSummary.facebookAds.amount)}</p>
             <p className="text-sm text-muted-foreground mt-1">
               {expensesSummary.facebookAds.amount > 0 
-                ? `${expensesSummary.facebookAds.percentage.toFixed(1)}% of total`
+                ? `${formatPercent(expensesSummary.facebookAds.percentage)} of total`
                 : 'No ad expenses'}
             </p>
           </div>
@@ -625,169 +764,227 @@ const ExpensesPage = () => {
                 <TableHead className="w-[200px]">Category</TableHead>
                 <TableHead className="w-[250px]">Description</TableHead>
                 <TableHead className="w-[150px]">Amount</TableHead>
+                {canReadPayments && <TableHead className="w-[130px]">Payment</TableHead>}
                 <TableHead className="w-[420px]">Notes</TableHead>
-                <TableHead className="w-[80px]"></TableHead>
+                <TableHead className="w-[140px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8">
+                  <TableCell colSpan={canReadPayments ? 7 : 6} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <Loader2 className="h-6 w-6 animate-spin mr-2" />
                       Loading expenses data...
                     </div>
                   </TableCell>
                 </TableRow>
-              ) : filteredExpenses.length === 0 ? (
+              ) : expenses.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={canReadPayments ? 7 : 6} className="text-center text-muted-foreground">
                     {showDeleted ? 'No deleted expenses entries' : 'No expenses entries yet'}
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredExpenses.map((expense) => (
-                  <TableRow key={expense.id} className={cn(expense.isDeleted && "bg-muted/50")}>
+                expenses.map((expense) => (
+                  <TableRow key={expense.id} className={cn(expense.isDeleted && "bg-muted/50", isNew(expense.id) && "bg-green-500/10")}>
                     <TableCell>{formatDate(expense.date)}</TableCell>
                     <TableCell>{expense.category}</TableCell>
                     <TableCell>{expense.description}</TableCell>
-                    <TableCell>৳{expense.amount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(expense.amount)}</TableCell>
+                    {canReadPayments && (
+                      <TableCell>
+                        {!expense.isDeleted && (() => {
+                          const balance = getBillBalance(expenseBill(expense), paymentsByBill.get(expense.id ?? '') ?? []);
+                          return <PaymentStatusBadge status={balance.status} due={balance.due} />;
+                        })()}
+                      </TableCell>
+                    )}
                     <TableCell>{expense.notes}</TableCell>
                     <TableCell>
-                      {showDeleted ? (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleRestore(expense)}
-                          className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
-                          disabled={isRestoring}
-                        >
-                          <RotateCcw className="h-4 w-4" />
-                        </Button>
-                      ) : (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setExpenseToDelete(expense)}
-                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      )}
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryExpense(expense)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {showDeleted ? (
+                          can('expenses.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRestore(expense)}
+                              className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
+                              disabled={isRestoring}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )
+                        ) : (
+                          <>
+                            {canReadPayments && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setBillToPay(expenseBill(expense))}
+                                className="h-8 w-8"
+                                title="Payments"
+                              >
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('expenses.update') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleEdit(expense)}
+                                className="h-8 w-8"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('expenses.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setExpenseToDelete(expense)}
+                                className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))
               )}
             </TableBody>
           </Table>
+          {hasMore && !isLoading && (
+            <div className="flex items-center justify-between border-t p-4">
+              <span className="text-sm text-muted-foreground">
+                Showing {expenses.length} of {expensesTotals?.count ?? expenses.length} entries
+              </span>
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  'Load More'
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
-      <div 
-        className={cn(
-          "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
-          isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
-        )}
-      >
-        <Button
-          variant="outline"
-          size="icon"
+      {canCreate && (
+        <div 
           className={cn(
-            "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
-            !isSidebarOpen && "rotate-180"
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
           )}
-          onClick={toggleSidebar}
         >
-          <ChevronRight className="h-6 w-6" />
-        </Button>
-        <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
-          <div className="p-6">
-            <h2 className="text-lg font-semibold mb-4">New Expense Entry</h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-4">
-                <div>
-                  <RequiredLabel htmlFor="date">Date</RequiredLabel>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => handleInputChange('date', e.target.value)}
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="category">Category</RequiredLabel>
-                  <CategorySelect
-                    value={formData.category}
-                    onValueChange={(value) => handleInputChange('category', value)}
-                    categories={categories}
-                    onAddCategory={handleAddCategory}
-                    placeholder="Select category"
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="description">Description</RequiredLabel>
-                  <Input
-                    id="description"
-                    type="text"
-                    value={formData.description}
-                    onChange={(e) => handleInputChange('description', e.target.value)}
-                    placeholder="Enter description"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="amount">Amount</RequiredLabel>
-                  <Input
-                    id="amount"
-                    type="number"
-                    min="0.01"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => handleInputChange('amount', parseFloat(e.target.value))}
-                    placeholder="৳0.00"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="notes">Notes (Optional)</Label>
-                  <Input
-                    id="notes"
-                    type="text"
-                    value={formData.notes}
-                    onChange={(e) => handleInputChange('notes', e.target.value)}
-                    placeholder="Notes"
-                    className="w-full"
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Expense Entry</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <ExpenseFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  onTermsChange={(terms) => setFormData(prev => ({ ...prev, terms }))}
+                  categories={categories}
+                  onAddCategory={handleAddCategory}
+                  disabled={isSubmitting}
+                />
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
                     disabled={isSubmitting}
-                  />
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Entry'
+                    )}
+                  </Button>
                 </div>
-              </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Sheet 
+        open={expenseToEdit !== null} 
+        onOpenChange={(open) => {
+          if (!open) {
+            setExpenseToEdit(null);
+            setEditFormData(null);
+          }
+        }}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Expense Entry</SheetTitle>
+            <SheetDescription>
+              Update the details of this expense.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <ExpenseFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                onTermsChange={(terms) => setEditFormData(prev => prev && { ...prev, terms })}
+                categories={categories}
+                onAddCategory={handleAddCategory}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
               <div className="flex justify-end">
                 <Button 
                   type="submit" 
-                  disabled={isSubmitting}
+                  disabled={isUpdating}
                 >
-                  {isSubmitting ? (
+                  {isUpdating ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Saving...
                     </>
                   ) : (
-                    'Save Entry'
+                    'Save Changes'
                   )}
                 </Button>
               </div>
             </form>
-          </div>
-        </div>
-      </div>
+          )}
+        </SheetContent>
+      </Sheet>
 
       <AlertDialog 
         open={expenseToDelete !== null} 
@@ -812,6 +1009,18 @@ const ExpensesPage = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <BillPaymentSheet
+        bill={billToPay}
+        onClose={() => setBillToPay(null)}
+      />
+
+      <RecordHistorySheet
+        collectionName="expenses"
+        recordId={historyExpense?.id ?? null}
+        title="Expense History"
+        onClose={() => setHistoryExpense(null)}
+      />
     </div>
   );
 };
@@ -2,11 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { addInvestment, getInvestments, type InvestmentEntry } from '@/utils/database';
-import { Loader2, ChevronRight } from 'lucide-react';
+import { addInvestment, getInvestments, updateInvestment, type InvestmentEntry } from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { toMajorUnits, toMinorUnits } from '@/utils/money';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { Loader2, ChevronRight, Pencil, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
-import { formatDateForInput } from "@/utils/dateFormat";
+import { parseISODate, todayISODate } from "@/utils/dateFormat";
 import {
   Table,
   TableBody,
@@ -15,7 +18,19 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useSidebar } from '@/contexts/SidebarContext';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import { useBusiness } from '@/contexts/useBusiness';
+
+// The amount is held as typed, in major units, until the form is submitted
+type InvestmentFormData = Omit<InvestmentEntry, 'id' | 'amount'> & { amount: number };
 
 const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
   <div className="flex items-center gap-1">
@@ -24,14 +39,113 @@ const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> =
   </div>
 );
 
+// Validate an investment form, returning the first error message if any
+const getInvestmentValidationError = (investment: InvestmentFormData): string | null => {
+  const requiredFields = {
+    date: 'Date',
+    investor: 'Investor',
+    amount: 'Amount'
+  } as const;
+
+  const missingFields = Object.entries(requiredFields).filter(
+    ([key]) => !investment[key as keyof typeof requiredFields]
+  ).map(([, label]) => label);
+
+  if (missingFields.length > 0) {
+    return `Required fields missing: ${missingFields.join(', ')}`;
+  }
+
+  if (Number(investment.amount) <= 0) {
+    return 'Amount must be greater than 0';
+  }
+
+  return null;
+};
+
+interface InvestmentFormFieldsProps {
+  values: InvestmentFormData;
+  onFieldChange: (name: keyof InvestmentFormData, value: string | number) => void;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new entry panel and the edit sheet
+const InvestmentFormFields: React.FC<InvestmentFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}date`}>Date</RequiredLabel>
+      <Input
+        id={`${idPrefix}date`}
+        type="date"
+        value={values.date}
+        onChange={(e) => onFieldChange('date', e.target.value)}
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}investor`}>Investor</RequiredLabel>
+      <Input
+        id={`${idPrefix}investor`}
+        type="text"
+        value={values.investor}
+        onChange={(e) => onFieldChange('investor', e.target.value)}
+        placeholder="Enter investor name"
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}amount`}>Amount</RequiredLabel>
+      <Input
+        id={`${idPrefix}amount`}
+        type="number"
+        min="0.01"
+        step="0.01"
+        value={values.amount}
+        onChange={(e) => onFieldChange('amount', parseFloat(e.target.value))}
+        placeholder={moneyPlaceholder()}
+        className="w-full"
+        required
+        disabled={disabled}
+      />
+    </div>
+    <div>
+      <Label htmlFor={`${idPrefix}note`}>Note (Optional)</Label>
+      <Input
+        id={`${idPrefix}note`}
+        type="text"
+        value={values.note}
+        onChange={(e) => onFieldChange('note', e.target.value)}
+        placeholder="Enter note"
+        className="w-full"
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
+
 const InvestmentsPage = () => {
   const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('investments.create');
   const [investments, setInvestments] = useState<InvestmentEntry[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [investmentToEdit, setInvestmentToEdit] = useState<InvestmentEntry | null>(null);
+  const [historyInvestment, setHistoryInvestment] = useState<InvestmentEntry | null>(null);
+  const [editFormData, setEditFormData] = useState<InvestmentFormData | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
   
-  const [formData, setFormData] = useState<Omit<InvestmentEntry, 'id'>>({
-    date: formatDateForInput(new Date()),
+  const [formData, setFormData] = useState<InvestmentFormData>({
+    date: todayISODate(),
     investor: '',
     amount: 0,
     note: ''
@@ -56,35 +170,26 @@ const InvestmentsPage = () => {
     }
   };
 
-  const handleInputChange = (name: keyof Omit<InvestmentEntry, 'id'>, value: string | number) => {
+  const handleInputChange = (name: keyof InvestmentFormData, value: string | number) => {
     setFormData(prev => ({
       ...prev,
       [name]: value
     }));
   };
 
+  const handleEditInputChange = (name: keyof InvestmentFormData, value: string | number) => {
+    setEditFormData(prev => prev && {
+      ...prev,
+      [name]: value
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const requiredFields = {
-      date: 'Date',
-      investor: 'Investor',
-      amount: 'Amount'
-    } as const;
-
-    const missingFields = Object.entries(requiredFields).filter(
-      ([key]) => !formData[key as keyof typeof requiredFields]
-    ).map(([, label]) => label);
-
-    if (missingFields.length > 0) {
-      toast.error(`Required fields missing: ${missingFields.join(', ')}`, {
-        dismissible: true
-      });
-      return;
-    }
-
-    if (Number(formData.amount) <= 0) {
-      toast.error('Amount must be greater than 0', {
+    const validationError = getInvestmentValidationError(formData);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
@@ -92,15 +197,15 @@ const InvestmentsPage = () => {
 
     setIsSubmitting(true);
     try {
-      await addInvestment(formData);
+      await addInvestment({ ...formData, amount: toMinorUnits(formData.amount) });
       await loadInvestments();
       setFormData({
-        date: formatDateForInput(new Date()),
+        date: todayISODate(),
         investor: '',
         amount: 0,
         note: ''
       });
-      toast.success('Investment added successfully', {
+      toast.success(savedMessage('Investment added successfully'), {
         dismissible: true
       });
     } catch (error) {
@@ -113,12 +218,53 @@ const InvestmentsPage = () => {
     }
   };
 
+  const handleEdit = (investment: InvestmentEntry) => {
+    setInvestmentToEdit(investment);
+    setEditFormData({
+      date: investment.date,
+      investor: investment.investor,
+      amount: toMajorUnits(investment.amount),
+      note: investment.note || ''
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!investmentToEdit?.id || !editFormData) return;
+
+    const validationError = getInvestmentValidationError(editFormData);
+    if (validationError) {
+      toast.error(validationError, {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      await updateInvestment(investmentToEdit.id, { ...editFormData, amount: toMinorUnits(editFormData.amount) });
+      await loadInvestments();
+      setInvestmentToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Investment updated successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating investment:', error);
+      toast.error('Failed to update investment', {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   return (
     <div className="flex h-full">
       <div 
         className={cn(
           "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-6 overflow-auto",
-          isSidebarOpen ? "pr-[400px]" : "pr-2"
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
         )}
       >
         <div className="flex justify-between items-center border-b pb-4">
@@ -138,12 +284,13 @@ const InvestmentsPage = () => {
                 <TableHead className="w-[150px]">Amount</TableHead>
                 <TableHead className="w-[150px]">Return</TableHead>
                 <TableHead>Notes</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8">
+                  <TableCell colSpan={7} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <Loader2 className="h-6 w-6 animate-spin mr-2" />
                       Loading investments data...
@@ -152,19 +299,44 @@ const InvestmentsPage = () => {
                 </TableRow>
               ) : investments.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
                     No investments entries yet
                   </TableCell>
                 </TableRow>
               ) : (
                 investments.map((investment) => (
                   <TableRow key={investment.id}>
-                    <TableCell>{new Date(investment.date).toLocaleDateString()}</TableCell>
+                    <TableCell>{parseISODate(investment.date).toLocaleDateString()}</TableCell>
                     <TableCell>{investment.investor}</TableCell>
                     <TableCell>Investment</TableCell>
-                    <TableCell>৳{investment.amount.toFixed(2)}</TableCell>
+                    <TableCell>{formatMoney(investment.amount)}</TableCell>
                     <TableCell>-</TableCell>
                     <TableCell>{investment.note || '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryInvestment(investment)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('investments.update') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(investment)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))
               )}
@@ -173,100 +345,104 @@ const InvestmentsPage = () => {
         </div>
       </div>
 
-      <div 
-        className={cn(
-          "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
-          isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
-        )}
-      >
-        <Button
-          variant="outline"
-          size="icon"
+      {canCreate && (
+        <div 
           className={cn(
-            "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
-            !isSidebarOpen && "rotate-180"
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
           )}
-          onClick={toggleSidebar}
         >
-          <ChevronRight className="h-6 w-6" />
-        </Button>
-        <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
-          <div className="p-6">
-            <h2 className="text-lg font-semibold mb-4">New Investment Entry</h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-4">
-                <div>
-                  <RequiredLabel htmlFor="date">Date</RequiredLabel>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => handleInputChange('date', e.target.value)}
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="investor">Investor</RequiredLabel>
-                  <Input
-                    id="investor"
-                    type="text"
-                    value={formData.investor}
-                    onChange={(e) => handleInputChange('investor', e.target.value)}
-                    placeholder="Enter investor name"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <RequiredLabel htmlFor="amount">Amount</RequiredLabel>
-                  <Input
-                    id="amount"
-                    type="number"
-                    min="0.01"
-                    step="0.01"
-                    value={formData.amount}
-                    onChange={(e) => handleInputChange('amount', parseFloat(e.target.value))}
-                    placeholder="৳0.00"
-                    className="w-full"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="note">Note (Optional)</Label>
-                  <Input
-                    id="note"
-                    type="text"
-                    value={formData.note}
-                    onChange={(e) => handleInputChange('note', e.target.value)}
-                    placeholder="Enter note"
-                    className="w-full"
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Investment Entry</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <InvestmentFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  disabled={isSubmitting}
+                />
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
                     disabled={isSubmitting}
-                  />
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Entry'
+                    )}
+                  </Button>
                 </div>
-              </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Sheet 
+        open={investmentToEdit !== null} 
+        onOpenChange={(open) => {
+          if (!open) {
+            setInvestmentToEdit(null);
+            setEditFormData(null);
+          }
+        }}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Investment Entry</SheetTitle>
+            <SheetDescription>
+              Update the details of this investment.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <InvestmentFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
               <div className="flex justify-end">
                 <Button 
                   type="submit" 
-                  disabled={isSubmitting}
+                  disabled={isUpdating}
                 >
-                  {isSubmitting ? (
+                  {isUpdating ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Saving...
                     </>
                   ) : (
-                    'Save Entry'
+                    'Save Changes'
                   )}
                 </Button>
               </div>
             </form>
-          </div>
-        </div>
-      </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <RecordHistorySheet
+        collectionName="investments"
+        recordId={historyInvestment?.id ?? null}
+        title="Investment History"
+        onClose={() => setHistoryInvestment(null)}
+      />
     </div>
   );
 };
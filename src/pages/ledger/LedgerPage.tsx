@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { toast } from 'sonner';
+import { cn } from "@/lib/utils";
+import { useBusiness } from '@/contexts/useBusiness';
+import {
+  getAccount,
+  getJournalEntries,
+  getTrialBalance,
+  postUnrecordedTransactions,
+  type JournalEntry
+} from '@/utils/ledger';
+import { repostCostOfSales } from '@/utils/database';
+import { sumMoney, type Money } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+
+const formatAmount = (amount: Money) => (amount ? formatMoney(amount) : '');
+
+const LedgerPage = () => {
+  const { can } = useBusiness();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      setIsLoading(true);
+      // Wait for cost of goods sold to catch up with stock moved just before
+      await repostCostOfSales();
+      const data = await getJournalEntries();
+      setEntries(data);
+    } catch (error) {
+      console.error('Error loading journal:', error);
+      toast.error('Failed to load journal entries', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePostUnrecorded = async () => {
+    try {
+      setIsPosting(true);
+      const posted = await postUnrecordedTransactions();
+      await loadEntries();
+      toast.success(
+        posted > 0 ? `Posted ${posted} unrecorded transactions` : 'All transactions are already in the ledger',
+        { dismissible: true }
+      );
+    } catch (error) {
+      console.error('Error posting transactions:', error);
+      toast.error('Failed to post unrecorded transactions', {
+        dismissible: true
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const trialBalance = getTrialBalance(entries);
+  const totalDebit = sumMoney(trialBalance, row => row.debit);
+  const totalCredit = sumMoney(trialBalance, row => row.credit);
+  const isBalanced = totalDebit === totalCredit;
+
+  return (
+    <div className="flex-1 space-y-4 py-3 px-6">
+      <div className="flex items-center justify-between border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Ledger</h1>
+          <p className="text-muted-foreground">
+            Double-entry journal posted from every transaction
+          </p>
+        </div>
+        {can('journalEntries.create') && (
+          <Button variant="outline" onClick={handlePostUnrecorded} disabled={isPosting || isLoading}>
+            {isPosting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Posting...
+              </>
+            ) : (
+              'Post Unrecorded Transactions'
+            )}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trial Balance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading ledger...
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[100px]">Code</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trialBalance.map(({ account, debit, credit, balance }) => (
+                  <TableRow key={account.code}>
+                    <TableCell>{account.code}</TableCell>
+                    <TableCell>
+                      {account.name}
+                      <span className="ml-2 text-xs text-muted-foreground capitalize">{account.type}</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(credit)}</TableCell>
+                    <TableCell className={cn("text-right", balance < 0 && "text-red-500")}>
+                      {formatMoney(balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatMoney(totalDebit)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(totalCredit)}</TableCell>
+                  <TableCell className={cn("text-right", isBalanced ? "text-green-500" : "text-red-500")}>
+                    {isBalanced ? 'Balanced' : 'Out of balance'}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Journal</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading journal...
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No journal entries yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[120px]">Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => entry.lines.map((line, index) => (
+                  <TableRow
+                    key={`${entry.id}-${index}`}
+                    className={cn(entry.isReversal && "text-muted-foreground")}
+                  >
+                    <TableCell>{index === 0 ? entry.date : ''}</TableCell>
+                    <TableCell>{index === 0 ? entry.description : ''}</TableCell>
+                    <TableCell className={cn(line.credit > 0 && "pl-8")}>
+                      {getAccount(line.accountCode)?.name ?? line.accountCode}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(line.debit)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(line.credit)}</TableCell>
+                  </TableRow>
+                )))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LedgerPage;
@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from 'sonner';
+import { Link } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { cn } from "@/lib/utils";
+import { getOutstandingBills, type Bill, type OutstandingBill } from '@/utils/database';
+import { AGING_BUCKETS, ageBalances, agingBucket, agingTotals, daysOutstanding } from '@/utils/aging';
+import { sumMoney } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+import { todayISODate } from '@/utils/dateFormat';
+import BillPaymentSheet from '@/components/payables/BillPaymentSheet';
+
+// Purchases are grouped by supplier; expenses and purchases with no supplier by payee name
+const payeeKey = (bill: Bill): string => {
+  return bill.supplierId ?? `${bill.type}:${bill.payee}`;
+};
+
+const formatDate = (date: string): string => {
+  return dayjs(date).format('DD-MMM-YYYY');
+};
+
+const PayablesPage = () => {
+  const [outstanding, setOutstanding] = useState<OutstandingBill[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [billToPay, setBillToPay] = useState<Bill | null>(null);
+
+  useEffect(() => {
+    loadOutstanding();
+  }, []);
+
+  const loadOutstanding = async () => {
+    try {
+      setIsLoading(true);
+      setOutstanding(await getOutstandingBills());
+    } catch (error) {
+      console.error('Error loading payables:', error);
+      toast.error('Failed to load payables', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Bills are aged from their due date, so those not yet due count as current
+  const payeeRows = ageBalances(outstanding, ({ bill, balance }) => ({
+    key: payeeKey(bill),
+    name: bill.payee,
+    date: bill.dueDate,
+    amount: balance.due
+  }));
+  const bucketTotals = agingTotals(payeeRows);
+  const totalDue = sumMoney(outstanding, ({ balance }) => balance.due);
+  const today = todayISODate();
+
+  const handlePaymentsClosed = () => {
+    setBillToPay(null);
+    loadOutstanding();
+  };
+
+  return (
+    <div className="flex-1 space-y-4 py-3 px-6">
+      <div className="border-b pb-4">
+        <h1 className="text-2xl font-bold">Payables</h1>
+        <p className="text-muted-foreground">
+          What is still owed on purchases and expenses, by how long it has been overdue
+        </p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Total Owed</h3>
+          <p className="text-2xl font-bold mt-1">{formatMoney(totalDue)}</p>
+          <p className="text-sm text-muted-foreground mt-1">{outstanding.length} bills</p>
+        </div>
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket.key} className="border rounded-lg p-4 bg-background">
+            <h3 className="text-sm font-medium text-muted-foreground">{bucket.label}</h3>
+            <p className={cn("text-2xl font-bold mt-1", bucket.minDays > 60 && bucketTotals[bucket.key] > 0 && "text-red-500")}>
+              {formatMoney(bucketTotals[bucket.key])}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Payee</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading payables...
+            </div>
+          ) : payeeRows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Every bill has been paid</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payee</TableHead>
+                  {AGING_BUCKETS.map(bucket => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payeeRows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      {row.key.includes(':') ? (
+                        row.name
+                      ) : (
+                        <Link to={`/suppliers/${row.key}`} className="hover:underline">{row.name}</Link>
+                      )}
+                    </TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {row.buckets[bucket.key] > 0 ? formatMoney(row.buckets[bucket.key]) : ''}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatMoney(row.total)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Total</TableCell>
+                  {AGING_BUCKETS.map(bucket => (
+                    <TableCell key={bucket.key} className="text-right">{formatMoney(bucketTotals[bucket.key])}</TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatMoney(totalDue)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding Bills</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading bills...
+            </div>
+          ) : outstanding.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No bills are waiting to be paid</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[120px]">Due Date</TableHead>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Payee</TableHead>
+                  <TableHead>Overdue</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Due</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstanding.map(({ bill, balance }) => {
+                  const days = daysOutstanding(bill.dueDate);
+                  return (
+                    <TableRow key={`${bill.type}-${bill.id}`}>
+                      <TableCell>{formatDate(bill.dueDate)}</TableCell>
+                      <TableCell>
+                        {bill.reference}
+                        <div className="text-xs text-muted-foreground">
+                          {bill.type === 'purchase' ? 'Purchase' : 'Expense'} of {formatDate(bill.date)}
+                        </div>
+                      </TableCell>
+                      <TableCell>{bill.payee}</TableCell>
+                      <TableCell className={cn(agingBucket(days).minDays > 60 && "text-red-500")}>
+                        {bill.dueDate > today ? (
+                          <span className="text-muted-foreground">Not yet due</span>
+                        ) : (
+                          `${days} days`
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(bill.amount)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(balance.paid)}
+                        {balance.credited > 0 && (
+                          <div className="text-xs text-muted-foreground">{formatMoney(balance.credited)} returned</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(balance.due)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setBillToPay(bill)}
+                          className="h-8 w-8"
+                          title="Payments"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <BillPaymentSheet
+        bill={billToPay}
+        onClose={handlePaymentsClosed}
+      />
+    </div>
+  );
+};
+
+export default PayablesPage;
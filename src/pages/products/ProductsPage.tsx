@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  addProduct,
+  getProducts,
+  updateProduct,
+  DEFAULT_PRODUCT_UNIT,
+  type Product
+} from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { toMajorUnits, toMinorUnits } from '@/utils/money';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import { Loader2, ChevronRight, Pencil, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from "@/lib/utils";
+import { useSidebar } from '@/contexts/SidebarContext';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+
+const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
+  <div className="flex items-center gap-1">
+    <Label htmlFor={htmlFor}>{children}</Label>
+    <span className="text-red-500">*</span>
+  </div>
+);
+
+// The default price is held as typed, in major units, until the form is submitted
+type ProductFormData = Omit<Product, 'id' | 'createdAt' | 'defaultPrice'> & { defaultPrice: number };
+
+const emptyProductForm = (): ProductFormData => ({
+  name: '',
+  sku: '',
+  unit: DEFAULT_PRODUCT_UNIT,
+  defaultPrice: 0,
+  reorderLevel: 0,
+  isActive: true
+});
+
+const toProductInput = (values: ProductFormData) => ({
+  ...values,
+  defaultPrice: toMinorUnits(values.defaultPrice),
+  reorderLevel: Number(values.reorderLevel) || 0
+});
+
+interface ProductFormFieldsProps {
+  values: ProductFormData;
+  onFieldChange: (name: keyof ProductFormData, value: string | number | boolean) => void;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new product panel and the edit sheet
+const ProductFormFields: React.FC<ProductFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}name`}>Name</RequiredLabel>
+      <Input
+        id={`${idPrefix}name`}
+        value={values.name}
+        onChange={(e) => onFieldChange('name', e.target.value)}
+        placeholder="Enter product name"
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}sku`}>SKU</Label>
+        <Input
+          id={`${idPrefix}sku`}
+          value={values.sku}
+          onChange={(e) => onFieldChange('sku', e.target.value.toUpperCase())}
+          placeholder="SKU-001"
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}unit`}>Unit</Label>
+        <Input
+          id={`${idPrefix}unit`}
+          value={values.unit}
+          onChange={(e) => onFieldChange('unit', e.target.value)}
+          placeholder={DEFAULT_PRODUCT_UNIT}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}defaultPrice`}>Default Selling Price</Label>
+      <Input
+        id={`${idPrefix}defaultPrice`}
+        type="number"
+        min="0"
+        step="0.01"
+        value={values.defaultPrice || ''}
+        onChange={(e) => onFieldChange('defaultPrice', parseFloat(e.target.value))}
+        placeholder={moneyPlaceholder()}
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}reorderLevel`}>Reorder Level</Label>
+      <Input
+        id={`${idPrefix}reorderLevel`}
+        type="number"
+        min="0"
+        step="1"
+        value={values.reorderLevel || ''}
+        onChange={(e) => onFieldChange('reorderLevel', parseInt(e.target.value))}
+        placeholder="0"
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="flex items-center space-x-2">
+      <Switch
+        id={`${idPrefix}isActive`}
+        checked={values.isActive}
+        onCheckedChange={(checked) => onFieldChange('isActive', checked)}
+        disabled={disabled}
+      />
+      <Label htmlFor={`${idPrefix}isActive`}>Active</Label>
+    </div>
+  </div>
+);
+
+const ProductsPage = () => {
+  const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('products.create');
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showInactive, setShowInactive] = useState(false);
+  const [formData, setFormData] = useState<ProductFormData>(emptyProductForm());
+  const [productToEdit, setProductToEdit] = useState<Product | null>(null);
+  const [editFormData, setEditFormData] = useState<ProductFormData | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const loadProducts = async () => {
+    try {
+      setIsLoading(true);
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+      toast.error('Failed to load products', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (name: keyof ProductFormData, value: string | number | boolean) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEditInputChange = (name: keyof ProductFormData, value: string | number | boolean) => {
+    setEditFormData(prev => prev && { ...prev, [name]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await addProduct(toProductInput(formData));
+      await loadProducts();
+      setFormData(emptyProductForm());
+      toast.success(savedMessage('Product added successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error adding product:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add product', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (product: Product) => {
+    setProductToEdit(product);
+    setEditFormData({
+      name: product.name,
+      sku: product.sku,
+      unit: product.unit,
+      defaultPrice: toMajorUnits(product.defaultPrice),
+      reorderLevel: product.reorderLevel,
+      isActive: product.isActive
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!productToEdit || !editFormData) return;
+
+    setIsUpdating(true);
+    try {
+      await updateProduct(productToEdit.id, toProductInput(editFormData));
+      await loadProducts();
+      setProductToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Product updated successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating product:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update product', {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const visibleProducts = products.filter(product => showInactive || product.isActive);
+
+  return (
+    <div className="flex h-full">
+      <div
+        className={cn(
+          "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-6 overflow-auto",
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
+        )}
+      >
+        <div className="flex justify-between items-center border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Products</h1>
+            <p className="text-muted-foreground">Manage the products you buy and sell</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="show-inactive" className="text-sm">
+              Show Inactive Products
+            </Label>
+            <Switch
+              id="show-inactive"
+              checked={showInactive}
+              onCheckedChange={setShowInactive}
+            />
+          </div>
+        </div>
+
+        <div className="border rounded-lg mt-4 w-full">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Name</TableHead>
+                <TableHead className="w-[120px]">SKU</TableHead>
+                <TableHead className="w-[100px]">Unit</TableHead>
+                <TableHead className="w-[150px]">Default Price</TableHead>
+                <TableHead className="w-[120px]">Reorder Level</TableHead>
+                <TableHead className="w-[100px]">Status</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <div className="flex items-center justify-center">
+                      <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                      Loading products...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : visibleProducts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No products yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleProducts.map((product) => (
+                  <TableRow key={product.id} className={cn(!product.isActive && "bg-muted/50")}>
+                    <TableCell>{product.name}</TableCell>
+                    <TableCell>{product.sku || '-'}</TableCell>
+                    <TableCell>{product.unit}</TableCell>
+                    <TableCell>{formatMoney(product.defaultPrice)}</TableCell>
+                    <TableCell>{product.reorderLevel}</TableCell>
+                    <TableCell>
+                      {product.isActive ? 'Active' : <span className="text-muted-foreground">Inactive</span>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryProduct(product)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('products.update') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(product)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {canCreate && (
+        <div
+          className={cn(
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
+          )}
+        >
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Product</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <ProductFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  disabled={isSubmitting}
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Product'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Sheet
+        open={productToEdit !== null}
+        onOpenChange={(open) => !open && setProductToEdit(null)}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Product</SheetTitle>
+            <SheetDescription>
+              Renaming a product updates it everywhere; existing sales and purchases stay linked.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <ProductFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={isUpdating}
+                >
+                  {isUpdating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Updating...
+                    </>
+                  ) : (
+                    'Update Product'
+                  )}
+                </Button>
+              </div>
+            </form>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <RecordHistorySheet
+        collectionName="products"
+        recordId={historyProduct?.id ?? null}
+        title="Product History"
+        onClose={() => setHistoryProduct(null)}
+      />
+    </div>
+  );
+};
+
+export default ProductsPage;
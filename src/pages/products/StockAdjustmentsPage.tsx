@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ADJUSTMENT_REASONS,
+  deleteStockAdjustment,
+  displayProductName,
+  getProducts,
+  queryStockAdjustments,
+  type PageCursor,
+  type Product,
+  type StockAdjustment,
+  type TransactionFilter
+} from '@/utils/database';
+import { DEFAULT_COSTING_METHOD } from '@/utils/inventory';
+import { savedMessage } from '@/utils/outbox';
+import { formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { cn } from "@/lib/utils";
+import { History, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import StockAdjustmentSheet from '@/components/products/StockAdjustmentSheet';
+
+const reasonLabel = (adjustment: StockAdjustment): string => {
+  return ADJUSTMENT_REASONS.find(option => option.value === adjustment.reason)?.label ?? adjustment.reason;
+};
+
+const StockAdjustmentsPage = () => {
+  const { can, activeBusiness } = useBusiness();
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [cursor, setCursor] = useState<PageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [adjustmentToDelete, setAdjustmentToDelete] = useState<StockAdjustment | null>(null);
+  const [historyAdjustment, setHistoryAdjustment] = useState<StockAdjustment | null>(null);
+  // Inclusive ISO dates; empty for an open-ended range
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const loadAdjustments = async (filter: TransactionFilter) => {
+    try {
+      setIsLoading(true);
+      const page = await queryStockAdjustments(filter);
+      setAdjustments(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading stock adjustments:', error);
+      toast.error('Failed to load stock adjustments', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  useEffect(() => {
+    loadAdjustments({ from: from || null, to: to || null });
+  }, [from, to]);
+
+  const loadMore = async () => {
+    try {
+      setIsLoadingMore(true);
+      const page = await queryStockAdjustments({ from: from || null, to: to || null, cursor });
+      setAdjustments(prev => [...prev, ...page.items]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more stock adjustments:', error);
+      toast.error('Failed to load more stock adjustments', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleDelete = async (adjustment: StockAdjustment) => {
+    if (!adjustment.id) return;
+
+    try {
+      await deleteStockAdjustment(adjustment.id);
+      toast.success(savedMessage('Stock adjustment deleted successfully'), {
+        dismissible: true
+      });
+      await loadAdjustments({ from: from || null, to: to || null });
+    } catch (error) {
+      console.error('Error deleting stock adjustment:', error);
+      toast.error('Failed to delete stock adjustment', {
+        dismissible: true
+      });
+    } finally {
+      setAdjustmentToDelete(null);
+    }
+  };
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6">
+      <div className="flex justify-between items-center border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Stock Adjustments</h1>
+          <p className="text-muted-foreground">
+            Opening stock and changes that are not purchases, sales or returns
+          </p>
+        </div>
+        {can('stockAdjustments.create') && (
+          <Button onClick={() => setIsAdjusting(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adjust Stock
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="from">From</Label>
+          <Input id="from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="to">To</Label>
+          <Input id="to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <p className="text-sm text-muted-foreground pb-2">
+          {from || to ? 'Showing the selected dates' : 'Showing all time'}
+        </p>
+      </div>
+
+      <div className="border rounded-lg w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Date</TableHead>
+              <TableHead className="w-[200px]">Product</TableHead>
+              <TableHead className="w-[180px]">Reason</TableHead>
+              <TableHead className="w-[100px]">Change</TableHead>
+              <TableHead className="w-[130px]">Unit Cost</TableHead>
+              <TableHead className="w-[130px]">Value</TableHead>
+              <TableHead className="w-[250px]">Notes</TableHead>
+              <TableHead className="w-[90px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center">
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading stock adjustments...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : adjustments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No stock adjustments in the selected dates
+                </TableCell>
+              </TableRow>
+            ) : (
+              adjustments.map((adjustment) => (
+                <TableRow key={adjustment.id}>
+                  <TableCell>{formatDate(adjustment.date)}</TableCell>
+                  <TableCell>{displayProductName(adjustment, products)}</TableCell>
+                  <TableCell>{reasonLabel(adjustment)}</TableCell>
+                  <TableCell className={cn(adjustment.quantity < 0 ? "text-red-500" : "text-green-600")}>
+                    {adjustment.quantity > 0 ? `+${adjustment.quantity}` : adjustment.quantity}
+                  </TableCell>
+                  <TableCell>{formatMoney(adjustment.unitCost)}</TableCell>
+                  <TableCell>{formatMoney(adjustment.value)}</TableCell>
+                  <TableCell>{adjustment.notes}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {can('auditLogs.read') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryAdjustment(adjustment)}
+                          className="h-8 w-8"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {can('stockAdjustments.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setAdjustmentToDelete(adjustment)}
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && !isLoading && (
+          <div className="flex items-center justify-between border-t p-4">
+            <span className="text-sm text-muted-foreground">
+              Showing {adjustments.length} adjustments
+            </span>
+            <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load More'
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <StockAdjustmentSheet
+        open={isAdjusting}
+        products={products}
+        costingMethod={activeBusiness?.costingMethod ?? DEFAULT_COSTING_METHOD}
+        onClose={() => setIsAdjusting(false)}
+        onSaved={() => loadAdjustments({ from: from || null, to: to || null })}
+      />
+
+      <AlertDialog
+        open={adjustmentToDelete !== null}
+        onOpenChange={(open) => !open && setAdjustmentToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this adjustment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Stock on hand and its value go back to what they were without it, and its
+              ledger entry is reversed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => adjustmentToDelete && handleDelete(adjustmentToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="stockAdjustments"
+        recordId={historyAdjustment?.id ?? null}
+        title="Adjustment History"
+        onClose={() => setHistoryAdjustment(null)}
+      />
+    </div>
+  );
+};
+
+export default StockAdjustmentsPage;
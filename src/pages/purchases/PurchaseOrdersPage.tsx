@@ -0,0 +1,479 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  PURCHASE_ORDER_STATUSES,
+  cancelPurchaseOrder,
+  deletePurchaseOrder,
+  displayProductName,
+  displaySupplierName,
+  getProducts,
+  getSuppliers,
+  placePurchaseOrder,
+  queryPurchaseOrders,
+  type PageCursor,
+  type Product,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+  type Supplier,
+  type TransactionFilter
+} from '@/utils/database';
+import { DEFAULT_BASE_CURRENCY, getExchangeRates, type ExchangeRate } from '@/utils/currency';
+import { subtractMoney } from '@/utils/money';
+import { savedMessage } from '@/utils/outbox';
+import { formatCurrencyAmount, formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { cn } from "@/lib/utils";
+import { Ban, History, Loader2, PackageCheck, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import PurchaseOrderSheet from '@/components/purchases/PurchaseOrderSheet';
+import ReceivePurchaseOrderSheet from '@/components/purchases/ReceivePurchaseOrderSheet';
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  ordered: 'bg-blue-500/10 text-blue-600',
+  partial: 'bg-amber-500/10 text-amber-600',
+  received: 'bg-green-500/10 text-green-600',
+  cancelled: 'bg-red-500/10 text-red-500'
+};
+
+const statusLabel = (status: PurchaseOrderStatus): string => {
+  return PURCHASE_ORDER_STATUSES.find(option => option.value === status)?.label ?? status;
+};
+
+const isOpenOrder = (order: PurchaseOrder): boolean => {
+  return order.status === 'ordered' || order.status === 'partial';
+};
+
+const PurchaseOrdersPage = () => {
+  const { can, activeBusiness } = useBusiness();
+  const baseCurrency = activeBusiness?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [cursor, setCursor] = useState<PageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [orderToEdit, setOrderToEdit] = useState<PurchaseOrder | null>(null);
+  const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+  const [orderToCancel, setOrderToCancel] = useState<PurchaseOrder | null>(null);
+  const [orderToDelete, setOrderToDelete] = useState<PurchaseOrder | null>(null);
+  const [historyOrder, setHistoryOrder] = useState<PurchaseOrder | null>(null);
+  // Inclusive ISO dates; empty for an open-ended range
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const loadOrders = async (filter: TransactionFilter) => {
+    try {
+      setIsLoading(true);
+      const page = await queryPurchaseOrders(filter);
+      setOrders(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading purchase orders:', error);
+      toast.error('Failed to load purchase orders', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadReferenceData = async () => {
+    try {
+      const [productList, supplierList, rates] = await Promise.all([
+        getProducts(),
+        getSuppliers(),
+        getExchangeRates()
+      ]);
+      setProducts(productList);
+      setSuppliers(supplierList);
+      setExchangeRates(rates);
+    } catch (error) {
+      console.error('Error loading products and suppliers:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadReferenceData();
+  }, []);
+
+  useEffect(() => {
+    loadOrders({ from: from || null, to: to || null });
+  }, [from, to]);
+
+  const reloadOrders = () => loadOrders({ from: from || null, to: to || null });
+
+  const loadMore = async () => {
+    try {
+      setIsLoadingMore(true);
+      const page = await queryPurchaseOrders({ from: from || null, to: to || null, cursor });
+      setOrders(prev => [...prev, ...page.items]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more purchase orders:', error);
+      toast.error('Failed to load more purchase orders', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Run a status change on one order, then refresh the list
+  const runOrderAction = async (action: () => Promise<void>, successMessage: string, failureMessage: string) => {
+    try {
+      setIsUpdating(true);
+      await action();
+      toast.success(savedMessage(successMessage), {
+        dismissible: true
+      });
+      await reloadOrders();
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      toast.error(error instanceof Error ? error.message : failureMessage, {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handlePlace = (order: PurchaseOrder) => {
+    if (!order.id) return;
+    const orderId = order.id;
+    runOrderAction(() => placePurchaseOrder(orderId), 'Purchase order placed successfully', 'Failed to place purchase order');
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    if (!order.id) return;
+    const orderId = order.id;
+    await runOrderAction(() => cancelPurchaseOrder(orderId), 'Purchase order cancelled successfully', 'Failed to cancel purchase order');
+    setOrderToCancel(null);
+  };
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!order.id) return;
+    const orderId = order.id;
+    await runOrderAction(() => deletePurchaseOrder(orderId), 'Purchase order deleted successfully', 'Failed to delete purchase order');
+    setOrderToDelete(null);
+  };
+
+  const openEditor = (order: PurchaseOrder | null) => {
+    setOrderToEdit(order);
+    setIsEditing(true);
+  };
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6">
+      <div className="flex justify-between items-center border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground">
+            Orders placed with suppliers, from draft until the goods arrive
+          </p>
+        </div>
+        {can('purchaseOrders.create') && (
+          <Button onClick={() => openEditor(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Order
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="from">From</Label>
+          <Input id="from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="to">To</Label>
+          <Input id="to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <p className="text-sm text-muted-foreground pb-2">
+          {from || to ? 'Showing orders placed on the selected dates' : 'Showing all time'}
+        </p>
+      </div>
+
+      <div className="border rounded-lg w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Date</TableHead>
+              <TableHead className="w-[130px]">Order Number</TableHead>
+              <TableHead className="w-[180px]">Supplier</TableHead>
+              <TableHead className="w-[260px]">Products</TableHead>
+              <TableHead className="w-[120px]">Expected</TableHead>
+              <TableHead className="w-[140px]">Status</TableHead>
+              <TableHead className="w-[140px]">Total</TableHead>
+              <TableHead className="w-[140px]">Advance</TableHead>
+              <TableHead className="w-[200px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center">
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading purchase orders...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : orders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No purchase orders in the selected dates
+                </TableCell>
+              </TableRow>
+            ) : (
+              orders.map((order) => (
+                <TableRow key={order.id}>
+                  <TableCell>{formatDate(order.date)}</TableCell>
+                  <TableCell>{order.order_number}</TableCell>
+                  <TableCell>
+                    {order.supplierId ? (
+                      <Link to={`/suppliers/${order.supplierId}`} className="hover:underline">
+                        {displaySupplierName(order, suppliers)}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {order.items.map((line, index) => (
+                      <div key={index}>
+                        {displayProductName(line, products)} × {line.quantity}
+                        {line.received > 0 && line.received < line.quantity && (
+                          <span className="text-xs text-muted-foreground"> ({line.received} received)</span>
+                        )}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>{order.expectedDate ? formatDate(order.expectedDate) : '-'}</TableCell>
+                  <TableCell>
+                    <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_STYLES[order.status])}>
+                      {statusLabel(order.status)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {formatMoney(order.total)}
+                    {order.currency !== baseCurrency && (
+                      <div className="text-xs text-muted-foreground">
+                        {order.currency} @ {order.exchangeRate}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {order.advance > 0 ? formatMoney(order.advance) : '-'}
+                    {order.advanceUsed > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {formatMoney(subtractMoney(order.advance, order.advanceUsed))} unused
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {can('auditLogs.read') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryOrder(order)}
+                          className="h-8 w-8"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {can('purchaseOrders.update') && (
+                        <>
+                          {order.status === 'draft' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handlePlace(order)}
+                              className="h-8 w-8"
+                              title="Place order"
+                              disabled={isUpdating}
+                            >
+                              <Send className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {isOpenOrder(order) && can('purchases.create') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setOrderToReceive(order)}
+                              className="h-8 w-8"
+                              title="Receive goods"
+                            >
+                              <PackageCheck className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(order.status === 'draft' || order.status === 'ordered') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openEditor(order)}
+                              className="h-8 w-8"
+                              title="Edit"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(order.status === 'draft' || isOpenOrder(order)) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setOrderToCancel(order)}
+                              className="h-8 w-8"
+                              title="Cancel order"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                      {can('purchaseOrders.delete') && order.items.every(line => line.received === 0) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setOrderToDelete(order)}
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && !isLoading && (
+          <div className="flex items-center justify-between border-t p-4">
+            <span className="text-sm text-muted-foreground">
+              Showing {orders.length} orders
+            </span>
+            <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                'Load More'
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <PurchaseOrderSheet
+        open={isEditing}
+        order={orderToEdit}
+        products={products}
+        suppliers={suppliers}
+        exchangeRates={exchangeRates}
+        baseCurrency={baseCurrency}
+        onClose={() => setIsEditing(false)}
+        onSaved={reloadOrders}
+      />
+
+      <ReceivePurchaseOrderSheet
+        order={orderToReceive}
+        products={products}
+        onClose={() => setOrderToReceive(null)}
+        onReceived={reloadOrders}
+      />
+
+      <AlertDialog
+        open={orderToCancel !== null}
+        onOpenChange={(open) => !open && setOrderToCancel(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nothing more will be received against it. Goods already received stay in stock,
+              and any advance not used on them is kept as credit with the supplier.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => orderToCancel && handleCancel(orderToCancel)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Cancel Order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={orderToDelete !== null}
+        onOpenChange={(open) => !open && setOrderToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The order is removed and any advance recorded on it is reversed in the ledger.
+              {orderToDelete && orderToDelete.advance > 0 && (
+                <> Only do this if the supplier has returned the {formatCurrencyAmount(orderToDelete.advance, baseCurrency)} advance.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => orderToDelete && handleDelete(orderToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="purchaseOrders"
+        recordId={historyOrder?.id ?? null}
+        title="Purchase Order History"
+        onClose={() => setHistoryOrder(null)}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrdersPage;
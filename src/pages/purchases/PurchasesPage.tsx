@@ -11,20 +11,55 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { 
-  getPurchases, 
+  subscribeToPurchasesPage,
+  getPurchasesTotals,
+  DEFAULT_PAGE_SIZE,
   addPurchase,
   deletePurchase,
-  getProductCategories,
-  addProductCategory,
-  getDeletedPurchases,
+  getProducts,
+  addProduct,
+  newProductInput,
+  displayProductName,
   restorePurchase,
+  updatePurchase,
   type PurchaseEntry,
-  type Category
+  type TransactionTotals,
+  type Product,
+  getSuppliers,
+  addSupplier,
+  newSupplierInput,
+  displaySupplierName,
+  getSupplierCreditBalance,
+  getBillBalance,
+  groupByBill,
+  groupByPurchase,
+  purchaseBill,
+  subscribeToBillPayments,
+  subscribeToPurchaseReturns,
+  type Bill,
+  type BillPayment,
+  type PurchaseReturn,
+  type Supplier
 } from '@/utils/database';
-import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar } from 'lucide-react';
+import { savedMessage } from '@/utils/outbox';
+import { ZERO_MONEY, divideMoney, multiplyMoney, subtractMoney, toMajorUnits, toMinorUnits, type Money } from '@/utils/money';
+import { formatCurrencyAmount, formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
+import {
+  DEFAULT_BASE_CURRENCY,
+  convertToBase,
+  defaultExchangeRate,
+  getExchangeRates,
+  isValidExchangeRate,
+  type ExchangeRate
+} from '@/utils/currency';
+import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar, Pencil, History, Undo2, Wallet } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
-import CategorySelect from '@/components/form/CategorySelect';
+import { ISO_DATE_FORMAT, getFilterBounds, monthsSpanned, parseISODate, todayISODate } from '@/utils/dateFormat';
+import { billTermsFrom, emptyBillTerms, getBillTermsError, toBillTerms, type BillTermsValues } from '@/utils/billTerms';
+import ProductSelect from '@/components/form/ProductSelect';
+import SupplierSelect from '@/components/form/SupplierSelect';
+import { Link } from 'react-router-dom';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +71,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import dayjs from 'dayjs';
 import {
   Popover,
@@ -43,13 +79,23 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useSidebar } from '@/contexts/SidebarContext';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import { useBusiness } from '@/contexts/useBusiness';
+import NewRowsIndicator from '@/components/live/NewRowsIndicator';
+import { useNewRowHighlights } from '@/utils/newRowHighlights';
+import PurchaseReturnSheet from '@/components/purchases/PurchaseReturnSheet';
+import BillTermsFields from '@/components/payables/BillTermsFields';
+import BillPaymentSheet from '@/components/payables/BillPaymentSheet';
+import PaymentStatusBadge from '@/components/payments/PaymentStatusBadge';
 
-// Define Firestore Timestamp type for internal use
-type FirestoreTimestamp = {
-  seconds: number;
-  nanoseconds: number;
-};
 
 type DateRange = {
   from: Date;
@@ -64,13 +110,22 @@ const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> =
   </div>
 );
 
+// Amounts are held as typed, in major units of the purchase currency, until the form is submitted
 interface PurchaseFormData {
   date: string;
+  productId: string;
   product: string;
+  supplierId: string;
+  supplier: string;
   order_number: string;
   quantity: number;
+  currency: string;
+  exchangeRate: number;
   price: number;
   total: number;
+  // Supplier credit used towards this purchase, in the base currency
+  creditApplied: number;
+  terms: BillTermsValues;
   notes: string;
 }
 
@@ -79,215 +134,584 @@ const formatDate = (date: Date | string): string => {
   return dayjs(date).format('DD-MMM-YYYY');
 };
 
-// Helper function to format date for input field
-const dateToInputValue = (date: Date | string): string => {
-  return dayjs(date).format('YYYY-MM-DD');
+// Apply a form field change, keeping the total in sync and picking up the
+// rate table's rate when the currency changes
+const applyPurchaseFieldChange = (
+  prev: PurchaseFormData,
+  name: keyof PurchaseFormData,
+  value: string | number,
+  rateFor: (currency: string) => number
+): PurchaseFormData => {
+  const updates = {
+    ...prev,
+    [name]: value
+  };
+  
+  if (name === 'quantity' || name === 'price') {
+    updates.total = toMajorUnits(multiplyMoney(toMinorUnits(updates.price), Number(updates.quantity)));
+  }
+
+  if (name === 'currency') {
+    updates.exchangeRate = rateFor(String(value));
+  }
+  
+  return updates;
+};
+
+// What the purchase leaves to pay in cash, in the base currency
+const purchaseBillAmount = (purchase: PurchaseFormData): Money => {
+  return subtractMoney(
+    convertToBase(toMinorUnits(purchase.total), Number(purchase.exchangeRate) || 0),
+    toMinorUnits(purchase.creditApplied)
+  );
+};
+
+// Left out when paid in full, so the bill follows the purchase total
+const purchaseTerms = (purchase: PurchaseFormData): { paidOnPurchase?: Money; dueDate?: string } => {
+  const { paidOnEntry, dueDate } = toBillTerms(purchase.terms, purchase.date);
+  return paidOnEntry === undefined ? {} : { paidOnPurchase: paidOnEntry, dueDate };
+};
+
+// Validate a purchase form, returning the first error message if any
+const getPurchaseValidationError = (purchase: PurchaseFormData): string | null => {
+  const requiredFields = {
+    date: 'Date',
+    productId: 'Product',
+    quantity: 'Quantity',
+    price: 'Price'
+  } as const;
+
+  const missingFields = Object.entries(requiredFields).filter(
+    ([key]) => !purchase[key as keyof typeof requiredFields]
+  ).map(([, label]) => label);
+
+  if (missingFields.length > 0) {
+    return `Required fields missing: ${missingFields.join(', ')}`;
+  }
+
+  if (Number(purchase.quantity) <= 0) {
+    return 'Quantity must be greater than 0';
+  }
+
+  if (Number(purchase.price) <= 0) {
+    return 'Price must be greater than 0';
+  }
+
+  if (!isValidExchangeRate(Number(purchase.exchangeRate))) {
+    return `Exchange rate for ${purchase.currency} must be greater than 0`;
+  }
+
+  if (Number(purchase.creditApplied) < 0) {
+    return 'Supplier credit applied cannot be negative';
+  }
+
+  return getBillTermsError(purchase.terms, purchaseBillAmount(purchase), purchase.date);
+};
+
+// Credit the chosen supplier holds, refreshed whenever the supplier changes
+const useSupplierCredit = (supplierId: string | undefined, excludePurchaseId?: string): Money => {
+  const [credit, setCredit] = useState<Money>(ZERO_MONEY);
+
+  useEffect(() => {
+    let isActive = true;
+    setCredit(ZERO_MONEY);
+    if (!supplierId) return;
+
+    getSupplierCreditBalance(supplierId, excludePurchaseId)
+      .then(balance => isActive && setCredit(balance))
+      .catch(error => console.error('Error loading supplier credit:', error));
+
+    return () => {
+      isActive = false;
+    };
+  }, [supplierId, excludePurchaseId]);
+
+  return credit;
+};
+
+interface PurchaseFormFieldsProps {
+  values: PurchaseFormData;
+  onFieldChange: (name: keyof PurchaseFormData, value: string | number) => void;
+  onProductChange: (product: Product) => void;
+  products: Product[];
+  onAddProduct?: (name: string) => Promise<Product>;
+  onSupplierChange: (supplier: Supplier | null) => void;
+  onTermsChange: (terms: BillTermsValues) => void;
+  suppliers: Supplier[];
+  onAddSupplier?: (name: string) => Promise<Supplier>;
+  baseCurrency: string;
+  // Credit the selected supplier holds, in the base currency
+  availableCredit: Money;
+  // Currencies offered besides the base one, from the rate table
+  currencies: string[];
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new entry panel and the edit sheet
+const PurchaseFormFields: React.FC<PurchaseFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  onProductChange,
+  products,
+  onAddProduct,
+  onSupplierChange,
+  onTermsChange,
+  suppliers,
+  onAddSupplier,
+  baseCurrency,
+  availableCredit,
+  currencies,
+  disabled,
+  idPrefix = ''
+}) => {
+  const isForeign = values.currency !== baseCurrency;
+  // Unpaid bills fall due after the supplier's payment terms
+  const paymentTermsDays = suppliers.find(supplier => supplier.id === values.supplierId)?.paymentTermsDays ?? 0;
+  // An edited purchase keeps its currency even if it has since left the rate table
+  const currencyOptions = [...new Set([baseCurrency, ...currencies, values.currency])];
+
+  return (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}date`}>Date</RequiredLabel>
+      <Input
+        id={`${idPrefix}date`}
+        name="date"
+        type="date"
+        value={values.date}
+        onChange={(e) => onFieldChange('date', e.target.value)}
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}product`}>Product</RequiredLabel>
+      <ProductSelect
+        value={values.productId}
+        fallbackLabel={values.product}
+        onSelect={onProductChange}
+        products={products}
+        onAddProduct={onAddProduct}
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}supplier`}>Supplier</Label>
+      <SupplierSelect
+        value={values.supplierId}
+        fallbackLabel={values.supplier}
+        onSelect={onSupplierChange}
+        suppliers={suppliers}
+        onAddSupplier={onAddSupplier}
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}quantity`}>Quantity</RequiredLabel>
+      <Input
+        id={`${idPrefix}quantity`}
+        name="quantity"
+        type="number"
+        min="1"
+        step="1"
+        value={values.quantity || ''}
+        onChange={(e) => onFieldChange('quantity', parseFloat(e.target.value))}
+        placeholder="0"
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <RequiredLabel htmlFor={`${idPrefix}currency`}>Currency</RequiredLabel>
+        <Select
+          value={values.currency}
+          onValueChange={(value) => onFieldChange('currency', value)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}currency`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {currencyOptions.map((currency) => (
+              <SelectItem key={currency} value={currency}>
+                {currency}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <RequiredLabel htmlFor={`${idPrefix}exchangeRate`}>Rate to {baseCurrency}</RequiredLabel>
+        <Input
+          id={`${idPrefix}exchangeRate`}
+          name="exchangeRate"
+          type="number"
+          min="0"
+          step="any"
+          value={values.exchangeRate || ''}
+          onChange={(e) => onFieldChange('exchangeRate', parseFloat(e.target.value))}
+          placeholder="0"
+          required
+          disabled={disabled || !isForeign}
+        />
+      </div>
+    </div>
+
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}price`}>Price</RequiredLabel>
+      <Input
+        id={`${idPrefix}price`}
+        name="price"
+        type="number"
+        min="0.01"
+        step="0.01"
+        value={values.price || ''}
+        onChange={(e) => onFieldChange('price', parseFloat(e.target.value))}
+        placeholder={isForeign ? formatCurrencyAmount(ZERO_MONEY, values.currency) : moneyPlaceholder()}
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}total`}>Total</Label>
+      <Input
+        id={`${idPrefix}total`}
+        name="total"
+        type="number"
+        value={values.total || ''}
+        readOnly
+        className="w-full bg-muted"
+      />
+      {isForeign && (
+        <p className="text-sm text-muted-foreground mt-1">
+          {formatMoney(convertToBase(toMinorUnits(values.total), Number(values.exchangeRate) || 0))} in {baseCurrency}
+        </p>
+      )}
+    </div>
+
+    {values.supplierId && (availableCredit > 0 || values.creditApplied > 0) && (
+      <div>
+        <Label htmlFor={`${idPrefix}creditApplied`}>Supplier credit applied ({baseCurrency})</Label>
+        <Input
+          id={`${idPrefix}creditApplied`}
+          name="creditApplied"
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.creditApplied || ''}
+          onChange={(e) => onFieldChange('creditApplied', parseFloat(e.target.value) || 0)}
+          placeholder={moneyPlaceholder()}
+          disabled={disabled}
+        />
+        <p className="text-sm text-muted-foreground mt-1">
+          {formatMoney(availableCredit)} available from {values.supplier}
+        </p>
+      </div>
+    )}
+
+    <BillTermsFields
+      values={values.terms}
+      onChange={onTermsChange}
+      amount={purchaseBillAmount(values)}
+      defaultDueDate={dayjs(values.date).add(paymentTermsDays, 'day').format(ISO_DATE_FORMAT)}
+      disabled={disabled}
+      idPrefix={idPrefix}
+    />
+
+    <div>
+      <Label htmlFor={`${idPrefix}notes`}>Notes (Optional)</Label>
+      <Input
+        id={`${idPrefix}notes`}
+        name="notes"
+        value={values.notes || ''}
+        onChange={(e) => onFieldChange('notes', e.target.value)}
+        placeholder="Add notes..."
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}order_number`}>Order Number</RequiredLabel>
+      <Input
+        id={`${idPrefix}order_number`}
+        name="order_number"
+        value={values.order_number}
+        onChange={(e) => onFieldChange('order_number', e.target.value)}
+        placeholder="Order #"
+        required
+        disabled={disabled}
+      />
+    </div>
+  </div>
+  );
 };
 
 const PurchasesPage = () => {
   const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
-  const [filteredPurchases, setFilteredPurchases] = useState<PurchaseEntry[]>([]);
-  const [productCategories, setProductCategories] = useState<Category[]>([]);
+  const [purchasesTotals, setPurchasesTotals] = useState<TransactionTotals | null>(null);
+  // Pages shown so far; the live query grows instead of paging with cursors
+  const [pageCount, setPageCount] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can, activeBusiness } = useBusiness();
+  const canCreate = can('purchases.create');
+  const baseCurrency = activeBusiness?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const { newCount, markNew, isNew } = useNewRowHighlights();
   const [purchaseToDelete, setPurchaseToDelete] = useState<PurchaseEntry | null>(null);
+  const [purchaseToEdit, setPurchaseToEdit] = useState<PurchaseEntry | null>(null);
+  const [historyPurchase, setHistoryPurchase] = useState<PurchaseEntry | null>(null);
+  const [editFormData, setEditFormData] = useState<PurchaseFormData | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
   const [showDeleted, setShowDeleted] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange>(null);
   const [activeFilter, setActiveFilter] = useState<string>('all');
   const [dateRangeDisplay, setDateRangeDisplay] = useState<string>('');
+  const [purchaseToReturn, setPurchaseToReturn] = useState<PurchaseEntry | null>(null);
+  const [billToPay, setBillToPay] = useState<Bill | null>(null);
+  // Every live bill payment and return, to show what is still owed on each purchase
+  const [billPayments, setBillPayments] = useState<BillPayment[]>([]);
+  const [purchaseReturns, setPurchaseReturns] = useState<PurchaseReturn[]>([]);
+  const canReadPayments = can('billPayments.read');
+  const paymentsByBill = React.useMemo(() => groupByBill(billPayments), [billPayments]);
+  const returnsByPurchase = React.useMemo(() => groupByPurchase(purchaseReturns), [purchaseReturns]);
   
   const [formData, setFormData] = useState<PurchaseFormData>({
-    date: formatDate(new Date()),
+    date: todayISODate(),
+    productId: '',
     product: '',
+    supplierId: '',
+    supplier: '',
     order_number: '',
     quantity: 0,
+    currency: baseCurrency,
+    exchangeRate: 1,
     price: 0,
     total: 0,
+    creditApplied: 0,
+    terms: emptyBillTerms(),
     notes: ''
   });
+  const availableCredit = useSupplierCredit(formData.supplierId);
+  const editAvailableCredit = useSupplierCredit(editFormData?.supplierId, purchaseToEdit?.id);
 
-  // Calculate purchases summary based on filtered purchases
+  // Summary figures cover the whole filtered period, not just the loaded pages
   const purchasesSummary = React.useMemo(() => {
-    const summary = filteredPurchases.reduce((acc, purchase) => ({
-      totalPurchases: acc.totalPurchases + purchase.total,
-      totalQuantity: acc.totalQuantity + purchase.quantity,
-      averagePrice: (acc.totalPurchases + purchase.total) / (acc.totalQuantity + purchase.quantity)
-    }), {
-      totalPurchases: 0,
-      totalQuantity: 0,
-      averagePrice: 0
-    });
-
-    // Calculate monthly average
-    const dates = filteredPurchases.map(purchase => 
-      typeof purchase.date === 'string' 
-        ? new Date(purchase.date) 
-        : new Date((purchase.date as FirestoreTimestamp).seconds * 1000)
-    );
-    
-    let monthlyAverage = 0;
-    if (dates.length > 0) {
-      const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-      const latest = new Date(Math.max(...dates.map(d => d.getTime())));
-      const monthDiff = (latest.getFullYear() - earliest.getFullYear()) * 12 + 
-                       (latest.getMonth() - earliest.getMonth()) + 1;
-      monthlyAverage = summary.totalPurchases / Math.max(1, monthDiff);
-    }
+    const totalPurchases = purchasesTotals?.amount ?? ZERO_MONEY;
+    const totalQuantity = purchasesTotals?.quantity ?? 0;
+    const monthlyAverage = purchasesTotals?.firstDate && purchasesTotals.lastDate
+      ? divideMoney(totalPurchases, Math.max(1, monthsSpanned(purchasesTotals.firstDate, purchasesTotals.lastDate)))
+      : ZERO_MONEY;
 
     return {
-      ...summary,
+      totalPurchases,
+      totalQuantity,
+      averagePrice: divideMoney(totalPurchases, totalQuantity),
       monthlyAverage
     };
-  }, [filteredPurchases]);
+  }, [purchasesTotals]);
 
   useEffect(() => {
-    loadData();
-  }, [showDeleted]);
+    loadProducts();
+    loadSuppliers();
+    loadExchangeRates();
+  }, []);
 
   useEffect(() => {
-    if (purchases.length > 0) {
-      filterPurchases();
-    }
-  }, [purchases, dateRange, activeFilter]);
+    if (!canReadPayments) return;
+
+    const onError = (error: Error) => {
+      console.error('Error loading bill payments:', error);
+      toast.error('Failed to load bill payments', {
+        dismissible: true
+      });
+    };
+    const unsubscribePayments = subscribeToBillPayments(({ items }) => setBillPayments(items), onError);
+    const unsubscribeReturns = subscribeToPurchaseReturns(({ items }) => setPurchaseReturns(items), onError);
+    return () => {
+      unsubscribePayments();
+      unsubscribeReturns();
+    };
+  }, [canReadPayments]);
 
   useEffect(() => {
-    updateDateRangeDisplay();
-  }, [filteredPurchases, activeFilter, dateRange]);
+    setPageCount(1);
+  }, [showDeleted, dateRange, activeFilter]);
 
-  const filterPurchases = () => {
-    let filtered = [...purchases];
-    
-    if (dateRange?.from && dateRange?.to) {
-      filtered = filtered.filter(purchase => {
-        const purchaseDate = typeof purchase.date === 'string' 
-          ? new Date(purchase.date) 
-          : new Date((purchase.date as FirestoreTimestamp).seconds * 1000);
-        return purchaseDate >= dateRange.from && purchaseDate <= dateRange.to;
-      });
-    } else {
-      const today = new Date();
-      const fromDate = new Date();
+  // Keep the list live; totals come from an aggregate query, so they are
+  // re-fetched whenever the list changes
+  useEffect(() => {
+    let isActive = true;
+    const filter = getFilter();
+    if (pageCount === 1) setIsLoading(true);
 
-      switch (activeFilter) {
-        case '7days':
-          fromDate.setDate(today.getDate() - 7);
-          break;
-        case '1month':
-          fromDate.setMonth(today.getMonth() - 1);
-          break;
-        case '3months':
-          fromDate.setMonth(today.getMonth() - 3);
-          break;
-        default:
-          setFilteredPurchases(filtered);
-          return;
+    const unsubscribe = subscribeToPurchasesPage(
+      { ...filter, pageSize: DEFAULT_PAGE_SIZE * pageCount },
+      async (page) => {
+        setPurchases(page.items);
+        setHasMore(page.hasMore);
+        markNew(page.newIds);
+        setIsLoading(false);
+        setIsLoadingMore(false);
+        try {
+          const totals = await getPurchasesTotals(filter);
+          if (isActive) setPurchasesTotals(totals);
+        } catch (error) {
+          console.error('Error loading purchases totals:', error);
+        }
+      },
+      (error) => {
+        console.error('Error loading data:', error);
+        toast.error('Failed to load inventory data', {
+          dismissible: true
+        });
+        setIsLoading(false);
+        setIsLoadingMore(false);
       }
+    );
 
-      filtered = filtered.filter(purchase => {
-        const purchaseDate = typeof purchase.date === 'string' 
-          ? new Date(purchase.date) 
-          : new Date((purchase.date as FirestoreTimestamp).seconds * 1000);
-        return purchaseDate >= fromDate && purchaseDate <= today;
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [showDeleted, dateRange, activeFilter, pageCount, markNew]);
+
+  useEffect(() => {
+    updateDateRangeDisplay();
+  }, [purchasesTotals, activeFilter, dateRange]);
+
+  const getFilter = () => ({
+    ...getFilterBounds(activeFilter, dateRange),
+    deleted: showDeleted
+  });
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+      toast.error('Failed to load products', {
+        dismissible: true
       });
     }
-
-    setFilteredPurchases(filtered);
   };
 
-  const loadData = async () => {
+  const loadSuppliers = async () => {
     try {
-      setIsLoading(true);
-      const [
-        purchasesData,
-        productCats
-      ] = await Promise.all([
-        showDeleted ? getDeletedPurchases() : getPurchases(),
-        getProductCategories()
-      ]);
-      
-      // Sort purchases by date (most recent first)
-      const sortedPurchases = purchasesData.sort((a, b) => {
-        const dateA = new Date(a.date);
-        const dateB = new Date(b.date);
-        return dateB.getTime() - dateA.getTime();
-      });
-      
-      setPurchases(sortedPurchases);
-      setProductCategories(productCats);
-      console.log('Loaded categories:', {
-        products: productCats
+      setSuppliers(await getSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+      toast.error('Failed to load suppliers', {
+        dismissible: true
       });
+    }
+  };
+
+  const loadExchangeRates = async () => {
+    try {
+      setExchangeRates(await getExchangeRates());
     } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load inventory data', {
+      console.error('Error loading exchange rates:', error);
+      toast.error('Failed to load exchange rates', {
         dismissible: true
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const rateFor = (currency: string) => defaultExchangeRate(exchangeRates, currency, baseCurrency);
+
+  const loadMore = () => {
+    setIsLoadingMore(true);
+    setPageCount(prev => prev + 1);
+  };
+
   const handleInputChange = (name: keyof PurchaseFormData, value: string | number) => {
-    setFormData(prev => {
-      const updates = {
-        ...prev,
-        [name]: value
-      };
-      
-      if (name === 'quantity' || name === 'price') {
-        updates.total = Number(updates.quantity) * Number(updates.price);
-      }
-      
-      return updates;
-    });
+    setFormData(prev => applyPurchaseFieldChange(prev, name, value, rateFor));
+  };
+
+  const handleEditInputChange = (name: keyof PurchaseFormData, value: string | number) => {
+    setEditFormData(prev => prev && applyPurchaseFieldChange(prev, name, value, rateFor));
+  };
+
+  const handleProductChange = (product: Product) => {
+    setFormData(prev => ({ ...prev, productId: product.id, product: product.name }));
   };
 
-  const handleAddProduct = async (name: string) => {
+  const handleEditProductChange = (product: Product) => {
+    setEditFormData(prev => prev && { ...prev, productId: product.id, product: product.name });
+  };
+
+  const handleAddProduct = async (name: string): Promise<Product> => {
     try {
-      await addProductCategory({ name });
-      const categories = await getProductCategories();
-      setProductCategories(categories);
+      const input = newProductInput(name.trim());
+      const id = await addProduct(input);
+      await loadProducts();
+      return { id, ...input };
     } catch (error) {
-      console.error('Error adding product category:', error);
+      console.error('Error adding product:', error);
       toast.error('Failed to add product', {
         dismissible: true
       });
+      throw error;
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Enhanced validation
-    const requiredFields = {
-      date: 'Date',
-      product: 'Product',
-      quantity: 'Quantity',
-      price: 'Price'
-    } as const;
-
-    const missingFields = Object.entries(requiredFields).filter(
-      ([key]) => !formData[key as keyof typeof requiredFields]
-    ).map(([, label]) => label);
-
-    if (missingFields.length > 0) {
-      toast.error(`Required fields missing: ${missingFields.join(', ')}`, {
-        dismissible: true
-      });
-      return;
-    }
+  // Link the chosen supplier, or clear it
+  const supplierChange = (supplier: Supplier | null) => ({
+    supplierId: supplier?.id ?? '',
+    supplier: supplier?.name ?? ''
+  });
+
+  const handleSupplierChange = (supplier: Supplier | null) => {
+    setFormData(prev => ({ ...prev, ...supplierChange(supplier) }));
+  };
 
-    if (Number(formData.quantity) <= 0) {
-      toast.error('Quantity must be greater than 0', {
+  const handleTermsChange = (terms: BillTermsValues) => {
+    setFormData(prev => ({ ...prev, terms }));
+  };
+
+  const handleEditTermsChange = (terms: BillTermsValues) => {
+    setEditFormData(prev => prev && { ...prev, terms });
+  };
+
+  const handleEditSupplierChange = (supplier: Supplier | null) => {
+    setEditFormData(prev => prev && { ...prev, ...supplierChange(supplier) });
+  };
+
+  const handleAddSupplier = async (name: string): Promise<Supplier> => {
+    try {
+      const input = newSupplierInput(name.trim());
+      const id = await addSupplier(input);
+      await loadSuppliers();
+      return { id, ...input };
+    } catch (error) {
+      console.error('Error adding supplier:', error);
+      toast.error('Failed to add supplier', {
         dismissible: true
       });
-      return;
+      throw error;
     }
+  };
 
-    if (Number(formData.price) <= 0) {
-      toast.error('Price must be greater than 0', {
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    const validationError = getPurchaseValidationError(formData);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
@@ -295,31 +719,43 @@ const PurchasesPage = () => {
 
     setIsSubmitting(true);
     try {
-      const purchaseEntry = {
-        ...formData,
-        date: formatDate(formData.date),
+      await addPurchase({
+        date: formData.date,
+        productId: formData.productId,
+        product: formData.product,
+        supplierId: formData.supplierId,
+        supplier: formData.supplier,
+        order_number: formData.order_number,
         quantity: Number(formData.quantity),
-        price: Number(formData.price),
-        total: Number(formData.quantity) * Number(formData.price)
-      };
-      
-      await addPurchase(purchaseEntry);
-      await loadData();
+        currency: formData.currency,
+        exchangeRate: Number(formData.exchangeRate),
+        originalPrice: toMinorUnits(formData.price),
+        creditApplied: toMinorUnits(formData.creditApplied),
+        ...purchaseTerms(formData),
+        notes: formData.notes
+      });
       setFormData({
-        date: formatDate(new Date()),
+        date: todayISODate(),
+        productId: '',
         product: '',
+        supplierId: '',
+        supplier: '',
         order_number: '',
         quantity: 0,
+        currency: baseCurrency,
+        exchangeRate: 1,
         price: 0,
         total: 0,
+        creditApplied: 0,
+        terms: emptyBillTerms(),
         notes: ''
       });
-      toast.success('Purchase added successfully', {
+      toast.success(savedMessage('Purchase added successfully'), {
         dismissible: true
       });
     } catch (error) {
       console.error('Error adding purchase:', error);
-      toast.error('Failed to add purchase', {
+      toast.error(error instanceof Error ? error.message : 'Failed to add purchase', {
         dismissible: true
       });
     } finally {
@@ -327,18 +763,81 @@ const PurchasesPage = () => {
     }
   };
 
+  const handleEdit = (purchase: PurchaseEntry) => {
+    setPurchaseToEdit(purchase);
+    setEditFormData({
+      date: purchase.date,
+      productId: purchase.productId ?? '',
+      product: purchase.product,
+      supplierId: purchase.supplierId ?? '',
+      supplier: purchase.supplier ?? '',
+      order_number: purchase.order_number || '',
+      quantity: purchase.quantity,
+      currency: purchase.currency ?? baseCurrency,
+      exchangeRate: purchase.exchangeRate ?? 1,
+      price: toMajorUnits(purchase.originalPrice ?? purchase.price),
+      total: toMajorUnits(purchase.originalTotal ?? purchase.total),
+      creditApplied: toMajorUnits(purchase.creditApplied ?? ZERO_MONEY),
+      terms: billTermsFrom(purchaseBill(purchase).amount, purchase.paidOnPurchase, purchase.dueDate),
+      notes: purchase.notes || ''
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!purchaseToEdit?.id || !editFormData) return;
+
+    const validationError = getPurchaseValidationError(editFormData);
+    if (validationError) {
+      toast.error(validationError, {
+        dismissible: true
+      });
+      return;
+    }
+
+    setIsUpdating(true);
+    try {
+      await updatePurchase(purchaseToEdit.id, {
+        date: editFormData.date,
+        productId: editFormData.productId,
+        product: editFormData.product,
+        supplierId: editFormData.supplierId,
+        supplier: editFormData.supplier,
+        order_number: editFormData.order_number,
+        quantity: Number(editFormData.quantity),
+        currency: editFormData.currency,
+        exchangeRate: Number(editFormData.exchangeRate),
+        originalPrice: toMinorUnits(editFormData.price),
+        creditApplied: toMinorUnits(editFormData.creditApplied),
+        ...purchaseTerms(editFormData),
+        notes: editFormData.notes
+      });
+      setPurchaseToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Purchase updated successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating purchase:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update purchase', {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleDelete = async (purchase: PurchaseEntry) => {
     if (!purchase.id) return;
     
     try {
       await deletePurchase(purchase.id);
-      await loadData();
-      toast.success('Purchase entry deleted successfully', {
+      toast.success(savedMessage('Purchase entry deleted successfully'), {
         dismissible: true
       });
     } catch (error) {
       console.error('Error deleting purchase:', error);
-      toast.error('Failed to delete purchase entry', {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete purchase entry', {
         dismissible: true
       });
     } finally {
@@ -352,13 +851,12 @@ const PurchasesPage = () => {
     try {
       setIsRestoring(true);
       await restorePurchase(purchase.id);
-      await loadData();
-      toast.success('Purchase entry restored successfully', {
+      toast.success(savedMessage('Purchase entry restored successfully'), {
         dismissible: true
       });
     } catch (error) {
       console.error('Error restoring purchase:', error);
-      toast.error('Failed to restore purchase entry', {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore purchase entry', {
         dismissible: true
       });
     } finally {
@@ -367,19 +865,14 @@ const PurchasesPage = () => {
   };
 
   const updateDateRangeDisplay = () => {
-    if (filteredPurchases.length === 0) {
+    if (!purchasesTotals?.firstDate || !purchasesTotals.lastDate) {
       setDateRangeDisplay('No data to display');
       return;
     }
 
-    // Get the earliest and latest dates from filtered data
-    const dates = filteredPurchases.map(purchase => 
-      typeof purchase.date === 'string' 
-        ? new Date(purchase.date) 
-        : new Date((purchase.date as FirestoreTimestamp).seconds * 1000)
-    );
-    const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-    const latest = new Date(Math.max(...dates.map(d => d.getTime())));
+    // Get the earliest and latest dates of the filtered period
+    const earliest = parseISODate(purchasesTotals.firstDate);
+    const latest = parseISODate(purchasesTotals.lastDate);
 
     // Format date to "Jan 1 2025" style
     const formatDisplayDate = (date: Date) => {
@@ -417,7 +910,7 @@ const PurchasesPage = () => {
       <div 
         className={cn(
           "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-16 overflow-auto",
-          isSidebarOpen ? "pr-[400px]" : "pr-2"
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
         )}
       >
         <div className="flex justify-between items-center border-b pb-4">
@@ -574,6 +1067,7 @@ const PurchasesPage = () => {
             <div className="text-sm text-muted-foreground flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               {dateRangeDisplay}
+              <NewRowsIndicator count={newCount} />
             </div>
           )}
         </div>
@@ -582,11 +1076,11 @@ const PurchasesPage = () => {
         <div className="grid grid-cols-4 gap-4 mt-4 mb-6">
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Total Purchases</h3>
-            <p className="text-2xl font-bold mt-1">৳{purchasesSummary.totalPurchases.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(purchasesSummary.totalPurchases)}</p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Monthly Average</h3>
-            <p className="text-2xl font-bold mt-1">৳{purchasesSummary.monthlyAverage.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(purchasesSummary.monthlyAverage)}</p>
             <p className="text-sm text-muted-foreground mt-1">Per month</p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
@@ -595,7 +1089,7 @@ const PurchasesPage = () => {
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Average Price</h3>
-            <p className="text-2xl font-bold mt-1">৳{purchasesSummary.averagePrice.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(purchasesSummary.averagePrice)}</p>
           </div>
         </div>
 
@@ -605,206 +1099,310 @@ const PurchasesPage = () => {
               <TableRow>
                 <TableHead className="w-[120px]">Date</TableHead>
                 <TableHead className="w-[200px]">Product</TableHead>
+                <TableHead className="w-[180px]">Supplier</TableHead>
                 <TableHead className="w-[150px]">Order Number</TableHead>
                 <TableHead className="w-[120px]">Quantity</TableHead>
                 <TableHead className="w-[150px]">Price</TableHead>
                 <TableHead className="w-[150px]">Total</TableHead>
+                {canReadPayments && <TableHead className="w-[130px]">Payment</TableHead>}
                 <TableHead className="w-[250px]">Notes</TableHead>
-                <TableHead className="w-[80px]"></TableHead>
+                <TableHead className="w-[180px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8">
+                  <TableCell colSpan={canReadPayments ? 10 : 9} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <Loader2 className="h-6 w-6 animate-spin mr-2" />
                       Loading purchases data...
                     </div>
                   </TableCell>
                 </TableRow>
-              ) : filteredPurchases.length === 0 ? (
+              ) : purchases.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  <TableCell colSpan={canReadPayments ? 10 : 9} className="text-center text-muted-foreground">
                     {showDeleted ? 'No deleted purchases entries' : 'No purchases entries yet'}
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredPurchases.map((purchase) => (
-                  <TableRow key={purchase.id} className={cn(purchase.isDeleted && "bg-muted/50")}>
+                purchases.map((purchase) => (
+                  <TableRow key={purchase.id} className={cn(purchase.isDeleted && "bg-muted/50", isNew(purchase.id) && "bg-green-500/10")}>
                     <TableCell>{formatDate(purchase.date)}</TableCell>
-                    <TableCell>{purchase.product}</TableCell>
-                    <TableCell>ORD-{Math.floor(Math.random() * 10000)}</TableCell>
-                    <TableCell>{purchase.quantity}</TableCell>
-                    <TableCell>৳{purchase.price.toFixed(2)}</TableCell>
-                    <TableCell>৳{purchase.total.toFixed(2)}</TableCell>
-                    <TableCell>{purchase.notes}</TableCell>
+                    <TableCell>{displayProductName(purchase, products)}</TableCell>
                     <TableCell>
-                      {showDeleted ? (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleRestore(purchase)}
-                          className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
-                          disabled={isRestoring}
-                        >
-                          <RotateCcw className="h-4 w-4" />
-                        </Button>
+                      {purchase.supplierId ? (
+                        <Link to={`/suppliers/${purchase.supplierId}`} className="hover:underline">
+                          {displaySupplierName(purchase, suppliers)}
+                        </Link>
                       ) : (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setPurchaseToDelete(purchase)}
-                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {purchase.order_number || '-'}
+                      {purchase.purchaseOrderId && (
+                        <div className="text-xs text-muted-foreground">
+                          <Link to="/purchase-orders" className="hover:underline">Received on order</Link>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{purchase.quantity}</TableCell>
+                    <TableCell>
+                      {formatMoney(purchase.price)}
+                      {purchase.currency && purchase.currency !== baseCurrency && purchase.originalPrice !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrencyAmount(purchase.originalPrice, purchase.currency)} @ {purchase.exchangeRate}
+                        </div>
                       )}
                     </TableCell>
+                    <TableCell>
+                      {formatMoney(purchase.total)}
+                      {purchase.currency && purchase.currency !== baseCurrency && purchase.originalTotal !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrencyAmount(purchase.originalTotal, purchase.currency)}
+                        </div>
+                      )}
+                      {purchase.creditApplied !== undefined && purchase.creditApplied > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatMoney(purchase.creditApplied)} from credit
+                        </div>
+                      )}
+                      {purchase.advanceApplied !== undefined && purchase.advanceApplied > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatMoney(purchase.advanceApplied)} from order advance
+                        </div>
+                      )}
+                      {purchase.paidOnPurchase !== purchase.total && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatMoney(purchase.paidOnPurchase)} paid
+                        </div>
+                      )}
+                    </TableCell>
+                    {canReadPayments && (
+                      <TableCell>
+                        {!purchase.isDeleted && (() => {
+                          const balance = getBillBalance(
+                            purchaseBill(purchase),
+                            paymentsByBill.get(purchase.id ?? '') ?? [],
+                            returnsByPurchase.get(purchase.id ?? '') ?? []
+                          );
+                          return <PaymentStatusBadge status={balance.status} due={balance.due} />;
+                        })()}
+                      </TableCell>
+                    )}
+                    <TableCell>{purchase.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryPurchase(purchase)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {showDeleted ? (
+                          can('purchases.delete') && !purchase.purchaseOrderId && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRestore(purchase)}
+                              className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
+                              disabled={isRestoring}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )
+                        ) : (
+                          <>
+                            {can('purchases.update') && !purchase.purchaseOrderId && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleEdit(purchase)}
+                                className="h-8 w-8"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canReadPayments && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setBillToPay(purchaseBill(purchase))}
+                                className="h-8 w-8"
+                                title="Payments"
+                              >
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('purchaseReturns.create') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setPurchaseToReturn(purchase)}
+                                className="h-8 w-8"
+                                title="Return to supplier"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('purchases.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setPurchaseToDelete(purchase)}
+                                className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))
               )}
             </TableBody>
           </Table>
+          {hasMore && !isLoading && (
+            <div className="flex items-center justify-between border-t p-4">
+              <span className="text-sm text-muted-foreground">
+                Showing {purchases.length} of {purchasesTotals?.count ?? purchases.length} entries
+              </span>
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  'Load More'
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
-      <div 
-        className={cn(
-          "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
-          isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
-        )}
-      >
-        <Button
-          variant="outline"
-          size="icon"
+      {canCreate && (
+        <div 
           className={cn(
-            "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
-            !isSidebarOpen && "rotate-180"
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
           )}
-          onClick={toggleSidebar}
         >
-          <ChevronRight className="h-6 w-6" />
-        </Button>
-        <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
-          <div className="p-6">
-            <h2 className="text-lg font-semibold mb-4">New Purchase Entry</h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-4">
-                <div>
-                  <RequiredLabel htmlFor="date">Date</RequiredLabel>
-                  <Input
-                    id="date"
-                    name="date"
-                    type="date"
-                    value={dateToInputValue(formData.date)}
-                    onChange={(e) => handleInputChange('date', e.target.value)}
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="product">Product</RequiredLabel>
-                  <CategorySelect
-                    value={formData.product}
-                    onValueChange={(value) => handleInputChange('product', value)}
-                    categories={productCategories}
-                    onAddCategory={handleAddProduct}
-                    placeholder="Select product"
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="quantity">Quantity</RequiredLabel>
-                  <Input
-                    id="quantity"
-                    name="quantity"
-                    type="number"
-                    min="1"
-                    step="1"
-                    value={formData.quantity || ''}
-                    onChange={(e) => handleInputChange('quantity', parseFloat(e.target.value))}
-                    placeholder="0"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="price">Price</RequiredLabel>
-                  <Input
-                    id="price"
-                    name="price"
-                    type="number"
-                    min="0.01"
-                    step="0.01"
-                    value={formData.price || ''}
-                    onChange={(e) => handleInputChange('price', parseFloat(e.target.value))}
-                    placeholder="৳0.00"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <Label htmlFor="total">Total</Label>
-                  <Input
-                    id="total"
-                    name="total"
-                    type="number"
-                    value={formData.total || ''}
-                    readOnly
-                    className="w-full bg-muted"
-                  />
-                </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Purchase Entry</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <PurchaseFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  onProductChange={handleProductChange}
+                  products={products}
+                  onAddProduct={can('products.create') ? handleAddProduct : undefined}
+                  onSupplierChange={handleSupplierChange}
+                  onTermsChange={handleTermsChange}
+                  suppliers={suppliers}
+                  onAddSupplier={can('suppliers.create') ? handleAddSupplier : undefined}
+                  baseCurrency={baseCurrency}
+                  availableCredit={availableCredit}
+                  currencies={exchangeRates.map(rate => rate.currency)}
+                  disabled={isSubmitting}
+                />
 
-                <div>
-                  <Label htmlFor="notes">Notes (Optional)</Label>
-                  <Input
-                    id="notes"
-                    name="notes"
-                    value={formData.notes || ''}
-                    onChange={(e) => handleInputChange('notes', e.target.value)}
-                    placeholder="Add notes..."
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
                     disabled={isSubmitting}
-                  />
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Entry'
+                    )}
+                  </Button>
                 </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
 
-                <div>
-                  <RequiredLabel htmlFor="order_number">Order Number</RequiredLabel>
-                  <Input
-                    id="order_number"
-                    name="order_number"
-                    value={formData.order_number}
-                    onChange={(e) => handleInputChange('order_number', e.target.value)}
-                    placeholder="Order #"
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-              </div>
+      <Sheet 
+        open={purchaseToEdit !== null} 
+        onOpenChange={(open) => {
+          if (!open) {
+            setPurchaseToEdit(null);
+            setEditFormData(null);
+          }
+        }}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Purchase Entry</SheetTitle>
+            <SheetDescription>
+              Update the details of this purchase. The total is recalculated from quantity and price.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <PurchaseFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                onProductChange={handleEditProductChange}
+                products={products}
+                onAddProduct={can('products.create') ? handleAddProduct : undefined}
+                onSupplierChange={handleEditSupplierChange}
+                onTermsChange={handleEditTermsChange}
+                suppliers={suppliers}
+                onAddSupplier={can('suppliers.create') ? handleAddSupplier : undefined}
+                baseCurrency={baseCurrency}
+                availableCredit={editAvailableCredit}
+                currencies={exchangeRates.map(rate => rate.currency)}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
 
               <div className="flex justify-end">
                 <Button 
                   type="submit" 
-                  disabled={isSubmitting}
+                  disabled={isUpdating}
                 >
-                  {isSubmitting ? (
+                  {isUpdating ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Saving...
                     </>
                   ) : (
-                    'Save Entry'
+                    'Save Changes'
                   )}
                 </Button>
               </div>
             </form>
-          </div>
-        </div>
-      </div>
+          )}
+        </SheetContent>
+      </Sheet>
 
       <AlertDialog 
         open={purchaseToDelete !== null} 
@@ -829,6 +1427,23 @@ const PurchasesPage = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <PurchaseReturnSheet
+        purchase={purchaseToReturn}
+        onClose={() => setPurchaseToReturn(null)}
+      />
+
+      <BillPaymentSheet
+        bill={billToPay}
+        onClose={() => setBillToPay(null)}
+      />
+
+      <RecordHistorySheet
+        collectionName="purchases"
+        recordId={historyPurchase?.id ?? null}
+        title="Purchase History"
+        onClose={() => setHistoryPurchase(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from 'sonner';
+import { Link } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { cn } from "@/lib/utils";
+import { getOutstandingSales, type OutstandingSale, type SaleEntry } from '@/utils/database';
+import { AGING_BUCKETS, ageBalances, agingBucket, agingTotals, daysOutstanding } from '@/utils/aging';
+import { sumMoney } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+import SalePaymentSheet from '@/components/sales/SalePaymentSheet';
+
+// Sales with no customer are grouped together
+const WALK_IN_KEY = 'walk-in';
+
+const formatDate = (date: string): string => {
+  return dayjs(date).format('DD-MMM-YYYY');
+};
+
+const ReceivablesPage = () => {
+  const [outstanding, setOutstanding] = useState<OutstandingSale[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [saleToPay, setSaleToPay] = useState<SaleEntry | null>(null);
+
+  useEffect(() => {
+    loadOutstanding();
+  }, []);
+
+  const loadOutstanding = async () => {
+    try {
+      setIsLoading(true);
+      setOutstanding(await getOutstandingSales());
+    } catch (error) {
+      console.error('Error loading receivables:', error);
+      toast.error('Failed to load receivables', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Sales are aged from the day they were made
+  const customerRows = ageBalances(outstanding, ({ sale, balance }) => ({
+    key: sale.customerId ?? WALK_IN_KEY,
+    name: sale.customer || 'Walk-in',
+    date: sale.date,
+    amount: balance.due
+  }));
+  const bucketTotals = agingTotals(customerRows);
+  const totalDue = sumMoney(outstanding, ({ balance }) => balance.due);
+
+  const handlePaymentsClosed = () => {
+    setSaleToPay(null);
+    loadOutstanding();
+  };
+
+  return (
+    <div className="flex-1 space-y-4 py-3 px-6">
+      <div className="border-b pb-4">
+        <h1 className="text-2xl font-bold">Receivables</h1>
+        <p className="text-muted-foreground">
+          What customers still owe on their orders, by how long it has been outstanding
+        </p>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        <div className="border rounded-lg p-4 bg-background">
+          <h3 className="text-sm font-medium text-muted-foreground">Total Outstanding</h3>
+          <p className="text-2xl font-bold mt-1">{formatMoney(totalDue)}</p>
+          <p className="text-sm text-muted-foreground mt-1">{outstanding.length} orders</p>
+        </div>
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket.key} className="border rounded-lg p-4 bg-background">
+            <h3 className="text-sm font-medium text-muted-foreground">{bucket.label}</h3>
+            <p className={cn("text-2xl font-bold mt-1", bucket.minDays > 60 && bucketTotals[bucket.key] > 0 && "text-red-500")}>
+              {formatMoney(bucketTotals[bucket.key])}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Customer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading receivables...
+            </div>
+          ) : customerRows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Every sale has been paid for</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {AGING_BUCKETS.map(bucket => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customerRows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      {row.key === WALK_IN_KEY ? (
+                        <span className="text-muted-foreground">{row.name}</span>
+                      ) : (
+                        <Link to={`/customers/${row.key}`} className="hover:underline">{row.name}</Link>
+                      )}
+                    </TableCell>
+                    {AGING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {row.buckets[bucket.key] > 0 ? formatMoney(row.buckets[bucket.key]) : ''}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatMoney(row.total)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Total</TableCell>
+                  {AGING_BUCKETS.map(bucket => (
+                    <TableCell key={bucket.key} className="text-right">{formatMoney(bucketTotals[bucket.key])}</TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatMoney(totalDue)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Outstanding Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" />
+              Loading orders...
+            </div>
+          ) : outstanding.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No orders are waiting for payment</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[120px]">Date</TableHead>
+                  <TableHead>Order Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Age</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Due</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstanding.map(({ sale, balance }) => {
+                  const days = daysOutstanding(sale.date);
+                  return (
+                    <TableRow key={sale.id}>
+                      <TableCell>{formatDate(sale.date)}</TableCell>
+                      <TableCell>
+                        <Link to={`/sales/${sale.id}/invoice`} className="hover:underline">{sale.order_number}</Link>
+                      </TableCell>
+                      <TableCell>
+                        {sale.customer || <span className="text-muted-foreground">Walk-in</span>}
+                      </TableCell>
+                      <TableCell className={cn(agingBucket(days).minDays > 60 && "text-red-500")}>
+                        {days} days
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(sale.total)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(balance.paid)}
+                        {balance.credited > 0 && (
+                          <div className="text-xs text-muted-foreground">{formatMoney(balance.credited)} returned</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(balance.due)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setSaleToPay(sale)}
+                          className="h-8 w-8"
+                          title="Payments"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SalePaymentSheet
+        sale={saleToPay}
+        onClose={handlePaymentsClosed}
+      />
+    </div>
+  );
+};
+
+export default ReceivablesPage;
@@ -0,0 +1,577 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  RETURN_CONDITIONS,
+  RETURN_SETTLEMENTS,
+  deletePurchaseReturn,
+  deleteSaleReturn,
+  displayProductName,
+  displaySaleItems,
+  getProducts,
+  getPurchaseReturnsTotals,
+  getSaleReturnsTotals,
+  queryPurchaseReturns,
+  querySaleReturns,
+  type PageCursor,
+  type Product,
+  type PurchaseReturn,
+  type SaleReturn,
+  type TransactionFilter,
+  type TransactionTotals
+} from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { ZERO_MONEY } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { History, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+
+const conditionLabel = (saleReturn: SaleReturn): string => {
+  return RETURN_CONDITIONS.find(option => option.value === saleReturn.condition)?.label ?? saleReturn.condition;
+};
+
+const settlementLabel = (purchaseReturn: PurchaseReturn): string => {
+  return RETURN_SETTLEMENTS.find(option => option.value === purchaseReturn.settlement)?.label ?? purchaseReturn.settlement;
+};
+
+interface ReturnsTabProps {
+  // Inclusive ISO dates; null for an open-ended range
+  filter: TransactionFilter;
+  products: Product[];
+}
+
+const ReturnsSummary: React.FC<{ totals: TransactionTotals | null; amountLabel: string }> = ({ totals, amountLabel }) => (
+  <div className="grid grid-cols-3 gap-4">
+    <div className="border rounded-lg p-4 bg-background">
+      <h3 className="text-sm font-medium text-muted-foreground">{amountLabel}</h3>
+      <p className="text-2xl font-bold mt-1 text-red-500">{formatMoney(totals?.amount ?? ZERO_MONEY)}</p>
+      <p className="text-sm text-muted-foreground mt-1">{totals?.count ?? 0} returns</p>
+    </div>
+    <div className="border rounded-lg p-4 bg-background">
+      <h3 className="text-sm font-medium text-muted-foreground">Items Returned</h3>
+      <p className="text-2xl font-bold mt-1">{totals?.quantity ?? 0}</p>
+      <p className="text-sm text-muted-foreground mt-1">Units</p>
+    </div>
+    <div className="border rounded-lg p-4 bg-background">
+      <h3 className="text-sm font-medium text-muted-foreground">Last Return</h3>
+      <p className="text-2xl font-bold mt-1">{totals?.lastDate ? formatDate(totals.lastDate) : '-'}</p>
+      <p className="text-sm text-muted-foreground mt-1">In the selected dates</p>
+    </div>
+  </div>
+);
+
+const LoadMoreFooter: React.FC<{
+  shown: number;
+  total: number | undefined;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+}> = ({ shown, total, isLoadingMore, onLoadMore }) => (
+  <div className="flex items-center justify-between border-t p-4">
+    <span className="text-sm text-muted-foreground">
+      Showing {shown} of {total ?? shown} returns
+    </span>
+    <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+      {isLoadingMore ? (
+        <>
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading...
+        </>
+      ) : (
+        'Load More'
+      )}
+    </Button>
+  </div>
+);
+
+const SaleReturnsTab: React.FC<ReturnsTabProps> = ({ filter, products }) => {
+  const { can } = useBusiness();
+  const [returns, setReturns] = useState<SaleReturn[]>([]);
+  const [totals, setTotals] = useState<TransactionTotals | null>(null);
+  const [cursor, setCursor] = useState<PageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [returnToDelete, setReturnToDelete] = useState<SaleReturn | null>(null);
+  const [historyReturn, setHistoryReturn] = useState<SaleReturn | null>(null);
+
+  const loadReturns = async (target: TransactionFilter) => {
+    try {
+      setIsLoading(true);
+      const [page, totalsData] = await Promise.all([
+        querySaleReturns(target),
+        getSaleReturnsTotals(target)
+      ]);
+      setReturns(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setTotals(totalsData);
+    } catch (error) {
+      console.error('Error loading returns:', error);
+      toast.error('Failed to load returns', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReturns(filter);
+  }, [filter]);
+
+  const loadMore = async () => {
+    try {
+      setIsLoadingMore(true);
+      const page = await querySaleReturns({ ...filter, cursor });
+      setReturns(prev => [...prev, ...page.items]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more returns:', error);
+      toast.error('Failed to load more returns', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleDelete = async (saleReturn: SaleReturn) => {
+    if (!saleReturn.id) return;
+
+    try {
+      await deleteSaleReturn(saleReturn.id);
+      toast.success(savedMessage('Return deleted successfully'), {
+        dismissible: true
+      });
+      await loadReturns(filter);
+    } catch (error) {
+      console.error('Error deleting return:', error);
+      toast.error('Failed to delete return', {
+        dismissible: true
+      });
+    } finally {
+      setReturnToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ReturnsSummary totals={totals} amountLabel="Total Refunded" />
+
+      <div className="border rounded-lg w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Date</TableHead>
+              <TableHead className="w-[150px]">Order Number</TableHead>
+              <TableHead className="w-[180px]">Customer</TableHead>
+              <TableHead className="w-[250px]">Products</TableHead>
+              <TableHead className="w-[100px]">Quantity</TableHead>
+              <TableHead className="w-[150px]">Refund</TableHead>
+              <TableHead className="w-[200px]">Reason</TableHead>
+              <TableHead className="w-[100px]">Condition</TableHead>
+              <TableHead className="w-[90px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center">
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading returns...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : returns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No returns in the selected dates
+                </TableCell>
+              </TableRow>
+            ) : (
+              returns.map((saleReturn) => (
+                <TableRow key={saleReturn.id}>
+                  <TableCell>{formatDate(saleReturn.date)}</TableCell>
+                  <TableCell>{saleReturn.order_number || '-'}</TableCell>
+                  <TableCell>
+                    {saleReturn.customerId ? (
+                      <Link to={`/customers/${saleReturn.customerId}`} className="hover:underline">
+                        {saleReturn.customer}
+                      </Link>
+                    ) : '-'}
+                  </TableCell>
+                  <TableCell>{displaySaleItems(saleReturn, products)}</TableCell>
+                  <TableCell>{saleReturn.quantity}</TableCell>
+                  <TableCell>{formatMoney(saleReturn.total)}</TableCell>
+                  <TableCell>
+                    {saleReturn.reason}
+                    {saleReturn.notes && <div className="text-xs text-muted-foreground">{saleReturn.notes}</div>}
+                  </TableCell>
+                  <TableCell>{conditionLabel(saleReturn)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {can('auditLogs.read') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryReturn(saleReturn)}
+                          className="h-8 w-8"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {can('saleReturns.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setReturnToDelete(saleReturn)}
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && !isLoading && (
+          <LoadMoreFooter
+            shown={returns.length}
+            total={totals?.count}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMore}
+          />
+        )}
+      </div>
+
+      <AlertDialog
+        open={returnToDelete !== null}
+        onOpenChange={(open) => !open && setReturnToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this return?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The refund is added back to revenue and restocked items are taken out of stock again.
+              Record the return again from the Sales page if it needs correcting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => returnToDelete && handleDelete(returnToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="saleReturns"
+        recordId={historyReturn?.id ?? null}
+        title="Return History"
+        onClose={() => setHistoryReturn(null)}
+      />
+    </div>
+  );
+};
+
+const PurchaseReturnsTab: React.FC<ReturnsTabProps> = ({ filter, products }) => {
+  const { can } = useBusiness();
+  const [returns, setReturns] = useState<PurchaseReturn[]>([]);
+  const [totals, setTotals] = useState<TransactionTotals | null>(null);
+  const [cursor, setCursor] = useState<PageCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [returnToDelete, setReturnToDelete] = useState<PurchaseReturn | null>(null);
+  const [historyReturn, setHistoryReturn] = useState<PurchaseReturn | null>(null);
+
+  const loadReturns = async (target: TransactionFilter) => {
+    try {
+      setIsLoading(true);
+      const [page, totalsData] = await Promise.all([
+        queryPurchaseReturns(target),
+        getPurchaseReturnsTotals(target)
+      ]);
+      setReturns(page.items);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+      setTotals(totalsData);
+    } catch (error) {
+      console.error('Error loading purchase returns:', error);
+      toast.error('Failed to load purchase returns', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReturns(filter);
+  }, [filter]);
+
+  const loadMore = async () => {
+    try {
+      setIsLoadingMore(true);
+      const page = await queryPurchaseReturns({ ...filter, cursor });
+      setReturns(prev => [...prev, ...page.items]);
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more purchase returns:', error);
+      toast.error('Failed to load more purchase returns', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleDelete = async (purchaseReturn: PurchaseReturn) => {
+    try {
+      await deletePurchaseReturn(purchaseReturn);
+      toast.success(savedMessage('Return deleted successfully'), {
+        dismissible: true
+      });
+      await loadReturns(filter);
+    } catch (error) {
+      console.error('Error deleting purchase return:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete return', {
+        dismissible: true
+      });
+    } finally {
+      setReturnToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ReturnsSummary totals={totals} amountLabel="Total Returned" />
+
+      <div className="border rounded-lg w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[120px]">Date</TableHead>
+              <TableHead className="w-[150px]">Order Number</TableHead>
+              <TableHead className="w-[180px]">Supplier</TableHead>
+              <TableHead className="w-[200px]">Product</TableHead>
+              <TableHead className="w-[100px]">Quantity</TableHead>
+              <TableHead className="w-[150px]">Amount</TableHead>
+              <TableHead className="w-[200px]">Reason</TableHead>
+              <TableHead className="w-[140px]">Settled As</TableHead>
+              <TableHead className="w-[90px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center">
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                    Loading returns...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : returns.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center text-muted-foreground">
+                  No returns to suppliers in the selected dates
+                </TableCell>
+              </TableRow>
+            ) : (
+              returns.map((purchaseReturn) => (
+                <TableRow key={purchaseReturn.id}>
+                  <TableCell>{formatDate(purchaseReturn.date)}</TableCell>
+                  <TableCell>{purchaseReturn.order_number || '-'}</TableCell>
+                  <TableCell>
+                    {purchaseReturn.supplierId ? (
+                      <Link to={`/suppliers/${purchaseReturn.supplierId}`} className="hover:underline">
+                        {purchaseReturn.supplier}
+                      </Link>
+                    ) : '-'}
+                  </TableCell>
+                  <TableCell>{displayProductName(purchaseReturn, products)}</TableCell>
+                  <TableCell>{purchaseReturn.quantity}</TableCell>
+                  <TableCell>{formatMoney(purchaseReturn.total)}</TableCell>
+                  <TableCell>
+                    {purchaseReturn.reason}
+                    {purchaseReturn.notes && <div className="text-xs text-muted-foreground">{purchaseReturn.notes}</div>}
+                  </TableCell>
+                  <TableCell>{settlementLabel(purchaseReturn)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {can('auditLogs.read') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setHistoryReturn(purchaseReturn)}
+                          className="h-8 w-8"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {can('purchaseReturns.delete') && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setReturnToDelete(purchaseReturn)}
+                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && !isLoading && (
+          <LoadMoreFooter
+            shown={returns.length}
+            total={totals?.count}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMore}
+          />
+        )}
+      </div>
+
+      <AlertDialog
+        open={returnToDelete !== null}
+        onOpenChange={(open) => !open && setReturnToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this return?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The units go back into stock and the supplier credit or refund is withdrawn.
+              Record the return again from the Purchases page if it needs correcting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => returnToDelete && handleDelete(returnToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="purchaseReturns"
+        recordId={historyReturn?.id ?? null}
+        title="Return History"
+        onClose={() => setHistoryReturn(null)}
+      />
+    </div>
+  );
+};
+
+const ReturnsPage = () => {
+  const { can } = useBusiness();
+  const [products, setProducts] = useState<Product[]>([]);
+  // Inclusive ISO dates; empty for an open-ended range
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const filter = React.useMemo<TransactionFilter>(() => ({ from: from || null, to: to || null }), [from, to]);
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const canReadSales = can('saleReturns.read');
+  const canReadPurchases = can('purchaseReturns.read');
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6">
+      <div className="border-b pb-4">
+        <h1 className="text-2xl font-bold">Returns</h1>
+        <p className="text-muted-foreground">
+          Items customers brought back and items sent back to suppliers. Record a return from
+          the sale or purchase it came from.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="from">From</Label>
+          <Input id="from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="to">To</Label>
+          <Input id="to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <p className="text-sm text-muted-foreground pb-2">
+          {from || to ? 'Figures cover the selected dates' : 'Showing all time'}
+        </p>
+      </div>
+
+      <Tabs defaultValue={canReadSales ? 'sales' : 'purchases'} className="space-y-4">
+        <TabsList>
+          {canReadSales && <TabsTrigger value="sales">Sales Returns</TabsTrigger>}
+          {canReadPurchases && <TabsTrigger value="purchases">Purchase Returns</TabsTrigger>}
+        </TabsList>
+        {canReadSales && (
+          <TabsContent value="sales">
+            <SaleReturnsTab filter={filter} products={products} />
+          </TabsContent>
+        )}
+        {canReadPurchases && (
+          <TabsContent value="purchases">
+            <PurchaseReturnsTab filter={filter} products={products} />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+};
+
+export default ReturnsPage;
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  displayProductName,
+  getCustomer,
+  getProducts,
+  getSale,
+  getSaleBalance,
+  getSalePaymentsForSale,
+  getSaleReturnsForSale,
+  PAYMENT_STATUSES,
+  type Customer,
+  type Product,
+  type SaleBalance,
+  type SaleEntry
+} from '@/utils/database';
+import {
+  getInvoice,
+  getInvoiceSettings,
+  issueInvoice,
+  type Invoice,
+  type InvoiceSettings
+} from '@/utils/invoices';
+import { useBusiness } from '@/contexts/useBusiness';
+import { formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+import { toast } from 'sonner';
+
+const paymentStatus = (sale: SaleEntry, balance: SaleBalance | null): string => {
+  if (sale.isDeleted) {
+    return 'Void';
+  }
+  return PAYMENT_STATUSES.find(option => option.value === balance?.status)?.label ?? '';
+};
+
+const InvoicePage = () => {
+  const { saleId } = useParams<{ saleId: string }>();
+  const { activeBusiness, can } = useBusiness();
+  const [sale, setSale] = useState<SaleEntry | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null);
+  const [balance, setBalance] = useState<SaleBalance | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const canIssue = can('invoices.create');
+
+  const loadInvoice = async (id: string, issue: boolean) => {
+    try {
+      setIsLoading(true);
+      const [saleData, productsData, invoiceData, settingsData, payments, returns] = await Promise.all([
+        getSale(id),
+        getProducts(),
+        getInvoice(id),
+        getInvoiceSettings(),
+        getSalePaymentsForSale(id),
+        getSaleReturnsForSale(id)
+      ]);
+      setSale(saleData);
+      setBalance(saleData ? getSaleBalance(saleData, payments, returns) : null);
+      setProducts(productsData);
+      setSettings(settingsData);
+      setCustomer(saleData?.customerId ? await getCustomer(saleData.customerId) : null);
+
+      // The first person to open a live sale's invoice gives it its number
+      if (saleData && !saleData.isDeleted && !invoiceData && issue) {
+        try {
+          setInvoice(await issueInvoice(id));
+        } catch (error) {
+          console.error('Error issuing invoice:', error);
+          toast.error(error instanceof Error ? error.message : 'Failed to issue invoice number', {
+            dismissible: true
+          });
+        }
+      } else {
+        setInvoice(invoiceData);
+      }
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast.error('Failed to load invoice', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (saleId) {
+      loadInvoice(saleId, canIssue);
+    }
+  }, [saleId, canIssue]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading invoice...
+      </div>
+    );
+  }
+
+  if (!sale || !activeBusiness) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link to="/sales" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Sales
+        </Link>
+        <p className="text-muted-foreground">This sale does not exist.</p>
+      </div>
+    );
+  }
+
+  const profile = activeBusiness.profile;
+  const customerName = customer?.name || sale.customer || 'Walk-in customer';
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6 print:p-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Link to="/sales" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Sales
+        </Link>
+        <Button onClick={() => window.print()}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      <div className="max-w-3xl mx-auto border rounded-lg p-8 space-y-8 bg-white text-black print:border-0 print:max-w-none">
+        <div className="flex justify-between gap-8">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold">{activeBusiness.name}</h1>
+            <div className="text-sm text-gray-600 space-y-0.5">
+              {profile.address && <p className="whitespace-pre-line">{profile.address}</p>}
+              {(profile.phone || profile.email) && (
+                <p>{[profile.phone, profile.email].filter(Boolean).join(' · ')}</p>
+              )}
+              {profile.taxNumber && <p>Tax number: {profile.taxNumber}</p>}
+            </div>
+          </div>
+          <div className="text-right space-y-1">
+            <h2 className="text-xl font-semibold uppercase tracking-wide">Invoice</h2>
+            <p className="text-sm">{invoice?.number ?? 'Draft'}</p>
+            <p className="text-sm text-gray-600">Date: {formatDate(sale.date)}</p>
+            {sale.order_number && <p className="text-sm text-gray-600">Order: {sale.order_number}</p>}
+            <p className={`text-sm font-semibold ${sale.isDeleted || balance?.status === 'unpaid' ? 'text-red-600' : balance?.status === 'partial' ? 'text-amber-700' : 'text-green-700'}`}>
+              {paymentStatus(sale, balance)}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase text-gray-500">Bill To</h3>
+          <p className="font-medium">{customerName}</p>
+          {customer?.phone && <p className="text-sm text-gray-600">{customer.phone}</p>}
+          {customer?.address && <p className="text-sm text-gray-600 whitespace-pre-line">{customer.address}</p>}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-black">Product</TableHead>
+              <TableHead className="text-black text-right w-[100px]">Quantity</TableHead>
+              <TableHead className="text-black text-right w-[150px]">Price</TableHead>
+              <TableHead className="text-black text-right w-[150px]">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sale.items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell>{displayProductName(item, products)}</TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">{formatMoney(item.price)}</TableCell>
+                <TableCell className="text-right">{formatMoney(item.total)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-end">
+          <dl className="w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Subtotal</dt>
+              <dd>{formatMoney(sale.subtotal)}</dd>
+            </div>
+            {sale.discount > 0 && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Discount</dt>
+                <dd>-{formatMoney(sale.discount)}</dd>
+              </div>
+            )}
+            {sale.deliveryCharge > 0 && (
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Delivery</dt>
+                <dd>{formatMoney(sale.deliveryCharge)}</dd>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-1 text-base font-semibold">
+              <dt>Total</dt>
+              <dd>{formatMoney(sale.total)}</dd>
+            </div>
+            {!sale.isDeleted && balance && balance.due > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Paid</dt>
+                  <dd>{formatMoney(balance.paid)}</dd>
+                </div>
+                {balance.credited > 0 && (
+                  <div className="flex justify-between">
+                    <dt className="text-gray-600">Returns</dt>
+                    <dd>-{formatMoney(balance.credited)}</dd>
+                  </div>
+                )}
+                <div className="flex justify-between border-t pt-1 font-semibold">
+                  <dt>Balance Due</dt>
+                  <dd>{formatMoney(balance.due)}</dd>
+                </div>
+              </>
+            )}
+          </dl>
+        </div>
+
+        {sale.notes && <p className="text-sm text-gray-600">{sale.notes}</p>}
+        {settings?.footer && <p className="text-sm text-center text-gray-600 border-t pt-4">{settings.footer}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default InvoicePage;
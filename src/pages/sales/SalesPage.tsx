@@ -11,20 +11,46 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { 
-  getSales, 
+  subscribeToSalesPage,
+  getSalesTotals,
+  getSaleReturnsTotals,
+  DEFAULT_PAGE_SIZE,
   addSale,
   deleteSale,
-  getDeletedSales,
   restoreSale,
+  updateSale,
+  calculateSaleTotals,
+  displaySaleItems,
+  getSaleBalance,
+  groupBySale,
+  subscribeToSalePayments,
+  subscribeToSaleReturns,
+  PAYMENT_METHODS,
+  type PaymentMethod,
   type SaleEntry,
-  getProductCategories,
-  type Category
+  type SaleInput,
+  type SalePayment,
+  type SaleReturn,
+  type TransactionTotals,
+  getProducts,
+  type Product,
+  getCustomers,
+  addCustomer,
+  newCustomerInput,
+  displayCustomerName,
+  type Customer
 } from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { ZERO_MONEY, divideMoney, multiplyMoney, subtractMoney, toMajorUnits, toMinorUnits } from '@/utils/money';
+import { formatMoney, moneyPlaceholder } from '@/utils/numberFormat';
 import { toast } from 'sonner';
-import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar } from "lucide-react";
+import { Loader2, ChevronRight, Trash2, RotateCcw, Calendar, Pencil, History, Plus, Printer, Undo2, Wallet } from "lucide-react";
 import dayjs from 'dayjs';
 import { cn } from "@/lib/utils";
-import CategorySelect from '@/components/form/CategorySelect';
+import { getFilterBounds, monthsSpanned, parseISODate, todayISODate } from '@/utils/dateFormat';
+import ProductSelect from '@/components/form/ProductSelect';
+import CustomerSelect from '@/components/form/CustomerSelect';
+import { Link } from 'react-router-dom';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,19 +62,29 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
 import { useSidebar } from '@/contexts/SidebarContext';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+import SaleReturnSheet from '@/components/sales/SaleReturnSheet';
+import SalePaymentSheet from '@/components/sales/SalePaymentSheet';
+import PaymentStatusBadge from '@/components/payments/PaymentStatusBadge';
+import { useBusiness } from '@/contexts/useBusiness';
+import NewRowsIndicator from '@/components/live/NewRowsIndicator';
+import { useNewRowHighlights } from '@/utils/newRowHighlights';
 
-// Define Firestore Timestamp type for internal use
-type FirestoreTimestamp = {
-  seconds: number;
-  nanoseconds: number;
-};
 
 type DateRange = {
   from: Date;
@@ -60,18 +96,6 @@ const formatDate = (date: Date | string): string => {
   return dayjs(date).format('DD-MMM-YYYY');
 };
 
-// Helper function to format date for input field
-const dateToInputValue = (date: Date | string): string => {
-  return dayjs(date).format('YYYY-MM-DD');
-};
-
-// Helper function to format sale date
-const formatSaleDate = (date: string | FirestoreTimestamp): string => {
-  if (typeof date === 'string') {
-    return date;
-  }
-  return formatDate(new Date(date.seconds * 1000));
-};
 
 // Add a Required label component
 const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
@@ -81,230 +105,660 @@ const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> =
   </div>
 );
 
+// How much of the order the customer paid when it was entered
+type SalePaymentTerms = 'full' | 'part' | 'none';
+
+// Form values hold amounts as typed, in major units
+interface SaleLineFormValues {
+  productId: string;
+  product: string;
+  quantity: number | string;
+  price: number | string;
+}
+
+interface SaleFormValues {
+  date: string;
+  customerId: string;
+  customer: string;
+  order_number: string;
+  items: SaleLineFormValues[];
+  discount: number | string;
+  deliveryCharge: number | string;
+  payment: SalePaymentTerms;
+  // Only used for part payments
+  paidOnSale: number | string;
+  paymentMethod: PaymentMethod;
+  notes: string;
+}
+
+const emptySaleLine = (): SaleLineFormValues => ({
+  productId: '',
+  product: '',
+  quantity: '',
+  price: ''
+});
+
+const emptySaleForm = (): SaleFormValues => ({
+  date: todayISODate(),
+  customerId: '',
+  customer: '',
+  order_number: '',
+  items: [emptySaleLine()],
+  discount: '',
+  deliveryCharge: '',
+  payment: 'full',
+  paidOnSale: '',
+  paymentMethod: 'cash',
+  notes: ''
+});
+
+const toSaleInput = (values: SaleFormValues): SaleInput => ({
+  date: values.date || todayISODate(),
+  customerId: values.customerId,
+  customer: values.customer,
+  order_number: values.order_number,
+  items: values.items.map(line => ({
+    productId: line.productId,
+    product: line.product,
+    quantity: Number(line.quantity),
+    price: toMinorUnits(line.price)
+  })),
+  discount: toMinorUnits(values.discount),
+  deliveryCharge: toMinorUnits(values.deliveryCharge),
+  // Paid in full is left out so the amount follows the total
+  ...(values.payment !== 'full' && {
+    paidOnSale: values.payment === 'part' ? toMinorUnits(values.paidOnSale) : ZERO_MONEY
+  }),
+  paymentMethod: values.paymentMethod,
+  notes: values.notes
+});
+
+// Change one line of the order, leaving the others as they are
+const updateSaleLine = (
+  prev: SaleFormValues,
+  index: number,
+  changes: Partial<SaleLineFormValues>
+): SaleFormValues => ({
+  ...prev,
+  items: prev.items.map((line, i) => i === index ? { ...line, ...changes } : line)
+});
+
+// Link the chosen product, starting from its default price if none was typed yet
+const applySaleLineProductChange = (prev: SaleFormValues, index: number, product: Product): SaleFormValues => {
+  const line = prev.items[index];
+  return updateSaleLine(prev, index, {
+    productId: product.id,
+    product: product.name,
+    price: !line.price && product.defaultPrice > 0 ? toMajorUnits(product.defaultPrice) : line.price
+  });
+};
+
+// Validate a sale form, returning the first error message if any
+const getSaleValidationError = (sale: SaleFormValues): string | null => {
+  const requiredFields = {
+    date: 'Date',
+    order_number: 'Order Number'
+  } as const;
+
+  const missingFields = Object.entries(requiredFields).filter(
+    ([key]) => !sale[key as keyof typeof requiredFields]
+  ).map(([, label]) => label);
+
+  if (missingFields.length > 0) {
+    return `Required fields missing: ${missingFields.join(', ')}`;
+  }
+
+  for (const [index, line] of sale.items.entries()) {
+    const lineLabel = sale.items.length > 1 ? `Line ${index + 1}: ` : '';
+    if (!line.productId) {
+      return `${lineLabel}Product is required`;
+    }
+    if (Number(line.quantity) <= 0) {
+      return `${lineLabel}Quantity must be greater than 0`;
+    }
+    if (Number(line.price) <= 0) {
+      return `${lineLabel}Price must be greater than 0`;
+    }
+  }
+
+  const input = toSaleInput(sale);
+  if (input.discount > calculateSaleTotals(input.items, ZERO_MONEY, ZERO_MONEY).subtotal) {
+    return 'Discount cannot be more than the order subtotal';
+  }
+
+  if (sale.payment === 'part') {
+    const { total } = calculateSaleTotals(input.items, input.discount, input.deliveryCharge);
+    if (Number(sale.paidOnSale) <= 0) {
+      return 'Enter the amount paid now';
+    }
+    if ((input.paidOnSale ?? ZERO_MONEY) >= total) {
+      return 'Amount paid now must be less than the total; choose paid in full instead';
+    }
+  }
+
+  return null;
+};
+
+interface SaleFormFieldsProps {
+  values: SaleFormValues;
+  onChange: React.Dispatch<React.SetStateAction<SaleFormValues>>;
+  products: Product[];
+  customers: Customer[];
+  onAddCustomer?: (name: string) => Promise<Customer>;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new entry panel and the edit sheet
+const SaleFormFields: React.FC<SaleFormFieldsProps> = ({
+  values,
+  onChange,
+  products,
+  customers,
+  onAddCustomer,
+  disabled,
+  idPrefix = ''
+}) => {
+  const { subtotal, total } = calculateSaleTotals(
+    toSaleInput(values).items,
+    toMinorUnits(values.discount),
+    toMinorUnits(values.deliveryCharge)
+  );
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onChange(prev => ({ ...prev, [name]: value }));
+  };
+
+  return (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}date`}>Date</RequiredLabel>
+      <Input
+        id={`${idPrefix}date`}
+        name="date"
+        type="date"
+        value={values.date || todayISODate()}
+        onChange={handleInputChange}
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}customer`}>Customer (Optional)</Label>
+      <CustomerSelect
+        value={values.customerId}
+        fallbackLabel={values.customer}
+        onSelect={(customer) => onChange(prev => ({
+          ...prev,
+          customerId: customer?.id ?? '',
+          customer: customer?.name ?? ''
+        }))}
+        customers={customers}
+        onAddCustomer={onAddCustomer}
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}order_number`}>Order Number</RequiredLabel>
+      <Input
+        id={`${idPrefix}order_number`}
+        name="order_number"
+        value={values.order_number}
+        onChange={handleInputChange}
+        required
+        placeholder="Order #"
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="space-y-2">
+      <RequiredLabel htmlFor={`${idPrefix}item-0-quantity`}>Products</RequiredLabel>
+      {values.items.map((line, index) => (
+        <div key={index} className="border rounded-md p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <ProductSelect
+                value={line.productId}
+                fallbackLabel={line.product}
+                onSelect={(product) => onChange(prev => applySaleLineProductChange(prev, index, product))}
+                products={products}
+                disabled={disabled}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+              className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+              disabled={disabled || values.items.length === 1}
+              title="Remove line"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2 items-end">
+            <div>
+              <Label htmlFor={`${idPrefix}item-${index}-quantity`} className="text-xs">Quantity</Label>
+              <Input
+                id={`${idPrefix}item-${index}-quantity`}
+                type="number"
+                min="1"
+                step="1"
+                value={line.quantity}
+                onChange={(e) => onChange(prev => updateSaleLine(prev, index, { quantity: e.target.value }))}
+                placeholder="0"
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}item-${index}-price`} className="text-xs">Price</Label>
+              <Input
+                id={`${idPrefix}item-${index}-price`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={line.price}
+                onChange={(e) => onChange(prev => updateSaleLine(prev, index, { price: e.target.value }))}
+                placeholder={moneyPlaceholder()}
+                disabled={disabled}
+              />
+            </div>
+            <p className="text-sm text-right pb-2">
+              {formatMoney(multiplyMoney(toMinorUnits(line.price), Number(line.quantity) || 0))}
+            </p>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange(prev => ({ ...prev, items: [...prev.items, emptySaleLine()] }))}
+        disabled={disabled}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Product
+      </Button>
+    </div>
+
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}discount`}>Discount</Label>
+        <Input
+          id={`${idPrefix}discount`}
+          name="discount"
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.discount}
+          onChange={handleInputChange}
+          placeholder={moneyPlaceholder()}
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}deliveryCharge`}>Delivery Charge</Label>
+        <Input
+          id={`${idPrefix}deliveryCharge`}
+          name="deliveryCharge"
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.deliveryCharge}
+          onChange={handleInputChange}
+          placeholder={moneyPlaceholder()}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+
+    <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Subtotal</span>
+        <span>{formatMoney(subtotal)}</span>
+      </div>
+      <div className="flex justify-between font-semibold">
+        <span>Total</span>
+        <span>{formatMoney(total)}</span>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}payment`}>Payment</Label>
+        <Select
+          value={values.payment}
+          onValueChange={(payment) => onChange(prev => ({ ...prev, payment: payment as SalePaymentTerms }))}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}payment`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="full">Paid in full</SelectItem>
+            <SelectItem value="part">Part paid</SelectItem>
+            <SelectItem value="none">Not yet paid</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {values.payment !== 'none' && (
+        <div>
+          <Label htmlFor={`${idPrefix}paymentMethod`}>Method</Label>
+          <Select
+            value={values.paymentMethod}
+            onValueChange={(method) => onChange(prev => ({ ...prev, paymentMethod: method as PaymentMethod }))}
+            disabled={disabled}
+          >
+            <SelectTrigger id={`${idPrefix}paymentMethod`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+
+    {values.payment === 'part' && (
+      <div>
+        <Label htmlFor={`${idPrefix}paidOnSale`}>Paid Now</Label>
+        <Input
+          id={`${idPrefix}paidOnSale`}
+          name="paidOnSale"
+          type="number"
+          min="0"
+          step="0.01"
+          value={values.paidOnSale}
+          onChange={handleInputChange}
+          placeholder={moneyPlaceholder()}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          {formatMoney(subtractMoney(total, toMinorUnits(values.paidOnSale)))} will be owed by the customer
+        </p>
+      </div>
+    )}
+
+    <div>
+      <Label htmlFor={`${idPrefix}notes`}>Notes (Optional)</Label>
+      <Input
+        id={`${idPrefix}notes`}
+        name="notes"
+        value={values.notes}
+        onChange={handleInputChange}
+        placeholder="Add notes..."
+        disabled={disabled}
+      />
+    </div>
+  </div>
+  );
+};
+
 const SalesPage = () => {
   const [sales, setSales] = useState<SaleEntry[]>([]);
-  const [filteredSales, setFilteredSales] = useState<SaleEntry[]>([]);
+  const [salesTotals, setSalesTotals] = useState<TransactionTotals | null>(null);
+  // Returns in the same period; they are recorded separately from the sales they refund
+  const [returnsTotals, setReturnsTotals] = useState<TransactionTotals | null>(null);
+  // Pages shown so far; the live query grows instead of paging with cursors
+  const [pageCount, setPageCount] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { isSidebarOpen, toggleSidebar } = useSidebar();
-  const [productCategories, setProductCategories] = useState<Category[]>([]);
+  const { can } = useBusiness();
+  const canCreate = can('sales.create');
+  const { newCount, markNew, isNew } = useNewRowHighlights();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
   const [saleToDelete, setSaleToDelete] = useState<SaleEntry | null>(null);
+  const [saleToEdit, setSaleToEdit] = useState<SaleEntry | null>(null);
+  const [historySale, setHistorySale] = useState<SaleEntry | null>(null);
+  const [saleToReturn, setSaleToReturn] = useState<SaleEntry | null>(null);
+  const [saleToPay, setSaleToPay] = useState<SaleEntry | null>(null);
+  // Every live payment and return, to show what is still owed on each sale
+  const [salePayments, setSalePayments] = useState<SalePayment[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
+  const [editSale, setEditSale] = useState<SaleFormValues>(emptySaleForm());
+  const [isUpdating, setIsUpdating] = useState(false);
   const [showDeleted, setShowDeleted] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
   const [dateRange, setDateRange] = useState<DateRange>(null);
   const [activeFilter, setActiveFilter] = useState<string>('all');
   const [dateRangeDisplay, setDateRangeDisplay] = useState<string>('');
   
-  const [newSale, setNewSale] = useState<Partial<SaleEntry>>({
-    date: formatDate(new Date())
-  });
+  const [newSale, setNewSale] = useState<SaleFormValues>(emptySaleForm());
 
-  // Calculate sales summary based on filtered sales
+  // Summary figures cover the whole filtered period, not just the loaded pages
   const salesSummary = React.useMemo(() => {
-    const summary = filteredSales.reduce((acc, sale) => ({
-      totalSales: acc.totalSales + sale.total,
-      totalQuantity: acc.totalQuantity + sale.quantity,
-      totalOrders: acc.totalOrders + 1,
-      averageOrderValue: (acc.totalSales + sale.total) / (acc.totalOrders + 1)
-    }), {
-      totalSales: 0,
-      totalQuantity: 0,
-      totalOrders: 0,
-      averageOrderValue: 0
-    });
-
-    // Calculate monthly average
-    const dates = filteredSales.map(sale => 
-      typeof sale.date === 'string' 
-        ? new Date(sale.date) 
-        : new Date((sale.date as FirestoreTimestamp).seconds * 1000)
-    );
-    
-    let monthlyAverage = 0;
-    if (dates.length > 0) {
-      const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-      const latest = new Date(Math.max(...dates.map(d => d.getTime())));
-      const monthDiff = (latest.getFullYear() - earliest.getFullYear()) * 12 + 
-                       (latest.getMonth() - earliest.getMonth()) + 1;
-      monthlyAverage = summary.totalSales / Math.max(1, monthDiff);
-    }
+    const totalSales = salesTotals?.amount ?? ZERO_MONEY;
+    const totalOrders = salesTotals?.count ?? 0;
+    const monthlyAverage = salesTotals?.firstDate && salesTotals.lastDate
+      ? divideMoney(totalSales, Math.max(1, monthsSpanned(salesTotals.firstDate, salesTotals.lastDate)))
+      : ZERO_MONEY;
 
     return {
-      ...summary,
+      totalSales,
+      totalReturns: returnsTotals?.amount ?? ZERO_MONEY,
+      returnCount: returnsTotals?.count ?? 0,
+      totalQuantity: salesTotals?.quantity ?? 0,
+      totalOrders,
+      averageOrderValue: divideMoney(totalSales, totalOrders),
       monthlyAverage
     };
-  }, [filteredSales]);
+  }, [salesTotals, returnsTotals]);
 
-  useEffect(() => {
-    loadData();
-  }, [showDeleted]);
+  const canReadPayments = can('salePayments.read');
+
+  const paymentsBySale = React.useMemo(() => groupBySale(salePayments), [salePayments]);
+  const returnsBySale = React.useMemo(() => groupBySale(saleReturns), [saleReturns]);
 
   useEffect(() => {
-    if (sales.length > 0) {
-      filterSales();
-    }
-  }, [sales, dateRange, activeFilter]);
+    loadProducts();
+    loadCustomers();
+  }, []);
 
   useEffect(() => {
-    updateDateRangeDisplay();
-  }, [filteredSales, activeFilter, dateRange]);
+    if (!canReadPayments) return;
 
-  const filterSales = () => {
-    let filtered = [...sales];
-    
-    if (dateRange?.from && dateRange?.to) {
-      filtered = filtered.filter(sale => {
-        const saleDate = typeof sale.date === 'string' 
-          ? new Date(sale.date) 
-          : new Date((sale.date as FirestoreTimestamp).seconds * 1000);
-        return saleDate >= dateRange.from && saleDate <= dateRange.to;
+    const onError = (error: Error) => {
+      console.error('Error loading payments:', error);
+      toast.error('Failed to load payments', {
+        dismissible: true
       });
-    } else {
-      const today = new Date();
-      const fromDate = new Date();
+    };
+    const unsubscribePayments = subscribeToSalePayments(({ items }) => setSalePayments(items), onError);
+    const unsubscribeReturns = subscribeToSaleReturns(({ items }) => setSaleReturns(items), onError);
+    return () => {
+      unsubscribePayments();
+      unsubscribeReturns();
+    };
+  }, [canReadPayments]);
 
-      switch (activeFilter) {
-        case '7days':
-          fromDate.setDate(today.getDate() - 7);
-          break;
-        case '1month':
-          fromDate.setMonth(today.getMonth() - 1);
-          break;
-        case '3months':
-          fromDate.setMonth(today.getMonth() - 3);
-          break;
-        default:
-          setFilteredSales(filtered);
-          return;
+  useEffect(() => {
+    setPageCount(1);
+  }, [showDeleted, dateRange, activeFilter]);
+
+  // Keep the list live; totals come from an aggregate query, so they are
+  // re-fetched whenever the list changes
+  useEffect(() => {
+    let isActive = true;
+    const filter = getFilter();
+    if (pageCount === 1) setIsLoading(true);
+
+    const unsubscribe = subscribeToSalesPage(
+      { ...filter, pageSize: DEFAULT_PAGE_SIZE * pageCount },
+      async (page) => {
+        setSales(page.items);
+        setHasMore(page.hasMore);
+        markNew(page.newIds);
+        setIsLoading(false);
+        setIsLoadingMore(false);
+        try {
+          const [totals, returns] = await Promise.all([
+            getSalesTotals(filter),
+            getSaleReturnsTotals({ ...filter, deleted: false })
+          ]);
+          if (isActive) {
+            setSalesTotals(totals);
+            setReturnsTotals(returns);
+          }
+        } catch (error) {
+          console.error('Error loading sales totals:', error);
+        }
+      },
+      (error) => {
+        console.error('Error loading data:', error);
+        toast.error('Failed to load sales data', {
+          dismissible: true
+        });
+        setIsLoading(false);
+        setIsLoadingMore(false);
       }
+    );
 
-      filtered = filtered.filter(sale => {
-        const saleDate = typeof sale.date === 'string' 
-          ? new Date(sale.date) 
-          : new Date((sale.date as FirestoreTimestamp).seconds * 1000);
-        return saleDate >= fromDate && saleDate <= today;
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  }, [showDeleted, dateRange, activeFilter, pageCount, markNew]);
+
+  useEffect(() => {
+    updateDateRangeDisplay();
+  }, [salesTotals, activeFilter, dateRange]);
+
+  const getFilter = () => ({
+    ...getFilterBounds(activeFilter, dateRange),
+    deleted: showDeleted
+  });
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts());
+    } catch (error) {
+      console.error('Error loading products:', error);
+      toast.error('Failed to load products', {
+        dismissible: true
       });
     }
-
-    setFilteredSales(filtered);
   };
 
-  const loadData = async () => {
+  const loadCustomers = async () => {
     try {
-      setIsLoading(true);
-      const [salesData, productCats] = await Promise.all([
-        showDeleted ? getDeletedSales() : getSales(),
-        getProductCategories()
-      ]);
-      
-      // Sort sales by date (most recent first)
-      const sortedSales = salesData.sort((a, b) => {
-        const getDateValue = (date: string | FirestoreTimestamp) => {
-          if (typeof date === 'string') {
-            return new Date(date).getTime();
-          }
-          return new Date(date.seconds * 1000).getTime();
-        };
-        
-        return getDateValue(b.date) - getDateValue(a.date);
+      setCustomers(await getCustomers());
+    } catch (error) {
+      console.error('Error loading customers:', error);
+      toast.error('Failed to load customers', {
+        dismissible: true
       });
-      
-      setSales(sortedSales);
-      setFilteredSales(sortedSales);
-      setProductCategories(productCats);
+    }
+  };
+
+  const handleAddCustomer = async (name: string): Promise<Customer> => {
+    try {
+      const input = newCustomerInput(name.trim());
+      const id = await addCustomer(input);
+      await loadCustomers();
+      return { id, ...input };
     } catch (error) {
-      console.error('Error loading data:', error);
-      toast.error('Failed to load sales data', {
+      console.error('Error adding customer:', error);
+      toast.error('Failed to add customer', {
         dismissible: true
       });
-    } finally {
-      setIsLoading(false);
+      throw error;
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setNewSale(prev => {
-      const updated = { ...prev, [name]: value };
-      
-      // Calculate total when quantity or price changes
-      if (name === 'quantity' || name === 'price') {
-        const quantity = name === 'quantity' ? Number(value) : Number(prev.quantity) || 0;
-        const price = name === 'price' ? Number(value) : Number(prev.price) || 0;
-        updated.total = quantity * price;
-      }
-      
-      // Format date when date changes
-      if (name === 'date') {
-        updated.date = formatDate(value);
-      }
-      
-      return updated;
-    });
+  const loadMore = () => {
+    setIsLoadingMore(true);
+    setPageCount(prev => prev + 1);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Enhanced validation
-    const requiredFields = {
-      date: 'Date',
-      product: 'Product',
-      order_number: 'Order Number',
-      quantity: 'Quantity',
-      price: 'Price'
-    } as const;
-
-    const missingFields = Object.entries(requiredFields).filter(
-      ([key]) => !newSale[key as keyof typeof requiredFields]
-    ).map(([, label]) => label);
-
-    if (missingFields.length > 0) {
-      toast.error(`Required fields missing: ${missingFields.join(', ')}`, {
+    const validationError = getSaleValidationError(newSale);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
     }
 
-    if (Number(newSale.quantity) <= 0) {
-      toast.error('Quantity must be greater than 0', {
+    try {
+      setIsSubmitting(true);
+      await addSale(toSaleInput(newSale));
+      setNewSale(emptySaleForm()); // Reset form
+      toast.success(savedMessage('Sale entry added successfully'), {
         dismissible: true
       });
-      return;
+    } catch (error) {
+      console.error('Error adding sale:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add sale entry', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
     }
+  };
+
+  const handleEdit = (sale: SaleEntry) => {
+    setSaleToEdit(sale);
+    setEditSale({
+      date: sale.date,
+      customerId: sale.customerId ?? '',
+      customer: sale.customer ?? '',
+      order_number: sale.order_number,
+      items: sale.items.map(item => ({
+        productId: item.productId ?? '',
+        product: item.product,
+        quantity: item.quantity,
+        price: toMajorUnits(item.price)
+      })),
+      discount: sale.discount > 0 ? toMajorUnits(sale.discount) : '',
+      deliveryCharge: sale.deliveryCharge > 0 ? toMajorUnits(sale.deliveryCharge) : '',
+      payment: sale.paidOnSale >= sale.total ? 'full' : sale.paidOnSale > 0 ? 'part' : 'none',
+      paidOnSale: sale.paidOnSale > 0 && sale.paidOnSale < sale.total ? toMajorUnits(sale.paidOnSale) : '',
+      paymentMethod: sale.paymentMethod,
+      notes: sale.notes || ''
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saleToEdit?.id) return;
 
-    if (Number(newSale.price) <= 0) {
-      toast.error('Price must be greater than 0', {
+    const validationError = getSaleValidationError(editSale);
+    if (validationError) {
+      toast.error(validationError, {
         dismissible: true
       });
       return;
     }
 
     try {
-      setIsSubmitting(true);
-      const saleEntry = {
-        date: newSale.date || formatDate(new Date()),
-        product: newSale.product!,
-        order_number: newSale.order_number!,
-        quantity: Number(newSale.quantity),
-        price: Number(newSale.price),
-        total: Number(newSale.quantity) * Number(newSale.price),
-        notes: newSale.notes || ''
-      };
-      
-      await addSale(saleEntry);
-      await loadData();
-      setNewSale({ date: formatDate(new Date()) }); // Reset form
-      toast.success('Sale entry added successfully', {
+      setIsUpdating(true);
+      await updateSale(saleToEdit.id, toSaleInput(editSale));
+      setSaleToEdit(null);
+      toast.success(savedMessage('Sale entry updated successfully'), {
         dismissible: true
       });
     } catch (error) {
-      console.error('Error adding sale:', error);
-      toast.error('Failed to add sale entry', {
+      console.error('Error updating sale:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update sale entry', {
         dismissible: true
       });
     } finally {
-      setIsSubmitting(false);
+      setIsUpdating(false);
     }
   };
 
@@ -313,13 +767,12 @@ const SalesPage = () => {
     
     try {
       await deleteSale(sale.id);
-      await loadData();
-      toast.success('Sale entry deleted successfully', {
+      toast.success(savedMessage('Sale entry deleted successfully'), {
         dismissible: true
       });
     } catch (error) {
       console.error('Error deleting sale:', error);
-      toast.error('Failed to delete sale entry', {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete sale entry', {
         dismissible: true
       });
     } finally {
@@ -333,8 +786,7 @@ const SalesPage = () => {
     try {
       setIsRestoring(true);
       await restoreSale(sale.id);
-      await loadData();
-      toast.success('Sale entry restored successfully', {
+      toast.success(savedMessage('Sale entry restored successfully'), {
         dismissible: true
       });
     } catch (error) {
@@ -348,19 +800,14 @@ const SalesPage = () => {
   };
 
   const updateDateRangeDisplay = () => {
-    if (filteredSales.length === 0) {
+    if (!salesTotals?.firstDate || !salesTotals.lastDate) {
       setDateRangeDisplay('No data to display');
       return;
     }
 
-    // Get the earliest and latest dates from filtered data
-    const dates = filteredSales.map(sale => 
-      typeof sale.date === 'string' 
-        ? new Date(sale.date) 
-        : new Date((sale.date as FirestoreTimestamp).seconds * 1000)
-    );
-    const earliest = new Date(Math.min(...dates.map(d => d.getTime())));
-    const latest = new Date(Math.max(...dates.map(d => d.getTime())));
+    // Get the earliest and latest dates of the filtered period
+    const earliest = parseISODate(salesTotals.firstDate);
+    const latest = parseISODate(salesTotals.lastDate);
 
     // Format date to "Jan 1 2025" style
     const formatDisplayDate = (date: Date) => {
@@ -398,7 +845,7 @@ const SalesPage = () => {
       <div 
         className={cn(
           "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-16 overflow-auto",
-          isSidebarOpen ? "pr-[400px]" : "pr-2"
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
         )}
       >
         <div className="flex justify-between items-center border-b pb-4">
@@ -555,20 +1002,28 @@ const SalesPage = () => {
             <div className="text-sm text-muted-foreground flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               {dateRangeDisplay}
+              <NewRowsIndicator count={newCount} />
             </div>
           )}
         </div>
 
         {/* Sales Summary Section */}
-        <div className="grid grid-cols-4 gap-4 mt-4 mb-6">
+        <div className="grid grid-cols-5 gap-4 mt-4 mb-6">
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Total Sales</h3>
-            <p className="text-2xl font-bold mt-1">৳{salesSummary.totalSales.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(salesSummary.totalSales)}</p>
             <p className="text-sm text-muted-foreground mt-1">{salesSummary.totalOrders} orders</p>
           </div>
+          <div className="border rounded-lg p-4 bg-background">
+            <h3 className="text-sm font-medium text-muted-foreground">Returns</h3>
+            <p className="text-2xl font-bold mt-1 text-red-500">{formatMoney(salesSummary.totalReturns)}</p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {salesSummary.returnCount} returns · Net {formatMoney(subtractMoney(salesSummary.totalSales, salesSummary.totalReturns))}
+            </p>
+          </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Monthly Average</h3>
-            <p className="text-2xl font-bold mt-1">৳{salesSummary.monthlyAverage.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(salesSummary.monthlyAverage)}</p>
             <p className="text-sm text-muted-foreground mt-1">Per month</p>
           </div>
           <div className="border rounded-lg p-4 bg-background">
@@ -578,7 +1033,7 @@ const SalesPage = () => {
           </div>
           <div className="border rounded-lg p-4 bg-background">
             <h3 className="text-sm font-medium text-muted-foreground">Average Order Value</h3>
-            <p className="text-2xl font-bold mt-1">৳{salesSummary.averageOrderValue.toFixed(2)}</p>
+            <p className="text-2xl font-bold mt-1">{formatMoney(salesSummary.averageOrderValue)}</p>
             <p className="text-sm text-muted-foreground mt-1">Per order</p>
           </div>
         </div>
@@ -588,206 +1043,266 @@ const SalesPage = () => {
             <TableHeader>
               <TableRow>
                 <TableHead className="w-[120px]">Date</TableHead>
-                <TableHead className="w-[200px]">Product</TableHead>
+                <TableHead className="w-[180px]">Customer</TableHead>
                 <TableHead className="w-[150px]">Order Number</TableHead>
+                <TableHead className="w-[250px]">Products</TableHead>
                 <TableHead className="w-[120px]">Quantity</TableHead>
-                <TableHead className="w-[150px]">Price</TableHead>
                 <TableHead className="w-[150px]">Total</TableHead>
+                {canReadPayments && <TableHead className="w-[130px]">Payment</TableHead>}
                 <TableHead className="w-[250px]">Notes</TableHead>
-                <TableHead className="w-[80px]"></TableHead>
+                <TableHead className="w-[180px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center py-8">
+                  <TableCell colSpan={canReadPayments ? 9 : 8} className="text-center py-8">
                     <div className="flex items-center justify-center">
                       <Loader2 className="h-6 w-6 animate-spin mr-2" />
                       Loading sales data...
                     </div>
                   </TableCell>
                 </TableRow>
-              ) : filteredSales.length === 0 ? (
+              ) : sales.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  <TableCell colSpan={canReadPayments ? 9 : 8} className="text-center text-muted-foreground">
                     {showDeleted ? 'No deleted sales entries' : 'No sales entries for the selected period'}
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredSales.map((sale) => (
-                  <TableRow key={sale.id} className={cn(sale.isDeleted && "bg-muted/50")}>
-                    <TableCell>{formatSaleDate(sale.date)}</TableCell>
-                    <TableCell>{sale.product}</TableCell>
+                sales.map((sale) => (
+                  <TableRow key={sale.id} className={cn(sale.isDeleted && "bg-muted/50", isNew(sale.id) && "bg-green-500/10")}>
+                    <TableCell>{formatDate(sale.date)}</TableCell>
+                    <TableCell>
+                      {sale.customerId ? (
+                        <Link to={`/customers/${sale.customerId}`} className="hover:underline">
+                          {displayCustomerName(sale, customers)}
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">Walk-in</span>
+                      )}
+                    </TableCell>
                     <TableCell>{sale.order_number}</TableCell>
+                    <TableCell>{displaySaleItems(sale, products)}</TableCell>
                     <TableCell>{sale.quantity}</TableCell>
-                    <TableCell>৳{sale.price.toFixed(2)}</TableCell>
-                    <TableCell>৳{sale.total.toFixed(2)}</TableCell>
-                    <TableCell>{sale.notes}</TableCell>
                     <TableCell>
-                      {showDeleted ? (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleRestore(sale)}
-                          className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
-                          disabled={isRestoring}
-                        >
-                          <RotateCcw className="h-4 w-4" />
-                        </Button>
-                      ) : (
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setSaleToDelete(sale)}
-                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                      {formatMoney(sale.total)}
+                      {(sale.discount > 0 || sale.deliveryCharge > 0) && (
+                        <div className="text-xs text-muted-foreground">
+                          {sale.discount > 0 && `-${formatMoney(sale.discount)} discount`}
+                          {sale.discount > 0 && sale.deliveryCharge > 0 && ', '}
+                          {sale.deliveryCharge > 0 && `+${formatMoney(sale.deliveryCharge)} delivery`}
+                        </div>
                       )}
                     </TableCell>
+                    {canReadPayments && (
+                      <TableCell>
+                        {!sale.isDeleted && (() => {
+                          const balance = getSaleBalance(
+                            sale,
+                            paymentsBySale.get(sale.id ?? '') ?? [],
+                            returnsBySale.get(sale.id ?? '') ?? []
+                          );
+                          return <PaymentStatusBadge status={balance.status} due={balance.due} />;
+                        })()}
+                      </TableCell>
+                    )}
+                    <TableCell>{sale.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistorySale(sale)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {showDeleted ? (
+                          can('sales.delete') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRestore(sale)}
+                              className="h-8 w-8 text-green-500 hover:text-green-600 hover:bg-green-50"
+                              disabled={isRestoring}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )
+                        ) : (
+                          <>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" title="Invoice" asChild>
+                              <Link to={`/sales/${sale.id}/invoice`}>
+                                <Printer className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                            {canReadPayments && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setSaleToPay(sale)}
+                                className="h-8 w-8"
+                                title="Payments"
+                              >
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('saleReturns.create') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setSaleToReturn(sale)}
+                                className="h-8 w-8"
+                                title="Return"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('sales.update') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleEdit(sale)}
+                                className="h-8 w-8"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can('sales.delete') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setSaleToDelete(sale)}
+                                className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 ))
               )}
             </TableBody>
           </Table>
+          {hasMore && !isLoading && (
+            <div className="flex items-center justify-between border-t p-4">
+              <span className="text-sm text-muted-foreground">
+                Showing {sales.length} of {salesTotals?.count ?? sales.length} entries
+              </span>
+              <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+                {isLoadingMore ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  'Load More'
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       </div>
 
-      <div 
-        className={cn(
-          "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
-          isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
-        )}
-      >
-        <Button
-          variant="outline"
-          size="icon"
+      {canCreate && (
+        <div 
           className={cn(
-            "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
-            !isSidebarOpen && "rotate-180"
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
           )}
-          onClick={toggleSidebar}
         >
-          <ChevronRight className="h-6 w-6" />
-        </Button>
-        <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
-          <div className="p-6">
-            <h2 className="text-lg font-semibold mb-4">New Sale Entry</h2>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-4">
-                <div>
-                  <RequiredLabel htmlFor="date">Date</RequiredLabel>
-                  <Input
-                    id="date"
-                    name="date"
-                    type="date"
-                    value={dateToInputValue(newSale.date || new Date())}
-                    onChange={handleInputChange}
-                    required
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="product">Product</RequiredLabel>
-                  <CategorySelect
-                    value={newSale.product || ''}
-                    onValueChange={(value) => setNewSale(prev => ({ ...prev, product: value }))}
-                    categories={productCategories}
-                    placeholder="Select product"
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="order_number">Order Number</RequiredLabel>
-                  <Input
-                    id="order_number"
-                    name="order_number"
-                    value={newSale.order_number || ''}
-                    onChange={handleInputChange}
-                    required
-                    placeholder="Order #"
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="quantity">Quantity</RequiredLabel>
-                  <Input
-                    id="quantity"
-                    name="quantity"
-                    type="number"
-                    min="1"
-                    step="1"
-                    value={newSale.quantity || ''}
-                    onChange={handleInputChange}
-                    required
-                    placeholder="0"
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="price">Price</RequiredLabel>
-                  <Input
-                    id="price"
-                    name="price"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={newSale.price || ''}
-                    onChange={handleInputChange}
-                    required
-                    placeholder="৳0.00"
-                    disabled={isSubmitting}
-                  />
-                </div>
-
-                <div>
-                  <RequiredLabel htmlFor="total">Total</RequiredLabel>
-                  <Input
-                    id="total"
-                    name="total"
-                    type="number"
-                    value={newSale.total || ''}
-                    readOnly
-                    className="w-full bg-muted"
-                  />
-                </div>
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Sale Entry</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <SaleFormFields
+                  values={newSale}
+                  onChange={setNewSale}
+                  products={products}
+                  customers={customers}
+                  onAddCustomer={can('customers.create') ? handleAddCustomer : undefined}
+                  disabled={isSubmitting}
+                />
 
-                <div>
-                  <Label htmlFor="notes">Notes (Optional)</Label>
-                  <Input
-                    id="notes"
-                    name="notes"
-                    value={newSale.notes || ''}
-                    onChange={handleInputChange}
-                    placeholder="Add notes..."
+                <div className="flex justify-end">
+                  <Button 
+                    type="submit" 
                     disabled={isSubmitting}
-                  />
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Entry'
+                    )}
+                  </Button>
                 </div>
-              </div>
-
-              <div className="flex justify-end">
-                <Button 
-                  type="submit" 
-                  disabled={isSubmitting}
-                >
-                  {isSubmitting ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Saving...
-                    </>
-                  ) : (
-                    'Save Entry'
-                  )}
-                </Button>
-              </div>
-            </form>
+              </form>
+            </div>
           </div>
         </div>
-      </div>
+      )}
+
+      <Sheet 
+        open={saleToEdit !== null} 
+        onOpenChange={(open) => !open && setSaleToEdit(null)}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Sale Entry</SheetTitle>
+            <SheetDescription>
+              Update the details of this order. The total is recalculated from its lines, discount and delivery charge.
+            </SheetDescription>
+          </SheetHeader>
+          <form onSubmit={handleUpdate} className="space-y-4">
+            <SaleFormFields
+              values={editSale}
+              onChange={setEditSale}
+              products={products}
+              customers={customers}
+              onAddCustomer={can('customers.create') ? handleAddCustomer : undefined}
+              disabled={isUpdating}
+              idPrefix="edit-"
+            />
+
+            <div className="flex justify-end">
+              <Button 
+                type="submit" 
+                disabled={isUpdating}
+              >
+                {isUpdating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  'Save Changes'
+                )}
+              </Button>
+            </div>
+          </form>
+        </SheetContent>
+      </Sheet>
 
       <AlertDialog 
         open={saleToDelete !== null} 
@@ -812,6 +1327,24 @@ const SalesPage = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <SaleReturnSheet
+        sale={saleToReturn}
+        products={products}
+        onClose={() => setSaleToReturn(null)}
+      />
+
+      <SalePaymentSheet
+        sale={saleToPay}
+        onClose={() => setSaleToPay(null)}
+      />
+
+      <RecordHistorySheet
+        collectionName="sales"
+        recordId={historySale?.id ?? null}
+        title="Sale History"
+        onClose={() => setHistorySale(null)}
+      />
     </div>
   );
 };
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { 
-  getProductCategories,
   getExpenseCategories,
+  deleteExpenseCategory,
   type Category,
   type ExpenseCategory
 } from '@/utils/database';
@@ -19,21 +19,29 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { deleteDoc, doc } from 'firebase/firestore';
-import { db } from '@/main';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
+import { useBusiness } from '@/contexts/useBusiness';
+import MembersCard from '@/components/business/MembersCard';
+import CostingMethodCard from '@/components/business/CostingMethodCard';
+import MoneyFormatCard from '@/components/business/MoneyFormatCard';
+import ExchangeRatesCard from '@/components/business/ExchangeRatesCard';
+import BusinessProfileCard from '@/components/business/BusinessProfileCard';
+import InvoiceSettingsCard from '@/components/business/InvoiceSettingsCard';
+import DateMigrationCard from '@/components/settings/DateMigrationCard';
+import MoneyMigrationCard from '@/components/settings/MoneyMigrationCard';
+import ProductMigrationCard from '@/components/settings/ProductMigrationCard';
+import OrderMigrationCard from '@/components/settings/OrderMigrationCard';
 
 interface CategoryToDelete {
   id: string;
   name: string;
-  type: 'product' | 'expense';
 }
 
 const SettingsPage = () => {
-  const [productCategories, setProductCategories] = useState<Category[]>([]);
   const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
   const [categoryToDelete, setCategoryToDelete] = useState<CategoryToDelete | null>(null);
+  const { can } = useBusiness();
 
   useEffect(() => {
     loadAllCategories();
@@ -41,12 +49,7 @@ const SettingsPage = () => {
 
   const loadAllCategories = async () => {
     try {
-      const [products, expenses] = await Promise.all([
-        getProductCategories(),
-        getExpenseCategories()
-      ]);
-      setProductCategories(products);
-      setExpenseCategories(expenses);
+      setExpenseCategories(await getExpenseCategories());
     } catch (error) {
       console.error('Error loading categories:', error);
       toast.error('Failed to load categories', {
@@ -55,21 +58,9 @@ const SettingsPage = () => {
     }
   };
 
-  const getCategoryCollectionName = (type: CategoryToDelete['type']) => {
-    switch (type) {
-      case 'product':
-        return 'productCategories';
-      case 'expense':
-        return 'expenseCategories';
-      default:
-        return 'productCategories';
-    }
-  };
-
   const handleDeleteCategory = async (category: CategoryToDelete) => {
     try {
-      const collectionName = getCategoryCollectionName(category.type);
-      await deleteDoc(doc(db, collectionName, category.id));
+      await deleteExpenseCategory(category.id);
       await loadAllCategories();
       setCategoryToDelete(null);
       toast.success('Category deleted successfully', {
@@ -87,14 +78,13 @@ const SettingsPage = () => {
 
   const CategoryList = ({ 
     title, 
-    categories, 
-    type 
+    categories
   }: { 
     title: string; 
     categories: Category[]; 
-    type: CategoryToDelete['type'];
   }) => {
     const [isOpen, setIsOpen] = useState(false);
+    const canDelete = can('expenseCategories.delete');
 
     return (
       <Card>
@@ -123,18 +113,19 @@ const SettingsPage = () => {
                         className="flex items-center justify-between p-2 rounded-md border"
                       >
                         <span>{category.name}</span>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setCategoryToDelete({ 
-                            id: category.id!, 
-                            name: category.name,
-                            type 
-                          })}
-                          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setCategoryToDelete({ 
+                              id: category.id!, 
+                              name: category.name
+                            })}
+                            className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -157,16 +148,20 @@ const SettingsPage = () => {
       </div>
 
       <div className="grid gap-4">
-        <CategoryList 
-          title="Manage Product Categories" 
-          categories={productCategories} 
-          type="product" 
-        />
         <CategoryList 
           title="Manage Expense Categories" 
           categories={expenseCategories} 
-          type="expense" 
         />
+        <CostingMethodCard />
+        <MoneyFormatCard />
+        {can('exchangeRates.read') && <ExchangeRatesCard />}
+        <BusinessProfileCard />
+        {can('invoiceSettings.read') && <InvoiceSettingsCard />}
+        {can('members.manage') && <MembersCard />}
+        {can('members.manage') && <DateMigrationCard />}
+        {can('members.manage') && <MoneyMigrationCard />}
+        {can('members.manage') && <ProductMigrationCard />}
+        {can('members.manage') && <OrderMigrationCard />}
       </div>
 
       <AlertDialog 
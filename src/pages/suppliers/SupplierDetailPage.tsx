@@ -0,0 +1,323 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  displayProductName,
+  formatPaymentTerms,
+  getProducts,
+  getSupplier,
+  getSupplierCreditBalance,
+  getSupplierPurchases,
+  type Product,
+  type PurchaseEntry,
+  type Supplier
+} from '@/utils/database';
+import { useBusiness } from '@/contexts/useBusiness';
+import { productKey } from '@/utils/inventory';
+import { addMoney, divideMoney, sumMoney, ZERO_MONEY, type Money } from '@/utils/money';
+import { formatMoney } from '@/utils/numberFormat';
+import { formatDate } from '@/utils/dateFormat';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ProductCost {
+  key: string;
+  product: string;
+  quantity: number;
+  total: Money;
+}
+
+const SupplierDetailPage = () => {
+  const { supplierId } = useParams<{ supplierId: string }>();
+  const { can } = useBusiness();
+  // Credit is worked out from returns, purchases and orders, which only some roles can read
+  const canReadCredit = can('purchaseReturns.read');
+  // Spend and unit costs come from purchases, which data entry staff cannot see
+  const canReadPurchases = can('purchases.read');
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [credit, setCredit] = useState<Money>(ZERO_MONEY);
+  const [purchases, setPurchases] = useState<PurchaseEntry[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingPurchases, setIsLoadingPurchases] = useState(true);
+  // Inclusive ISO dates; empty for an open-ended range
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const loadSupplier = async (id: string) => {
+    try {
+      setIsLoading(true);
+      const [supplierData, productsData] = await Promise.all([
+        getSupplier(id),
+        getProducts()
+      ]);
+      setSupplier(supplierData);
+      setProducts(productsData);
+    } catch (error) {
+      console.error('Error loading supplier:', error);
+      toast.error('Failed to load supplier', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Loaded apart from the supplier, so a failure here never hides the supplier itself
+  const loadCredit = async (id: string) => {
+    try {
+      setCredit(await getSupplierCreditBalance(id));
+    } catch (error) {
+      console.error('Error loading supplier credit:', error);
+      toast.error('Failed to load supplier credit', {
+        dismissible: true
+      });
+    }
+  };
+
+  const loadPurchases = async (id: string, range: { from: string; to: string }) => {
+    try {
+      setIsLoadingPurchases(true);
+      setPurchases(await getSupplierPurchases(id, {
+        from: range.from || null,
+        to: range.to || null
+      }));
+    } catch (error) {
+      console.error('Error loading supplier purchases:', error);
+      toast.error('Failed to load purchases', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoadingPurchases(false);
+    }
+  };
+
+  useEffect(() => {
+    if (supplierId) {
+      loadSupplier(supplierId);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    if (supplierId && canReadCredit) {
+      loadCredit(supplierId);
+    }
+  }, [supplierId, canReadCredit]);
+
+  useEffect(() => {
+    if (supplierId && canReadPurchases) {
+      loadPurchases(supplierId, { from, to });
+    }
+  }, [supplierId, canReadPurchases, from, to]);
+
+  // Average unit cost is total spend over units bought, so larger orders weigh more
+  const productCosts = useMemo(() => {
+    const costs = new Map<string, ProductCost>();
+    purchases.forEach(purchase => {
+      const key = productKey(purchase);
+      const current = costs.get(key) ?? {
+        key,
+        product: displayProductName(purchase, products),
+        quantity: 0,
+        total: ZERO_MONEY
+      };
+      costs.set(key, {
+        ...current,
+        quantity: current.quantity + purchase.quantity,
+        total: addMoney(current.total, purchase.total)
+      });
+    });
+    return [...costs.values()].sort((a, b) => a.product.localeCompare(b.product));
+  }, [purchases, products]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading supplier...
+      </div>
+    );
+  }
+
+  if (!supplier) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link to="/suppliers" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Suppliers
+        </Link>
+        <p className="text-muted-foreground">This supplier does not exist.</p>
+      </div>
+    );
+  }
+
+  const totalSpend = sumMoney(purchases, purchase => purchase.total);
+
+  return (
+    <div className="p-4 md:py-3 md:px-6 pt-6 space-y-6">
+      <div className="border-b pb-4 space-y-2">
+        <Link to="/suppliers" className="flex items-center gap-2 text-sm text-muted-foreground hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          Suppliers
+        </Link>
+        <h1 className="text-2xl font-bold">
+          {supplier.name}
+          {supplier.isDeleted && <span className="ml-2 text-sm font-normal text-muted-foreground">(deleted)</span>}
+        </h1>
+        <div className="text-sm text-muted-foreground space-y-1">
+          {supplier.contactPerson && <p>{supplier.contactPerson}</p>}
+          {(supplier.phone || supplier.email) && (
+            <p>{[supplier.phone, supplier.email].filter(Boolean).join(' · ')}</p>
+          )}
+          {supplier.address && <p>{supplier.address}</p>}
+          <p>
+            {formatPaymentTerms(supplier.paymentTermsDays)}
+            {supplier.leadTimeDays > 0 && ` · Delivers in ${supplier.leadTimeDays} days`}
+          </p>
+          {supplier.notes && <p>{supplier.notes}</p>}
+        </div>
+      </div>
+
+      {canReadPurchases && (
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="from">From</Label>
+            <Input id="from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="to">To</Label>
+            <Input id="to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <p className="text-sm text-muted-foreground pb-2">
+            {from || to ? 'Figures cover the selected dates' : 'Showing all time'}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-4">
+        {canReadPurchases && (
+          <>
+            <div className="border rounded-lg p-4 bg-background">
+              <h3 className="text-sm font-medium text-muted-foreground">Total Spend</h3>
+              <p className="text-2xl font-bold mt-1">{formatMoney(totalSpend)}</p>
+              <p className="text-sm text-muted-foreground mt-1">{purchases.length} purchases</p>
+            </div>
+            <div className="border rounded-lg p-4 bg-background">
+              <h3 className="text-sm font-medium text-muted-foreground">Products Bought</h3>
+              <p className="text-2xl font-bold mt-1">{productCosts.length}</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                {purchases.reduce((sum, purchase) => sum + purchase.quantity, 0)} units
+              </p>
+            </div>
+            <div className="border rounded-lg p-4 bg-background">
+              <h3 className="text-sm font-medium text-muted-foreground">Last Purchase</h3>
+              <p className="text-2xl font-bold mt-1">{purchases[0] ? formatDate(purchases[0].date) : '-'}</p>
+              <p className="text-sm text-muted-foreground mt-1">In the selected dates</p>
+            </div>
+          </>
+        )}
+        {canReadCredit && (
+          <div className="border rounded-lg p-4 bg-background">
+            <h3 className="text-sm font-medium text-muted-foreground">Available Credit</h3>
+            <p className="text-2xl font-bold mt-1">{formatMoney(credit)}</p>
+            <p className="text-sm text-muted-foreground mt-1">From returns, all time</p>
+          </div>
+        )}
+      </div>
+
+      {canReadPurchases && (isLoadingPurchases ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          Loading purchases...
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold">Average Unit Cost</h2>
+            <div className="border rounded-lg w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[250px]">Product</TableHead>
+                    <TableHead className="w-[120px]">Quantity</TableHead>
+                    <TableHead className="w-[150px]">Total</TableHead>
+                    <TableHead className="w-[150px]">Average Unit Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {productCosts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No purchases in the selected dates
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    productCosts.map((cost) => (
+                      <TableRow key={cost.key}>
+                        <TableCell>{cost.product}</TableCell>
+                        <TableCell>{cost.quantity}</TableCell>
+                        <TableCell>{formatMoney(cost.total)}</TableCell>
+                        <TableCell>{formatMoney(divideMoney(cost.total, cost.quantity))}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold">Purchase History</h2>
+            <div className="border rounded-lg w-full">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[120px]">Date</TableHead>
+                    <TableHead className="w-[200px]">Product</TableHead>
+                    <TableHead className="w-[150px]">Order Number</TableHead>
+                    <TableHead className="w-[120px]">Quantity</TableHead>
+                    <TableHead className="w-[150px]">Price</TableHead>
+                    <TableHead className="w-[150px]">Total</TableHead>
+                    <TableHead className="w-[250px]">Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchases.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-muted-foreground">
+                        No purchases in the selected dates
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    purchases.map((purchase) => (
+                      <TableRow key={purchase.id}>
+                        <TableCell>{formatDate(purchase.date)}</TableCell>
+                        <TableCell>{displayProductName(purchase, products)}</TableCell>
+                        <TableCell>{purchase.order_number || '-'}</TableCell>
+                        <TableCell>{purchase.quantity}</TableCell>
+                        <TableCell>{formatMoney(purchase.price)}</TableCell>
+                        <TableCell>{formatMoney(purchase.total)}</TableCell>
+                        <TableCell>{purchase.notes}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      ))}
+    </div>
+  );
+};
+
+export default SupplierDetailPage;
@@ -0,0 +1,522 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  addSupplier,
+  deleteSupplier,
+  getSuppliers,
+  newSupplierInput,
+  updateSupplier,
+  formatPaymentTerms,
+  type Supplier,
+  type SupplierInput
+} from '@/utils/database';
+import { savedMessage } from '@/utils/outbox';
+import { Loader2, ChevronRight, Pencil, History, Trash2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from "@/lib/utils";
+import { useSidebar } from '@/contexts/SidebarContext';
+import { useBusiness } from '@/contexts/useBusiness';
+import RecordHistorySheet from '@/components/audit/RecordHistorySheet';
+
+const RequiredLabel: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
+  <div className="flex items-center gap-1">
+    <Label htmlFor={htmlFor}>{children}</Label>
+    <span className="text-red-500">*</span>
+  </div>
+);
+
+interface SupplierFormFieldsProps {
+  values: SupplierInput;
+  onFieldChange: (name: keyof SupplierInput, value: string | number) => void;
+  disabled: boolean;
+  idPrefix?: string;
+}
+
+// Form fields shared by the new supplier panel and the edit sheet
+const SupplierFormFields: React.FC<SupplierFormFieldsProps> = ({
+  values,
+  onFieldChange,
+  disabled,
+  idPrefix = ''
+}) => (
+  <div className="space-y-4">
+    <div>
+      <RequiredLabel htmlFor={`${idPrefix}name`}>Name</RequiredLabel>
+      <Input
+        id={`${idPrefix}name`}
+        value={values.name}
+        onChange={(e) => onFieldChange('name', e.target.value)}
+        placeholder="Enter supplier name"
+        required
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}contactPerson`}>Contact Person</Label>
+      <Input
+        id={`${idPrefix}contactPerson`}
+        value={values.contactPerson}
+        onChange={(e) => onFieldChange('contactPerson', e.target.value)}
+        placeholder="Who you deal with"
+        disabled={disabled}
+      />
+    </div>
+
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <Label htmlFor={`${idPrefix}phone`}>Phone</Label>
+        <Input
+          id={`${idPrefix}phone`}
+          type="tel"
+          value={values.phone}
+          onChange={(e) => onFieldChange('phone', e.target.value)}
+          placeholder="01XXXXXXXXX"
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}email`}>Email</Label>
+        <Input
+          id={`${idPrefix}email`}
+          type="email"
+          value={values.email}
+          onChange={(e) => onFieldChange('email', e.target.value)}
+          placeholder="name@example.com"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}address`}>Address</Label>
+      <Input
+        id={`${idPrefix}address`}
+        value={values.address}
+        onChange={(e) => onFieldChange('address', e.target.value)}
+        placeholder="Office or warehouse address"
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}paymentTermsDays`}>Payment Terms (days)</Label>
+      <Input
+        id={`${idPrefix}paymentTermsDays`}
+        type="number"
+        min="0"
+        step="1"
+        value={values.paymentTermsDays || ''}
+        onChange={(e) => onFieldChange('paymentTermsDays', parseInt(e.target.value) || 0)}
+        placeholder="0 = due on receipt"
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}leadTimeDays`}>Lead Time (days)</Label>
+      <Input
+        id={`${idPrefix}leadTimeDays`}
+        type="number"
+        min="0"
+        step="1"
+        value={values.leadTimeDays || ''}
+        onChange={(e) => onFieldChange('leadTimeDays', parseInt(e.target.value) || 0)}
+        placeholder="Days from order to delivery"
+        disabled={disabled}
+      />
+    </div>
+
+    <div>
+      <Label htmlFor={`${idPrefix}notes`}>Notes (Optional)</Label>
+      <Input
+        id={`${idPrefix}notes`}
+        value={values.notes}
+        onChange={(e) => onFieldChange('notes', e.target.value)}
+        placeholder="Add notes..."
+        disabled={disabled}
+      />
+    </div>
+  </div>
+);
+
+const SuppliersPage = () => {
+  const { isSidebarOpen, toggleSidebar } = useSidebar();
+  const { can } = useBusiness();
+  const canCreate = can('suppliers.create');
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [search, setSearch] = useState('');
+  const [formData, setFormData] = useState<SupplierInput>(newSupplierInput(''));
+  const [supplierToEdit, setSupplierToEdit] = useState<Supplier | null>(null);
+  const [editFormData, setEditFormData] = useState<SupplierInput | null>(null);
+  const [supplierToDelete, setSupplierToDelete] = useState<Supplier | null>(null);
+  const [historySupplier, setHistorySupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    loadSuppliers();
+  }, []);
+
+  const loadSuppliers = async () => {
+    try {
+      setIsLoading(true);
+      setSuppliers(await getSuppliers());
+    } catch (error) {
+      console.error('Error loading suppliers:', error);
+      toast.error('Failed to load suppliers', {
+        dismissible: true
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (name: keyof SupplierInput, value: string | number) => {
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleEditInputChange = (name: keyof SupplierInput, value: string | number) => {
+    setEditFormData(prev => prev && { ...prev, [name]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSubmitting(true);
+    try {
+      await addSupplier(formData);
+      await loadSuppliers();
+      setFormData(newSupplierInput(''));
+      toast.success(savedMessage('Supplier added successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error adding supplier:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add supplier', {
+        dismissible: true
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setSupplierToEdit(supplier);
+    setEditFormData({
+      name: supplier.name,
+      contactPerson: supplier.contactPerson,
+      phone: supplier.phone,
+      email: supplier.email,
+      address: supplier.address,
+      paymentTermsDays: supplier.paymentTermsDays,
+      leadTimeDays: supplier.leadTimeDays,
+      notes: supplier.notes
+    });
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierToEdit || !editFormData) return;
+
+    setIsUpdating(true);
+    try {
+      await updateSupplier(supplierToEdit.id, editFormData);
+      await loadSuppliers();
+      setSupplierToEdit(null);
+      setEditFormData(null);
+      toast.success(savedMessage('Supplier updated successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update supplier', {
+        dismissible: true
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    try {
+      await deleteSupplier(supplier.id);
+      await loadSuppliers();
+      toast.success(savedMessage('Supplier deleted successfully'), {
+        dismissible: true
+      });
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      toast.error('Failed to delete supplier', {
+        dismissible: true
+      });
+    } finally {
+      setSupplierToDelete(null);
+    }
+  };
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleSuppliers = suppliers.filter(supplier =>
+    supplier.name.toLowerCase().includes(searchTerm) || supplier.phone.includes(searchTerm)
+  );
+
+  return (
+    <div className="flex h-full">
+      <div
+        className={cn(
+          "transition-all duration-300 ease-in-out p-4 md:py-3 md:px-6 pt-6 overflow-auto",
+          isSidebarOpen && canCreate ? "pr-[400px]" : "pr-2"
+        )}
+      >
+        <div className="flex justify-between items-center border-b pb-4">
+          <div>
+            <h1 className="text-2xl font-bold">Suppliers</h1>
+            <p className="text-muted-foreground">Manage the suppliers you buy from</p>
+          </div>
+          <div className="relative w-[250px]">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or phone"
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <div className="border rounded-lg mt-4 w-full">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Name</TableHead>
+                <TableHead className="w-[150px]">Contact Person</TableHead>
+                <TableHead className="w-[150px]">Phone</TableHead>
+                <TableHead className="w-[200px]">Email</TableHead>
+                <TableHead className="w-[150px]">Payment Terms</TableHead>
+                <TableHead className="w-[250px]">Notes</TableHead>
+                <TableHead className="w-[140px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <div className="flex items-center justify-center">
+                      <Loader2 className="h-6 w-6 animate-spin mr-2" />
+                      Loading suppliers...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : visibleSuppliers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {searchTerm ? 'No suppliers match your search' : 'No suppliers yet'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleSuppliers.map((supplier) => (
+                  <TableRow key={supplier.id}>
+                    <TableCell>
+                      <Link to={`/suppliers/${supplier.id}`} className="font-medium hover:underline">
+                        {supplier.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{supplier.contactPerson || '-'}</TableCell>
+                    <TableCell>{supplier.phone || '-'}</TableCell>
+                    <TableCell>{supplier.email || '-'}</TableCell>
+                    <TableCell>{formatPaymentTerms(supplier.paymentTermsDays)}</TableCell>
+                    <TableCell>{supplier.notes}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {can('auditLogs.read') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistorySupplier(supplier)}
+                            className="h-8 w-8"
+                            title="History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('suppliers.update') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(supplier)}
+                            className="h-8 w-8"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can('suppliers.delete') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setSupplierToDelete(supplier)}
+                            className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      {canCreate && (
+        <div
+          className={cn(
+            "fixed right-0 top-0 h-full transition-all duration-300 ease-in-out",
+            isSidebarOpen ? "translate-x-0" : "translate-x-[calc(100%-16px)]"
+          )}
+        >
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              "h-10 w-10 absolute -left-5 top-[68px] z-10 rounded-full bg-background border shadow-md hover:bg-accent",
+              !isSidebarOpen && "rotate-180"
+            )}
+            onClick={toggleSidebar}
+          >
+            <ChevronRight className="h-6 w-6" />
+          </Button>
+          <div className="w-[400px] border-l bg-background h-full overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-lg font-semibold mb-4">New Supplier</h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <SupplierFormFields
+                  values={formData}
+                  onFieldChange={handleInputChange}
+                  disabled={isSubmitting}
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting}
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Supplier'
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <Sheet
+        open={supplierToEdit !== null}
+        onOpenChange={(open) => !open && setSupplierToEdit(null)}
+      >
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Edit Supplier</SheetTitle>
+            <SheetDescription>
+              Changes show on all of this supplier's purchases, including past ones.
+            </SheetDescription>
+          </SheetHeader>
+          {editFormData && (
+            <form onSubmit={handleUpdate} className="space-y-4">
+              <SupplierFormFields
+                values={editFormData}
+                onFieldChange={handleEditInputChange}
+                disabled={isUpdating}
+                idPrefix="edit-"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={isUpdating}
+                >
+                  {isUpdating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Updating...
+                    </>
+                  ) : (
+                    'Update Supplier'
+                  )}
+                </Button>
+              </div>
+            </form>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog
+        open={supplierToDelete !== null}
+        onOpenChange={(open) => !open && setSupplierToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {supplierToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The supplier will no longer be offered on new purchases. Their past purchases are kept
+              and still show their name.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => supplierToDelete && handleDelete(supplierToDelete)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecordHistorySheet
+        collectionName="suppliers"
+        recordId={historySupplier?.id ?? null}
+        title="Supplier History"
+        onClose={() => setHistorySupplier(null)}
+      />
+    </div>
+  );
+};
+
+export default SuppliersPage;
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ageBalances, agingBucket, agingTotals, daysOutstanding } from './aging';
+import { toMinorUnits } from './money';
+
+describe('daysOutstanding', () => {
+  it('counts whole days to the given date', () => {
+    expect(daysOutstanding('2025-01-01', '2025-01-31')).toBe(30);
+    expect(daysOutstanding('2025-01-01', '2025-01-01')).toBe(0);
+  });
+
+  it('counts dates still to come as current', () => {
+    expect(daysOutstanding('2025-02-15', '2025-01-31')).toBe(0);
+  });
+});
+
+describe('agingBucket', () => {
+  it('puts each bound in the bucket it closes', () => {
+    expect(agingBucket(0).key).toBe('current');
+    expect(agingBucket(30).key).toBe('current');
+    expect(agingBucket(31).key).toBe('days31to60');
+    expect(agingBucket(60).key).toBe('days31to60');
+    expect(agingBucket(90).key).toBe('days61to90');
+    expect(agingBucket(91).key).toBe('over90');
+    expect(agingBucket(400).key).toBe('over90');
+  });
+});
+
+describe('ageBalances', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 30, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const owed = [
+    { customer: 'c1', name: 'Ayesha', date: '2025-06-20', amount: toMinorUnits(100) },
+    { customer: 'c1', name: 'Ayesha', date: '2025-03-01', amount: toMinorUnits(50) },
+    { customer: 'c2', name: 'Rahim', date: '2025-05-15', amount: toMinorUnits(400) }
+  ];
+
+  const ageOwed = () => ageBalances(owed, item => ({
+    key: item.customer,
+    name: item.name,
+    date: item.date,
+    amount: item.amount
+  }));
+
+  it('sums each party by bucket, largest balance first', () => {
+    const rows = ageOwed();
+    expect(rows.map(row => row.key)).toEqual(['c2', 'c1']);
+    expect(rows[1].buckets).toEqual({
+      current: toMinorUnits(100),
+      days31to60: 0,
+      days61to90: 0,
+      over90: toMinorUnits(50)
+    });
+    expect(rows[1].total).toBe(toMinorUnits(150));
+    expect(rows[0].buckets.days31to60).toBe(toMinorUnits(400));
+  });
+
+  it('totals every bucket across parties', () => {
+    expect(agingTotals(ageOwed())).toEqual({
+      current: toMinorUnits(100),
+      days31to60: toMinorUnits(400),
+      days61to90: 0,
+      over90: toMinorUnits(50)
+    });
+  });
+});
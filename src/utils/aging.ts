@@ -0,0 +1,66 @@
+import dayjs from 'dayjs';
+import { ZERO_MONEY, addMoney, type Money } from './money';
+import { ISO_DATE_FORMAT } from './dateFormat';
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  // Inclusive bounds in days; the last bucket has no upper bound
+  minDays: number;
+  maxDays: number | null;
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: 'current', label: '0–30 days', minDays: 0, maxDays: 30 },
+  { key: 'days31to60', label: '31–60 days', minDays: 31, maxDays: 60 },
+  { key: 'days61to90', label: '61–90 days', minDays: 61, maxDays: 90 },
+  { key: 'over90', label: '90+ days', minDays: 91, maxDays: null }
+];
+
+// Whole days from a record date to today; never negative, so future dates count as current
+export const daysOutstanding = (date: string, asOf: string = dayjs().format(ISO_DATE_FORMAT)): number => {
+  return Math.max(0, dayjs(asOf, ISO_DATE_FORMAT).diff(dayjs(date, ISO_DATE_FORMAT), 'day'));
+};
+
+export const agingBucket = (days: number): AgingBucket => {
+  return AGING_BUCKETS.find(bucket => bucket.maxDays === null || days <= bucket.maxDays) ?? AGING_BUCKETS[AGING_BUCKETS.length - 1];
+};
+
+export interface AgingRow {
+  key: string;
+  name: string;
+  // Amount owed in each bucket, keyed by AgingBucket.key
+  buckets: Record<string, Money>;
+  total: Money;
+}
+
+const emptyBuckets = (): Record<string, Money> => {
+  return Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket.key, ZERO_MONEY]));
+};
+
+// Outstanding amounts summed per party and bucket, largest balance first. Each item is
+// aged from the date it is picked with: a sale's date, or a bill's due date.
+export const ageBalances = <T>(
+  items: T[],
+  pick: (item: T) => { key: string; name: string; date: string; amount: Money }
+): AgingRow[] => {
+  const rows = new Map<string, AgingRow>();
+  items.forEach(item => {
+    const { key, name, date, amount } = pick(item);
+    const row = rows.get(key) ?? { key, name, buckets: emptyBuckets(), total: ZERO_MONEY };
+    const bucket = agingBucket(daysOutstanding(date));
+    row.buckets[bucket.key] = addMoney(row.buckets[bucket.key], amount);
+    row.total = addMoney(row.total, amount);
+    rows.set(key, row);
+  });
+  return [...rows.values()].sort((a, b) => b.total - a.total);
+};
+
+// Column totals across all parties, keyed by AgingBucket.key
+export const agingTotals = (rows: AgingRow[]): Record<string, Money> => {
+  const totals = emptyBuckets();
+  rows.forEach(row => AGING_BUCKETS.forEach(bucket => {
+    totals[bucket.key] = addMoney(totals[bucket.key], row.buckets[bucket.key]);
+  }));
+  return totals;
+};
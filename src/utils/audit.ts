@@ -0,0 +1,133 @@
+import { doc, getDocs, query, where, Timestamp, type DocumentData, type WriteBatch } from 'firebase/firestore';
+import { auth } from '@/main';
+import { businessCollection } from './business';
+import { MINOR_UNITS_FLAG, MONEY_FIELDS, toMinorUnits } from './money';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id?: string;
+  collection: string;
+  recordId: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorEmail: string | null;
+  timestamp: Date;
+  changes: AuditChange[];
+}
+
+type RecordData = Record<string, unknown>;
+
+// Bookkeeping fields that change on every write and would only add noise to a diff
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'lastUpdated', 'deletedAt', 'restoredAt'];
+
+const AUDIT_COLLECTION = 'auditLogs';
+
+// Firestore rejects undefined values, so missing sides of a change are stored as null
+const toStoredValue = (value: unknown): unknown => {
+  if (value === undefined) {
+    return null;
+  }
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  return value;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(toStoredValue(a)) === JSON.stringify(toStoredValue(b));
+};
+
+// Compute a field-level diff between two versions of a record
+export const diffRecords = (before: RecordData | null, after: RecordData | null): AuditChange[] => {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {})
+  ]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !isSameValue(before?.[field], after?.[field]))
+    .sort()
+    .map(field => ({
+      field,
+      before: toStoredValue(before?.[field]),
+      after: toStoredValue(after?.[field])
+    }));
+};
+
+interface AuditParams {
+  collectionName: string;
+  recordId: string;
+  action: AuditAction;
+  before: RecordData | null;
+  after: RecordData | null;
+}
+
+// Queue an append-only audit record on the same batch as the change it describes,
+// so a record is never written without its history entry (or vice versa).
+// The actor is the Firebase user tracked by AuthContext.
+export const appendAuditLog = (batch: WriteBatch, { collectionName, recordId, action, before, after }: AuditParams) => {
+  const user = auth.currentUser;
+  const logRef = doc(businessCollection(AUDIT_COLLECTION));
+  batch.set(logRef, {
+    collection: collectionName,
+    recordId,
+    action,
+    actorId: user?.uid ?? null,
+    actorEmail: user?.email ?? null,
+    timestamp: Timestamp.now(),
+    changes: diffRecords(before, after),
+    [MINOR_UNITS_FLAG]: true
+  });
+};
+
+// Money values in entries logged before amounts were stored as minor units are converted
+const readChanges = (data: DocumentData): AuditChange[] => {
+  const moneyFields = MONEY_FIELDS[data.collection] ?? [];
+  const changes: AuditChange[] = data.changes || [];
+  if (data[MINOR_UNITS_FLAG] || moneyFields.length === 0) {
+    return changes;
+  }
+  const convert = (value: unknown) => (typeof value === 'number' ? toMinorUnits(value) : value);
+  return changes.map(change => moneyFields.includes(change.field)
+    ? { ...change, before: convert(change.before), after: convert(change.after) }
+    : change
+  );
+};
+
+export const getAuditHistory = async (collectionName: string, recordId: string): Promise<AuditLogEntry[]> => {
+  try {
+    const q = query(
+      businessCollection(AUDIT_COLLECTION),
+      where('collection', '==', collectionName),
+      where('recordId', '==', recordId)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          collection: data.collection,
+          recordId: data.recordId,
+          action: data.action,
+          actorId: data.actorId,
+          actorEmail: data.actorEmail,
+          timestamp: data.timestamp?.toDate(),
+          changes: readChanges(data)
+        } as AuditLogEntry;
+      })
+      // Sorted here rather than in the query to avoid needing a composite index
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  } catch (error) {
+    console.error('Error getting audit history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { ZERO_MONEY, toMajorUnits, toMinorUnits, type Money } from './money';
+
+// How much of a purchase or expense was paid when it was entered
+export type BillPaymentTerms = 'full' | 'part' | 'none';
+
+// Form values for the payment part of a bill; the amount is as typed, in major units
+export interface BillTermsValues {
+  payment: BillPaymentTerms;
+  // Only used for part payments
+  paidOnEntry: number | string;
+  // Empty until the bill is not paid in full
+  dueDate: string;
+}
+
+export const emptyBillTerms = (): BillTermsValues => ({
+  payment: 'full',
+  paidOnEntry: '',
+  dueDate: ''
+});
+
+// The form values of a saved bill
+export const billTermsFrom = (amount: Money, paidOnEntry: Money, dueDate: string): BillTermsValues => {
+  if (paidOnEntry >= amount) {
+    return emptyBillTerms();
+  }
+  return {
+    payment: paidOnEntry > 0 ? 'part' : 'none',
+    paidOnEntry: paidOnEntry > 0 ? toMajorUnits(paidOnEntry) : '',
+    dueDate
+  };
+};
+
+// What to submit; bills paid in full leave both out so they follow the amount and date
+export const toBillTerms = (values: BillTermsValues, date: string): { paidOnEntry?: Money; dueDate?: string } => {
+  if (values.payment === 'full') {
+    return {};
+  }
+  return {
+    paidOnEntry: values.payment === 'part' ? toMinorUnits(values.paidOnEntry) : ZERO_MONEY,
+    dueDate: values.dueDate || date
+  };
+};
+
+export const getBillTermsError = (values: BillTermsValues, amount: Money, date: string): string | null => {
+  if (values.payment === 'part') {
+    if (Number(values.paidOnEntry) <= 0) {
+      return 'Enter the amount paid now';
+    }
+    if (toMinorUnits(values.paidOnEntry) >= amount) {
+      return 'Amount paid now must be less than the bill; choose paid in full instead';
+    }
+  }
+  if (values.payment !== 'full' && values.dueDate && values.dueDate < date) {
+    return 'The due date cannot be before the bill date';
+  }
+  return null;
+};
@@ -0,0 +1,388 @@
+import {
+  collection,
+  addDoc,
+  doc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  updateDoc,
+  Timestamp,
+  writeBatch,
+  arrayUnion,
+  type CollectionReference,
+  type DocumentReference
+} from 'firebase/firestore';
+import { db, auth } from '@/main';
+import { isRole, type Role } from './permissions';
+import { DEFAULT_COSTING_METHOD, type CostingMethod } from './inventory';
+import { readMoneyFormat, type MoneyFormat } from './numberFormat';
+import { DEFAULT_BASE_CURRENCY } from './currency';
+
+export interface BusinessMember {
+  email: string | null;
+  role: Role;
+  joinedAt?: Date;
+}
+
+// Contact details printed on invoices
+export interface BusinessProfile {
+  address: string;
+  phone: string;
+  email: string;
+  taxNumber: string;
+}
+
+export const EMPTY_BUSINESS_PROFILE: BusinessProfile = {
+  address: '',
+  phone: '',
+  email: '',
+  taxNumber: ''
+};
+
+export interface Business {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  members: Record<string, BusinessMember>;
+  costingMethod: CostingMethod;
+  moneyFormat: MoneyFormat;
+  // Currency all stored amounts are in; foreign purchases are converted into it
+  baseCurrency: string;
+  profile: BusinessProfile;
+  createdAt?: Date;
+}
+
+export interface BusinessInvitation {
+  id?: string;
+  businessId: string;
+  businessName: string;
+  email: string;
+  role: Role;
+  invitedBy: string | null;
+  status: 'pending' | 'accepted';
+  createdAt?: Date;
+}
+
+// Collections that hold per-business data, nested under businesses/{businessId}
+export const BUSINESS_COLLECTIONS = [
+  'sales',
+  'purchases',
+  'expenses',
+  'assets',
+  'investments',
+  'productCategories',
+  'expenseCategories',
+  'auditLogs'
+] as const;
+
+let activeBusinessId: string | null = null;
+
+// The active business is set by BusinessContext before any page renders
+export const setActiveBusinessId = (businessId: string | null) => {
+  activeBusinessId = businessId;
+};
+
+export const getActiveBusinessId = (): string => {
+  if (!activeBusinessId) {
+    throw new Error('No active business selected');
+  }
+  return activeBusinessId;
+};
+
+let activeRole: Role | null = null;
+let activeCostingMethod: CostingMethod = DEFAULT_COSTING_METHOD;
+
+// Set with the business, for work that follows a write without a page asking for it,
+// such as bringing cost of goods sold up to date
+export const setActiveMembership = (role: Role | null, costingMethod: CostingMethod) => {
+  activeRole = role;
+  activeCostingMethod = costingMethod;
+};
+
+export const getActiveRole = (): Role | null => activeRole;
+
+export const getActiveCostingMethod = (): CostingMethod => activeCostingMethod;
+
+// Collection reference scoped to the active business
+export const businessCollection = (collectionName: string): CollectionReference => {
+  return collection(db, 'businesses', getActiveBusinessId(), collectionName);
+};
+
+// Document reference scoped to the active business
+export const businessDoc = (collectionName: string, documentId: string): DocumentReference => {
+  return doc(db, 'businesses', getActiveBusinessId(), collectionName, documentId);
+};
+
+const requireUser = () => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('You must be signed in');
+  }
+  return user;
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Invitations use a predictable id so security rules can look one up when it is accepted
+const invitationId = (businessId: string, email: string) => `${businessId}_${normalizeEmail(email)}`;
+
+// Businesses created before roles existed have no role on their members
+const mapMembers = (members: Record<string, Partial<BusinessMember>>, ownerId: string) => {
+  return Object.fromEntries(
+    Object.entries(members).map(([uid, member]) => [uid, {
+      email: member.email ?? null,
+      role: isRole(member.role) ? member.role : (uid === ownerId ? 'owner' : 'viewer'),
+      joinedAt: (member.joinedAt as unknown as Timestamp | undefined)?.toDate()
+    }])
+  ) as Record<string, BusinessMember>;
+};
+
+export const createBusiness = async (name: string): Promise<string> => {
+  try {
+    const user = requireUser();
+    const normalizedName = name.trim();
+
+    if (!normalizedName) {
+      throw new Error('Business name is required');
+    }
+
+    const businessRef = await addDoc(collection(db, 'businesses'), {
+      name: normalizedName,
+      ownerId: user.uid,
+      memberIds: [user.uid],
+      members: {
+        [user.uid]: {
+          email: user.email,
+          role: 'owner',
+          joinedAt: Timestamp.now()
+        }
+      },
+      createdAt: Timestamp.now()
+    });
+    return businessRef.id;
+  } catch (error) {
+    console.error('Error creating business:', error);
+    throw error;
+  }
+};
+
+export const getMyBusinesses = async (): Promise<Business[]> => {
+  try {
+    const user = requireUser();
+    const q = query(
+      collection(db, 'businesses'),
+      where('memberIds', 'array-contains', user.uid)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name,
+          ownerId: data.ownerId,
+          memberIds: data.memberIds || [],
+          members: mapMembers(data.members || {}, data.ownerId),
+          costingMethod: data.costingMethod || DEFAULT_COSTING_METHOD,
+          moneyFormat: readMoneyFormat(data.moneyFormat),
+          baseCurrency: data.baseCurrency || DEFAULT_BASE_CURRENCY,
+          profile: { ...EMPTY_BUSINESS_PROFILE, ...data.profile },
+          createdAt: data.createdAt?.toDate()
+        } as Business;
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting businesses:', error);
+    throw error;
+  }
+};
+
+export const inviteMember = async (business: Business, email: string, role: Role): Promise<void> => {
+  try {
+    const user = requireUser();
+    const normalizedEmail = normalizeEmail(email);
+
+    if (!normalizedEmail) {
+      throw new Error('Email is required');
+    }
+
+    const alreadyMember = Object.values(business.members)
+      .some(member => member.email && normalizeEmail(member.email) === normalizedEmail);
+    if (alreadyMember) {
+      throw new Error('This person is already a member');
+    }
+
+    await setDoc(doc(db, 'invitations', invitationId(business.id, normalizedEmail)), {
+      businessId: business.id,
+      businessName: business.name,
+      email: normalizedEmail,
+      role,
+      invitedBy: user.email,
+      status: 'pending',
+      createdAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    throw error;
+  }
+};
+
+export const getPendingInvitations = async (): Promise<BusinessInvitation[]> => {
+  try {
+    const user = requireUser();
+    if (!user.email) {
+      return [];
+    }
+
+    const q = query(
+      collection(db, 'invitations'),
+      where('email', '==', normalizeEmail(user.email)),
+      where('status', '==', 'pending')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        businessId: data.businessId,
+        businessName: data.businessName,
+        email: data.email,
+        role: isRole(data.role) ? data.role : 'viewer',
+        invitedBy: data.invitedBy,
+        status: data.status,
+        createdAt: data.createdAt?.toDate()
+      } as BusinessInvitation;
+    });
+  } catch (error) {
+    console.error('Error getting invitations:', error);
+    throw error;
+  }
+};
+
+export const acceptInvitation = async (invitation: BusinessInvitation): Promise<void> => {
+  try {
+    const user = requireUser();
+    if (!invitation.id) {
+      throw new Error('Invitation not found');
+    }
+
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'businesses', invitation.businessId), {
+      memberIds: arrayUnion(user.uid),
+      [`members.${user.uid}`]: {
+        email: user.email,
+        role: invitation.role,
+        joinedAt: Timestamp.now()
+      }
+    });
+    batch.update(doc(db, 'invitations', invitation.id), {
+      status: 'accepted',
+      acceptedAt: Timestamp.now()
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    throw error;
+  }
+};
+
+export const updateMemberRole = async (business: Business, memberId: string, role: Role): Promise<void> => {
+  try {
+    const member = business.members[memberId];
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    // Keep at least one owner so the business can still be managed
+    const otherOwners = Object.entries(business.members)
+      .filter(([uid, other]) => uid !== memberId && other.role === 'owner');
+    if (member.role === 'owner' && role !== 'owner' && otherOwners.length === 0) {
+      throw new Error('A business needs at least one owner');
+    }
+
+    await updateDoc(doc(db, 'businesses', business.id), {
+      [`members.${memberId}.role`]: role
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+};
+
+export const updateCostingMethod = async (businessId: string, costingMethod: CostingMethod): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'businesses', businessId), { costingMethod });
+  } catch (error) {
+    console.error('Error updating costing method:', error);
+    throw error;
+  }
+};
+
+export const updateMoneyFormat = async (businessId: string, moneyFormat: MoneyFormat): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'businesses', businessId), { moneyFormat });
+  } catch (error) {
+    console.error('Error updating number format:', error);
+    throw error;
+  }
+};
+
+export const updateBaseCurrency = async (businessId: string, baseCurrency: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'businesses', businessId), { baseCurrency });
+  } catch (error) {
+    console.error('Error updating base currency:', error);
+    throw error;
+  }
+};
+
+export const updateBusinessProfile = async (businessId: string, profile: BusinessProfile): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'businesses', businessId), {
+      profile: {
+        address: profile.address.trim(),
+        phone: profile.phone.trim(),
+        email: profile.email.trim(),
+        taxNumber: profile.taxNumber.trim()
+      }
+    });
+  } catch (error) {
+    console.error('Error updating business profile:', error);
+    throw error;
+  }
+};
+
+// Firestore batches are limited to 500 writes
+const IMPORT_BATCH_SIZE = 400;
+
+// Copy records from the pre-workspace top-level collections into a business,
+// keeping document ids so audit history stays linked to its records
+export const importLegacyData = async (businessId: string): Promise<number> => {
+  try {
+    let imported = 0;
+
+    for (const collectionName of BUSINESS_COLLECTIONS) {
+      const querySnapshot = await getDocs(collection(db, collectionName));
+
+      for (let i = 0; i < querySnapshot.docs.length; i += IMPORT_BATCH_SIZE) {
+        const batch = writeBatch(db);
+        querySnapshot.docs.slice(i, i + IMPORT_BATCH_SIZE).forEach(legacyDoc => {
+          batch.set(
+            doc(db, 'businesses', businessId, collectionName, legacyDoc.id),
+            legacyDoc.data()
+          );
+        });
+        await batch.commit();
+      }
+
+      imported += querySnapshot.docs.length;
+    }
+
+    return imported;
+  } catch (error) {
+    console.error('Error importing legacy data:', error);
+    throw error;
+  }
+};
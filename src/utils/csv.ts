@@ -0,0 +1,20 @@
+// Quote a cell when it holds a separator, quote or line break
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string => {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// Save rows as a CSV file through the browser's download prompt
+export const downloadCsv = (filename: string, rows: (string | number)[][]) => {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
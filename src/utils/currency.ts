@@ -0,0 +1,82 @@
+import { deleteDoc, getDocs, orderBy, query, setDoc, Timestamp } from 'firebase/firestore';
+import { businessCollection, businessDoc } from './business';
+import { multiplyMoney, type Money } from './money';
+
+// Currency amounts are kept in when a business has not picked one
+export const DEFAULT_BASE_CURRENCY = 'BDT';
+
+const RATES_COLLECTION = 'exchangeRates';
+
+// Base-currency units for one unit of the currency, e.g. 110.5 BDT per USD
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedAt?: Date;
+}
+
+// ISO 4217 style codes: three letters, upper case
+export const normalizeCurrencyCode = (code: string): string | null => {
+  const normalized = code.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+};
+
+export const isValidExchangeRate = (rate: number): boolean => Number.isFinite(rate) && rate > 0;
+
+// Convert an amount in a foreign currency to base currency, rounding once
+export const convertToBase = (amount: Money, exchangeRate: number): Money => {
+  return multiplyMoney(amount, exchangeRate);
+};
+
+// The rate to suggest for a new entry; the base currency is always 1
+export const defaultExchangeRate = (rates: ExchangeRate[], currency: string, baseCurrency: string): number => {
+  if (currency === baseCurrency) {
+    return 1;
+  }
+  return rates.find(rate => rate.currency === currency)?.rate ?? 0;
+};
+
+export const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+  try {
+    const q = query(businessCollection(RATES_COLLECTION), orderBy('currency', 'asc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => ({
+      currency: doc.data().currency,
+      rate: doc.data().rate,
+      updatedAt: doc.data().updatedAt?.toDate()
+    }));
+  } catch (error) {
+    console.error('Error getting exchange rates:', error);
+    throw error;
+  }
+};
+
+// Rates are keyed by currency code, so saving an existing currency replaces its rate
+export const saveExchangeRate = async (code: string, rate: number): Promise<void> => {
+  try {
+    const currency = normalizeCurrencyCode(code);
+    if (!currency) {
+      throw new Error('Currency must be a three-letter code');
+    }
+    if (!isValidExchangeRate(rate)) {
+      throw new Error('Exchange rate must be greater than 0');
+    }
+
+    await setDoc(businessDoc(RATES_COLLECTION, currency), {
+      currency,
+      rate,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    throw error;
+  }
+};
+
+export const deleteExchangeRate = async (currency: string): Promise<void> => {
+  try {
+    await deleteDoc(businessDoc(RATES_COLLECTION, currency));
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    throw error;
+  }
+};
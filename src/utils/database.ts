@@ -1,40 +1,460 @@
-import { collection, addDoc, getDocs, query, orderBy, Timestamp, updateDoc, doc, where, getDoc } from 'firebase/firestore';
+import {
+  getDocs,
+  query,
+  orderBy,
+  Timestamp,
+  doc,
+  where,
+  getDoc,
+  getDocFromCache,
+  writeBatch,
+  limit,
+  startAfter,
+  getAggregateFromServer,
+  count,
+  sum,
+  onSnapshot,
+  type DocumentData,
+  type DocumentReference,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+  type Unsubscribe,
+  type WriteBatch
+} from 'firebase/firestore';
 import { db } from '@/main';
-import dayjs from 'dayjs';
+import { appendAuditLog, diffRecords, type AuditAction } from './audit';
+import { businessCollection, businessDoc, getActiveBusinessId, getActiveCostingMethod, getActiveRole } from './business';
+import {
+  commitBatch,
+  getOutboxEntries,
+  isOffline,
+  markConflict,
+  queueWrite,
+  removeOutboxEntry,
+  type OutboxEntry
+} from './outbox';
+import { adjustmentDescription, postStockCosts, recordLedgerChange } from './ledger';
+import { hasPermission } from './permissions';
+import { toISODate } from './dateFormat';
+import { convertToBase, isValidExchangeRate, normalizeCurrencyCode } from './currency';
+import { productKey, valueInventory, type CostingMethod, type InventoryValuation } from './inventory';
+import {
+  MINOR_UNITS_FLAG,
+  MONEY_FIELDS,
+  convertLegacyMoney,
+  ZERO_MONEY,
+  addMoney,
+  divideMoney,
+  fromMinorUnits,
+  multiplyMoney,
+  readStoredMoney,
+  subtractMoney,
+  sumMoney,
+  type Money
+} from './money';
 
+// Sales and purchases reference their product by id and keep the name it had
+// when they were saved; records from before products existed have only the name
+export interface SaleLineItem {
+  productId?: string;
+  product: string;
+  quantity: number;
+  price: Money;
+  // quantity × price
+  total: Money;
+}
+
+export type PaymentMethod = 'cash' | 'bank' | 'mobile' | 'card';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'bank', label: 'Bank transfer' },
+  { value: 'mobile', label: 'Mobile banking' },
+  { value: 'card', label: 'Card' }
+];
+
+// A sale is one order of one or more products. The total is what the customer
+// pays: the line totals less the discount, plus the delivery charge. quantity is
+// the units across all lines, kept on the record so aggregates can sum it.
+// Sales recorded before orders had several lines are read as one-line orders.
 export interface SaleEntry {
   id?: string;
   date: string;
-  product: string;
+  // Optional; the name is kept as it was when the sale was saved
+  customerId?: string;
+  customer?: string;
+  order_number: string;
+  items: SaleLineItem[];
+  quantity: number;
+  subtotal: Money;
+  discount: Money;
+  deliveryCharge: Money;
+  total: Money;
+  // Collected when the sale was made; the customer owes the rest until it is paid.
+  // Sales recorded before payments were tracked were paid in full.
+  paidOnSale: Money;
+  paymentMethod: PaymentMethod;
+  notes?: string;
+  isDeleted?: boolean;
+}
+
+// What the sale form submits; line and order totals are derived from it.
+// A sale without paidOnSale is paid in full.
+export interface SaleInput {
+  date: string;
+  customerId: string;
+  customer: string;
+  order_number: string;
+  items: Omit<SaleLineItem, 'total'>[];
+  discount: Money;
+  deliveryCharge: Money;
+  paidOnSale?: Money;
+  paymentMethod?: PaymentMethod;
+  notes: string;
+}
+
+// Money received from a customer after the sale, towards what they still owe on it
+export interface SalePayment {
+  id?: string;
+  date: string;
+  saleId: string;
+  // Copied from the sale so payments can be listed without it
+  customerId?: string;
+  customer?: string;
+  order_number: string;
+  amount: Money;
+  method: PaymentMethod;
+  notes: string;
+  isDeleted?: boolean;
+}
+
+export type SalePaymentInput = Pick<SalePayment, 'date' | 'saleId' | 'amount' | 'method' | 'notes'>;
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+export const PAYMENT_STATUSES: { value: PaymentStatus; label: string }[] = [
+  { value: 'paid', label: 'Paid' },
+  { value: 'partial', label: 'Partly paid' },
+  { value: 'unpaid', label: 'Unpaid' }
+];
+
+// What has been settled on a sale and what is still owed
+export interface SaleBalance {
+  // Paid with the sale and afterwards
+  paid: Money;
+  // Taken off the balance by returns instead of being refunded
+  credited: Money;
+  due: Money;
+  status: PaymentStatus;
+}
+
+export type ReturnCondition = 'restock' | 'damaged';
+
+export const RETURN_CONDITIONS: { value: ReturnCondition; label: string; description: string }[] = [
+  { value: 'restock', label: 'Restock', description: 'Items go back on the shelf and into stock' },
+  { value: 'damaged', label: 'Damaged', description: 'Items are written off and not restocked' }
+];
+
+// Items a customer brought back from a sale. The refund is what was paid for them:
+// their value at the sale price less their share of the order discount. Delivery
+// charges are not refunded. Returns post negative revenue on the return date, so
+// the original sale and its period stay as they were.
+export interface SaleReturn {
+  id?: string;
+  date: string;
+  saleId: string;
+  // Copied from the sale so returns can be listed without it
+  customerId?: string;
+  customer?: string;
   order_number: string;
+  items: SaleLineItem[];
   quantity: number;
-  price: number;
-  total: number;
+  subtotal: Money;
+  discount: Money;
+  total: Money;
+  // Part of the refund taken off what the customer still owed on the sale; the
+  // rest is paid back in cash
+  balanceReduced: Money;
+  reason: string;
+  condition: ReturnCondition;
   notes?: string;
   isDeleted?: boolean;
 }
 
+export interface SaleReturnInput {
+  date: string;
+  saleId: string;
+  items: { productId?: string; product: string; quantity: number }[];
+  reason: string;
+  condition: ReturnCondition;
+  notes: string;
+}
+
+// A product on a sale that can still be returned, with lines for the same product merged
+export interface ReturnableItem {
+  productId?: string;
+  product: string;
+  // Average price paid across the sale's lines for the product
+  price: Money;
+  sold: number;
+  returned: number;
+}
+
+// price and total are always in base currency, so reports and costing can sum them
+// directly. Purchases recorded since currencies were added also keep the amounts
+// as invoiced; older ones have no currency and are in base currency.
 export interface PurchaseEntry {
   id?: string;
   date: string;
+  productId?: string;
+  product: string;
+  // Optional; the name is kept as it was when the purchase was saved
+  supplierId?: string;
+  supplier?: string;
+  order_number?: string;
+  quantity: number;
+  price: Money;
+  total: Money;
+  currency?: string;
+  // Base-currency units per unit of currency
+  exchangeRate?: number;
+  originalPrice?: Money;
+  originalTotal?: Money;
+  // Supplier credit used towards this purchase, in base currency; the rest is paid in cash
+  creditApplied?: Money;
+  // Set on stock received against a purchase order: the order, which of its lines
+  // this is, and the part of the order's advance used towards it
+  purchaseOrderId?: string;
+  purchaseOrderLine?: number;
+  advanceApplied?: Money;
+  // Paid towards the bill when the purchase was entered, and when the rest falls due
+  paidOnPurchase: Money;
+  dueDate: string;
+  notes?: string;
+  isDeleted?: boolean;
+}
+
+// What the purchase form submits; the base-currency amounts are derived from it
+export interface PurchaseInput {
+  date: string;
+  productId?: string;
+  product: string;
+  supplierId?: string;
+  supplier?: string;
+  order_number?: string;
+  quantity: number;
+  currency: string;
+  exchangeRate: number;
+  originalPrice: Money;
+  creditApplied?: Money;
+  purchaseOrderId?: string;
+  purchaseOrderLine?: number;
+  advanceApplied?: Money;
+  // Omitted when the bill is paid in full on the day
+  paidOnPurchase?: Money;
+  dueDate?: string;
+  notes?: string;
+}
+
+export type ReturnSettlement = 'credit' | 'refund';
+
+export const RETURN_SETTLEMENTS: { value: ReturnSettlement; label: string; description: string }[] = [
+  { value: 'credit', label: 'Supplier credit', description: 'Kept with the supplier and applied to future purchases' },
+  { value: 'refund', label: 'Cash refund', description: 'The supplier pays the money back' }
+];
+
+// Units sent back to the supplier of a purchase. They leave stock at what they cost,
+// and the amount is either held as credit with the supplier or refunded in cash.
+export interface PurchaseReturn {
+  id?: string;
+  date: string;
+  purchaseId: string;
+  // Copied from the purchase so returns can be listed without it
+  productId?: string;
+  product: string;
+  supplierId?: string;
+  supplier?: string;
+  order_number?: string;
+  quantity: number;
+  // Base-currency unit cost of the purchase
+  price: Money;
+  total: Money;
+  reason: string;
+  settlement: ReturnSettlement;
+  // Taken off what was still owed on the purchase; only the rest is credited or refunded
+  balanceReduced: Money;
+  notes?: string;
+  isDeleted?: boolean;
+}
+
+export interface PurchaseReturnInput {
+  date: string;
+  purchaseId: string;
+  quantity: number;
+  reason: string;
+  settlement: ReturnSettlement;
+  notes: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partial' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUSES: { value: PurchaseOrderStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'ordered', label: 'Ordered' },
+  { value: 'partial', label: 'Partially received' },
+  { value: 'received', label: 'Received' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+export interface PurchaseOrderLine {
+  productId?: string;
+  product: string;
+  quantity: number;
+  // Units received so far
+  received: number;
+  // In the order currency
+  price: Money;
+}
+
+// Stock ordered from a supplier that arrives later, possibly in several deliveries.
+// Nothing enters stock until it is received; each delivery is recorded as a purchase
+// per line, and the advance paid when ordering is used towards them in turn. Advance
+// left over once the order is received or cancelled stays with the supplier as credit.
+export interface PurchaseOrder {
+  id?: string;
+  date: string;
+  order_number: string;
+  supplierId?: string;
+  supplier?: string;
+  // When the goods are due; empty if not known
+  expectedDate: string;
+  currency: string;
+  // Base-currency units per unit of currency
+  exchangeRate: number;
+  items: PurchaseOrderLine[];
+  // Base-currency value of everything ordered
+  total: Money;
+  // Paid in cash when the order is placed, in base currency
+  advance: Money;
+  // Part of the advance applied to the purchases received so far
+  advanceUsed: Money;
+  status: PurchaseOrderStatus;
+  notes: string;
+  isDeleted?: boolean;
+}
+
+// What the order form submits; an order is saved as a draft or placed straight away
+export interface PurchaseOrderInput {
+  date: string;
+  order_number: string;
+  supplierId?: string;
+  supplier?: string;
+  expectedDate: string;
+  currency: string;
+  exchangeRate: number;
+  items: Omit<PurchaseOrderLine, 'received'>[];
+  advance: Money;
+  status: 'draft' | 'ordered';
+  notes: string;
+}
+
+// A delivery against an order: units received of each line, by line index
+export interface PurchaseOrderReceipt {
+  date: string;
+  quantities: number[];
+  notes: string;
+}
+
+export type AdjustmentReason = 'opening' | 'count' | 'damaged' | 'lost' | 'giveaway' | 'sample';
+
+// Which way each reason may move stock. Opening stock is brought in as owner's capital;
+// every other adjustment is written off, or back on, as an expense.
+export const ADJUSTMENT_REASONS: { value: AdjustmentReason; label: string; direction: 'in' | 'out' | 'either' }[] = [
+  { value: 'opening', label: 'Opening stock', direction: 'in' },
+  { value: 'count', label: 'Stock count correction', direction: 'either' },
+  { value: 'damaged', label: 'Damaged', direction: 'out' },
+  { value: 'lost', label: 'Lost or stolen', direction: 'out' },
+  { value: 'giveaway', label: 'Giveaway', direction: 'out' },
+  { value: 'sample', label: 'Sample', direction: 'out' }
+];
+
+// A change to stock on hand that is not a purchase, sale or return
+export interface StockAdjustment {
+  id?: string;
+  date: string;
+  productId?: string;
   product: string;
+  // Units added, or removed when negative
   quantity: number;
-  price: number;
-  total: number;
+  reason: AdjustmentReason;
+  // Base-currency cost of each unit moved. Units added are stocked at this cost; removed
+  // units are costed from the layers on hand, like a sale, in the ledger and valuation.
+  unitCost: Money;
+  // Cost of all the units moved, never negative
+  value: Money;
   notes?: string;
   isDeleted?: boolean;
 }
 
+export type StockAdjustmentInput = Omit<StockAdjustment, 'id' | 'value' | 'isDeleted'>;
+
 export interface ExpenseEntry {
   id?: string;
   date: string;
   category: string;
   description: string;
-  amount: number;
+  amount: Money;
+  paidOnExpense: Money;
+  dueDate: string;
   notes?: string;
   isDeleted?: boolean;
 }
 
+// An expense without paidOnExpense is paid in full on the day
+export type ExpenseInput = Omit<ExpenseEntry, 'id' | 'isDeleted' | 'paidOnExpense' | 'dueDate'> & {
+  paidOnExpense?: Money;
+  dueDate?: string;
+};
+
+export type BillType = 'purchase' | 'expense';
+
+// A purchase or expense seen as a bill to pay, so both can be listed and paid alike
+export interface Bill {
+  type: BillType;
+  id: string;
+  date: string;
+  dueDate: string;
+  // The supplier, or the category of an expense
+  payee: string;
+  supplierId?: string;
+  // Order number of a purchase, or description of an expense
+  reference: string;
+  // Owed in cash: a purchase's total less the credit and advance applied to it
+  amount: Money;
+  paidOnEntry: Money;
+}
+
+// Money paid towards a purchase or expense after it was entered
+export interface BillPayment {
+  id?: string;
+  date: string;
+  billType: BillType;
+  billId: string;
+  supplierId?: string;
+  payee: string;
+  reference: string;
+  amount: Money;
+  method: PaymentMethod;
+  notes: string;
+  isDeleted?: boolean;
+}
+
+export type BillPaymentInput = Pick<BillPayment, 'date' | 'billType' | 'billId' | 'amount' | 'method' | 'notes'>;
+
+// Settled and owed amounts of a bill; purchase returns credit it like sale returns do a sale
+export type BillBalance = SaleBalance;
+
 export interface ExpenseCategory {
   id?: string;
   name: string;
@@ -45,7 +465,7 @@ export interface AssetEntry {
   id: string;
   name: string;
   purchaseDate: string;
-  cost: number;
+  cost: Money;
   usefulLife: number;
   lastUpdated?: Timestamp;
   note?: string;
@@ -55,7 +475,7 @@ export interface InvestmentEntry {
   id?: string;
   date: string;
   investor: string;
-  amount: number;
+  amount: Money;
   note: string;
   isDeleted?: boolean;
 }
@@ -66,288 +486,2699 @@ export interface Category {
   createdAt?: Date;
 }
 
-// Helper function to format date
-const formatDate = (date: Date): string => {
-  return dayjs(date).format('DD-MMM-YYYY');
+export interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  // Unit of measure quantities are counted in, e.g. pcs or kg
+  unit: string;
+  defaultPrice: Money;
+  // Stock level at or below which the product should be reordered
+  reorderLevel: number;
+  // Inactive products stay on old records but are no longer offered for new ones
+  isActive: boolean;
+  createdAt?: Date;
+}
+
+export type ProductInput = Omit<Product, 'id' | 'createdAt'>;
+
+export const DEFAULT_PRODUCT_UNIT = 'pcs';
+
+// A product created from just a name, e.g. added from the sale or purchase form
+export const newProductInput = (name: string): ProductInput => ({
+  name,
+  sku: '',
+  unit: DEFAULT_PRODUCT_UNIT,
+  defaultPrice: ZERO_MONEY,
+  reorderLevel: 0,
+  isActive: true
+});
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  // One of CUSTOMER_GENDERS, or empty when not recorded
+  gender: string;
+  notes: string;
+  isDeleted?: boolean;
+  createdAt?: Date;
+}
+
+export type CustomerInput = Omit<Customer, 'id' | 'isDeleted' | 'createdAt'>;
+
+export const CUSTOMER_GENDERS = ['Male', 'Female', 'Other'];
+
+// A customer created from just a name, e.g. added from the sale form
+export const newCustomerInput = (name: string): CustomerInput => ({
+  name,
+  phone: '',
+  address: '',
+  gender: '',
+  notes: ''
+});
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactPerson: string;
+  phone: string;
+  email: string;
+  address: string;
+  // Days after a purchase that payment is due; 0 means due on receipt
+  paymentTermsDays: number;
+  // Days from placing an order to the stock arriving; 0 when not known
+  leadTimeDays: number;
+  notes: string;
+  isDeleted?: boolean;
+  createdAt?: Date;
+}
+
+export type SupplierInput = Omit<Supplier, 'id' | 'isDeleted' | 'createdAt'>;
+
+// A supplier created from just a name, e.g. added from the purchase form
+export const newSupplierInput = (name: string): SupplierInput => ({
+  name,
+  contactPerson: '',
+  phone: '',
+  email: '',
+  address: '',
+  paymentTermsDays: 0,
+  leadTimeDays: 0,
+  notes: ''
+});
+
+export const formatPaymentTerms = (days: number): string => {
+  return days > 0 ? `Net ${days} days` : 'Due on receipt';
 };
 
-// Sales functions
-export const addSale = async (sale: Omit<SaleEntry, 'id'>) => {
-  try {
-    // Normalize the product name
-    const normalizedProduct = sale.product.trim();
-    
-    if (!normalizedProduct) {
-      throw new Error('Product name is required');
-    }
+export type SortDirection = 'asc' | 'desc';
 
-    // Add the sale document
-    const docRef = await addDoc(collection(db, 'sales'), {
-      ...sale,
-      product: normalizedProduct,
-      date: sale.date,
-      createdAt: Timestamp.now(),
-      isDeleted: false
-    });
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Error adding sale:', error);
-    throw error;
+export type PageCursor = QueryDocumentSnapshot;
+
+export interface TransactionFilter {
+  // Inclusive ISO date bounds; omit for an open-ended range
+  from?: string | null;
+  to?: string | null;
+  deleted?: boolean;
+}
+
+export interface TransactionQuery extends TransactionFilter {
+  direction?: SortDirection;
+  pageSize?: number;
+  // Last document of the previous page
+  cursor?: PageCursor | null;
+}
+
+export interface TransactionPage<T> {
+  items: T[];
+  cursor: PageCursor | null;
+  hasMore: boolean;
+}
+
+export interface LiveTransactionPage<T> {
+  items: T[];
+  hasMore: boolean;
+  // Records other sessions added since the previous snapshot; empty on the first one
+  newIds: string[];
+}
+
+export interface LiveRecords<T> {
+  items: T[];
+  newIds: string[];
+}
+
+export type SnapshotErrorHandler = (error: Error) => void;
+
+export interface TransactionTotals {
+  count: number;
+  amount: Money;
+  quantity: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+export interface ExpenseTotals extends TransactionTotals {
+  categoryTotals: Record<string, Money>;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Dates are stored as canonical ISO dates; anything else is rejected on write
+const requireISODate = (value: unknown): string => {
+  const date = toISODate(value);
+  if (!date) {
+    throw new Error('A valid date is required');
   }
+  return date;
 };
 
-export const getSales = async (): Promise<SaleEntry[]> => {
-  try {
-    const q = query(collection(db, 'sales'));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs
-      .map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          date: data.date,
-          product: data.product,
-          order_number: data.order_number,
-          quantity: data.quantity,
-          price: data.price,
-          total: data.total,
-          notes: data.notes,
-          isDeleted: data.isDeleted
-        } as SaleEntry;
-      })
-      .filter(sale => !sale.isDeleted);
-  } catch (error) {
-    console.error('Error getting sales:', error);
-    throw error;
+// Records written before dates were canonical are normalized on read
+const readDate = (value: unknown): string => toISODate(value) ?? String(value ?? '');
+
+// Order lines only exist on records written in minor units
+const readSaleItems = (data: DocumentData): SaleLineItem[] => {
+  if (Array.isArray(data.items)) {
+    return data.items.map((item: DocumentData) => ({
+      productId: item.productId,
+      product: item.product,
+      quantity: item.quantity,
+      price: fromMinorUnits(item.price),
+      total: fromMinorUnits(item.total)
+    }));
   }
+  return [{
+    productId: data.productId,
+    product: data.product,
+    quantity: data.quantity,
+    price: readStoredMoney(data, 'price'),
+    total: readStoredMoney(data, 'total')
+  }];
 };
 
-export const getDeletedSales = async (): Promise<SaleEntry[]> => {
-  try {
-    console.log('Fetching deleted sales...');
-    const q = query(
-      collection(db, 'sales'), 
-      where('isDeleted', '==', true)
-    );
-    const querySnapshot = await getDocs(q);
-    console.log('Found deleted sales:', querySnapshot.docs.length);
-    console.log('Deleted sales data:', querySnapshot.docs.map(doc => doc.data()));
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      const date = data.date instanceof Timestamp ? formatDate(data.date.toDate()) : data.date;
-      return {
-        id: doc.id,
-        date,
-        product: data.product,
-        order_number: data.order_number,
-        quantity: data.quantity,
-        price: data.price,
-        total: data.total,
-        notes: data.notes,
-        isDeleted: data.isDeleted
-      } as SaleEntry;
-    });
-  } catch (error) {
-    console.error('Error getting deleted sales:', error);
-    throw error;
+const readOptionalMoney = (data: DocumentData, field: string): Money => {
+  return data[field] === undefined ? ZERO_MONEY : readStoredMoney(data, field);
+};
+
+const mapSale = (doc: QueryDocumentSnapshot): SaleEntry => {
+  const data = doc.data();
+  const total = readStoredMoney(data, 'total');
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    ...(data.customerId && {
+      customerId: data.customerId,
+      customer: data.customer
+    }),
+    order_number: data.order_number,
+    items: readSaleItems(data),
+    quantity: data.quantity,
+    subtotal: data.subtotal === undefined ? total : readStoredMoney(data, 'subtotal'),
+    discount: readOptionalMoney(data, 'discount'),
+    deliveryCharge: readOptionalMoney(data, 'deliveryCharge'),
+    total,
+    paidOnSale: data.paidOnSale === undefined ? total : readStoredMoney(data, 'paidOnSale'),
+    paymentMethod: data.paymentMethod ?? 'cash',
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapSaleReturn = (doc: QueryDocumentSnapshot): SaleReturn => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    saleId: data.saleId,
+    ...(data.customerId && {
+      customerId: data.customerId,
+      customer: data.customer
+    }),
+    order_number: data.order_number,
+    items: readSaleItems(data),
+    quantity: data.quantity,
+    subtotal: fromMinorUnits(data.subtotal),
+    discount: fromMinorUnits(data.discount),
+    total: fromMinorUnits(data.total),
+    balanceReduced: fromMinorUnits(data.balanceReduced),
+    reason: data.reason,
+    condition: data.condition,
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapSalePayment = (doc: QueryDocumentSnapshot): SalePayment => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    saleId: data.saleId,
+    ...(data.customerId && {
+      customerId: data.customerId,
+      customer: data.customer
+    }),
+    order_number: data.order_number,
+    amount: fromMinorUnits(data.amount),
+    method: data.method,
+    notes: data.notes ?? '',
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapPurchase = (doc: QueryDocumentSnapshot): PurchaseEntry => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    productId: data.productId,
+    product: data.product,
+    ...(data.supplierId && {
+      supplierId: data.supplierId,
+      supplier: data.supplier
+    }),
+    order_number: data.order_number,
+    quantity: data.quantity,
+    price: readStoredMoney(data, 'price'),
+    total: readStoredMoney(data, 'total'),
+    ...(data.currency && {
+      currency: data.currency,
+      exchangeRate: data.exchangeRate,
+      originalPrice: readStoredMoney(data, 'originalPrice'),
+      originalTotal: readStoredMoney(data, 'originalTotal')
+    }),
+    ...(data.creditApplied && {
+      creditApplied: readStoredMoney(data, 'creditApplied')
+    }),
+    ...(data.purchaseOrderId && {
+      purchaseOrderId: data.purchaseOrderId,
+      purchaseOrderLine: data.purchaseOrderLine,
+      advanceApplied: fromMinorUnits(data.advanceApplied)
+    }),
+    // Purchases entered before bills were tracked were paid in full on the day
+    paidOnPurchase: data.paidOnPurchase === undefined
+      ? subtractMoney(
+        readStoredMoney(data, 'total'),
+        addMoney(readStoredMoney(data, 'creditApplied'), fromMinorUnits(data.advanceApplied))
+      )
+      : readStoredMoney(data, 'paidOnPurchase'),
+    dueDate: data.dueDate ?? readDate(data.date),
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapPurchaseReturn = (doc: QueryDocumentSnapshot): PurchaseReturn => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    purchaseId: data.purchaseId,
+    productId: data.productId,
+    product: data.product,
+    ...(data.supplierId && {
+      supplierId: data.supplierId,
+      supplier: data.supplier
+    }),
+    order_number: data.order_number,
+    quantity: data.quantity,
+    price: fromMinorUnits(data.price),
+    total: fromMinorUnits(data.total),
+    reason: data.reason,
+    settlement: data.settlement,
+    balanceReduced: fromMinorUnits(data.balanceReduced),
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapPurchaseOrder = (doc: QueryDocumentSnapshot): PurchaseOrder => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    order_number: data.order_number,
+    ...(data.supplierId && {
+      supplierId: data.supplierId,
+      supplier: data.supplier
+    }),
+    expectedDate: data.expectedDate ? readDate(data.expectedDate) : '',
+    currency: data.currency,
+    exchangeRate: data.exchangeRate,
+    items: (data.items || []).map((item: DocumentData) => ({
+      productId: item.productId,
+      product: item.product,
+      quantity: item.quantity,
+      received: item.received ?? 0,
+      price: fromMinorUnits(item.price)
+    })),
+    total: fromMinorUnits(data.total),
+    advance: fromMinorUnits(data.advance),
+    advanceUsed: fromMinorUnits(data.advanceUsed),
+    status: data.status,
+    notes: data.notes ?? '',
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapStockAdjustment = (doc: QueryDocumentSnapshot): StockAdjustment => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    productId: data.productId,
+    product: data.product,
+    quantity: data.quantity,
+    reason: data.reason,
+    unitCost: fromMinorUnits(data.unitCost),
+    value: fromMinorUnits(data.value),
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapProduct = (doc: QueryDocumentSnapshot): Product => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    name: data.name,
+    sku: data.sku ?? '',
+    unit: data.unit || DEFAULT_PRODUCT_UNIT,
+    defaultPrice: readStoredMoney(data, 'defaultPrice'),
+    reorderLevel: data.reorderLevel ?? 0,
+    isActive: data.isActive !== false,
+    createdAt: data.createdAt?.toDate()
+  };
+};
+
+const mapCustomer = (doc: QueryDocumentSnapshot): Customer => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    name: data.name,
+    phone: data.phone ?? '',
+    address: data.address ?? '',
+    gender: data.gender ?? '',
+    notes: data.notes ?? '',
+    isDeleted: data.isDeleted,
+    createdAt: data.createdAt?.toDate()
+  };
+};
+
+const mapSupplier = (doc: QueryDocumentSnapshot): Supplier => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    name: data.name,
+    contactPerson: data.contactPerson ?? '',
+    phone: data.phone ?? '',
+    email: data.email ?? '',
+    address: data.address ?? '',
+    paymentTermsDays: data.paymentTermsDays ?? 0,
+    leadTimeDays: data.leadTimeDays ?? 0,
+    notes: data.notes ?? '',
+    isDeleted: data.isDeleted,
+    createdAt: data.createdAt?.toDate()
+  };
+};
+
+const mapExpense = (doc: QueryDocumentSnapshot): ExpenseEntry => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    category: data.category,
+    description: data.description,
+    amount: readStoredMoney(data, 'amount'),
+    paidOnExpense: data.paidOnExpense === undefined ? readStoredMoney(data, 'amount') : readStoredMoney(data, 'paidOnExpense'),
+    dueDate: data.dueDate ?? readDate(data.date),
+    notes: data.notes,
+    isDeleted: data.isDeleted
+  };
+};
+
+const mapBillPayment = (doc: QueryDocumentSnapshot): BillPayment => {
+  const data = doc.data();
+  return {
+    id: doc.id,
+    date: readDate(data.date),
+    billType: data.billType,
+    billId: data.billId,
+    ...(data.supplierId && { supplierId: data.supplierId }),
+    payee: data.payee ?? '',
+    reference: data.reference ?? '',
+    amount: fromMinorUnits(data.amount),
+    method: data.method,
+    notes: data.notes ?? '',
+    isDeleted: data.isDeleted
+  };
+};
+
+// New records of money collections are saved in minor units and flagged as such
+const withMinorUnitsFlag = (collectionName: string, data: DocumentData): DocumentData => {
+  return MONEY_FIELDS[collectionName] ? { ...data, [MINOR_UNITS_FLAG]: true } : data;
+};
+
+// Add a new record to a batch together with its audit trail and journal entries
+const queueCreate = (batch: WriteBatch, recordRef: DocumentReference, collectionName: string, data: DocumentData) => {
+  data = withMinorUnitsFlag(collectionName, data);
+  const change = {
+    collectionName,
+    recordId: recordRef.id,
+    action: 'create' as const,
+    before: null,
+    after: data
+  };
+  batch.set(recordRef, data);
+  appendAuditLog(batch, change);
+  recordLedgerChange(batch, change);
+};
+
+// Add changes to a record to a batch, recording the before/after diff and any
+// journal corrections with them
+const queueUpdate = (
+  batch: WriteBatch,
+  recordRef: DocumentReference,
+  collectionName: string,
+  before: DocumentData,
+  action: AuditAction,
+  changes: DocumentData
+) => {
+  // Editing a record saved with float amounts converts the rest of its amounts too;
+  // the converted record is what the audit diff and journal reversal start from
+  if (MONEY_FIELDS[collectionName]) {
+    const converted = convertLegacyMoney(collectionName, before);
+    before = { ...before, ...converted };
+    changes = { ...converted, ...changes };
   }
+  const change = {
+    collectionName,
+    recordId: recordRef.id,
+    action,
+    before,
+    after: { ...before, ...changes }
+  };
+  batch.update(recordRef, changes);
+  appendAuditLog(batch, change);
+  recordLedgerChange(batch, change);
 };
 
-// Purchases functions
-export const addPurchase = async (purchase: Omit<PurchaseEntry, 'id'>) => {
-  try {
-    // Normalize the product name
-    const normalizedProduct = purchase.product.trim();
-    
-    if (!normalizedProduct) {
-      throw new Error('Product name is required');
-    }
+// Write a new record with its audit trail and journal entries in a single batch.
+// Returns false when the server could not be reached to confirm it.
+const commitCreate = async (recordRef: DocumentReference, collectionName: string, data: DocumentData): Promise<boolean> => {
+  const batch = writeBatch(db);
+  queueCreate(batch, recordRef, collectionName, data);
+  const committed = await commitBatch(batch);
+  if (committed && STOCK_COLLECTIONS.includes(collectionName)) {
+    repostCostOfSales();
+  }
+  return committed;
+};
 
-    // Add the purchase document
-    const docRef = await addDoc(collection(db, 'purchases'), {
-      ...purchase,
-      product: normalizedProduct,
-      date: purchase.date,
-      createdAt: Timestamp.now(),
-      isDeleted: false
-    });
-    
-    return docRef.id;
-  } catch (error) {
-    console.error('Error adding purchase:', error);
-    throw error;
+// Apply changes to a record, recording the before/after diff and any
+// journal corrections in a single batch
+const commitUpdate = async (
+  recordRef: DocumentReference,
+  collectionName: string,
+  before: DocumentData,
+  action: AuditAction,
+  changes: DocumentData
+): Promise<boolean> => {
+  const batch = writeBatch(db);
+  queueUpdate(batch, recordRef, collectionName, before, action, changes);
+  const committed = await commitBatch(batch);
+  if (committed && STOCK_COLLECTIONS.includes(collectionName)) {
+    repostCostOfSales();
   }
+  return committed;
 };
 
-export const getPurchases = async (): Promise<PurchaseEntry[]> => {
-  try {
-    const q = query(collection(db, 'purchases'));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs
-      .map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          date: data.date,
-          product: data.product,
-          quantity: data.quantity,
-          price: data.price,
-          total: data.total,
-          notes: data.notes,
-          isDeleted: data.isDeleted
-        } as PurchaseEntry;
-      })
+// Create a record, or queue it in the outbox while offline or when the server could
+// not be reached in time. The id is assigned up front so a queued record keeps it once
+// it syncs, and the queued record is flagged like the synced one will be, so later
+// queued edits don't see a change.
+const createWithAudit = async (collectionName: string, data: DocumentData): Promise<DocumentReference> => {
+  const recordRef = doc(businessCollection(collectionName));
+  data = withMinorUnitsFlag(collectionName, data);
+  if (!isOffline() && await commitCreate(recordRef, collectionName, data)) {
+    return recordRef;
+  }
+  await queueWrite({
+    businessId: getActiveBusinessId(),
+    collectionName,
+    recordId: recordRef.id,
+    action: 'create',
+    data,
+    base: null
+  });
+  return recordRef;
+};
+
+// Queue a change in the outbox together with the record as last seen, so a conflicting
+// edit made meanwhile can be detected
+const queueOfflineUpdate = async (
+  collectionName: string,
+  recordId: string,
+  action: AuditAction,
+  changes: DocumentData,
+  seen: DocumentData | null
+) => {
+  // Earlier queued edits to the same record will have landed by the time this
+  // one replays, so they are part of what the user expects to be changing
+  const queuedChanges = (await getOutboxEntries(getActiveBusinessId()))
+    .filter(entry => entry.collectionName === collectionName && entry.recordId === recordId);
+  const base = queuedChanges.reduce<DocumentData | null>(
+    (record, entry) => ({ ...record, ...entry.data }),
+    seen
+  );
+  await queueWrite({
+    businessId: getActiveBusinessId(),
+    collectionName,
+    recordId,
+    action,
+    data: changes,
+    base
+  });
+};
+
+// Update an existing record, or queue the change while offline or when the server
+// could not be reached in time
+const updateWithAudit = async (
+  collectionName: string,
+  recordId: string,
+  notFoundMessage: string,
+  action: AuditAction,
+  changes: DocumentData
+): Promise<void> => {
+  const recordRef = businessDoc(collectionName, recordId);
+
+  if (isOffline()) {
+    const cachedDoc = await getDocFromCache(recordRef).catch(() => null);
+    if (cachedDoc && !cachedDoc.exists()) {
+      throw new Error(notFoundMessage);
+    }
+    await queueOfflineUpdate(collectionName, recordId, action, changes, cachedDoc?.data() ?? null);
+    return;
+  }
+
+  const recordDoc = await getDoc(recordRef);
+
+  if (!recordDoc.exists()) {
+    throw new Error(notFoundMessage);
+  }
+
+  if (!await commitUpdate(recordRef, collectionName, recordDoc.data(), action, changes)) {
+    await queueOfflineUpdate(collectionName, recordId, action, changes, recordDoc.data());
+  }
+};
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+}
+
+// A replay that could not reach the server stops the sync; the rest wait for the next one
+const SERVER_UNREACHABLE_MESSAGE = 'The server could not be reached';
+
+// Replay one queued write. Returns false when it conflicts with the server.
+const replayOutboxEntry = async (entry: OutboxEntry): Promise<boolean> => {
+  const recordRef = businessDoc(entry.collectionName, entry.recordId);
+  // Includes writes still waiting in Firestore's own queue, such as one that was
+  // queued here as well after its commit timed out
+  const recordDoc = await getDoc(recordRef);
+
+  if (entry.action === 'create') {
+    // A create that reached the server, or Firestore's queue, before its outbox entry was cleared
+    if (!recordDoc.exists() && !await commitCreate(recordRef, entry.collectionName, entry.data)) {
+      throw new Error(SERVER_UNREACHABLE_MESSAGE);
+    }
+    return true;
+  }
+
+  if (!recordDoc.exists()) {
+    await markConflict(entry, null);
+    return false;
+  }
+  // Already applied, so there is nothing to replay or conflict with
+  if (diffRecords({ ...recordDoc.data(), ...entry.data }, recordDoc.data()).length === 0) {
+    return true;
+  }
+  if (entry.base && diffRecords(entry.base, recordDoc.data()).length > 0) {
+    await markConflict(entry, recordDoc.data());
+    return false;
+  }
+
+  if (!await commitUpdate(recordRef, entry.collectionName, recordDoc.data(), entry.action, entry.data)) {
+    throw new Error(SERVER_UNREACHABLE_MESSAGE);
+  }
+  return true;
+};
+
+// Push queued writes for the active business. Writes that hit a record someone
+// else changed are kept as conflicts for review instead of overwriting it.
+const replayOutbox = async (): Promise<SyncResult> => {
+  try {
+    const entries = await getOutboxEntries(getActiveBusinessId());
+    const result: SyncResult = { synced: 0, conflicts: 0 };
+
+    for (const entry of entries.filter(entry => entry.status === 'pending')) {
+      if (await replayOutboxEntry(entry)) {
+        await removeOutboxEntry(entry.id);
+        result.synced++;
+      } else {
+        result.conflicts++;
+      }
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error syncing offline changes:', error);
+    throw error;
+  }
+};
+
+let runningSync: Promise<SyncResult> | null = null;
+
+// Reconnecting, the retry timer and the sync button may all ask at once, and replaying
+// the same entries twice would write them twice
+export const syncOutbox = (): Promise<SyncResult> => {
+  runningSync ??= replayOutbox().finally(() => {
+    runningSync = null;
+  });
+  return runningSync;
+};
+
+// Settle a conflict by applying the queued change over the current record, or dropping it
+export const resolveOutboxConflict = async (entry: OutboxEntry, keepMine: boolean): Promise<void> => {
+  try {
+    if (keepMine) {
+      const recordRef = businessDoc(entry.collectionName, entry.recordId);
+      const recordDoc = await getDoc(recordRef);
+      if (!recordDoc.exists()) {
+        throw new Error('Record no longer exists');
+      }
+      await commitUpdate(recordRef, entry.collectionName, recordDoc.data(), entry.action, entry.data);
+    }
+    await removeOutboxEntry(entry.id);
+  } catch (error) {
+    console.error('Error resolving conflict:', error);
+    throw error;
+  }
+};
+
+// Filters shared by list queries and summaries; needs the composite indexes in firestore.indexes.json
+const filterConstraints = ({ from, to, deleted = false }: TransactionFilter): QueryConstraint[] => [
+  where('isDeleted', '==', deleted),
+  ...(from ? [where('date', '>=', from)] : []),
+  ...(to ? [where('date', '<=', to)] : [])
+];
+
+// Fetch one page of a date-ordered transaction collection. One extra document is
+// requested so we know whether another page exists without a second round trip.
+const queryTransactions = async <T>(
+  collectionName: string,
+  { direction = 'desc', pageSize = DEFAULT_PAGE_SIZE, cursor, ...filter }: TransactionQuery,
+  mapDoc: (doc: QueryDocumentSnapshot) => T
+): Promise<TransactionPage<T>> => {
+  const q = query(
+    businessCollection(collectionName),
+    ...filterConstraints(filter),
+    orderBy('date', direction),
+    ...(cursor ? [startAfter(cursor)] : []),
+    limit(pageSize + 1)
+  );
+  const querySnapshot = await getDocs(q);
+  const docs = querySnapshot.docs.slice(0, pageSize);
+  return {
+    items: docs.map(mapDoc),
+    cursor: docs[docs.length - 1] ?? null,
+    hasMore: querySnapshot.docs.length > pageSize
+  };
+};
+
+// Count and sums for every matching record, computed by Firestore without downloading them
+const aggregateTransactions = async (
+  collectionName: string,
+  filter: TransactionFilter,
+  amountField: string,
+  extraConstraints: QueryConstraint[] = []
+) => {
+  const q = query(businessCollection(collectionName), ...filterConstraints(filter), ...extraConstraints);
+  const aggregate = await getAggregateFromServer(q, {
+    count: count(),
+    amount: sum(amountField),
+    quantity: sum('quantity')
+  });
+  const totals = aggregate.data();
+  return {
+    count: totals.count,
+    // Summed over stored minor units; legacy float records need the money migration first
+    amount: fromMinorUnits(totals.amount ?? 0),
+    quantity: totals.quantity ?? 0
+  };
+};
+
+// Ids added by someone else since the previous snapshot. Our own writes arrive
+// with pending writes first and are not worth announcing.
+const remoteAdditions = (snapshot: QuerySnapshot, isFirstSnapshot: boolean): string[] => {
+  if (isFirstSnapshot) return [];
+  return snapshot.docChanges()
+    .filter(change => change.type === 'added' && !change.doc.metadata.hasPendingWrites)
+    .map(change => change.doc.id);
+};
+
+// Live counterpart of queryTransactions. Cursors don't combine well with live
+// updates, so callers grow pageSize to show more rows instead of paging.
+const subscribeTransactions = <T>(
+  collectionName: string,
+  { direction = 'desc', pageSize = DEFAULT_PAGE_SIZE, ...filter }: Omit<TransactionQuery, 'cursor'>,
+  mapDoc: (doc: QueryDocumentSnapshot) => T,
+  onChange: (page: LiveTransactionPage<T>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => {
+  const q = query(
+    businessCollection(collectionName),
+    ...filterConstraints(filter),
+    orderBy('date', direction),
+    limit(pageSize + 1)
+  );
+  let isFirstSnapshot = true;
+  return onSnapshot(q, querySnapshot => {
+    const docs = querySnapshot.docs.slice(0, pageSize);
+    onChange({
+      items: docs.map(mapDoc),
+      hasMore: querySnapshot.docs.length > pageSize,
+      newIds: remoteAdditions(querySnapshot, isFirstSnapshot)
+    });
+    isFirstSnapshot = false;
+  }, onError);
+};
+
+// Every active record of a collection, kept up to date; used where the whole
+// history is needed, such as inventory valuation on the dashboard
+const subscribeActiveRecords = <T extends { isDeleted?: boolean }>(
+  collectionName: string,
+  mapDoc: (doc: QueryDocumentSnapshot) => T,
+  onChange: (records: LiveRecords<T>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => {
+  let isFirstSnapshot = true;
+  return onSnapshot(businessCollection(collectionName), querySnapshot => {
+    onChange({
+      items: querySnapshot.docs.map(mapDoc).filter(record => !record.isDeleted),
+      newIds: remoteAdditions(querySnapshot, isFirstSnapshot)
+    });
+    isFirstSnapshot = false;
+  }, onError);
+};
+
+const summarizeTransactions = async (
+  collectionName: string,
+  filter: TransactionFilter,
+  amountField: string
+): Promise<TransactionTotals> => {
+  const baseQuery = query(businessCollection(collectionName), ...filterConstraints(filter));
+  const [totals, first, last] = await Promise.all([
+    aggregateTransactions(collectionName, filter, amountField),
+    getDocs(query(baseQuery, orderBy('date', 'asc'), limit(1))),
+    getDocs(query(baseQuery, orderBy('date', 'desc'), limit(1)))
+  ]);
+  return {
+    ...totals,
+    firstDate: first.docs[0] ? readDate(first.docs[0].data().date) : null,
+    lastDate: last.docs[0] ? readDate(last.docs[0].data().date) : null
+  };
+};
+
+// Sales functions
+
+// The amounts of an order from its lines; the form shows these before saving
+export const calculateSaleTotals = (
+  items: { quantity: number; price: Money }[],
+  discount: Money,
+  deliveryCharge: Money
+): { subtotal: Money; total: Money } => {
+  const subtotal = sumMoney(items, item => multiplyMoney(item.price, Number(item.quantity)));
+  return { subtotal, total: addMoney(subtractMoney(subtotal, discount), deliveryCharge) };
+};
+
+// Validate a sale and work out its line and order totals
+const saleFields = (sale: SaleInput): DocumentData => {
+  if (sale.items.length === 0) {
+    throw new Error('A sale needs at least one product');
+  }
+
+  const items = sale.items.map(item => {
+    // Normalize the product name
+    const normalizedProduct = item.product.trim();
+
+    if (!normalizedProduct) {
+      throw new Error('Product name is required');
+    }
+
+    if (Number(item.quantity) <= 0 || Number(item.price) <= 0) {
+      throw new Error('Quantity and price must be greater than 0');
+    }
+
+    return {
+      ...(item.productId && { productId: item.productId }),
+      product: normalizedProduct,
+      quantity: Number(item.quantity),
+      price: item.price,
+      total: multiplyMoney(item.price, Number(item.quantity))
+    };
+  });
+
+  if (sale.discount < 0 || sale.deliveryCharge < 0) {
+    throw new Error('Discount and delivery charge cannot be negative');
+  }
+
+  const { subtotal, total } = calculateSaleTotals(items, sale.discount, sale.deliveryCharge);
+  if (sale.discount > subtotal) {
+    throw new Error('Discount cannot be more than the order subtotal');
+  }
+
+  const paidOnSale = sale.paidOnSale ?? total;
+  if (paidOnSale < 0) {
+    throw new Error('Amount paid cannot be negative');
+  }
+  if (paidOnSale > total) {
+    throw new Error('Amount paid cannot be more than the order total');
+  }
+  const paymentMethod = sale.paymentMethod ?? 'cash';
+  if (!PAYMENT_METHODS.some(method => method.value === paymentMethod)) {
+    throw new Error('Please choose a payment method');
+  }
+
+  return {
+    date: requireISODate(sale.date),
+    customerId: sale.customerId,
+    customer: sale.customer,
+    order_number: sale.order_number.trim(),
+    items,
+    quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal,
+    discount: sale.discount,
+    deliveryCharge: sale.deliveryCharge,
+    total,
+    paidOnSale,
+    paymentMethod,
+    notes: sale.notes
+  };
+};
+
+export const addSale = async (sale: SaleInput) => {
+  try {
+    // Add the sale document
+    const docRef = await createWithAudit('sales', {
+      ...saleFields(sale),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding sale:', error);
+    throw error;
+  }
+};
+
+export const getSales = async (): Promise<SaleEntry[]> => {
+  try {
+    const q = query(businessCollection('sales'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(mapSale)
+      .filter(sale => !sale.isDeleted);
+  } catch (error) {
+    console.error('Error getting sales:', error);
+    throw error;
+  }
+};
+
+export const getSale = async (saleId: string): Promise<SaleEntry | null> => {
+  try {
+    const snapshot = await getDoc(businessDoc('sales', saleId));
+    return snapshot.exists() ? mapSale(snapshot) : null;
+  } catch (error) {
+    console.error('Error getting sale:', error);
+    throw error;
+  }
+};
+
+export const getDeletedSales = async (): Promise<SaleEntry[]> => {
+  try {
+    console.log('Fetching deleted sales...');
+    const q = query(
+      businessCollection('sales'), 
+      where('isDeleted', '==', true)
+    );
+    const querySnapshot = await getDocs(q);
+    console.log('Found deleted sales:', querySnapshot.docs.length);
+    console.log('Deleted sales data:', querySnapshot.docs.map(doc => doc.data()));
+    return querySnapshot.docs.map(mapSale);
+  } catch (error) {
+    console.error('Error getting deleted sales:', error);
+    throw error;
+  }
+};
+
+export const querySales = async (options: TransactionQuery = {}): Promise<TransactionPage<SaleEntry>> => {
+  try {
+    return await queryTransactions('sales', options, mapSale);
+  } catch (error) {
+    console.error('Error querying sales:', error);
+    throw error;
+  }
+};
+
+export const getSalesTotals = async (filter: TransactionFilter = {}): Promise<TransactionTotals> => {
+  try {
+    return await summarizeTransactions('sales', filter, 'total');
+  } catch (error) {
+    console.error('Error getting sales totals:', error);
+    throw error;
+  }
+};
+
+export const subscribeToSalesPage = (
+  options: Omit<TransactionQuery, 'cursor'>,
+  onChange: (page: LiveTransactionPage<SaleEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeTransactions('sales', options, mapSale, onChange, onError);
+
+export const subscribeToSales = (
+  onChange: (sales: LiveRecords<SaleEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('sales', mapSale, onChange, onError);
+
+// Sale returns functions
+
+// Units of each product already returned, keyed by productKey
+const returnedQuantities = (returns: SaleReturn[]): Map<string, number> => {
+  const returned = new Map<string, number>();
+  returns.filter(saleReturn => !saleReturn.isDeleted).forEach(saleReturn => {
+    saleReturn.items.forEach(line => {
+      const key = productKey(line);
+      returned.set(key, (returned.get(key) ?? 0) + line.quantity);
+    });
+  });
+  return returned;
+};
+
+// What is left to return of each product on a sale after its earlier returns
+export const getReturnableItems = (sale: SaleEntry, returns: SaleReturn[]): ReturnableItem[] => {
+  const returned = returnedQuantities(returns);
+  const items = new Map<string, ReturnableItem & { total: Money }>();
+  sale.items.forEach(line => {
+    const key = productKey(line);
+    const current = items.get(key) ?? {
+      productId: line.productId,
+      product: line.product,
+      price: ZERO_MONEY,
+      sold: 0,
+      returned: returned.get(key) ?? 0,
+      total: ZERO_MONEY
+    };
+    items.set(key, { ...current, sold: current.sold + line.quantity, total: addMoney(current.total, line.total) });
+  });
+  return [...items.values()].map(({ total, ...item }) => ({ ...item, price: divideMoney(total, item.sold) }));
+};
+
+// The refund for returning some of a sale's items; the form shows this before saving
+export const calculateReturnTotals = (
+  sale: SaleEntry,
+  items: { quantity: number; price: Money }[]
+): { subtotal: Money; discount: Money; total: Money } => {
+  const subtotal = sumMoney(items, item => multiplyMoney(item.price, Number(item.quantity)));
+  const discount = sale.subtotal > 0 ? multiplyMoney(sale.discount, subtotal / sale.subtotal) : ZERO_MONEY;
+  return { subtotal, discount, total: subtractMoney(subtotal, discount) };
+};
+
+export const getSaleReturnsForSale = async (saleId: string): Promise<SaleReturn[]> => {
+  try {
+    const q = query(
+      businessCollection('saleReturns'),
+      where('saleId', '==', saleId),
+      where('isDeleted', '==', false)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapSaleReturn);
+  } catch (error) {
+    console.error('Error getting sale returns:', error);
+    throw error;
+  }
+};
+
+// A sale may not be edited below, or deleted while it has, the quantities already returned
+const assertReturnsCovered = async (saleId: string, items: { productId?: string; product: string; quantity: number }[]) => {
+  const returned = returnedQuantities(await getSaleReturnsForSale(saleId));
+  if (returned.size > 0 && items.length === 0) {
+    throw new Error('This sale has returns. Delete its returns first.');
+  }
+  returned.forEach((quantity, key) => {
+    const sold = items
+      .filter(item => productKey(item) === key)
+      .reduce((sum, item) => sum + Number(item.quantity), 0);
+    if (sold < quantity) {
+      throw new Error('A sale cannot have fewer items than have already been returned');
+    }
+  });
+};
+
+// Validate a return against what is left to return of its sale
+const saleReturnFields = async (saleReturn: SaleReturnInput): Promise<DocumentData> => {
+  const saleDoc = await getDoc(businessDoc('sales', saleReturn.saleId));
+  if (!saleDoc.exists() || saleDoc.data().isDeleted) {
+    throw new Error('Sale not found');
+  }
+  const sale = mapSale(saleDoc);
+  const date = requireISODate(saleReturn.date);
+  if (date < sale.date) {
+    throw new Error('A return cannot be dated before its sale');
+  }
+  if (!saleReturn.reason.trim()) {
+    throw new Error('Please enter a reason for the return');
+  }
+  if (!RETURN_CONDITIONS.some(condition => condition.value === saleReturn.condition)) {
+    throw new Error('Please choose whether the items are restocked or damaged');
+  }
+
+  const [earlierReturns, payments] = await Promise.all([
+    getSaleReturnsForSale(saleReturn.saleId),
+    getSalePaymentsForSale(saleReturn.saleId)
+  ]);
+  const returnable = getReturnableItems(sale, earlierReturns);
+  const items = saleReturn.items
+    .filter(item => Number(item.quantity) > 0)
+    .map(item => {
+      const quantity = Number(item.quantity);
+      const available = returnable.find(line => productKey(line) === productKey(item));
+      if (!available) {
+        throw new Error(`${item.product} is not on this sale`);
+      }
+      if (!Number.isInteger(quantity) || quantity > available.sold - available.returned) {
+        throw new Error(`Only ${available.sold - available.returned} of ${available.product} can be returned`);
+      }
+      return {
+        ...(available.productId && { productId: available.productId }),
+        product: available.product,
+        quantity,
+        price: available.price,
+        total: multiplyMoney(available.price, quantity)
+      };
+    });
+
+  if (items.length === 0) {
+    throw new Error('Enter a quantity for at least one returned item');
+  }
+
+  // Whatever the customer still owes is cancelled before any cash is paid back
+  const totals = calculateReturnTotals(sale, items);
+  const { due } = getSaleBalance(sale, payments, earlierReturns);
+  const balanceReduced = due > 0 ? (due < totals.total ? due : totals.total) : ZERO_MONEY;
+
+  return {
+    date,
+    saleId: saleReturn.saleId,
+    ...(sale.customerId && {
+      customerId: sale.customerId,
+      customer: sale.customer
+    }),
+    order_number: sale.order_number,
+    items,
+    quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    ...totals,
+    balanceReduced,
+    reason: saleReturn.reason.trim(),
+    condition: saleReturn.condition,
+    notes: saleReturn.notes
+  };
+};
+
+export const addSaleReturn = async (saleReturn: SaleReturnInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('saleReturns', {
+      ...await saleReturnFields(saleReturn),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding sale return:', error);
+    throw error;
+  }
+};
+
+// Returns are corrected by deleting and recording them again; deleting reverses the refund
+export const deleteSaleReturn = async (returnId: string): Promise<void> => {
+  try {
+    await updateWithAudit('saleReturns', returnId, 'Return not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting sale return:', error);
+    throw error;
+  }
+};
+
+export const querySaleReturns = async (options: TransactionQuery = {}): Promise<TransactionPage<SaleReturn>> => {
+  try {
+    return await queryTransactions('saleReturns', options, mapSaleReturn);
+  } catch (error) {
+    console.error('Error querying sale returns:', error);
+    throw error;
+  }
+};
+
+export const getSaleReturnsTotals = async (filter: TransactionFilter = {}): Promise<TransactionTotals> => {
+  try {
+    return await summarizeTransactions('saleReturns', filter, 'total');
+  } catch (error) {
+    console.error('Error getting sale returns totals:', error);
+    throw error;
+  }
+};
+
+export const subscribeToSaleReturns = (
+  onChange: (saleReturns: LiveRecords<SaleReturn>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('saleReturns', mapSaleReturn, onChange, onError);
+
+// Sale payments functions
+
+// Settled and owed amounts of a sale, given the payments and returns recorded against it
+export const getSaleBalance = (sale: SaleEntry, payments: SalePayment[], returns: SaleReturn[]): SaleBalance => {
+  const paid = addMoney(
+    sale.paidOnSale,
+    sumMoney(payments.filter(payment => !payment.isDeleted), payment => payment.amount)
+  );
+  const credited = sumMoney(returns.filter(saleReturn => !saleReturn.isDeleted), saleReturn => saleReturn.balanceReduced);
+  const due = subtractMoney(subtractMoney(sale.total, paid), credited);
+  const status: PaymentStatus = due <= 0 ? 'paid' : paid > 0 || credited > 0 ? 'partial' : 'unpaid';
+  return { paid, credited, due, status };
+};
+
+// Payments or returns grouped by the sale they belong to
+export const groupBySale = <T extends { saleId: string }>(records: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  records.forEach(record => groups.set(record.saleId, [...(groups.get(record.saleId) ?? []), record]));
+  return groups;
+};
+
+export const getSalePaymentsForSale = async (saleId: string): Promise<SalePayment[]> => {
+  try {
+    const q = query(
+      businessCollection('salePayments'),
+      where('saleId', '==', saleId),
+      where('isDeleted', '==', false)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(mapSalePayment)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Error getting sale payments:', error);
+    throw error;
+  }
+};
+
+// A sale may not be edited to a total below what has already been settled on it
+const assertPaymentsCovered = async (saleId: string, total: Money, paidOnSale: Money) => {
+  const [payments, returns] = await Promise.all([getSalePaymentsForSale(saleId), getSaleReturnsForSale(saleId)]);
+  const settled = addMoney(
+    paidOnSale,
+    sumMoney(payments, payment => payment.amount),
+    sumMoney(returns, saleReturn => saleReturn.balanceReduced)
+  );
+  if (settled > total) {
+    throw new Error('The order total cannot be less than what has been paid on it');
+  }
+};
+
+// Validate a payment against what the customer still owes on its sale
+const salePaymentFields = async (payment: SalePaymentInput): Promise<DocumentData> => {
+  const saleDoc = await getDoc(businessDoc('sales', payment.saleId));
+  if (!saleDoc.exists() || saleDoc.data().isDeleted) {
+    throw new Error('Sale not found');
+  }
+  const sale = mapSale(saleDoc);
+  const date = requireISODate(payment.date);
+  if (date < sale.date) {
+    throw new Error('A payment cannot be dated before its sale');
+  }
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    throw new Error('Amount must be greater than 0');
+  }
+  if (!PAYMENT_METHODS.some(method => method.value === payment.method)) {
+    throw new Error('Please choose a payment method');
+  }
+
+  const [payments, returns] = await Promise.all([
+    getSalePaymentsForSale(payment.saleId),
+    getSaleReturnsForSale(payment.saleId)
+  ]);
+  if (payment.amount > getSaleBalance(sale, payments, returns).due) {
+    throw new Error('Amount is more than the customer still owes on this sale');
+  }
+
+  return {
+    date,
+    saleId: payment.saleId,
+    ...(sale.customerId && {
+      customerId: sale.customerId,
+      customer: sale.customer
+    }),
+    order_number: sale.order_number,
+    amount: payment.amount,
+    method: payment.method,
+    notes: payment.notes ?? ''
+  };
+};
+
+export const addSalePayment = async (payment: SalePaymentInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('salePayments', {
+      ...await salePaymentFields(payment),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding sale payment:', error);
+    throw error;
+  }
+};
+
+// Payments are corrected by deleting and recording them again; the amount is owed again
+export const deleteSalePayment = async (paymentId: string): Promise<void> => {
+  try {
+    await updateWithAudit('salePayments', paymentId, 'Payment not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting sale payment:', error);
+    throw error;
+  }
+};
+
+export const querySalePayments = async (options: TransactionQuery = {}): Promise<TransactionPage<SalePayment>> => {
+  try {
+    return await queryTransactions('salePayments', options, mapSalePayment);
+  } catch (error) {
+    console.error('Error querying sale payments:', error);
+    throw error;
+  }
+};
+
+export const subscribeToSalePayments = (
+  onChange: (payments: LiveRecords<SalePayment>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('salePayments', mapSalePayment, onChange, onError);
+
+export interface OutstandingSale {
+  sale: SaleEntry;
+  balance: SaleBalance;
+}
+
+// Live sales the customer still owes money on, oldest first
+export const getOutstandingSales = async (): Promise<OutstandingSale[]> => {
+  try {
+    const [sales, payments, returns] = await Promise.all([
+      getActiveRecords('sales', mapSale),
+      getActiveRecords('salePayments', mapSalePayment),
+      getActiveRecords('saleReturns', mapSaleReturn)
+    ]);
+    const paymentsBySale = groupBySale(payments);
+    const returnsBySale = groupBySale(returns);
+    return sales
+      .map(sale => ({
+        sale,
+        balance: getSaleBalance(sale, paymentsBySale.get(sale.id ?? '') ?? [], returnsBySale.get(sale.id ?? '') ?? [])
+      }))
+      .filter(({ balance }) => balance.due > 0)
+      .sort((a, b) => a.sale.date.localeCompare(b.sale.date));
+  } catch (error) {
+    console.error('Error getting outstanding sales:', error);
+    throw error;
+  }
+};
+
+// Purchases functions
+
+// Validate what was paid when a bill was entered and when the rest is due; paid in
+// full on the day unless told otherwise
+const billTerms = (
+  amount: Money,
+  paidOnEntry: Money | undefined,
+  date: string,
+  dueDate: string | undefined
+): { paidOnEntry: Money; dueDate: string } => {
+  const paid = paidOnEntry ?? amount;
+  if (paid < 0) {
+    throw new Error('Amount paid cannot be negative');
+  }
+  if (paid > amount) {
+    throw new Error('Amount paid cannot be more than the bill');
+  }
+  const due = dueDate ? requireISODate(dueDate) : date;
+  if (due < date) {
+    throw new Error('The due date cannot be before the bill date');
+  }
+  return { paidOnEntry: paid, dueDate: due };
+};
+
+// Validate a purchase and work out its amounts as invoiced and in base currency
+const purchaseFields = (purchase: PurchaseInput): DocumentData => {
+  // Normalize the product name
+  const normalizedProduct = purchase.product.trim();
+
+  if (!normalizedProduct) {
+    throw new Error('Product name is required');
+  }
+
+  if (Number(purchase.quantity) <= 0 || Number(purchase.originalPrice) <= 0) {
+    throw new Error('Quantity and price must be greater than 0');
+  }
+
+  const currency = normalizeCurrencyCode(purchase.currency);
+  if (!currency) {
+    throw new Error('Currency must be a three-letter code');
+  }
+
+  const exchangeRate = Number(purchase.exchangeRate);
+  if (!isValidExchangeRate(exchangeRate)) {
+    throw new Error('Exchange rate must be greater than 0');
+  }
+
+  const quantity = Number(purchase.quantity);
+  const originalTotal = multiplyMoney(purchase.originalPrice, quantity);
+  const total = convertToBase(originalTotal, exchangeRate);
+
+  const creditApplied = purchase.creditApplied ?? ZERO_MONEY;
+  if (creditApplied < 0) {
+    throw new Error('Supplier credit applied cannot be negative');
+  }
+  if (creditApplied > 0 && !purchase.supplierId) {
+    throw new Error('Choose a supplier to apply their credit');
+  }
+  if (creditApplied > total) {
+    throw new Error('Supplier credit applied cannot be more than the purchase total');
+  }
+
+  const advanceApplied = purchase.advanceApplied ?? ZERO_MONEY;
+  if (advanceApplied < 0) {
+    throw new Error('Advance applied cannot be negative');
+  }
+  if (addMoney(creditApplied, advanceApplied) > total) {
+    throw new Error('Supplier credit and advance applied cannot be more than the purchase total');
+  }
+
+  const date = requireISODate(purchase.date);
+  const { paidOnEntry: paidOnPurchase, dueDate } = billTerms(
+    subtractMoney(total, addMoney(creditApplied, advanceApplied)),
+    purchase.paidOnPurchase,
+    date,
+    purchase.dueDate
+  );
+
+  return {
+    ...purchase,
+    date,
+    product: normalizedProduct,
+    quantity,
+    currency,
+    exchangeRate,
+    originalTotal,
+    price: convertToBase(purchase.originalPrice, exchangeRate),
+    total,
+    creditApplied,
+    ...(purchase.purchaseOrderId && { advanceApplied }),
+    paidOnPurchase,
+    dueDate
+  };
+};
+
+export const addPurchase = async (purchase: PurchaseInput) => {
+  try {
+    await assertCreditAvailable(purchase.supplierId, purchase.creditApplied);
+    // Add the purchase document
+    const docRef = await createWithAudit('purchases', {
+      ...purchaseFields(purchase),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding purchase:', error);
+    throw error;
+  }
+};
+
+export const getPurchases = async (): Promise<PurchaseEntry[]> => {
+  try {
+    const q = query(businessCollection('purchases'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(mapPurchase)
       .filter(purchase => !purchase.isDeleted);
   } catch (error) {
-    console.error('Error getting purchases:', error);
+    console.error('Error getting purchases:', error);
+    throw error;
+  }
+};
+
+// Product functions
+export const getProducts = async (): Promise<Product[]> => {
+  try {
+    const q = query(businessCollection('products'), orderBy('name', 'asc'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapProduct);
+  } catch (error) {
+    console.error('Error getting products:', error);
+    throw error;
+  }
+};
+
+// Validate and normalize a product. People pick products by name and SKU, so
+// neither may be shared with another product.
+const productFields = async (product: ProductInput, productId?: string): Promise<DocumentData> => {
+  const name = product.name.trim();
+  const sku = product.sku.trim().toUpperCase();
+
+  if (!name) {
+    throw new Error('Product name is required');
+  }
+
+  if (Number(product.defaultPrice) < 0 || Number(product.reorderLevel) < 0) {
+    throw new Error('Default price and reorder level cannot be negative');
+  }
+
+  const others = (await getProducts()).filter(existing => existing.id !== productId);
+  if (others.some(existing => existing.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A product named "${name}" already exists`);
+  }
+  if (sku && others.some(existing => existing.sku === sku)) {
+    throw new Error(`SKU ${sku} is already used by another product`);
+  }
+
+  return {
+    name,
+    sku,
+    unit: product.unit.trim() || DEFAULT_PRODUCT_UNIT,
+    defaultPrice: product.defaultPrice,
+    reorderLevel: Number(product.reorderLevel),
+    isActive: product.isActive
+  };
+};
+
+export const addProduct = async (product: ProductInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('products', {
+      ...(await productFields(product)),
+      createdAt: Timestamp.now()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding product:', error);
+    throw error;
+  }
+};
+
+export const updateProduct = async (productId: string, product: ProductInput): Promise<void> => {
+  try {
+    await updateWithAudit('products', productId, 'Product not found', 'update', {
+      ...(await productFields(product, productId)),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating product:', error);
+    throw error;
+  }
+};
+
+// Show a record's product under its current name, which may have changed since the record was saved
+export const displayProductName = (entry: { productId?: string; product: string }, products: Product[]): string => {
+  return products.find(product => product.id === entry.productId)?.name ?? entry.product;
+};
+
+// One line summary of what an order contains, e.g. "Shirt × 2, Cap × 1"
+export const displaySaleItems = (sale: { items: SaleLineItem[] }, products: Product[]): string => {
+  return sale.items.map(item => `${displayProductName(item, products)} × ${item.quantity}`).join(', ');
+};
+
+// Customer functions
+export const getCustomers = async (): Promise<Customer[]> => {
+  try {
+    const q = query(
+      businessCollection('customers'),
+      where('isDeleted', '==', false),
+      orderBy('name', 'asc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapCustomer);
+  } catch (error) {
+    console.error('Error getting customers:', error);
+    throw error;
+  }
+};
+
+export const getCustomer = async (customerId: string): Promise<Customer | null> => {
+  try {
+    const snapshot = await getDoc(businessDoc('customers', customerId));
+    return snapshot.exists() ? mapCustomer(snapshot) : null;
+  } catch (error) {
+    console.error('Error getting customer:', error);
+    throw error;
+  }
+};
+
+// Validate and normalize a customer. Repeat buyers are recognised by phone
+// number, so two customers may not share one.
+const customerFields = async (customer: CustomerInput, customerId?: string): Promise<DocumentData> => {
+  const name = customer.name.trim();
+  const phone = customer.phone.trim();
+
+  if (!name) {
+    throw new Error('Customer name is required');
+  }
+
+  if (customer.gender && !CUSTOMER_GENDERS.includes(customer.gender)) {
+    throw new Error('Unknown gender');
+  }
+
+  if (phone) {
+    const others = (await getCustomers()).filter(existing => existing.id !== customerId);
+    const samePhone = others.find(existing => existing.phone === phone);
+    if (samePhone) {
+      throw new Error(`${phone} is already the phone number of ${samePhone.name}`);
+    }
+  }
+
+  return {
+    name,
+    phone,
+    address: customer.address.trim(),
+    gender: customer.gender,
+    notes: customer.notes.trim()
+  };
+};
+
+export const addCustomer = async (customer: CustomerInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('customers', {
+      ...(await customerFields(customer)),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding customer:', error);
+    throw error;
+  }
+};
+
+export const updateCustomer = async (customerId: string, customer: CustomerInput): Promise<void> => {
+  try {
+    await updateWithAudit('customers', customerId, 'Customer not found', 'update', {
+      ...(await customerFields(customer, customerId)),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating customer:', error);
+    throw error;
+  }
+};
+
+// Sales keep the customer's id and name, so a deleted customer still shows on them
+export const deleteCustomer = async (customerId: string): Promise<void> => {
+  try {
+    await updateWithAudit('customers', customerId, 'Customer not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting customer:', error);
+    throw error;
+  }
+};
+
+// A customer's orders, newest first
+export const getCustomerSales = async (customerId: string): Promise<SaleEntry[]> => {
+  try {
+    const q = query(
+      businessCollection('sales'),
+      where('customerId', '==', customerId),
+      where('isDeleted', '==', false),
+      orderBy('date', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapSale);
+  } catch (error) {
+    console.error('Error getting customer sales:', error);
+    throw error;
+  }
+};
+
+// Show a sale's customer under their current name, falling back to the name saved on the sale
+export const displayCustomerName = (entry: { customerId?: string; customer?: string }, customers: Customer[]): string => {
+  return customers.find(customer => customer.id === entry.customerId)?.name ?? entry.customer ?? '';
+};
+
+// Supplier functions
+export const getSuppliers = async (): Promise<Supplier[]> => {
+  try {
+    const q = query(
+      businessCollection('suppliers'),
+      where('isDeleted', '==', false),
+      orderBy('name', 'asc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapSupplier);
+  } catch (error) {
+    console.error('Error getting suppliers:', error);
+    throw error;
+  }
+};
+
+export const getSupplier = async (supplierId: string): Promise<Supplier | null> => {
+  try {
+    const snapshot = await getDoc(businessDoc('suppliers', supplierId));
+    return snapshot.exists() ? mapSupplier(snapshot) : null;
+  } catch (error) {
+    console.error('Error getting supplier:', error);
+    throw error;
+  }
+};
+
+// Validate and normalize a supplier. Suppliers are picked by name, so two may not share one.
+const supplierFields = async (supplier: SupplierInput, supplierId?: string): Promise<DocumentData> => {
+  const name = supplier.name.trim();
+  const paymentTermsDays = Number(supplier.paymentTermsDays) || 0;
+  const leadTimeDays = Number(supplier.leadTimeDays) || 0;
+
+  if (!name) {
+    throw new Error('Supplier name is required');
+  }
+
+  if (paymentTermsDays < 0 || !Number.isInteger(paymentTermsDays)) {
+    throw new Error('Payment terms must be a whole number of days');
+  }
+
+  if (leadTimeDays < 0 || !Number.isInteger(leadTimeDays)) {
+    throw new Error('Lead time must be a whole number of days');
+  }
+
+  const others = (await getSuppliers()).filter(existing => existing.id !== supplierId);
+  if (others.some(existing => existing.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`A supplier named "${name}" already exists`);
+  }
+
+  return {
+    name,
+    contactPerson: supplier.contactPerson.trim(),
+    phone: supplier.phone.trim(),
+    email: supplier.email.trim(),
+    address: supplier.address.trim(),
+    paymentTermsDays,
+    leadTimeDays,
+    notes: supplier.notes.trim()
+  };
+};
+
+export const addSupplier = async (supplier: SupplierInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('suppliers', {
+      ...(await supplierFields(supplier)),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding supplier:', error);
+    throw error;
+  }
+};
+
+export const updateSupplier = async (supplierId: string, supplier: SupplierInput): Promise<void> => {
+  try {
+    await updateWithAudit('suppliers', supplierId, 'Supplier not found', 'update', {
+      ...(await supplierFields(supplier, supplierId)),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    throw error;
+  }
+};
+
+// Purchases keep the supplier's id and name, so a deleted supplier still shows on them
+export const deleteSupplier = async (supplierId: string): Promise<void> => {
+  try {
+    await updateWithAudit('suppliers', supplierId, 'Supplier not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting supplier:', error);
+    throw error;
+  }
+};
+
+// A supplier's purchases in the date range, newest first
+export const getSupplierPurchases = async (
+  supplierId: string,
+  filter: TransactionFilter = {}
+): Promise<PurchaseEntry[]> => {
+  try {
+    const q = query(
+      businessCollection('purchases'),
+      where('supplierId', '==', supplierId),
+      ...filterConstraints(filter),
+      orderBy('date', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapPurchase);
+  } catch (error) {
+    console.error('Error getting supplier purchases:', error);
+    throw error;
+  }
+};
+
+// Show a purchase's supplier under their current name, falling back to the name saved on the purchase
+export const displaySupplierName = (entry: { supplierId?: string; supplier?: string }, suppliers: Supplier[]): string => {
+  return suppliers.find(supplier => supplier.id === entry.supplierId)?.name ?? entry.supplier ?? '';
+};
+
+// Returns and payments hold on to their sale, so they have to go first
+const assertSaleDeletable = async (saleId: string) => {
+  await assertReturnsCovered(saleId, []);
+  if ((await getSalePaymentsForSale(saleId)).length > 0) {
+    throw new Error('This sale has payments. Delete its payments first.');
+  }
+};
+
+export const deleteSale = async (saleId: string): Promise<void> => {
+  try {
+    await assertSaleDeletable(saleId);
+    // Soft delete the sale document
+    await updateWithAudit('sales', saleId, 'Sale not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting sale:', error);
+    throw error;
+  }
+};
+
+export const deletePurchase = async (purchaseId: string): Promise<void> => {
+  try {
+    await assertPurchaseReturnsCovered(purchaseId, 0);
+    await assertNoBillPayments(purchaseId);
+    const changes = {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    };
+    const purchaseDoc = await getDoc(businessDoc('purchases', purchaseId));
+    if (!purchaseDoc.exists() || !purchaseDoc.data().purchaseOrderId) {
+      // Soft delete the purchase document
+      await updateWithAudit('purchases', purchaseId, 'Purchase not found', 'delete', changes);
+      return;
+    }
+
+    // A delivery comes off its order in the same batch, so neither changes without the other
+    if (isOffline()) {
+      throw new Error('Stock received against a purchase order can only be deleted while online');
+    }
+    const batch = writeBatch(db);
+    queueUpdate(batch, purchaseDoc.ref, 'purchases', purchaseDoc.data(), 'delete', changes);
+    await queueReceiptRelease(batch, mapPurchase(purchaseDoc));
+    if (await commitBatch(batch)) {
+      repostCostOfSales();
+    }
+  } catch (error) {
+    console.error('Error deleting purchase:', error);
+    throw error;
+  }
+};
+
+// Functions to get deleted records
+export const getDeletedPurchases = async (): Promise<PurchaseEntry[]> => {
+  try {
+    const q = query(
+      businessCollection('purchases'),
+      where('isDeleted', '==', true)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapPurchase);
+  } catch (error) {
+    console.error('Error getting deleted purchases:', error);
+    throw error;
+  }
+};
+
+export const queryPurchases = async (options: TransactionQuery = {}): Promise<TransactionPage<PurchaseEntry>> => {
+  try {
+    return await queryTransactions('purchases', options, mapPurchase);
+  } catch (error) {
+    console.error('Error querying purchases:', error);
+    throw error;
+  }
+};
+
+export const getPurchasesTotals = async (filter: TransactionFilter = {}): Promise<TransactionTotals> => {
+  try {
+    return await summarizeTransactions('purchases', filter, 'total');
+  } catch (error) {
+    console.error('Error getting purchases totals:', error);
+    throw error;
+  }
+};
+
+export const subscribeToPurchasesPage = (
+  options: Omit<TransactionQuery, 'cursor'>,
+  onChange: (page: LiveTransactionPage<PurchaseEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeTransactions('purchases', options, mapPurchase, onChange, onError);
+
+export const subscribeToPurchases = (
+  onChange: (purchases: LiveRecords<PurchaseEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('purchases', mapPurchase, onChange, onError);
+
+export const restoreSale = async (saleId: string): Promise<void> => {
+  try {
+    // Restore the sale document
+    await updateWithAudit('sales', saleId, 'Sale not found', 'restore', {
+      isDeleted: false,
+      restoredAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error restoring sale:', error);
+    throw error;
+  }
+};
+
+export const updateSale = async (saleId: string, sale: SaleInput): Promise<void> => {
+  try {
+    await assertReturnsCovered(saleId, sale.items);
+    const fields = saleFields(sale);
+    await assertPaymentsCovered(saleId, fields.total, fields.paidOnSale);
+    await updateWithAudit('sales', saleId, 'Sale not found', 'update', {
+      ...fields,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating sale:', error);
+    throw error;
+  }
+};
+
+// Merge sales into the first of them, which becomes the given order, and delete the
+// rest in the same batch, so the order is never counted both merged and apart
+export const mergeSales = async (saleIds: string[], sale: SaleInput): Promise<void> => {
+  try {
+    if (isOffline()) {
+      throw new Error('Sales can only be merged while online');
+    }
+
+    const [firstId, ...otherIds] = saleIds;
+    await assertReturnsCovered(firstId, sale.items);
+    const fields = saleFields(sale);
+    await assertPaymentsCovered(firstId, fields.total, fields.paidOnSale);
+    for (const saleId of otherIds) {
+      await assertSaleDeletable(saleId);
+    }
+
+    const saleDocs = await Promise.all(saleIds.map(saleId => getDoc(businessDoc('sales', saleId))));
+    const batch = writeBatch(db);
+    saleDocs.forEach((saleDoc, index) => {
+      if (!saleDoc.exists() || saleDoc.data().isDeleted) {
+        throw new Error('Sale not found');
+      }
+      if (index === 0) {
+        queueUpdate(batch, saleDoc.ref, 'sales', saleDoc.data(), 'update', {
+          ...fields,
+          updatedAt: Timestamp.now()
+        });
+      } else {
+        queueUpdate(batch, saleDoc.ref, 'sales', saleDoc.data(), 'delete', {
+          isDeleted: true,
+          deletedAt: Timestamp.now()
+        });
+      }
+    });
+    if (await commitBatch(batch)) {
+      repostCostOfSales();
+    }
+  } catch (error) {
+    console.error('Error merging sales:', error);
+    throw error;
+  }
+};
+
+export const restorePurchase = async (purchaseId: string): Promise<void> => {
+  try {
+    // The credit it used may have gone to other purchases while it was deleted
+    const purchaseDoc = await getDoc(businessDoc('purchases', purchaseId));
+    if (purchaseDoc.exists()) {
+      const purchase = mapPurchase(purchaseDoc);
+      if (purchase.purchaseOrderId) {
+        throw new Error('Stock received against a purchase order is received again from the order');
+      }
+      await assertCreditAvailable(purchase.supplierId, purchase.creditApplied, purchaseId);
+    }
+    // Restore the purchase document
+    await updateWithAudit('purchases', purchaseId, 'Purchase not found', 'restore', {
+      isDeleted: false,
+      restoredAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error restoring purchase:', error);
+    throw error;
+  }
+};
+
+export const updatePurchase = async (purchaseId: string, updates: PurchaseInput): Promise<void> => {
+  try {
+    await assertNotOrderReceipt(purchaseId);
+    await assertPurchaseReturnsCovered(purchaseId, Number(updates.quantity));
+    await assertCreditAvailable(updates.supplierId, updates.creditApplied, purchaseId);
+    const fields = purchaseFields(updates);
+    await assertBillPaymentsCovered(
+      purchaseId,
+      subtractMoney(fields.total, addMoney(fields.creditApplied, fields.advanceApplied ?? ZERO_MONEY)),
+      fields.paidOnPurchase
+    );
+    await updateWithAudit('purchases', purchaseId, 'Purchase not found', 'update', {
+      ...fields,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating purchase:', error);
+    throw error;
+  }
+};
+
+// Purchase returns functions
+
+export const getPurchaseReturnsForPurchase = async (purchaseId: string): Promise<PurchaseReturn[]> => {
+  try {
+    const q = query(
+      businessCollection('purchaseReturns'),
+      where('purchaseId', '==', purchaseId),
+      where('isDeleted', '==', false)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(mapPurchaseReturn);
+  } catch (error) {
+    console.error('Error getting purchase returns:', error);
+    throw error;
+  }
+};
+
+// Units of a purchase that can still go back to the supplier
+export const getReturnableQuantity = (purchase: PurchaseEntry, returns: PurchaseReturn[]): number => {
+  return purchase.quantity - returns
+    .filter(purchaseReturn => !purchaseReturn.isDeleted)
+    .reduce((sum, purchaseReturn) => sum + purchaseReturn.quantity, 0);
+};
+
+// A purchase may not be edited below, or deleted while it has, the units already returned
+const assertPurchaseReturnsCovered = async (purchaseId: string, quantity: number) => {
+  const returns = await getPurchaseReturnsForPurchase(purchaseId);
+  const returned = returns.reduce((sum, purchaseReturn) => sum + purchaseReturn.quantity, 0);
+  if (returned > 0 && quantity === 0) {
+    throw new Error('This purchase has returns. Delete its returns first.');
+  }
+  if (quantity < returned) {
+    throw new Error('A purchase cannot have fewer units than have already been returned');
+  }
+};
+
+// Credit a supplier holds for us: credit-note returns beyond what they took off unpaid
+// bills, and advances left over on closed orders, less the credit applied to purchases. A purchase being edited is left out so
+// its own credit is available again.
+export const getSupplierCreditBalance = async (supplierId: string, excludePurchaseId?: string): Promise<Money> => {
+  try {
+    const [returnsSnapshot, purchasesSnapshot, ordersSnapshot] = await Promise.all([
+      getDocs(query(
+        businessCollection('purchaseReturns'),
+        where('supplierId', '==', supplierId),
+        where('isDeleted', '==', false)
+      )),
+      getDocs(query(
+        businessCollection('purchases'),
+        where('supplierId', '==', supplierId),
+        where('isDeleted', '==', false)
+      )),
+      getDocs(query(
+        businessCollection('purchaseOrders'),
+        where('supplierId', '==', supplierId),
+        where('isDeleted', '==', false)
+      ))
+    ]);
+    const credits = addMoney(
+      sumMoney(
+        returnsSnapshot.docs.map(mapPurchaseReturn).filter(purchaseReturn => purchaseReturn.settlement === 'credit'),
+        purchaseReturn => subtractMoney(purchaseReturn.total, purchaseReturn.balanceReduced)
+      ),
+      sumMoney(
+        ordersSnapshot.docs.map(mapPurchaseOrder).filter(isClosedOrder),
+        order => subtractMoney(order.advance, order.advanceUsed)
+      )
+    );
+    const applied = sumMoney(
+      purchasesSnapshot.docs.map(mapPurchase).filter(purchase => purchase.id !== excludePurchaseId),
+      purchase => purchase.creditApplied ?? ZERO_MONEY
+    );
+    return subtractMoney(credits, applied);
+  } catch (error) {
+    console.error('Error getting supplier credit:', error);
+    throw error;
+  }
+};
+
+const assertCreditAvailable = async (supplierId: string | undefined, creditApplied: Money | undefined, purchaseId?: string) => {
+  if (!supplierId || !creditApplied) {
+    return;
+  }
+  if (creditApplied > await getSupplierCreditBalance(supplierId, purchaseId)) {
+    throw new Error('Supplier credit applied is more than the credit available');
+  }
+};
+
+// Validate a return against what is left of its purchase
+const purchaseReturnFields = async (purchaseReturn: PurchaseReturnInput): Promise<DocumentData> => {
+  const purchaseDoc = await getDoc(businessDoc('purchases', purchaseReturn.purchaseId));
+  if (!purchaseDoc.exists() || purchaseDoc.data().isDeleted) {
+    throw new Error('Purchase not found');
+  }
+  const purchase = mapPurchase(purchaseDoc);
+  const date = requireISODate(purchaseReturn.date);
+  if (date < purchase.date) {
+    throw new Error('A return cannot be dated before its purchase');
+  }
+  if (!purchaseReturn.reason.trim()) {
+    throw new Error('Please enter a reason for the return');
+  }
+  if (!RETURN_SETTLEMENTS.some(settlement => settlement.value === purchaseReturn.settlement)) {
+    throw new Error('Please choose a supplier credit or a cash refund');
+  }
+  if (purchaseReturn.settlement === 'credit' && !purchase.supplierId) {
+    throw new Error('Only purchases with a supplier can be returned for credit');
+  }
+
+  const quantity = Number(purchaseReturn.quantity);
+  const [earlierReturns, payments] = await Promise.all([
+    getPurchaseReturnsForPurchase(purchaseReturn.purchaseId),
+    getBillPaymentsForBill(purchaseReturn.purchaseId)
+  ]);
+  const returnable = getReturnableQuantity(purchase, earlierReturns);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error('Quantity must be a whole number greater than 0');
+  }
+  if (quantity > returnable) {
+    throw new Error(`Only ${returnable} units of this purchase can be returned`);
+  }
+
+  // Whatever is still owed to the supplier is cancelled before any credit or refund
+  const total = multiplyMoney(purchase.price, quantity);
+  const { due } = getBillBalance(purchaseBill(purchase), payments, earlierReturns);
+  const balanceReduced = due > 0 ? (due < total ? due : total) : ZERO_MONEY;
+
+  return {
+    date,
+    purchaseId: purchaseReturn.purchaseId,
+    ...(purchase.productId && { productId: purchase.productId }),
+    product: purchase.product,
+    ...(purchase.supplierId && {
+      supplierId: purchase.supplierId,
+      supplier: purchase.supplier
+    }),
+    order_number: purchase.order_number ?? '',
+    quantity,
+    price: purchase.price,
+    total,
+    balanceReduced,
+    reason: purchaseReturn.reason.trim(),
+    settlement: purchaseReturn.settlement,
+    notes: purchaseReturn.notes
+  };
+};
+
+export const addPurchaseReturn = async (purchaseReturn: PurchaseReturnInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('purchaseReturns', {
+      ...await purchaseReturnFields(purchaseReturn),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding purchase return:', error);
+    throw error;
+  }
+};
+
+// A credit note can only be withdrawn while the supplier still holds that much credit
+export const deletePurchaseReturn = async (purchaseReturn: PurchaseReturn): Promise<void> => {
+  try {
+    if (!purchaseReturn.id) {
+      throw new Error('Return not found');
+    }
+    if (purchaseReturn.settlement === 'credit' && purchaseReturn.supplierId
+      && await getSupplierCreditBalance(purchaseReturn.supplierId) < subtractMoney(purchaseReturn.total, purchaseReturn.balanceReduced)) {
+      throw new Error('This credit has already been applied to purchases');
+    }
+    await updateWithAudit('purchaseReturns', purchaseReturn.id, 'Return not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting purchase return:', error);
+    throw error;
+  }
+};
+
+export const queryPurchaseReturns = async (options: TransactionQuery = {}): Promise<TransactionPage<PurchaseReturn>> => {
+  try {
+    return await queryTransactions('purchaseReturns', options, mapPurchaseReturn);
+  } catch (error) {
+    console.error('Error querying purchase returns:', error);
+    throw error;
+  }
+};
+
+export const getPurchaseReturnsTotals = async (filter: TransactionFilter = {}): Promise<TransactionTotals> => {
+  try {
+    return await summarizeTransactions('purchaseReturns', filter, 'total');
+  } catch (error) {
+    console.error('Error getting purchase returns totals:', error);
+    throw error;
+  }
+};
+
+export const subscribeToPurchaseReturns = (
+  onChange: (purchaseReturns: LiveRecords<PurchaseReturn>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('purchaseReturns', mapPurchaseReturn, onChange, onError);
+
+// Purchase order functions
+
+// Orders that will not receive anything more
+const isClosedOrder = (order: PurchaseOrder): boolean => {
+  return order.status === 'received' || order.status === 'cancelled';
+};
+
+// Validate an order and work out its value in base currency
+const purchaseOrderFields = (order: PurchaseOrderInput): DocumentData => {
+  const orderNumber = order.order_number.trim();
+  if (!orderNumber) {
+    throw new Error('Order number is required');
+  }
+  if (order.items.length === 0) {
+    throw new Error('Add at least one product to the order');
+  }
+
+  const items = order.items.map((line, index) => {
+    const lineLabel = order.items.length > 1 ? `Line ${index + 1}: ` : '';
+    const quantity = Number(line.quantity);
+    if (!line.productId) {
+      throw new Error(`${lineLabel}Please choose a product`);
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error(`${lineLabel}Quantity must be a whole number greater than 0`);
+    }
+    if (!(line.price > 0)) {
+      throw new Error(`${lineLabel}Price must be greater than 0`);
+    }
+    return { productId: line.productId, product: line.product.trim(), quantity, price: line.price };
+  });
+
+  const currency = normalizeCurrencyCode(order.currency);
+  if (!currency) {
+    throw new Error('Currency must be a three-letter code');
+  }
+
+  const exchangeRate = Number(order.exchangeRate);
+  if (!isValidExchangeRate(exchangeRate)) {
+    throw new Error('Exchange rate must be greater than 0');
+  }
+
+  const total = convertToBase(sumMoney(items, line => multiplyMoney(line.price, line.quantity)), exchangeRate);
+
+  if (!Number.isFinite(order.advance) || order.advance < 0) {
+    throw new Error('Advance cannot be negative');
+  }
+  if (order.advance > 0 && !order.supplierId) {
+    throw new Error('Choose a supplier to pay an advance');
+  }
+  if (order.advance > total) {
+    throw new Error('Advance cannot be more than the order total');
+  }
+
+  const date = requireISODate(order.date);
+  const expectedDate = order.expectedDate ? requireISODate(order.expectedDate) : '';
+  if (expectedDate && expectedDate < date) {
+    throw new Error('Expected delivery cannot be before the order date');
+  }
+
+  return {
+    date,
+    order_number: orderNumber,
+    supplierId: order.supplierId ?? '',
+    supplier: order.supplier ?? '',
+    expectedDate,
+    currency,
+    exchangeRate,
+    items,
+    total,
+    advance: order.advance,
+    status: order.status,
+    notes: order.notes ?? ''
+  };
+};
+
+const getActivePurchaseOrderDoc = async (orderId: string): Promise<QueryDocumentSnapshot> => {
+  const orderDoc = await getDoc(businessDoc('purchaseOrders', orderId));
+  if (!orderDoc.exists() || orderDoc.data().isDeleted) {
+    throw new Error('Purchase order not found');
+  }
+  return orderDoc;
+};
+
+const getActivePurchaseOrder = async (orderId: string): Promise<PurchaseOrder> => {
+  return mapPurchaseOrder(await getActivePurchaseOrderDoc(orderId));
+};
+
+const hasReceipts = (order: PurchaseOrder): boolean => {
+  return order.items.some(line => line.received > 0);
+};
+
+export const addPurchaseOrder = async (order: PurchaseOrderInput): Promise<string> => {
+  try {
+    const fields = purchaseOrderFields(order);
+    const docRef = await createWithAudit('purchaseOrders', {
+      ...fields,
+      items: fields.items.map((line: DocumentData) => ({ ...line, received: 0 })),
+      advanceUsed: ZERO_MONEY,
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding purchase order:', error);
+    throw error;
+  }
+};
+
+// Orders can be edited until the first delivery arrives
+export const updatePurchaseOrder = async (orderId: string, order: PurchaseOrderInput): Promise<void> => {
+  try {
+    const existing = await getActivePurchaseOrder(orderId);
+    if (isClosedOrder(existing) || hasReceipts(existing)) {
+      throw new Error('Only orders with nothing received yet can be edited');
+    }
+    const fields = purchaseOrderFields(order);
+    await updateWithAudit('purchaseOrders', orderId, 'Purchase order not found', 'update', {
+      ...fields,
+      items: fields.items.map((line: DocumentData) => ({ ...line, received: 0 })),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    throw error;
+  }
+};
+
+// Send a draft to the supplier; its advance is paid from here on
+export const placePurchaseOrder = async (orderId: string): Promise<void> => {
+  try {
+    const existing = await getActivePurchaseOrder(orderId);
+    if (existing.status !== 'draft') {
+      throw new Error('Only draft orders can be placed');
+    }
+    await updateWithAudit('purchaseOrders', orderId, 'Purchase order not found', 'update', {
+      status: 'ordered',
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error placing purchase order:', error);
+    throw error;
+  }
+};
+
+// Stop waiting for the rest of an order. What was received stays in stock, and any
+// advance not used on it becomes credit with the supplier.
+export const cancelPurchaseOrder = async (orderId: string): Promise<void> => {
+  try {
+    const existing = await getActivePurchaseOrder(orderId);
+    if (isClosedOrder(existing)) {
+      throw new Error('This order is already closed');
+    }
+    await updateWithAudit('purchaseOrders', orderId, 'Purchase order not found', 'update', {
+      status: 'cancelled',
+      cancelledAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error cancelling purchase order:', error);
+    throw error;
+  }
+};
+
+// Deleting an order reverses its advance, so it is only allowed before anything arrives
+export const deletePurchaseOrder = async (orderId: string): Promise<void> => {
+  try {
+    const existing = await getActivePurchaseOrder(orderId);
+    if (hasReceipts(existing)) {
+      throw new Error('This order has stock received against it. Cancel it instead.');
+    }
+    await updateWithAudit('purchaseOrders', orderId, 'Purchase order not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting purchase order:', error);
     throw error;
   }
 };
 
-// Product Categories functions
-export const addProductCategory = async (category: Omit<Category, 'id' | 'createdAt'>) => {
+// Record a delivery: each line with units received becomes a purchase at the order
+// price, and the advance still unused is applied to those purchases in line order.
+// The purchases and the order are written in one batch, so stock can never be
+// received without the order showing it.
+export const receivePurchaseOrder = async (orderId: string, receipt: PurchaseOrderReceipt): Promise<void> => {
   try {
-    const docRef = await addDoc(collection(db, 'productCategories'), {
-      ...category,
-      createdAt: Timestamp.now()
+    if (isOffline()) {
+      throw new Error('Purchase orders can only be received while online');
+    }
+
+    const orderDoc = await getActivePurchaseOrderDoc(orderId);
+    const order = mapPurchaseOrder(orderDoc);
+    if (order.status !== 'ordered' && order.status !== 'partial') {
+      throw new Error('Only placed orders that are still open can be received');
+    }
+
+    const date = requireISODate(receipt.date);
+    if (date < order.date) {
+      throw new Error('Goods cannot be received before the order date');
+    }
+
+    const quantities = order.items.map((line, index) => {
+      const quantity = Number(receipt.quantities[index] ?? 0);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        throw new Error(`${line.product}: units received must be a whole number`);
+      }
+      if (quantity > line.quantity - line.received) {
+        throw new Error(`${line.product}: only ${line.quantity - line.received} left to receive`);
+      }
+      return quantity;
     });
-    return docRef.id;
+    if (quantities.every(quantity => quantity === 0)) {
+      throw new Error('Enter the units received');
+    }
+
+    const batch = writeBatch(db);
+    let advanceLeft = subtractMoney(order.advance, order.advanceUsed);
+    for (const [index, line] of order.items.entries()) {
+      const quantity = quantities[index];
+      if (quantity === 0) continue;
+
+      const lineTotal = convertToBase(multiplyMoney(line.price, quantity), order.exchangeRate);
+      const advanceApplied = advanceLeft < lineTotal ? advanceLeft : lineTotal;
+      advanceLeft = subtractMoney(advanceLeft, advanceApplied);
+
+      queueCreate(batch, doc(businessCollection('purchases')), 'purchases', {
+        ...purchaseFields({
+          date,
+          productId: line.productId,
+          product: line.product,
+          supplierId: order.supplierId ?? '',
+          supplier: order.supplier ?? '',
+          order_number: order.order_number,
+          quantity,
+          currency: order.currency,
+          exchangeRate: order.exchangeRate,
+          originalPrice: line.price,
+          purchaseOrderId: orderId,
+          purchaseOrderLine: index,
+          advanceApplied,
+          notes: receipt.notes ?? ''
+        }),
+        createdAt: Timestamp.now(),
+        isDeleted: false
+      });
+    }
+
+    const items = order.items.map((line, index) => ({ ...line, received: line.received + quantities[index] }));
+    queueUpdate(batch, orderDoc.ref, 'purchaseOrders', orderDoc.data(), 'update', {
+      items,
+      advanceUsed: subtractMoney(order.advance, advanceLeft),
+      status: items.every(line => line.received >= line.quantity) ? 'received' : 'partial',
+      updatedAt: Timestamp.now()
+    });
+    if (await commitBatch(batch)) {
+      repostCostOfSales();
+    }
   } catch (error) {
-    console.error('Error adding product category:', error);
+    console.error('Error receiving purchase order:', error);
     throw error;
   }
 };
 
-export const getProductCategories = async (): Promise<Category[]> => {
+// Stock received against an order is changed through the order, so the two stay in step
+const assertNotOrderReceipt = async (purchaseId: string) => {
+  const purchaseDoc = await getDoc(businessDoc('purchases', purchaseId));
+  if (purchaseDoc.exists() && purchaseDoc.data().purchaseOrderId) {
+    throw new Error('Stock received against a purchase order cannot be edited. Delete it and receive it again.');
+  }
+};
+
+// Take a deleted delivery back off its order on the batch deleting it, reopening the
+// order unless it was cancelled, and free the advance it used
+const queueReceiptRelease = async (batch: WriteBatch, purchase: PurchaseEntry) => {
+  if (!purchase.purchaseOrderId || purchase.purchaseOrderLine === undefined) {
+    return;
+  }
+  const orderDoc = await getActivePurchaseOrderDoc(purchase.purchaseOrderId);
+  const order = mapPurchaseOrder(orderDoc);
+  const items = order.items.map((line, index) => index === purchase.purchaseOrderLine
+    ? { ...line, received: Math.max(0, line.received - purchase.quantity) }
+    : line);
+  queueUpdate(batch, orderDoc.ref, 'purchaseOrders', orderDoc.data(), 'update', {
+    items,
+    advanceUsed: subtractMoney(order.advanceUsed, purchase.advanceApplied ?? ZERO_MONEY),
+    ...(order.status !== 'cancelled' && { status: hasReceipts({ ...order, items }) ? 'partial' : 'ordered' }),
+    updatedAt: Timestamp.now()
+  });
+};
+
+export const queryPurchaseOrders = async (options: TransactionQuery = {}): Promise<TransactionPage<PurchaseOrder>> => {
   try {
-    const q = query(collection(db, 'productCategories'), orderBy('name', 'asc'));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      name: doc.data().name,
-      createdAt: doc.data().createdAt?.toDate()
-    }));
+    return await queryTransactions('purchaseOrders', options, mapPurchaseOrder);
   } catch (error) {
-    console.error('Error getting product categories:', error);
+    console.error('Error querying purchase orders:', error);
     throw error;
   }
 };
 
-export const deleteSale = async (saleId: string): Promise<void> => {
+export const subscribeToPurchaseOrders = (
+  onChange: (orders: LiveRecords<PurchaseOrder>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('purchaseOrders', mapPurchaseOrder, onChange, onError);
+
+// Stock adjustment functions
+
+const stockAdjustmentFields = (adjustment: StockAdjustmentInput): DocumentData => {
+  const reason = ADJUSTMENT_REASONS.find(option => option.value === adjustment.reason);
+  const quantity = Number(adjustment.quantity);
+  const unitCost = adjustment.unitCost;
+
+  if (!adjustment.productId) {
+    throw new Error('Please choose a product');
+  }
+  if (!reason) {
+    throw new Error('Please choose a reason for the adjustment');
+  }
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new Error('Quantity must be a whole number other than 0');
+  }
+  if (reason.direction === 'in' && quantity < 0) {
+    throw new Error(`${reason.label} can only add stock`);
+  }
+  if (reason.direction === 'out' && quantity > 0) {
+    throw new Error(`${reason.label} can only remove stock`);
+  }
+  if (!Number.isFinite(unitCost) || unitCost < 0) {
+    throw new Error('Unit cost cannot be negative');
+  }
+  if (adjustment.reason === 'opening' && unitCost === 0) {
+    throw new Error('Opening stock needs a unit cost');
+  }
+
+  return {
+    date: requireISODate(adjustment.date),
+    productId: adjustment.productId,
+    product: adjustment.product,
+    quantity,
+    reason: adjustment.reason,
+    unitCost,
+    value: multiplyMoney(unitCost, Math.abs(quantity)),
+    notes: adjustment.notes ?? ''
+  };
+};
+
+export const addStockAdjustment = async (adjustment: StockAdjustmentInput): Promise<string> => {
   try {
-    const saleRef = doc(db, 'sales', saleId);
-    const saleDoc = await getDoc(saleRef);
-    
-    if (!saleDoc.exists()) {
-      throw new Error('Sale not found');
-    }
-    
-    // Soft delete the sale document
-    await updateDoc(saleRef, {
-      isDeleted: true,
-      deletedAt: Timestamp.now()
+    const docRef = await createWithAudit('stockAdjustments', {
+      ...stockAdjustmentFields(adjustment),
+      createdAt: Timestamp.now(),
+      isDeleted: false
     });
+    return docRef.id;
   } catch (error) {
-    console.error('Error deleting sale:', error);
+    console.error('Error adding stock adjustment:', error);
     throw error;
   }
 };
 
-export const deletePurchase = async (purchaseId: string): Promise<void> => {
+export const deleteStockAdjustment = async (adjustmentId: string): Promise<void> => {
   try {
-    const purchaseRef = doc(db, 'purchases', purchaseId);
-    const purchaseDoc = await getDoc(purchaseRef);
-    
-    if (!purchaseDoc.exists()) {
-      throw new Error('Purchase not found');
-    }
-    
-    // Soft delete the purchase document
-    await updateDoc(purchaseRef, {
+    await updateWithAudit('stockAdjustments', adjustmentId, 'Stock adjustment not found', 'delete', {
       isDeleted: true,
       deletedAt: Timestamp.now()
     });
   } catch (error) {
-    console.error('Error deleting purchase:', error);
+    console.error('Error deleting stock adjustment:', error);
     throw error;
   }
 };
 
-// Functions to get deleted records
-export const getDeletedPurchases = async (): Promise<PurchaseEntry[]> => {
+export const queryStockAdjustments = async (options: TransactionQuery = {}): Promise<TransactionPage<StockAdjustment>> => {
   try {
-    const q = query(
-      collection(db, 'purchases'),
-      where('isDeleted', '==', true)
-    );
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      const date = data.date instanceof Timestamp ? formatDate(data.date.toDate()) : data.date;
-      return {
-        id: doc.id,
-        date,
-        product: data.product,
-        quantity: data.quantity,
-        price: data.price,
-        total: data.total,
-        notes: data.notes,
-        isDeleted: data.isDeleted
-      } as PurchaseEntry;
-    });
+    return await queryTransactions('stockAdjustments', options, mapStockAdjustment);
   } catch (error) {
-    console.error('Error getting deleted purchases:', error);
+    console.error('Error querying stock adjustments:', error);
     throw error;
   }
 };
 
-export const restoreSale = async (saleId: string): Promise<void> => {
+export const subscribeToStockAdjustments = (
+  onChange: (adjustments: LiveRecords<StockAdjustment>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('stockAdjustments', mapStockAdjustment, onChange, onError);
+
+const getActiveRecords = async <T extends { isDeleted?: boolean }>(
+  collectionName: string,
+  mapDoc: (doc: QueryDocumentSnapshot) => T
+): Promise<T[]> => {
+  const querySnapshot = await getDocs(businessCollection(collectionName));
+  return querySnapshot.docs.map(mapDoc).filter(record => !record.isDeleted);
+};
+
+// Every active record that moves stock
+const getStockRecords = async () => {
+  const [purchases, sales, saleReturns, purchaseReturns, adjustments] = await Promise.all([
+    getActiveRecords('purchases', mapPurchase),
+    getActiveRecords('sales', mapSale),
+    getActiveRecords('saleReturns', mapSaleReturn),
+    getActiveRecords('purchaseReturns', mapPurchaseReturn),
+    getActiveRecords('stockAdjustments', mapStockAdjustment)
+  ]);
+  return { purchases, sales, saleReturns, purchaseReturns, adjustments };
+};
+
+// Stock on hand and its value now, replaying every active record. The adjustment
+// form uses it to suggest what removed units cost.
+export const getInventoryValuation = async (method: CostingMethod): Promise<InventoryValuation> => {
   try {
-    const saleRef = doc(db, 'sales', saleId);
-    const saleDoc = await getDoc(saleRef);
-    
-    if (!saleDoc.exists()) {
-      throw new Error('Sale not found');
-    }
-    
-    // Restore the sale document
-    await updateDoc(saleRef, {
-      isDeleted: false,
-      restoredAt: Timestamp.now()
-    });
+    const { purchases, sales, saleReturns, purchaseReturns, adjustments } = await getStockRecords();
+    return valueInventory(purchases, sales, method, saleReturns, purchaseReturns, adjustments);
   } catch (error) {
-    console.error('Error restoring sale:', error);
+    console.error('Error valuing inventory:', error);
     throw error;
   }
 };
 
-export const restorePurchase = async (purchaseId: string): Promise<void> => {
+// Bring cost of goods sold and write-offs in the ledger in line with what the costing
+// method says each sale cost, each restocked return put back and each adjustment wrote
+// off, as the dashboard reports them
+const postCostOfSales = async (method: CostingMethod): Promise<number> => {
   try {
-    const purchaseRef = doc(db, 'purchases', purchaseId);
-    const purchaseDoc = await getDoc(purchaseRef);
-    
-    if (!purchaseDoc.exists()) {
-      throw new Error('Purchase not found');
-    }
-    
-    // Restore the purchase document
-    await updateDoc(purchaseRef, {
-      isDeleted: false,
-      restoredAt: Timestamp.now()
-    });
+    const { purchases, sales, saleReturns, purchaseReturns, adjustments } = await getStockRecords();
+    const { saleCosts, returnCosts, writeOffs } = valueInventory(purchases, sales, method, saleReturns, purchaseReturns, adjustments);
+    return await postStockCosts([
+      ...sales.filter(sale => sale.id).map(sale => ({
+        sourceCollection: 'sales' as const,
+        sourceId: sale.id as string,
+        date: sale.date,
+        description: `Cost of sale ${sale.order_number}`,
+        cost: saleCosts[sale.id as string] ?? ZERO_MONEY
+      })),
+      ...saleReturns.filter(saleReturn => saleReturn.id).map(saleReturn => ({
+        sourceCollection: 'saleReturns' as const,
+        sourceId: saleReturn.id as string,
+        date: saleReturn.date,
+        description: `Cost of return on ${saleReturn.order_number} restocked`,
+        cost: subtractMoney(ZERO_MONEY, returnCosts[saleReturn.id as string] ?? ZERO_MONEY)
+      })),
+      ...adjustments.filter(adjustment => adjustment.id).map(adjustment => ({
+        sourceCollection: 'stockAdjustments' as const,
+        sourceId: adjustment.id as string,
+        date: adjustment.date,
+        description: adjustmentDescription(adjustment),
+        cost: writeOffs[adjustment.id as string] ?? ZERO_MONEY
+      }))
+    ]);
   } catch (error) {
-    console.error('Error restoring purchase:', error);
+    console.error('Error posting cost of sales:', error);
     throw error;
   }
 };
 
+// Records whose changes move stock, and so what every later sale cost
+const STOCK_COLLECTIONS = ['purchases', 'sales', 'saleReturns', 'purchaseReturns', 'stockAdjustments'];
+
+let costRepost: Promise<void> = Promise.resolve();
+let isRepostQueued = false;
+
+// A sale's cost depends on every stock record before it, so it cannot be worked out in
+// the batch that saves a stock movement. It is brought up to date once the batch has
+// committed instead, one run at a time so two never post the same correction, and
+// writes made while a run waits share it. Only roles that can see purchases and write
+// to the journal cost sales; what others record is costed the next time one of them
+// opens the business or moves stock.
+export const repostCostOfSales = (): Promise<void> => {
+  if (isRepostQueued) {
+    return costRepost;
+  }
+  isRepostQueued = true;
+  costRepost = costRepost
+    .then(async () => {
+      isRepostQueued = false;
+      const role = getActiveRole();
+      if (isOffline() || !hasPermission(role, 'purchases.read') || !hasPermission(role, 'journalEntries.create')) {
+        return;
+      }
+      await postCostOfSales(getActiveCostingMethod());
+    })
+    // Already logged; the next stock movement tries again
+    .catch(() => undefined);
+  return costRepost;
+};
+
 // Expense functions
-export const addExpense = async (expense: Omit<ExpenseEntry, 'id'>) => {
+
+const expenseFields = (expense: ExpenseInput): DocumentData => {
+  if (!expense.category.trim() || !expense.description.trim()) {
+    throw new Error('Category and description are required');
+  }
+
+  if (Number(expense.amount) <= 0) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  const date = requireISODate(expense.date);
+  const { paidOnEntry: paidOnExpense, dueDate } = billTerms(expense.amount, expense.paidOnExpense, date, expense.dueDate);
+  return {
+    ...expense,
+    date,
+    amount: expense.amount,
+    paidOnExpense,
+    dueDate
+  };
+};
+
+export const addExpense = async (expense: ExpenseInput) => {
   try {
-    const docRef = await addDoc(collection(db, 'expenses'), {
-      ...expense,
-      date: expense.date,
+    const docRef = await createWithAudit('expenses', {
+      ...expenseFields(expense),
       createdAt: Timestamp.now(),
       isDeleted: false
     });
@@ -360,21 +3191,10 @@ export const addExpense = async (expense: Omit<ExpenseEntry, 'id'>) => {
 
 export const getExpenses = async (): Promise<ExpenseEntry[]> => {
   try {
-    const q = query(collection(db, 'expenses'));
+    const q = query(businessCollection('expenses'));
     const querySnapshot = await getDocs(q);
     return querySnapshot.docs
-      .map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          date: data.date,
-          category: data.category,
-          description: data.description,
-          amount: data.amount,
-          notes: data.notes,
-          isDeleted: data.isDeleted
-        } as ExpenseEntry;
-      })
+      .map(mapExpense)
       .filter(expense => !expense.isDeleted);
   } catch (error) {
     console.error('Error getting expenses:', error);
@@ -385,40 +3205,66 @@ export const getExpenses = async (): Promise<ExpenseEntry[]> => {
 export const getDeletedExpenses = async (): Promise<ExpenseEntry[]> => {
   try {
     const q = query(
-      collection(db, 'expenses'),
+      businessCollection('expenses'),
       where('isDeleted', '==', true)
     );
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      const date = data.date instanceof Timestamp ? formatDate(data.date.toDate()) : data.date;
-      return {
-        id: doc.id,
-        date,
-        category: data.category,
-        description: data.description,
-        amount: data.amount,
-        notes: data.notes,
-        isDeleted: data.isDeleted
-      } as ExpenseEntry;
-    });
+    return querySnapshot.docs.map(mapExpense);
   } catch (error) {
     console.error('Error getting deleted expenses:', error);
     throw error;
   }
 };
 
+export const queryExpenses = async (options: TransactionQuery = {}): Promise<TransactionPage<ExpenseEntry>> => {
+  try {
+    return await queryTransactions('expenses', options, mapExpense);
+  } catch (error) {
+    console.error('Error querying expenses:', error);
+    throw error;
+  }
+};
+
+// Category totals need one aggregate per category, so callers pass the categories they show
+export const getExpensesTotals = async (
+  filter: TransactionFilter = {},
+  categories: string[] = []
+): Promise<ExpenseTotals> => {
+  try {
+    const [totals, ...perCategory] = await Promise.all([
+      summarizeTransactions('expenses', filter, 'amount'),
+      ...categories.map(category => aggregateTransactions('expenses', filter, 'amount', [
+        where('category', '==', category)
+      ]))
+    ]);
+    return {
+      ...totals,
+      categoryTotals: Object.fromEntries(
+        categories.map((category, index) => [category, perCategory[index].amount])
+      )
+    };
+  } catch (error) {
+    console.error('Error getting expenses totals:', error);
+    throw error;
+  }
+};
+
+export const subscribeToExpensesPage = (
+  options: Omit<TransactionQuery, 'cursor'>,
+  onChange: (page: LiveTransactionPage<ExpenseEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeTransactions('expenses', options, mapExpense, onChange, onError);
+
+export const subscribeToExpenses = (
+  onChange: (expenses: LiveRecords<ExpenseEntry>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('expenses', mapExpense, onChange, onError);
+
 export const deleteExpense = async (expenseId: string): Promise<void> => {
   try {
-    const expenseRef = doc(db, 'expenses', expenseId);
-    const expenseDoc = await getDoc(expenseRef);
-    
-    if (!expenseDoc.exists()) {
-      throw new Error('Expense not found');
-    }
-    
+    await assertNoBillPayments(expenseId);
     // Soft delete the expense document
-    await updateDoc(expenseRef, {
+    await updateWithAudit('expenses', expenseId, 'Expense not found', 'delete', {
       isDeleted: true,
       deletedAt: Timestamp.now()
     });
@@ -430,15 +3276,8 @@ export const deleteExpense = async (expenseId: string): Promise<void> => {
 
 export const restoreExpense = async (expenseId: string): Promise<void> => {
   try {
-    const expenseRef = doc(db, 'expenses', expenseId);
-    const expenseDoc = await getDoc(expenseRef);
-    
-    if (!expenseDoc.exists()) {
-      throw new Error('Expense not found');
-    }
-    
     // Restore the expense document
-    await updateDoc(expenseRef, {
+    await updateWithAudit('expenses', expenseId, 'Expense not found', 'restore', {
       isDeleted: false,
       deletedAt: null
     });
@@ -448,12 +3287,240 @@ export const restoreExpense = async (expenseId: string): Promise<void> => {
   }
 };
 
+export const updateExpense = async (expenseId: string, updates: ExpenseInput): Promise<void> => {
+  try {
+    const fields = expenseFields(updates);
+    await assertBillPaymentsCovered(expenseId, fields.amount, fields.paidOnExpense);
+    await updateWithAudit('expenses', expenseId, 'Expense not found', 'update', {
+      ...fields,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating expense:', error);
+    throw error;
+  }
+};
+
+// Bill payments functions
+
+export const purchaseBill = (purchase: PurchaseEntry): Bill => ({
+  type: 'purchase',
+  id: purchase.id ?? '',
+  date: purchase.date,
+  dueDate: purchase.dueDate,
+  payee: purchase.supplier || 'No supplier',
+  ...(purchase.supplierId && { supplierId: purchase.supplierId }),
+  reference: purchase.order_number || purchase.product,
+  amount: subtractMoney(
+    purchase.total,
+    addMoney(purchase.creditApplied ?? ZERO_MONEY, purchase.advanceApplied ?? ZERO_MONEY)
+  ),
+  paidOnEntry: purchase.paidOnPurchase
+});
+
+export const expenseBill = (expense: ExpenseEntry): Bill => ({
+  type: 'expense',
+  id: expense.id ?? '',
+  date: expense.date,
+  dueDate: expense.dueDate,
+  payee: expense.category,
+  reference: expense.description,
+  amount: expense.amount,
+  paidOnEntry: expense.paidOnExpense
+});
+
+// Returns only apply to purchases; an expense has none
+export const getBillBalance = (bill: Bill, payments: BillPayment[], returns: PurchaseReturn[] = []): BillBalance => {
+  const paid = addMoney(
+    bill.paidOnEntry,
+    sumMoney(payments.filter(payment => !payment.isDeleted), payment => payment.amount)
+  );
+  const credited = sumMoney(returns.filter(purchaseReturn => !purchaseReturn.isDeleted), purchaseReturn => purchaseReturn.balanceReduced);
+  const due = subtractMoney(subtractMoney(bill.amount, paid), credited);
+  const status: PaymentStatus = due <= 0 ? 'paid' : paid > 0 || credited > 0 ? 'partial' : 'unpaid';
+  return { paid, credited, due, status };
+};
+
+// Payments grouped by the purchase or expense they pay
+export const groupByBill = (payments: BillPayment[]): Map<string, BillPayment[]> => {
+  const groups = new Map<string, BillPayment[]>();
+  payments.forEach(payment => groups.set(payment.billId, [...(groups.get(payment.billId) ?? []), payment]));
+  return groups;
+};
+
+// Purchase returns grouped by the purchase they were returned from
+export const groupByPurchase = (returns: PurchaseReturn[]): Map<string, PurchaseReturn[]> => {
+  const groups = new Map<string, PurchaseReturn[]>();
+  returns.forEach(purchaseReturn => groups.set(purchaseReturn.purchaseId, [...(groups.get(purchaseReturn.purchaseId) ?? []), purchaseReturn]));
+  return groups;
+};
+
+export const getBillPaymentsForBill = async (billId: string): Promise<BillPayment[]> => {
+  try {
+    const q = query(
+      businessCollection('billPayments'),
+      where('billId', '==', billId),
+      where('isDeleted', '==', false)
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(mapBillPayment)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Error getting bill payments:', error);
+    throw error;
+  }
+};
+
+const assertNoBillPayments = async (billId: string) => {
+  if ((await getBillPaymentsForBill(billId)).length > 0) {
+    throw new Error('This bill has payments. Delete its payments first.');
+  }
+};
+
+// A bill may not be edited to less than what has already been settled on it
+const assertBillPaymentsCovered = async (billId: string, amount: Money, paidOnEntry: Money) => {
+  const [payments, returns] = await Promise.all([getBillPaymentsForBill(billId), getPurchaseReturnsForPurchase(billId)]);
+  const settled = addMoney(
+    paidOnEntry,
+    sumMoney(payments, payment => payment.amount),
+    sumMoney(returns, purchaseReturn => purchaseReturn.balanceReduced)
+  );
+  if (settled > amount) {
+    throw new Error('The bill cannot be less than what has been paid on it');
+  }
+};
+
+// The live bill a payment is for, with what is still owed on it
+const getBillWithBalance = async (billType: BillType, billId: string): Promise<{ bill: Bill; balance: BillBalance }> => {
+  const billDoc = await getDoc(businessDoc(billType === 'purchase' ? 'purchases' : 'expenses', billId));
+  if (!billDoc.exists() || billDoc.data().isDeleted) {
+    throw new Error('Bill not found');
+  }
+  const bill = billType === 'purchase' ? purchaseBill(mapPurchase(billDoc)) : expenseBill(mapExpense(billDoc));
+  const [payments, returns] = await Promise.all([
+    getBillPaymentsForBill(billId),
+    billType === 'purchase' ? getPurchaseReturnsForPurchase(billId) : Promise.resolve([])
+  ]);
+  return { bill, balance: getBillBalance(bill, payments, returns) };
+};
+
+const billPaymentFields = async (payment: BillPaymentInput): Promise<DocumentData> => {
+  const { bill, balance } = await getBillWithBalance(payment.billType, payment.billId);
+  const date = requireISODate(payment.date);
+  if (date < bill.date) {
+    throw new Error('A payment cannot be dated before its bill');
+  }
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    throw new Error('Amount must be greater than 0');
+  }
+  if (!PAYMENT_METHODS.some(method => method.value === payment.method)) {
+    throw new Error('Please choose a payment method');
+  }
+  if (payment.amount > balance.due) {
+    throw new Error('Amount is more than is still owed on this bill');
+  }
+
+  return {
+    date,
+    billType: payment.billType,
+    billId: payment.billId,
+    ...(bill.supplierId && { supplierId: bill.supplierId }),
+    payee: bill.payee,
+    reference: bill.reference,
+    amount: payment.amount,
+    method: payment.method,
+    notes: payment.notes ?? ''
+  };
+};
+
+export const addBillPayment = async (payment: BillPaymentInput): Promise<string> => {
+  try {
+    const docRef = await createWithAudit('billPayments', {
+      ...await billPaymentFields(payment),
+      createdAt: Timestamp.now(),
+      isDeleted: false
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding bill payment:', error);
+    throw error;
+  }
+};
+
+// Payments are corrected by deleting and recording them again; the amount is owed again
+export const deleteBillPayment = async (paymentId: string): Promise<void> => {
+  try {
+    await updateWithAudit('billPayments', paymentId, 'Payment not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting bill payment:', error);
+    throw error;
+  }
+};
+
+export const subscribeToBillPayments = (
+  onChange: (payments: LiveRecords<BillPayment>) => void,
+  onError: SnapshotErrorHandler
+): Unsubscribe => subscribeActiveRecords('billPayments', mapBillPayment, onChange, onError);
+
+export interface OutstandingBill {
+  bill: Bill;
+  balance: BillBalance;
+}
+
+// Live purchases and expenses with money still to pay, soonest due first
+export const getOutstandingBills = async (): Promise<OutstandingBill[]> => {
+  try {
+    const [purchases, expenses, payments, returns] = await Promise.all([
+      getActiveRecords('purchases', mapPurchase),
+      getActiveRecords('expenses', mapExpense),
+      getActiveRecords('billPayments', mapBillPayment),
+      getActiveRecords('purchaseReturns', mapPurchaseReturn)
+    ]);
+    return outstandingBills(purchases, expenses, payments, returns);
+  } catch (error) {
+    console.error('Error getting outstanding bills:', error);
+    throw error;
+  }
+};
+
+// The same from records already loaded, e.g. by live subscriptions
+export const outstandingBills = (
+  purchases: PurchaseEntry[],
+  expenses: ExpenseEntry[],
+  payments: BillPayment[],
+  returns: PurchaseReturn[]
+): OutstandingBill[] => {
+  const paymentsByBill = groupByBill(payments);
+  const returnsByPurchase = groupByPurchase(returns);
+  return [
+    ...purchases.map(purchase => ({
+      bill: purchaseBill(purchase),
+      balance: getBillBalance(
+        purchaseBill(purchase),
+        paymentsByBill.get(purchase.id ?? '') ?? [],
+        returnsByPurchase.get(purchase.id ?? '') ?? []
+      )
+    })),
+    ...expenses.map(expense => ({
+      bill: expenseBill(expense),
+      balance: getBillBalance(expenseBill(expense), paymentsByBill.get(expense.id ?? '') ?? [])
+    }))
+  ]
+    .filter(({ balance }) => balance.due > 0)
+    .sort((a, b) => a.bill.dueDate.localeCompare(b.bill.dueDate));
+};
+
 // Expense Categories functions
 export const addExpenseCategory = async (category: Omit<ExpenseCategory, 'id' | 'createdAt'>) => {
   try {
-    const docRef = await addDoc(collection(db, 'expenseCategories'), {
+    const docRef = await createWithAudit('expenseCategories', {
       ...category,
-      createdAt: Timestamp.now()
+      createdAt: Timestamp.now(),
+      isDeleted: false
     });
     return docRef.id;
   } catch (error) {
@@ -464,24 +3531,41 @@ export const addExpenseCategory = async (category: Omit<ExpenseCategory, 'id' |
 
 export const getExpenseCategories = async (): Promise<ExpenseCategory[]> => {
   try {
-    const q = query(collection(db, 'expenseCategories'), orderBy('name', 'asc'));
+    const q = query(businessCollection('expenseCategories'), orderBy('name', 'asc'));
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      name: doc.data().name,
-      createdAt: doc.data().createdAt?.toDate()
-    }));
+    // Filtered here rather than in the query, since categories added before they were
+    // soft deleted have no isDeleted field
+    return querySnapshot.docs
+      .filter(doc => !doc.data().isDeleted)
+      .map(doc => ({
+        id: doc.id,
+        name: doc.data().name,
+        createdAt: doc.data().createdAt?.toDate()
+      }));
   } catch (error) {
     console.error('Error getting expense categories:', error);
     throw error;
   }
 };
 
+export const deleteExpenseCategory = async (categoryId: string): Promise<void> => {
+  try {
+    await updateWithAudit('expenseCategories', categoryId, 'Category not found', 'delete', {
+      isDeleted: true,
+      deletedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error deleting expense category:', error);
+    throw error;
+  }
+};
+
 // Asset functions
 export const addAsset = async (asset: Omit<AssetEntry, 'id'>) => {
   try {
-    const docRef = await addDoc(collection(db, 'assets'), {
+    const docRef = await createWithAudit('assets', {
       ...asset,
+      purchaseDate: requireISODate(asset.purchaseDate),
       lastUpdated: Timestamp.now(),
       createdAt: Timestamp.now()
     });
@@ -494,13 +3578,13 @@ export const addAsset = async (asset: Omit<AssetEntry, 'id'>) => {
 
 export const getAssets = async (): Promise<AssetEntry[]> => {
   try {
-    const q = query(collection(db, 'assets'));
+    const q = query(businessCollection('assets'));
     const querySnapshot = await getDocs(q);
     return querySnapshot.docs.map(doc => ({
       id: doc.id,
       name: doc.data().name,
-      purchaseDate: doc.data().purchaseDate,
-      cost: doc.data().cost,
+      purchaseDate: readDate(doc.data().purchaseDate),
+      cost: readStoredMoney(doc.data(), 'cost'),
       usefulLife: doc.data().usefulLife,
       lastUpdated: doc.data().lastUpdated,
       note: doc.data().note
@@ -513,15 +3597,9 @@ export const getAssets = async (): Promise<AssetEntry[]> => {
 
 export const updateAsset = async (assetId: string, updates: Partial<AssetEntry>): Promise<void> => {
   try {
-    const assetRef = doc(db, 'assets', assetId);
-    const assetDoc = await getDoc(assetRef);
-    
-    if (!assetDoc.exists()) {
-      throw new Error('Asset not found');
-    }
-    
-    await updateDoc(assetRef, {
+    await updateWithAudit('assets', assetId, 'Asset not found', 'update', {
       ...updates,
+      ...(updates.purchaseDate !== undefined && { purchaseDate: requireISODate(updates.purchaseDate) }),
       lastUpdated: Timestamp.now()
     });
   } catch (error) {
@@ -532,14 +3610,7 @@ export const updateAsset = async (assetId: string, updates: Partial<AssetEntry>)
 
 export const deleteAsset = async (assetId: string): Promise<void> => {
   try {
-    const assetRef = doc(db, 'assets', assetId);
-    const assetDoc = await getDoc(assetRef);
-    
-    if (!assetDoc.exists()) {
-      throw new Error('Asset not found');
-    }
-    
-    await updateDoc(assetRef, {
+    await updateWithAudit('assets', assetId, 'Asset not found', 'delete', {
       isDeleted: true,
       deletedAt: Timestamp.now()
     });
@@ -552,9 +3623,9 @@ export const deleteAsset = async (assetId: string): Promise<void> => {
 // Investment functions
 export const addInvestment = async (investment: Omit<InvestmentEntry, 'id'>) => {
   try {
-    const docRef = await addDoc(collection(db, 'investments'), {
+    const docRef = await createWithAudit('investments', {
       ...investment,
-      date: investment.date,
+      date: requireISODate(investment.date),
       createdAt: Timestamp.now(),
       isDeleted: false
     });
@@ -567,16 +3638,16 @@ export const addInvestment = async (investment: Omit<InvestmentEntry, 'id'>) =>
 
 export const getInvestments = async (): Promise<InvestmentEntry[]> => {
   try {
-    const q = query(collection(db, 'investments'));
+    const q = query(businessCollection('investments'));
     const querySnapshot = await getDocs(q);
     return querySnapshot.docs
       .map(doc => {
         const data = doc.data();
         return {
           id: doc.id,
-          date: data.date,
+          date: readDate(data.date),
           investor: data.investor,
-          amount: data.amount,
+          amount: readStoredMoney(data, 'amount'),
           note: data.note,
           isDeleted: data.isDeleted
         } as InvestmentEntry;
@@ -591,18 +3662,18 @@ export const getInvestments = async (): Promise<InvestmentEntry[]> => {
 export const getDeletedInvestments = async (): Promise<InvestmentEntry[]> => {
   try {
     const q = query(
-      collection(db, 'investments'),
+      businessCollection('investments'),
       where('isDeleted', '==', true)
     );
     const querySnapshot = await getDocs(q);
     return querySnapshot.docs.map(doc => {
       const data = doc.data();
-      const date = data.date instanceof Timestamp ? formatDate(data.date.toDate()) : data.date;
+      const date = readDate(data.date);
       return {
         id: doc.id,
         date,
         investor: data.investor,
-        amount: data.amount,
+        amount: readStoredMoney(data, 'amount'),
         note: data.note,
         isDeleted: data.isDeleted
       } as InvestmentEntry;
@@ -615,15 +3686,8 @@ export const getDeletedInvestments = async (): Promise<InvestmentEntry[]> => {
 
 export const deleteInvestment = async (investmentId: string): Promise<void> => {
   try {
-    const investmentRef = doc(db, 'investments', investmentId);
-    const investmentDoc = await getDoc(investmentRef);
-    
-    if (!investmentDoc.exists()) {
-      throw new Error('Investment not found');
-    }
-    
     // Soft delete the investment document
-    await updateDoc(investmentRef, {
+    await updateWithAudit('investments', investmentId, 'Investment not found', 'delete', {
       isDeleted: true,
       deletedAt: Timestamp.now()
     });
@@ -635,15 +3699,8 @@ export const deleteInvestment = async (investmentId: string): Promise<void> => {
 
 export const restoreInvestment = async (investmentId: string): Promise<void> => {
   try {
-    const investmentRef = doc(db, 'investments', investmentId);
-    const investmentDoc = await getDoc(investmentRef);
-    
-    if (!investmentDoc.exists()) {
-      throw new Error('Investment not found');
-    }
-    
     // Restore the investment document
-    await updateDoc(investmentRef, {
+    await updateWithAudit('investments', investmentId, 'Investment not found', 'restore', {
       isDeleted: false,
       deletedAt: null
     });
@@ -651,4 +3708,27 @@ export const restoreInvestment = async (investmentId: string): Promise<void> =>
     console.error('Error restoring investment:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+export const updateInvestment = async (investmentId: string, updates: Omit<InvestmentEntry, 'id' | 'isDeleted'>): Promise<void> => {
+  try {
+    if (!updates.investor.trim()) {
+      throw new Error('Investor is required');
+    }
+
+    if (Number(updates.amount) <= 0) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    await updateWithAudit('investments', investmentId, 'Investment not found', 'update', {
+      ...updates,
+      date: requireISODate(updates.date),
+      investor: updates.investor.trim(),
+      amount: updates.amount,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating investment:', error);
+    throw error;
+  }
+};
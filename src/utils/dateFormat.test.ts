@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isAmbiguousSlashDate, toISODate } from './dateFormat';
+
+describe('toISODate', () => {
+  it('keeps canonical dates as they are', () => {
+    expect(toISODate('2025-03-04')).toBe('2025-03-04');
+    expect(toISODate(' 2025-03-04 ')).toBe('2025-03-04');
+  });
+
+  it('reads legacy month-name formats', () => {
+    expect(toISODate('04-Mar-2025')).toBe('2025-03-04');
+    expect(toISODate('4-Mar-2025')).toBe('2025-03-04');
+  });
+
+  it('reads ambiguous slash dates in the order asked for', () => {
+    expect(toISODate('03/04/2025')).toBe('2025-04-03');
+    expect(toISODate('03/04/2025', 'month-first')).toBe('2025-03-04');
+  });
+
+  it('reads slash dates valid only one way round that way', () => {
+    expect(toISODate('25/12/2024')).toBe('2024-12-25');
+    expect(toISODate('12/25/2024')).toBe('2024-12-25');
+    expect(toISODate('25/12/2024', 'month-first')).toBe('2024-12-25');
+  });
+
+  it('reads timestamps and dates as the calendar day', () => {
+    expect(toISODate({ seconds: new Date(2025, 0, 15, 10).getTime() / 1000 })).toBe('2025-01-15');
+    expect(toISODate(new Date(2025, 0, 15))).toBe('2025-01-15');
+  });
+
+  it('returns null for anything it cannot understand', () => {
+    expect(toISODate('')).toBeNull();
+    expect(toISODate('next tuesday')).toBeNull();
+    expect(toISODate('31/02/2025')).toBeNull();
+    expect(toISODate(undefined)).toBeNull();
+    expect(toISODate(new Date('invalid'))).toBeNull();
+  });
+});
+
+describe('isAmbiguousSlashDate', () => {
+  it('flags slash dates that are a different day each way round', () => {
+    expect(isAmbiguousSlashDate('03/04/2025')).toBe(true);
+  });
+
+  it('does not flag dates that read the same or only one way', () => {
+    expect(isAmbiguousSlashDate('04/04/2025')).toBe(false);
+    expect(isAmbiguousSlashDate('25/12/2024')).toBe(false);
+    expect(isAmbiguousSlashDate('2025-03-04')).toBe(false);
+    expect(isAmbiguousSlashDate(null)).toBe(false);
+  });
+});
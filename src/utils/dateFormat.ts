@@ -1,5 +1,111 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+
+dayjs.extend(customParseFormat);
+
+// Every record date is stored as a plain calendar date in this format
+export const ISO_DATE_FORMAT = 'YYYY-MM-DD';
+
+// Which way round slash dates in older records are: 03/04/2024 is 3 April day
+// first and 4 March month first
+export type SlashDateOrder = 'day-first' | 'month-first';
+
+const SLASH_DATE_FORMATS: Record<SlashDateOrder, string> = {
+  'day-first': 'DD/MM/YYYY',
+  'month-first': 'MM/DD/YYYY'
+};
+
+// Formats found in records written before dates were canonical, tried in order
+const legacyDateFormats = (slashOrder: SlashDateOrder): string[] => [
+  'DD-MMM-YYYY',
+  'D-MMM-YYYY',
+  SLASH_DATE_FORMATS[slashOrder],
+  SLASH_DATE_FORMATS[slashOrder === 'day-first' ? 'month-first' : 'day-first']
+];
+
+const isTimestampLike = (value: unknown): value is { seconds: number } => {
+  return typeof value === 'object' && value !== null && typeof (value as { seconds?: unknown }).seconds === 'number';
+};
+
+// Convert any stored date representation (ISO string, legacy string, Firestore
+// Timestamp or Date) to a canonical ISO date, or null if it can't be understood.
+// Slash dates valid either way round are read in slashOrder.
+export const toISODate = (value: unknown, slashOrder: SlashDateOrder = 'day-first'): string | null => {
+  if (value instanceof Date) {
+    return dayjs(value).isValid() ? dayjs(value).format(ISO_DATE_FORMAT) : null;
+  }
+  if (isTimestampLike(value)) {
+    return dayjs(value.seconds * 1000).format(ISO_DATE_FORMAT);
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (dayjs(trimmed, ISO_DATE_FORMAT, true).isValid()) {
+    return trimmed;
+  }
+  // Full ISO timestamps such as "2025-01-15T10:00:00.000Z"
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed) && dayjs(trimmed).isValid()) {
+    return dayjs(trimmed).format(ISO_DATE_FORMAT);
+  }
+  const format = legacyDateFormats(slashOrder).find(candidate => dayjs(trimmed, candidate, true).isValid());
+  return format ? dayjs(trimmed, format, true).format(ISO_DATE_FORMAT) : null;
+};
+
+// A slash date that is a different valid date day first than month first
+export const isAmbiguousSlashDate = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const [dayFirst, monthFirst] = [SLASH_DATE_FORMATS['day-first'], SLASH_DATE_FORMATS['month-first']]
+    .map(format => dayjs(value.trim(), format, true));
+  return dayFirst.isValid() && monthFirst.isValid() && !dayFirst.isSame(monthFirst, 'day');
+};
+
+// Parse a canonical date as local midnight (new Date('YYYY-MM-DD') would use UTC)
+export const parseISODate = (date: string): Date => {
+  return dayjs(date, ISO_DATE_FORMAT).toDate();
+};
+
+export const todayISODate = (): string => {
+  return dayjs().format(ISO_DATE_FORMAT);
+};
+
+// ISO bounds for the list filters: a custom range, or a preset period ending today
+export const getFilterBounds = (
+  filter: string,
+  range: { from: Date; to: Date } | null
+): { from: string | null; to: string | null } => {
+  if (range) {
+    return {
+      from: dayjs(range.from).format(ISO_DATE_FORMAT),
+      to: dayjs(range.to).format(ISO_DATE_FORMAT)
+    };
+  }
+
+  const today = dayjs();
+  switch (filter) {
+    case '7days':
+      return { from: today.subtract(7, 'day').format(ISO_DATE_FORMAT), to: today.format(ISO_DATE_FORMAT) };
+    case '1month':
+      return { from: today.subtract(1, 'month').format(ISO_DATE_FORMAT), to: today.format(ISO_DATE_FORMAT) };
+    case '3months':
+      return { from: today.subtract(3, 'month').format(ISO_DATE_FORMAT), to: today.format(ISO_DATE_FORMAT) };
+    default:
+      return { from: null, to: null };
+  }
+};
+
+// Whole calendar months spanned by two ISO dates, counting both ends
+export const monthsSpanned = (from: string, to: string): number => {
+  const start = parseISODate(from);
+  const end = parseISODate(to);
+  return (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth()) + 1;
+};
+
 export const formatDate = (date: string | Date): string => {
-  const d = new Date(date);
+  const d = dayjs(date).toDate();
   const day = d.getDate().toString().padStart(2, '0');
   const month = (d.getMonth() + 1).toString().padStart(2, '0');
   const year = d.getFullYear();
@@ -7,5 +113,5 @@ export const formatDate = (date: string | Date): string => {
 };
 
 export const formatDateForInput = (date: Date): string => {
-  return date.toISOString().split('T')[0];
-}; 
\ No newline at end of file
+  return dayjs(date).format(ISO_DATE_FORMAT);
+};
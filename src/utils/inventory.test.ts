@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import type { PurchaseEntry, SaleEntry, SaleReturn, StockAdjustment } from './database';
+import { valueInventory } from './inventory';
+import { ZERO_MONEY, toMinorUnits } from './money';
+
+const purchase = (id: string, date: string, quantity: number, price: number): PurchaseEntry => ({
+  id,
+  date,
+  product: 'Widget',
+  quantity,
+  price: toMinorUnits(price),
+  total: toMinorUnits(price * quantity),
+  paidOnPurchase: toMinorUnits(price * quantity),
+  dueDate: date
+});
+
+const sale = (id: string, date: string, quantity: number): SaleEntry => {
+  const total = toMinorUnits(20 * quantity);
+  return {
+    id,
+    date,
+    order_number: id,
+    items: [{ product: 'Widget', quantity, price: toMinorUnits(20), total }],
+    quantity,
+    subtotal: total,
+    discount: ZERO_MONEY,
+    deliveryCharge: ZERO_MONEY,
+    total,
+    paidOnSale: total,
+    paymentMethod: 'cash'
+  };
+};
+
+const restock = (id: string, date: string, saleId: string, quantity: number): SaleReturn => {
+  const total = toMinorUnits(20 * quantity);
+  return {
+    id,
+    date,
+    saleId,
+    order_number: saleId,
+    items: [{ product: 'Widget', quantity, price: toMinorUnits(20), total }],
+    quantity,
+    subtotal: total,
+    discount: ZERO_MONEY,
+    total,
+    balanceReduced: ZERO_MONEY,
+    reason: 'Changed mind',
+    condition: 'restock'
+  };
+};
+
+const adjustment = (id: string, date: string, quantity: number, unitCost: number, reason: StockAdjustment['reason']): StockAdjustment => ({
+  id,
+  date,
+  product: 'Widget',
+  quantity,
+  reason,
+  unitCost: toMinorUnits(unitCost),
+  value: toMinorUnits(Math.abs(quantity) * unitCost)
+});
+
+// Ten units at 5.00, then ten at 8.00
+const purchases = [
+  purchase('p1', '2025-01-01', 10, 5),
+  purchase('p2', '2025-01-05', 10, 8)
+];
+
+describe('valueInventory with FIFO', () => {
+  it('costs a sale from the oldest units first', () => {
+    const valuation = valueInventory(purchases, [sale('s1', '2025-01-10', 15)], 'fifo');
+
+    expect(valuation.saleCosts.s1).toBe(toMinorUnits(90));
+    expect(valuation.stock.Widget.quantity).toBe(5);
+    expect(valuation.stock.Widget.currentValue).toBe(toMinorUnits(40));
+    expect(valuation.stock.Widget.averageCost).toBe(toMinorUnits(8));
+  });
+
+  it('treats a purchase on the day of a sale as arriving first', () => {
+    const valuation = valueInventory(
+      [purchase('p1', '2025-01-01', 10, 5)],
+      [sale('s1', '2025-01-01', 4)],
+      'fifo'
+    );
+
+    expect(valuation.saleCosts.s1).toBe(toMinorUnits(20));
+  });
+
+  it('puts restocked units back at what they cost on the sale', () => {
+    const valuation = valueInventory(
+      purchases,
+      [sale('s1', '2025-01-10', 15)],
+      'fifo',
+      [restock('r1', '2025-01-12', 's1', 3)]
+    );
+
+    expect(valuation.returnCosts.r1).toBe(toMinorUnits(18));
+    expect(valuation.stock.Widget.quantity).toBe(8);
+  });
+
+  it('writes off removed units from the layers, not at the cost entered', () => {
+    const valuation = valueInventory(
+      purchases,
+      [],
+      'fifo',
+      [],
+      [],
+      [adjustment('a1', '2025-01-10', -3, 100, 'damaged')]
+    );
+
+    expect(valuation.writeOffs.a1).toBe(toMinorUnits(15));
+    expect(valuation.stock.Widget.quantity).toBe(17);
+  });
+
+  it('writes nothing off for opening stock and costs later sales from it', () => {
+    const valuation = valueInventory(
+      [],
+      [sale('s1', '2025-01-02', 2)],
+      'fifo',
+      [],
+      [],
+      [adjustment('a1', '2025-01-01', 4, 3, 'opening')]
+    );
+
+    expect(valuation.writeOffs.a1).toBe(ZERO_MONEY);
+    expect(valuation.saleCosts.s1).toBe(toMinorUnits(6));
+  });
+});
+
+describe('valueInventory with weighted average', () => {
+  it('costs a sale at the running average of the units on hand', () => {
+    const valuation = valueInventory(purchases, [sale('s1', '2025-01-10', 15)], 'weighted-average');
+
+    expect(valuation.saleCosts.s1).toBe(toMinorUnits(97.5));
+    expect(valuation.stock.Widget.quantity).toBe(5);
+    expect(valuation.stock.Widget.currentValue).toBe(toMinorUnits(32.5));
+  });
+
+  it('averages in a purchase that arrives between two sales', () => {
+    const valuation = valueInventory(
+      [purchase('p1', '2025-01-01', 10, 5), purchase('p2', '2025-01-05', 10, 8)],
+      [sale('s1', '2025-01-03', 5), sale('s2', '2025-01-10', 5)],
+      'weighted-average'
+    );
+
+    // Five left at 5.00 and ten at 8.00 average 7.00
+    expect(valuation.saleCosts.s1).toBe(toMinorUnits(25));
+    expect(valuation.saleCosts.s2).toBe(toMinorUnits(35));
+  });
+
+  it('writes off removed units at the average cost', () => {
+    const valuation = valueInventory(
+      purchases,
+      [],
+      'weighted-average',
+      [],
+      [],
+      [adjustment('a1', '2025-01-10', -2, 100, 'lost')]
+    );
+
+    expect(valuation.writeOffs.a1).toBe(toMinorUnits(13));
+  });
+});
@@ -0,0 +1,311 @@
+import dayjs from 'dayjs';
+import type { PurchaseEntry, PurchaseReturn, SaleEntry, SaleLineItem, SaleReturn, StockAdjustment } from './database';
+import { ZERO_MONEY, addMoney, fromMinorUnits, type Money } from './money';
+
+export type CostingMethod = 'fifo' | 'weighted-average';
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'fifo';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  {
+    value: 'fifo',
+    label: 'FIFO',
+    description: 'Sales use up the oldest purchases first'
+  },
+  {
+    value: 'weighted-average',
+    label: 'Weighted Average',
+    description: 'Sales are costed at the running average cost of stock on hand'
+  }
+];
+
+export const getCostingMethodLabel = (method: CostingMethod): string => {
+  return COSTING_METHODS.find(option => option.value === method)?.label ?? method;
+};
+
+export interface StockItem {
+  productId?: string;
+  // Name on the latest record; prefer the product's current name for display
+  product: string;
+  quantity: number;
+  averageCost: Money;
+  currentValue: Money;
+}
+
+export interface InventoryValuation {
+  // Cost of goods sold for each sale, keyed by sale id
+  saleCosts: Record<string, Money>;
+  // Cost of restocked units taken back out of cost of goods sold, keyed by return id
+  returnCosts: Record<string, Money>;
+  // Cost written off by each stock adjustment, keyed by adjustment id. Negative when a
+  // count finds units that were written off before; opening stock writes nothing off.
+  writeOffs: Record<string, Money>;
+  // Keyed by productKey
+  stock: Record<string, StockItem>;
+}
+
+// Stock is tracked per product id, so renaming a product keeps its history together.
+// Records from before products existed fall back to their product name.
+export const productKey = (entry: { productId?: string; product: string }): string => {
+  return entry.productId ?? entry.product;
+};
+
+// Unit costs are minor units left unrounded, since an average cost can fall between
+// two poisha; amounts are rounded once when a sale or the stock is valued
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+  // Purchase the units came from, so FIFO can send them back to the supplier
+  purchaseId?: string;
+}
+
+interface ProductState {
+  productId?: string;
+  product: string;
+  layers: CostLayer[];
+  // Units sold with no stock on hand to cost them against
+  shortfall: number;
+  lastUnitCost: number;
+}
+
+type InventoryEvent =
+  | { kind: 'purchase'; time: number; purchase: PurchaseEntry }
+  | { kind: 'sale'; time: number; saleId?: string; item: SaleLineItem }
+  | { kind: 'return'; time: number; saleReturn: SaleReturn; item: SaleLineItem }
+  | { kind: 'purchaseReturn'; time: number; purchaseReturn: PurchaseReturn }
+  | { kind: 'adjustment'; time: number; adjustment: StockAdjustment };
+
+// Order of events on the same day: stock arrives and is adjusted, is sold, comes back
+// from customers, then goes back to suppliers
+const EVENT_ORDER: Record<InventoryEvent['kind'], number> = {
+  purchase: 0,
+  adjustment: 1,
+  sale: 2,
+  return: 3,
+  purchaseReturn: 4
+};
+
+const layerQuantity = (layers: CostLayer[]) => layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+const layerValue = (layers: CostLayer[]) => layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+// Collapse layers into one at their average cost
+const averageLayers = (layers: CostLayer[]): CostLayer[] => {
+  const quantity = layerQuantity(layers);
+  return quantity > 0 ? [{ quantity, unitCost: layerValue(layers) / quantity }] : [];
+};
+
+// FIFO consumes the oldest layers first
+const consumeFifo = (state: ProductState, quantity: number): number => {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > 0 && state.layers.length > 0) {
+    const layer = state.layers[0];
+    const taken = Math.min(layer.quantity, remaining);
+    cost += taken * layer.unitCost;
+    layer.quantity -= taken;
+    remaining -= taken;
+    if (layer.quantity === 0) {
+      state.layers.shift();
+    }
+  }
+
+  state.shortfall += remaining;
+  return cost + remaining * state.lastUnitCost;
+};
+
+// Add units to stock at a unit cost. They first cover any units that were sold
+// before stock arrived.
+const receiveStock = (
+  state: ProductState,
+  quantity: number,
+  unitCost: number,
+  method: CostingMethod,
+  purchaseId?: string
+) => {
+  const covered = Math.min(state.shortfall, quantity);
+  state.shortfall -= covered;
+  if (quantity - covered > 0) {
+    state.layers.push({ quantity: quantity - covered, unitCost, purchaseId });
+  }
+  if (method === 'weighted-average') {
+    state.layers = averageLayers(state.layers);
+  }
+};
+
+// Send units back to the supplier at what they cost. FIFO takes them from their own
+// purchase's layer first; any of those already sold come from the oldest layers instead.
+const returnToSupplier = (
+  state: ProductState,
+  quantity: number,
+  unitCost: number,
+  method: CostingMethod,
+  purchaseId: string
+) => {
+  if (method === 'weighted-average') {
+    const onHand = layerQuantity(state.layers);
+    const taken = Math.min(onHand, quantity);
+    const value = Math.max(0, layerValue(state.layers) - taken * unitCost);
+    state.layers = onHand - taken > 0 ? [{ quantity: onHand - taken, unitCost: value / (onHand - taken) }] : [];
+    state.shortfall += quantity - taken;
+    return;
+  }
+
+  const own = state.layers.find(layer => layer.purchaseId === purchaseId);
+  const taken = own ? Math.min(own.quantity, quantity) : 0;
+  if (own) {
+    own.quantity -= taken;
+    state.layers = state.layers.filter(layer => layer.quantity > 0);
+  }
+  if (quantity - taken > 0) {
+    consumeFifo(state, quantity - taken);
+  }
+};
+
+// Weighted average keeps stock as one layer at the running average cost
+const consumeWeightedAverage = (state: ProductState, quantity: number): number => {
+  const onHand = layerQuantity(state.layers);
+  const unitCost = onHand > 0 ? layerValue(state.layers) / onHand : state.lastUnitCost;
+  const taken = Math.min(onHand, quantity);
+
+  state.layers = onHand - taken > 0 ? [{ quantity: onHand - taken, unitCost }] : [];
+  state.shortfall += quantity - taken;
+  return quantity * unitCost;
+};
+
+// Value stock and cost every sale by replaying purchases, sales, returns and adjustments
+// in date order. Purchases on the same day as a sale are treated as arriving first.
+export const valueInventory = (
+  purchases: PurchaseEntry[],
+  sales: SaleEntry[],
+  method: CostingMethod,
+  saleReturns: SaleReturn[] = [],
+  purchaseReturns: PurchaseReturn[] = [],
+  adjustments: StockAdjustment[] = []
+): InventoryValuation => {
+  const events: InventoryEvent[] = [
+    ...purchases.map(purchase => ({ kind: 'purchase' as const, time: dayjs(purchase.date).startOf('day').valueOf(), purchase })),
+    ...sales.flatMap(sale => sale.items.map(item => ({
+      kind: 'sale' as const,
+      time: dayjs(sale.date).startOf('day').valueOf(),
+      saleId: sale.id,
+      item
+    }))),
+    ...saleReturns.flatMap(saleReturn => saleReturn.items.map(item => ({
+      kind: 'return' as const,
+      time: dayjs(saleReturn.date).startOf('day').valueOf(),
+      saleReturn,
+      item
+    }))),
+    ...purchaseReturns.map(purchaseReturn => ({
+      kind: 'purchaseReturn' as const,
+      time: dayjs(purchaseReturn.date).startOf('day').valueOf(),
+      purchaseReturn
+    })),
+    ...adjustments.map(adjustment => ({
+      kind: 'adjustment' as const,
+      time: dayjs(adjustment.date).startOf('day').valueOf(),
+      adjustment
+    }))
+  ].sort((a, b) => a.time - b.time || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]);
+
+  const states: Record<string, ProductState> = {};
+  const stateFor = (entry: PurchaseEntry | SaleLineItem | PurchaseReturn | StockAdjustment) => {
+    const key = productKey(entry);
+    if (!states[key]) {
+      states[key] = { productId: entry.productId, product: entry.product, layers: [], shortfall: 0, lastUnitCost: 0 };
+    }
+    // Events replay in date order, so this ends up as the latest name
+    states[key].product = entry.product;
+    return states[key];
+  };
+
+  const saleCosts: Record<string, Money> = {};
+  const returnCosts: Record<string, Money> = {};
+  const writeOffs: Record<string, Money> = {};
+  // Units and unrounded cost of each product on each sale, keyed by sale id and productKey,
+  // so returned units go back into stock at what they cost
+  const soldCosts: Record<string, { quantity: number; cost: number }> = {};
+
+  events.forEach(event => {
+    if (event.kind === 'purchase') {
+      const { quantity, price } = event.purchase;
+      const state = stateFor(event.purchase);
+      state.lastUnitCost = price;
+      receiveStock(state, quantity, price, method, event.purchase.id);
+      return;
+    }
+
+    if (event.kind === 'purchaseReturn') {
+      const { purchaseReturn } = event;
+      returnToSupplier(stateFor(purchaseReturn), purchaseReturn.quantity, purchaseReturn.price, method, purchaseReturn.purchaseId);
+      return;
+    }
+
+    if (event.kind === 'adjustment') {
+      const { adjustment } = event;
+      const state = stateFor(adjustment);
+      let writtenOff = 0;
+      if (adjustment.quantity > 0) {
+        // Opening stock may be the first cost a product has
+        state.lastUnitCost ||= adjustment.unitCost;
+        receiveStock(state, adjustment.quantity, adjustment.unitCost, method);
+        writtenOff = adjustment.reason === 'opening' ? 0 : -adjustment.quantity * adjustment.unitCost;
+      } else {
+        writtenOff = method === 'fifo'
+          ? consumeFifo(state, -adjustment.quantity)
+          : consumeWeightedAverage(state, -adjustment.quantity);
+      }
+      if (adjustment.id) {
+        writeOffs[adjustment.id] = fromMinorUnits(writtenOff);
+      }
+      return;
+    }
+
+    if (event.kind === 'return') {
+      const { saleReturn, item } = event;
+      // Damaged units are written off, so their cost stays in cost of goods sold
+      if (saleReturn.condition !== 'restock') {
+        return;
+      }
+      const state = stateFor(item);
+      const sold = soldCosts[`${saleReturn.saleId}/${productKey(item)}`];
+      const unitCost = sold?.quantity ? sold.cost / sold.quantity : state.lastUnitCost;
+      receiveStock(state, item.quantity, unitCost, method);
+      if (saleReturn.id) {
+        returnCosts[saleReturn.id] = addMoney(returnCosts[saleReturn.id] ?? ZERO_MONEY, fromMinorUnits(item.quantity * unitCost));
+      }
+      return;
+    }
+
+    const { saleId, item } = event;
+    const state = stateFor(item);
+    const cost = method === 'fifo'
+      ? consumeFifo(state, item.quantity)
+      : consumeWeightedAverage(state, item.quantity);
+    // An order's cost is the sum of its lines
+    if (saleId) {
+      saleCosts[saleId] = addMoney(saleCosts[saleId] ?? ZERO_MONEY, fromMinorUnits(cost));
+      const soldKey = `${saleId}/${productKey(item)}`;
+      const sold = soldCosts[soldKey] ?? { quantity: 0, cost: 0 };
+      soldCosts[soldKey] = { quantity: sold.quantity + item.quantity, cost: sold.cost + cost };
+    }
+  });
+
+  const stock = Object.fromEntries(
+    Object.entries(states).map(([key, state]) => {
+      const onHand = layerQuantity(state.layers);
+      const currentValue = layerValue(state.layers);
+      return [key, {
+        productId: state.productId,
+        product: state.product,
+        quantity: onHand - state.shortfall,
+        averageCost: fromMinorUnits(onHand > 0 ? currentValue / onHand : state.lastUnitCost),
+        currentValue: fromMinorUnits(currentValue)
+      }];
+    })
+  );
+
+  return { saleCosts, returnCosts, writeOffs, stock };
+};
@@ -0,0 +1,152 @@
+import { getDoc, runTransaction, Timestamp, type DocumentData } from 'firebase/firestore';
+import { db } from '@/main';
+import { businessDoc } from './business';
+import { isOffline } from './outbox';
+
+const SETTINGS_COLLECTION = 'invoiceSettings';
+const SEQUENCE_ID = 'sequence';
+const INVOICES_COLLECTION = 'invoices';
+
+// Invoice numbers are the prefix followed by the sequence number padded to digits,
+// e.g. INV-00042
+export interface InvoiceSettings {
+  prefix: string;
+  // Number the next invoice will get
+  nextNumber: number;
+  digits: number;
+  // Printed at the bottom of every invoice
+  footer: string;
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  prefix: 'INV-',
+  nextNumber: 1,
+  digits: 5,
+  footer: 'Thank you for your business.'
+};
+
+export const MAX_INVOICE_DIGITS = 10;
+
+// An issued invoice, keyed by the id of the sale it is for
+export interface Invoice {
+  saleId: string;
+  number: string;
+  issuedAt?: Date;
+}
+
+export const formatInvoiceNumber = (settings: InvoiceSettings, sequenceNumber: number): string => {
+  return `${settings.prefix}${String(sequenceNumber).padStart(settings.digits, '0')}`;
+};
+
+const readInvoiceSettings = (data: DocumentData | undefined): InvoiceSettings => ({
+  prefix: data?.prefix ?? DEFAULT_INVOICE_SETTINGS.prefix,
+  nextNumber: data?.nextNumber ?? DEFAULT_INVOICE_SETTINGS.nextNumber,
+  digits: data?.digits ?? DEFAULT_INVOICE_SETTINGS.digits,
+  footer: data?.footer ?? DEFAULT_INVOICE_SETTINGS.footer
+});
+
+export const getInvoiceSettings = async (): Promise<InvoiceSettings> => {
+  try {
+    const snapshot = await getDoc(businessDoc(SETTINGS_COLLECTION, SEQUENCE_ID));
+    return readInvoiceSettings(snapshot.data());
+  } catch (error) {
+    console.error('Error getting invoice settings:', error);
+    throw error;
+  }
+};
+
+// The sequence may be moved forward but never back, or numbers already issued would be
+// given out again. It is checked in a transaction against the stored sequence, so an
+// invoice issued while the settings were open is not overwritten either, and the
+// security rules refuse a lower number from any other client.
+export const saveInvoiceSettings = async (settings: InvoiceSettings): Promise<void> => {
+  try {
+    if (isOffline()) {
+      throw new Error('Invoice settings can only be changed while online');
+    }
+
+    const nextNumber = Number(settings.nextNumber);
+    const digits = Number(settings.digits);
+
+    if (!Number.isInteger(nextNumber) || nextNumber < 1) {
+      throw new Error('The next invoice number must be a whole number of at least 1');
+    }
+    if (!Number.isInteger(digits) || digits < 1 || digits > MAX_INVOICE_DIGITS) {
+      throw new Error(`Digits must be between 1 and ${MAX_INVOICE_DIGITS}`);
+    }
+
+    const sequenceRef = businessDoc(SETTINGS_COLLECTION, SEQUENCE_ID);
+    await runTransaction(db, async (transaction) => {
+      const stored = readInvoiceSettings((await transaction.get(sequenceRef)).data());
+      if (nextNumber < stored.nextNumber) {
+        throw new Error(`Invoices up to ${stored.nextNumber - 1} have already been issued, so the next number must be at least ${stored.nextNumber}`);
+      }
+
+      transaction.set(sequenceRef, {
+        prefix: settings.prefix.trim(),
+        nextNumber,
+        digits,
+        footer: settings.footer.trim(),
+        updatedAt: Timestamp.now()
+      });
+    });
+  } catch (error) {
+    console.error('Error saving invoice settings:', error);
+    throw error;
+  }
+};
+
+export const getInvoice = async (saleId: string): Promise<Invoice | null> => {
+  try {
+    const snapshot = await getDoc(businessDoc(INVOICES_COLLECTION, saleId));
+    if (!snapshot.exists()) {
+      return null;
+    }
+    return {
+      saleId,
+      number: snapshot.data().number,
+      issuedAt: snapshot.data().issuedAt?.toDate()
+    };
+  } catch (error) {
+    console.error('Error getting invoice:', error);
+    throw error;
+  }
+};
+
+// Give a sale the next invoice number, or return the one it already has. The
+// sequence is advanced in a transaction so two people invoicing at once never get
+// the same number, which is also why this needs a connection.
+export const issueInvoice = async (saleId: string): Promise<Invoice> => {
+  try {
+    if (isOffline()) {
+      throw new Error('Invoice numbers can only be issued while online');
+    }
+
+    const invoiceRef = businessDoc(INVOICES_COLLECTION, saleId);
+    const sequenceRef = businessDoc(SETTINGS_COLLECTION, SEQUENCE_ID);
+
+    return await runTransaction(db, async (transaction) => {
+      const existing = await transaction.get(invoiceRef);
+      if (existing.exists()) {
+        return { saleId, number: existing.data().number, issuedAt: existing.data().issuedAt?.toDate() };
+      }
+
+      const sequence = await transaction.get(sequenceRef);
+      const settings = readInvoiceSettings(sequence.data());
+      const issuedAt = Timestamp.now();
+      const number = formatInvoiceNumber(settings, settings.nextNumber);
+
+      // Only the number may change here, since staff who issue invoices cannot edit the settings
+      if (sequence.exists()) {
+        transaction.update(sequenceRef, { nextNumber: settings.nextNumber + 1 });
+      } else {
+        transaction.set(sequenceRef, { ...settings, nextNumber: settings.nextNumber + 1 });
+      }
+      transaction.set(invoiceRef, { saleId, number, issuedAt });
+      return { saleId, number, issuedAt: issuedAt.toDate() };
+    });
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    throw error;
+  }
+};
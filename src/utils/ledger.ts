@@ -0,0 +1,546 @@
+import { doc, getDocs, query, writeBatch, Timestamp, type DocumentData, type WriteBatch } from 'firebase/firestore';
+import { db } from '@/main';
+import type { AuditAction } from './audit';
+import { businessCollection } from './business';
+import { toISODate, todayISODate } from './dateFormat';
+import { commitBatch } from './outbox';
+import { MINOR_UNITS_FLAG, ZERO_MONEY, addMoney, fromMinorUnits, readStoredMoney, subtractMoney, sumMoney, toMinorUnits, type Money } from './money';
+
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface Account {
+  code: string;
+  name: string;
+  type: AccountType;
+}
+
+export interface JournalLine {
+  accountCode: string;
+  debit: Money;
+  credit: Money;
+}
+
+export interface JournalEntry {
+  id?: string;
+  date: string;
+  description: string;
+  sourceCollection: string;
+  sourceId: string;
+  // Reversals undo an earlier posting for the same source record
+  isReversal: boolean;
+  lines: JournalLine[];
+  createdAt?: Date;
+}
+
+export interface TrialBalanceRow {
+  account: Account;
+  debit: Money;
+  credit: Money;
+  // Positive in the account's normal direction (debit for assets and expenses)
+  balance: Money;
+}
+
+export const CHART_OF_ACCOUNTS: Account[] = [
+  { code: '1000', name: 'Cash', type: 'asset' },
+  // Owed by customers on sales not paid for in full
+  { code: '1100', name: 'Accounts Receivable', type: 'asset' },
+  { code: '1200', name: 'Inventory', type: 'asset' },
+  // Credit notes from suppliers, used up as they are applied to purchases
+  { code: '1300', name: 'Supplier Credits', type: 'asset' },
+  // Paid on purchase orders before the goods arrive, used up as they are received
+  { code: '1310', name: 'Supplier Advances', type: 'asset' },
+  { code: '1500', name: 'Fixed Assets', type: 'asset' },
+  // Owed to suppliers and for expenses not paid in full when entered
+  { code: '2000', name: 'Accounts Payable', type: 'liability' },
+  { code: '3000', name: "Owner's Capital", type: 'equity' },
+  { code: '4000', name: 'Sales Revenue', type: 'revenue' },
+  // Contra revenue: refunds reduce revenue in the period they are given
+  { code: '4100', name: 'Sales Returns', type: 'revenue' },
+  { code: '5000', name: 'Cost of Goods Sold', type: 'expense' },
+  // Stock damaged, lost or given away, less any a count later finds again
+  { code: '5100', name: 'Inventory Write-offs', type: 'expense' },
+  { code: '6000', name: 'Operating Expenses', type: 'expense' }
+];
+
+export const ACCOUNTS = {
+  cash: '1000',
+  accountsReceivable: '1100',
+  inventory: '1200',
+  supplierCredits: '1300',
+  supplierAdvances: '1310',
+  fixedAssets: '1500',
+  accountsPayable: '2000',
+  ownersCapital: '3000',
+  salesRevenue: '4000',
+  salesReturns: '4100',
+  costOfGoodsSold: '5000',
+  inventoryWriteOffs: '5100',
+  operatingExpenses: '6000'
+} as const;
+
+const JOURNAL_COLLECTION = 'journalEntries';
+
+const DEBIT_NORMAL_TYPES: AccountType[] = ['asset', 'expense'];
+
+export const getAccount = (code: string): Account | undefined => {
+  return CHART_OF_ACCOUNTS.find(account => account.code === code);
+};
+
+interface Posting {
+  date: string;
+  description: string;
+  lines: JournalLine[];
+}
+
+const transfer = (debitAccount: string, creditAccount: string, amount: Money): JournalLine[] => [
+  { accountCode: debitAccount, debit: amount, credit: ZERO_MONEY },
+  { accountCode: creditAccount, debit: ZERO_MONEY, credit: amount }
+];
+
+// The part of a bill paid in cash when it was entered; the rest is owed. Bills entered
+// before payables were tracked were paid in full.
+const billSettlement = (bill: DocumentData, field: string, amount: Money): JournalLine[] => {
+  const paid = bill[field] === undefined ? amount : readStoredMoney(bill, field);
+  return [
+    { accountCode: ACCOUNTS.cash, debit: ZERO_MONEY, credit: paid },
+    ...(paid < amount
+      ? [{ accountCode: ACCOUNTS.accountsPayable, debit: ZERO_MONEY, credit: subtractMoney(amount, paid) }]
+      : [])
+  ];
+};
+
+// Stock bought is paid for in cash, less any supplier credit or order advance used towards it
+const purchasePayment = (purchase: DocumentData): JournalLine[] => {
+  const total = readStoredMoney(purchase, 'total');
+  const creditApplied = readStoredMoney(purchase, 'creditApplied');
+  const advanceApplied = readStoredMoney(purchase, 'advanceApplied');
+  return [
+    { accountCode: ACCOUNTS.inventory, debit: total, credit: ZERO_MONEY },
+    ...billSettlement(purchase, 'paidOnPurchase', subtractMoney(total, addMoney(creditApplied, advanceApplied))),
+    ...(creditApplied > 0
+      ? [{ accountCode: ACCOUNTS.supplierCredits, debit: ZERO_MONEY, credit: creditApplied }]
+      : []),
+    ...(advanceApplied > 0
+      ? [{ accountCode: ACCOUNTS.supplierAdvances, debit: ZERO_MONEY, credit: advanceApplied }]
+      : [])
+  ];
+};
+
+// Goods sent back first cancel what was still owed on the purchase; the rest becomes
+// supplier credit or a cash refund
+const purchaseRefund = (purchaseReturn: DocumentData): JournalLine[] => {
+  const total = readStoredMoney(purchaseReturn, 'total');
+  const balanceReduced = readStoredMoney(purchaseReturn, 'balanceReduced');
+  return [
+    ...(balanceReduced > 0
+      ? [{ accountCode: ACCOUNTS.accountsPayable, debit: balanceReduced, credit: ZERO_MONEY }]
+      : []),
+    ...(balanceReduced < total
+      ? [{
+        accountCode: purchaseReturn.settlement === 'credit' ? ACCOUNTS.supplierCredits : ACCOUNTS.cash,
+        debit: subtractMoney(total, balanceReduced),
+        credit: ZERO_MONEY
+      }]
+      : []),
+    { accountCode: ACCOUNTS.inventory, debit: ZERO_MONEY, credit: total }
+  ];
+};
+
+// Revenue is earned in full on the sale; what the customer did not pay then is owed.
+// Sales recorded before payments were tracked were paid in full.
+const saleReceipt = (sale: DocumentData): JournalLine[] => {
+  const total = readStoredMoney(sale, 'total');
+  const paid = sale.paidOnSale === undefined ? total : readStoredMoney(sale, 'paidOnSale');
+  return [
+    ...(paid > 0
+      ? [{ accountCode: ACCOUNTS.cash, debit: paid, credit: ZERO_MONEY }]
+      : []),
+    ...(paid < total
+      ? [{ accountCode: ACCOUNTS.accountsReceivable, debit: subtractMoney(total, paid), credit: ZERO_MONEY }]
+      : []),
+    { accountCode: ACCOUNTS.salesRevenue, debit: ZERO_MONEY, credit: total }
+  ];
+};
+
+// A return first cancels what the customer still owed; only the rest is paid back in cash
+const saleRefund = (saleReturn: DocumentData): JournalLine[] => {
+  const total = readStoredMoney(saleReturn, 'total');
+  const balanceReduced = readStoredMoney(saleReturn, 'balanceReduced');
+  return [
+    { accountCode: ACCOUNTS.salesReturns, debit: total, credit: ZERO_MONEY },
+    ...(balanceReduced > 0
+      ? [{ accountCode: ACCOUNTS.accountsReceivable, debit: ZERO_MONEY, credit: balanceReduced }]
+      : []),
+    ...(balanceReduced < total
+      ? [{ accountCode: ACCOUNTS.cash, debit: ZERO_MONEY, credit: subtractMoney(total, balanceReduced) }]
+      : [])
+  ];
+};
+
+// The advance paid on an order. Once the order is closed, the part not used on
+// purchases is moved to supplier credit; drafts have paid nothing yet.
+const orderAdvance = (order: DocumentData): JournalLine[] => {
+  const advance = readStoredMoney(order, 'advance');
+  if (order.status === 'draft' || advance === 0) {
+    return [];
+  }
+  const isClosed = order.status === 'received' || order.status === 'cancelled';
+  const held = isClosed ? readStoredMoney(order, 'advanceUsed') : advance;
+  return [
+    ...(held > 0
+      ? [{ accountCode: ACCOUNTS.supplierAdvances, debit: held, credit: ZERO_MONEY }]
+      : []),
+    ...(held < advance
+      ? [{ accountCode: ACCOUNTS.supplierCredits, debit: subtractMoney(advance, held), credit: ZERO_MONEY }]
+      : []),
+    { accountCode: ACCOUNTS.cash, debit: ZERO_MONEY, credit: advance }
+  ];
+};
+
+// Sales recorded before orders had several lines name a single product; returns always list items
+const saleProducts = (sale: DocumentData): string => {
+  return Array.isArray(sale.items)
+    ? sale.items.map((item: DocumentData) => item.product).join(', ')
+    : sale.product;
+};
+
+export const adjustmentDescription = (adjustment: DocumentData): string => {
+  return `Stock adjustment of ${adjustment.product} (${adjustment.quantity > 0 ? '+' : ''}${adjustment.quantity})`;
+};
+
+// How each kind of record moves money between accounts. Collections without a rule
+// (categories, audit logs) have no financial effect and are never posted. The cost of
+// what a sale takes out of stock, or an adjustment writes off, is posted separately,
+// see postStockCosts.
+const POSTING_RULES: Record<string, (data: DocumentData) => Posting> = {
+  sales: (sale) => ({
+    date: sale.date,
+    description: `Sale of ${saleProducts(sale)}${sale.order_number ? ` (${sale.order_number})` : ''}`,
+    lines: saleReceipt(sale)
+  }),
+  saleReturns: (saleReturn) => ({
+    date: saleReturn.date,
+    description: `Return of ${saleProducts(saleReturn)}${saleReturn.order_number ? ` (${saleReturn.order_number})` : ''}`,
+    lines: saleRefund(saleReturn)
+  }),
+  salePayments: (payment) => ({
+    date: payment.date,
+    description: `Payment received for ${payment.order_number ? `order ${payment.order_number}` : 'a sale'}${payment.customer ? ` from ${payment.customer}` : ''}`,
+    lines: transfer(ACCOUNTS.cash, ACCOUNTS.accountsReceivable, readStoredMoney(payment, 'amount'))
+  }),
+  purchases: (purchase) => ({
+    date: purchase.date,
+    description: `Purchase of ${purchase.product}${purchase.order_number ? ` (${purchase.order_number})` : ''}`,
+    lines: purchasePayment(purchase)
+  }),
+  purchaseOrders: (order) => ({
+    date: order.date,
+    description: `Advance on purchase order ${order.order_number}${order.supplier ? ` to ${order.supplier}` : ''}`,
+    lines: orderAdvance(order)
+  }),
+  purchaseReturns: (purchaseReturn) => ({
+    date: purchaseReturn.date,
+    description: `Return of ${purchaseReturn.product} to supplier${purchaseReturn.order_number ? ` (${purchaseReturn.order_number})` : ''}`,
+    lines: purchaseRefund(purchaseReturn)
+  }),
+  // Opening stock is capital the owner brought in. Other adjustments are written off or
+  // back on at what the costing method says the units cost, see postStockCosts.
+  stockAdjustments: (adjustment) => ({
+    date: adjustment.date,
+    description: adjustmentDescription(adjustment),
+    lines: adjustment.reason === 'opening'
+      ? transfer(ACCOUNTS.inventory, ACCOUNTS.ownersCapital, readStoredMoney(adjustment, 'value'))
+      : []
+  }),
+  expenses: (expense) => ({
+    date: expense.date,
+    description: `${expense.category}: ${expense.description}`,
+    lines: [
+      { accountCode: ACCOUNTS.operatingExpenses, debit: readStoredMoney(expense, 'amount'), credit: ZERO_MONEY },
+      ...billSettlement(expense, 'paidOnExpense', readStoredMoney(expense, 'amount'))
+    ]
+  }),
+  billPayments: (payment) => ({
+    date: payment.date,
+    description: `Payment to ${payment.payee}${payment.reference ? ` for ${payment.reference}` : ''}`,
+    lines: transfer(ACCOUNTS.accountsPayable, ACCOUNTS.cash, readStoredMoney(payment, 'amount'))
+  }),
+  investments: (investment) => ({
+    date: investment.date,
+    description: `Investment from ${investment.investor}`,
+    lines: transfer(ACCOUNTS.cash, ACCOUNTS.ownersCapital, readStoredMoney(investment, 'amount'))
+  }),
+  assets: (asset) => ({
+    date: asset.purchaseDate,
+    description: `Purchase of asset ${asset.name}`,
+    lines: transfer(ACCOUNTS.fixedAssets, ACCOUNTS.cash, readStoredMoney(asset, 'cost'))
+  })
+};
+
+export const isBalanced = (lines: JournalLine[]): boolean => {
+  return sumMoney(lines, line => line.debit) === sumMoney(lines, line => line.credit);
+};
+
+const queueEntry = (batch: WriteBatch, entry: Omit<JournalEntry, 'id' | 'createdAt'>) => {
+  if (!isBalanced(entry.lines)) {
+    throw new Error(`Journal entry for ${entry.sourceCollection}/${entry.sourceId} is not balanced`);
+  }
+  batch.set(doc(businessCollection(JOURNAL_COLLECTION)), {
+    ...entry,
+    [MINOR_UNITS_FLAG]: true,
+    createdAt: Timestamp.now()
+  });
+};
+
+// Records that move no money, such as draft orders, post nothing
+const hasPosting = (collectionName: string, data: DocumentData): boolean => {
+  return POSTING_RULES[collectionName](data).lines.length > 0;
+};
+
+// Records created before dates were canonical may still hold a legacy format
+const postingDate = (posting: Posting): string => {
+  return toISODate(posting.date) ?? posting.date;
+};
+
+const post = (batch: WriteBatch, collectionName: string, recordId: string, data: DocumentData) => {
+  const posting = POSTING_RULES[collectionName](data);
+  if (posting.lines.length === 0) return;
+  queueEntry(batch, {
+    ...posting,
+    date: postingDate(posting),
+    sourceCollection: collectionName,
+    sourceId: recordId,
+    isReversal: false
+  });
+};
+
+// A reversal swaps debits and credits of the original posting. It is dated with the
+// record it undoes, so editing or deleting a past record never moves its amounts into
+// the current period.
+const reverse = (batch: WriteBatch, collectionName: string, recordId: string, data: DocumentData) => {
+  const posting = POSTING_RULES[collectionName](data);
+  if (posting.lines.length === 0) return;
+  queueEntry(batch, {
+    date: postingDate(posting),
+    description: `Reversal: ${posting.description}`,
+    lines: posting.lines.map(line => ({ ...line, debit: line.credit, credit: line.debit })),
+    sourceCollection: collectionName,
+    sourceId: recordId,
+    isReversal: true
+  });
+};
+
+interface LedgerChange {
+  collectionName: string;
+  recordId: string;
+  action: AuditAction;
+  before: DocumentData | null;
+  after: DocumentData | null;
+}
+
+// Queue the journal entries for a record change on the same batch as the change,
+// so the ledger can never drift from the records it summarises
+export const recordLedgerChange = (batch: WriteBatch, { collectionName, recordId, action, before, after }: LedgerChange) => {
+  if (!POSTING_RULES[collectionName]) {
+    return;
+  }
+
+  switch (action) {
+    case 'create':
+      if (after) post(batch, collectionName, recordId, after);
+      break;
+    case 'delete':
+      if (before && !before.isDeleted) reverse(batch, collectionName, recordId, before);
+      break;
+    case 'restore':
+      if (after && before?.isDeleted) post(batch, collectionName, recordId, after);
+      break;
+    case 'update':
+      // Edits to a deleted record have nothing posted to correct
+      if (before && after && !before.isDeleted) {
+        reverse(batch, collectionName, recordId, before);
+        post(batch, collectionName, recordId, after);
+      }
+      break;
+  }
+};
+
+// Entries are append-only, so ones posted with float amounts are converted on read
+const readJournalLines = (data: DocumentData): JournalLine[] => {
+  const toMoney = data[MINOR_UNITS_FLAG] ? fromMinorUnits : toMinorUnits;
+  return (data.lines || []).map((line: DocumentData) => ({
+    accountCode: line.accountCode,
+    debit: toMoney(line.debit),
+    credit: toMoney(line.credit)
+  }));
+};
+
+export const getJournalEntries = async (): Promise<JournalEntry[]> => {
+  try {
+    const q = query(businessCollection(JOURNAL_COLLECTION));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          date: toISODate(data.date) ?? data.date,
+          description: data.description,
+          sourceCollection: data.sourceCollection,
+          sourceId: data.sourceId,
+          isReversal: data.isReversal || false,
+          lines: readJournalLines(data),
+          createdAt: data.createdAt?.toDate()
+        } as JournalEntry;
+      })
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  } catch (error) {
+    console.error('Error getting journal entries:', error);
+    throw error;
+  }
+};
+
+export const getTrialBalance = (entries: JournalEntry[]): TrialBalanceRow[] => {
+  return CHART_OF_ACCOUNTS.map(account => {
+    const lines = entries
+      .flatMap(entry => entry.lines)
+      .filter(line => line.accountCode === account.code);
+    const debit = sumMoney(lines, line => line.debit);
+    const credit = sumMoney(lines, line => line.credit);
+    const balance = DEBIT_NORMAL_TYPES.includes(account.type)
+      ? subtractMoney(debit, credit)
+      : subtractMoney(credit, debit);
+    return { account, debit, credit, balance };
+  });
+};
+
+// Firestore batches are limited to 500 writes
+const POSTING_BATCH_SIZE = 400;
+
+// Post journal entries for active records that have none yet, such as records created
+// before the ledger existed or imported from the pre-workspace collections
+export const postUnrecordedTransactions = async (): Promise<number> => {
+  try {
+    const entries = await getJournalEntries();
+    const postedSources = new Set(entries.map(entry => `${entry.sourceCollection}/${entry.sourceId}`));
+
+    const pending: { collectionName: string; recordId: string; data: DocumentData }[] = [];
+    for (const collectionName of Object.keys(POSTING_RULES)) {
+      const querySnapshot = await getDocs(businessCollection(collectionName));
+      querySnapshot.docs
+        .filter(record => !record.data().isDeleted)
+        .filter(record => !postedSources.has(`${collectionName}/${record.id}`))
+        .filter(record => hasPosting(collectionName, record.data()))
+        .forEach(record => pending.push({ collectionName, recordId: record.id, data: record.data() }));
+    }
+
+    for (let i = 0; i < pending.length; i += POSTING_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + POSTING_BATCH_SIZE).forEach(({ collectionName, recordId, data }) => {
+        post(batch, collectionName, recordId, data);
+      });
+      if (!await commitBatch(batch)) {
+        throw new Error('The server could not be reached');
+      }
+    }
+
+    return pending.length;
+  } catch (error) {
+    console.error('Error posting unrecorded transactions:', error);
+    throw error;
+  }
+};
+
+// Cost of goods sold depends on every purchase, return and adjustment before a sale, and
+// changes when one is backdated or edited, so it is not posted with the sale. Entries
+// under this source keep each sale's cost in step with the costing engine instead, and
+// each write-off's, which depends on the same history. The source keeps the name it had
+// before write-offs were costed here.
+const STOCK_COSTS_SOURCE = 'saleCosts';
+
+// What the costing engine says a sale took out of stock, a restocked return put back,
+// or an adjustment wrote off
+export interface StockCost {
+  sourceCollection: 'sales' | 'saleReturns' | 'stockAdjustments';
+  sourceId: string;
+  date: string;
+  description: string;
+  // Negative for restocked returns, whose cost comes back out of cost of goods sold, and
+  // for counts that find units written off before
+  cost: Money;
+}
+
+// Sales and returns are costed to cost of goods sold, adjustments to write-offs
+const costAccount = (sourceCollection: string): string => {
+  return sourceCollection === 'stockAdjustments' ? ACCOUNTS.inventoryWriteOffs : ACCOUNTS.costOfGoodsSold;
+};
+
+// Move each live sale, restocked return and adjustment to the engine's cost, and take
+// it back off deleted ones. Corrections are dated with the record, and reversals with
+// the cost they undo, like reversals of the records themselves.
+export const postStockCosts = async (costs: StockCost[]): Promise<number> => {
+  try {
+    const entries = await getJournalEntries();
+    const posted = new Map<string, { cost: Money; date: string; description: string }>();
+    entries
+      .filter(entry => entry.sourceCollection === STOCK_COSTS_SOURCE || entry.sourceCollection === 'stockAdjustments')
+      // Adjustments used to post their write-off themselves, at the cost entered on them,
+      // and those entries count towards what has been written off
+      .map(entry => entry.sourceCollection === 'stockAdjustments'
+        ? { ...entry, sourceId: `stockAdjustments/${entry.sourceId}` }
+        : entry)
+      // Oldest first, so the date and description kept are those the costs were first posted under
+      .reverse()
+      .forEach(entry => {
+        const account = costAccount(entry.sourceId.split('/')[0]);
+        const cost = sumMoney(
+          entry.lines.filter(line => line.accountCode === account),
+          line => subtractMoney(line.debit, line.credit)
+        );
+        const existing = posted.get(entry.sourceId);
+        // Opening stock posts nothing to write-offs, so it never counts as a posted cost
+        if (!existing && cost === 0) return;
+        posted.set(entry.sourceId, {
+          cost: addMoney(existing?.cost ?? ZERO_MONEY, cost),
+          date: existing?.date ?? entry.date,
+          description: existing?.description ?? entry.description
+        });
+      });
+
+    const targets = new Map(costs.map(cost => [`${cost.sourceCollection}/${cost.sourceId}`, cost]));
+    const pending: Omit<JournalEntry, 'id' | 'createdAt'>[] = [];
+    new Set([...targets.keys(), ...posted.keys()]).forEach(sourceId => {
+      const target = targets.get(sourceId);
+      const already = posted.get(sourceId);
+      const difference = subtractMoney(target?.cost ?? ZERO_MONEY, already?.cost ?? ZERO_MONEY);
+      if (difference === 0) return;
+
+      const account = costAccount(sourceId.split('/')[0]);
+      pending.push({
+        date: target?.date ?? already?.date ?? todayISODate(),
+        description: !target
+          ? `Reversal: ${already?.description}`
+          : already ? `Correction: ${already.description}` : target.description,
+        lines: difference > 0
+          ? transfer(account, ACCOUNTS.inventory, difference)
+          : transfer(ACCOUNTS.inventory, account, subtractMoney(ZERO_MONEY, difference)),
+        sourceCollection: STOCK_COSTS_SOURCE,
+        sourceId,
+        isReversal: !target
+      });
+    });
+
+    for (let i = 0; i < pending.length; i += POSTING_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + POSTING_BATCH_SIZE).forEach(entry => queueEntry(batch, entry));
+      if (!await commitBatch(batch)) {
+        throw new Error('The server could not be reached');
+      }
+    }
+
+    return pending.length;
+  } catch (error) {
+    console.error('Error posting stock costs:', error);
+    throw error;
+  }
+};
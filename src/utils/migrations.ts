@@ -0,0 +1,305 @@
+import {
+  doc,
+  getDocs,
+  Timestamp,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '@/main';
+import { businessCollection, businessDoc } from './business';
+import { isAmbiguousSlashDate, toISODate, type SlashDateOrder } from './dateFormat';
+import { MINOR_UNITS_FLAG, MONEY_FIELDS, ZERO_MONEY, convertLegacyMoney, readStoredMoney, sumMoney } from './money';
+import { mergeSales, newProductInput } from './database';
+
+export interface UnparseableDate {
+  collection: string;
+  recordId: string;
+  field: string;
+  value: string;
+}
+
+export interface DateMigrationReport {
+  scanned: number;
+  updated: number;
+  failed: UnparseableDate[];
+  // Slash dates that read as different dates day first and month first, left
+  // unchanged until the migration is told which way round the data is
+  ambiguous: UnparseableDate[];
+}
+
+// Date fields of each collection that must hold a canonical ISO date
+const DATE_FIELDS: Record<string, string[]> = {
+  sales: ['date'],
+  purchases: ['date'],
+  expenses: ['date'],
+  investments: ['date'],
+  assets: ['purchaseDate']
+};
+
+// Collections listed with server-side filters on isDeleted; records written before
+// soft delete existed lack the field and would never match those queries
+const SOFT_DELETE_COLLECTIONS = ['sales', 'purchases', 'expenses'];
+
+// Firestore batches are limited to 500 writes
+const MIGRATION_BATCH_SIZE = 400;
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Rewrite every date in the active business to the canonical ISO format and
+// backfill missing isDeleted flags. Neither changes what a record means, so no
+// audit or journal entries are written; running it again is harmless because
+// canonical records are left untouched. Without a slashOrder, dates such as
+// 03/04/2024 are reported rather than guessed at.
+export const migrateDates = async (slashOrder?: SlashDateOrder): Promise<DateMigrationReport> => {
+  try {
+    const report: DateMigrationReport = { scanned: 0, updated: 0, failed: [], ambiguous: [] };
+    const pending: { ref: DocumentReference; changes: Record<string, string | boolean> }[] = [];
+
+    for (const [collectionName, fields] of Object.entries(DATE_FIELDS)) {
+      const querySnapshot = await getDocs(businessCollection(collectionName));
+
+      querySnapshot.docs.forEach(record => {
+        report.scanned++;
+        const data = record.data();
+        const changes: Record<string, string | boolean> = {};
+
+        fields.forEach(field => {
+          if (!slashOrder && isAmbiguousSlashDate(data[field])) {
+            report.ambiguous.push({
+              collection: collectionName,
+              recordId: record.id,
+              field,
+              value: describeValue(data[field])
+            });
+            return;
+          }
+
+          const date = toISODate(data[field], slashOrder);
+          if (!date) {
+            report.failed.push({
+              collection: collectionName,
+              recordId: record.id,
+              field,
+              value: describeValue(data[field])
+            });
+          } else if (date !== data[field]) {
+            changes[field] = date;
+          }
+        });
+
+        if (SOFT_DELETE_COLLECTIONS.includes(collectionName) && typeof data.isDeleted !== 'boolean') {
+          changes.isDeleted = false;
+        }
+
+        if (Object.keys(changes).length > 0) {
+          pending.push({ ref: record.ref, changes });
+        }
+      });
+    }
+
+    for (let i = 0; i < pending.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + MIGRATION_BATCH_SIZE).forEach(({ ref, changes }) => {
+        batch.update(ref, changes);
+      });
+      await batch.commit();
+    }
+
+    report.updated = pending.length;
+    return report;
+  } catch (error) {
+    console.error('Error migrating dates:', error);
+    throw error;
+  }
+};
+
+export interface MoneyMigrationReport {
+  scanned: number;
+  updated: number;
+}
+
+// Convert float amounts in the active business to integer minor units. Like the
+// date migration it changes representation only, so nothing is audited or posted;
+// converted records are flagged and skipped on later runs. Journal entries are
+// append-only and are converted when read instead.
+export const migrateMoney = async (): Promise<MoneyMigrationReport> => {
+  try {
+    const report: MoneyMigrationReport = { scanned: 0, updated: 0 };
+    const pending: { ref: DocumentReference; changes: DocumentData }[] = [];
+
+    for (const collectionName of Object.keys(MONEY_FIELDS)) {
+      const querySnapshot = await getDocs(businessCollection(collectionName));
+
+      querySnapshot.docs.forEach(record => {
+        report.scanned++;
+        if (!record.data()[MINOR_UNITS_FLAG]) {
+          pending.push({ ref: record.ref, changes: convertLegacyMoney(collectionName, record.data()) });
+        }
+      });
+    }
+
+    for (let i = 0; i < pending.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + MIGRATION_BATCH_SIZE).forEach(({ ref, changes }) => {
+        batch.update(ref, changes);
+      });
+      await batch.commit();
+    }
+
+    report.updated = pending.length;
+    return report;
+  } catch (error) {
+    console.error('Error migrating amounts:', error);
+    throw error;
+  }
+};
+
+export interface ProductMigrationReport {
+  created: number;
+  linked: number;
+}
+
+// Collections whose records name a product
+const PRODUCT_RECORD_COLLECTIONS = ['sales', 'purchases'];
+
+const productNameKey = (name: string) => name.trim().toLowerCase();
+
+// Turn the old name-only product categories into products, keeping their ids, and
+// link every sale and purchase to its product by name. Names no product matches,
+// such as typos, become products of their own so they can be fixed or deactivated
+// on the products page. Linked records are skipped on later runs.
+export const migrateProducts = async (): Promise<ProductMigrationReport> => {
+  try {
+    const report: ProductMigrationReport = { created: 0, linked: 0 };
+    const pending: { ref: DocumentReference; data: DocumentData; isNew: boolean }[] = [];
+    const productIds = new Map<string, string>();
+
+    const productsSnapshot = await getDocs(businessCollection('products'));
+    productsSnapshot.docs.forEach(product => {
+      productIds.set(productNameKey(product.data().name), product.id);
+    });
+
+    const productIdFor = (name: string, ref: DocumentReference = doc(businessCollection('products'))) => {
+      const existing = productIds.get(productNameKey(name));
+      if (existing) {
+        return existing;
+      }
+      pending.push({
+        ref,
+        data: { ...newProductInput(name.trim()), createdAt: Timestamp.now(), [MINOR_UNITS_FLAG]: true },
+        isNew: true
+      });
+      productIds.set(productNameKey(name), ref.id);
+      report.created++;
+      return ref.id;
+    };
+
+    const categoriesSnapshot = await getDocs(businessCollection('productCategories'));
+    categoriesSnapshot.docs.forEach(category => {
+      if (category.data().name?.trim()) {
+        productIdFor(category.data().name, businessDoc('products', category.id));
+      }
+    });
+
+    for (const collectionName of PRODUCT_RECORD_COLLECTIONS) {
+      const querySnapshot = await getDocs(businessCollection(collectionName));
+      querySnapshot.docs.forEach(record => {
+        const { productId, product } = record.data();
+        if (!productId && typeof product === 'string' && product.trim()) {
+          pending.push({ ref: record.ref, data: { productId: productIdFor(product) }, isNew: false });
+          report.linked++;
+        }
+      });
+    }
+
+    for (let i = 0; i < pending.length; i += MIGRATION_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      pending.slice(i, i + MIGRATION_BATCH_SIZE).forEach(({ ref, data, isNew }) => {
+        if (isNew) {
+          batch.set(ref, data);
+        } else {
+          batch.update(ref, data);
+        }
+      });
+      await batch.commit();
+    }
+
+    return report;
+  } catch (error) {
+    console.error('Error migrating products:', error);
+    throw error;
+  }
+};
+
+export interface OrderMigrationReport {
+  orders: number;
+  merged: number;
+}
+
+// Before sales were orders, an order of several products was saved as one sale per
+// product sharing an order number. Sales with the same order number and date are
+// merged into the first of them and the rest are deleted, one order per batch with
+// its audit trail and ledger entries, so a run that stops partway leaves every order
+// either merged or as it was. Merged orders have lines and are skipped on later runs.
+// The reversals and the order's posting share the sales' date and amounts, so the
+// ledger nets to nothing in every period.
+export const mergeSaleOrders = async (): Promise<OrderMigrationReport> => {
+  try {
+    const report: OrderMigrationReport = { orders: 0, merged: 0 };
+    const groups = new Map<string, QueryDocumentSnapshot[]>();
+
+    const querySnapshot = await getDocs(businessCollection('sales'));
+    querySnapshot.docs.forEach(sale => {
+      const data = sale.data();
+      const orderNumber = String(data.order_number ?? '').trim().toLowerCase();
+      if (data.isDeleted || Array.isArray(data.items) || !orderNumber) {
+        return;
+      }
+      const key = `${toISODate(data.date) ?? data.date}|${orderNumber}`;
+      groups.set(key, [...(groups.get(key) ?? []), sale]);
+    });
+
+    for (const sales of groups.values()) {
+      if (sales.length < 2) {
+        continue;
+      }
+      const [first, ...rest] = sales.map(sale => ({ id: sale.id, data: sale.data() }));
+      const customer = sales.map(sale => sale.data()).find(data => data.customerId);
+      const notes = [...new Set(sales.map(sale => String(sale.data().notes ?? '').trim()).filter(Boolean))];
+
+      await mergeSales([first.id, ...rest.map(sale => sale.id)], {
+        date: first.data.date,
+        customerId: customer?.customerId ?? '',
+        customer: customer?.customer ?? '',
+        order_number: first.data.order_number,
+        items: sales.map(sale => ({
+          productId: sale.data().productId,
+          product: sale.data().product,
+          quantity: Number(sale.data().quantity),
+          price: readStoredMoney(sale.data(), 'price')
+        })),
+        discount: ZERO_MONEY,
+        deliveryCharge: ZERO_MONEY,
+        // Sales recorded before payments were tracked were paid in full
+        paidOnSale: sumMoney(sales, sale => readStoredMoney(
+          sale.data(),
+          sale.data().paidOnSale === undefined ? 'total' : 'paidOnSale'
+        )),
+        notes: notes.join('; ')
+      });
+
+      report.orders++;
+      report.merged += sales.length;
+    }
+
+    return report;
+  } catch (error) {
+    console.error('Error merging sale orders:', error);
+    throw error;
+  }
+};
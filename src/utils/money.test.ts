@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MINOR_UNITS_FLAG,
+  convertLegacyMoney,
+  divideMoney,
+  multiplyMoney,
+  readStoredMoney,
+  sumMoney,
+  toMinorUnits
+} from './money';
+
+describe('toMinorUnits', () => {
+  it('rounds half away from zero as the amount is written', () => {
+    expect(toMinorUnits(1.005)).toBe(101);
+    expect(toMinorUnits(-1.005)).toBe(-101);
+    expect(toMinorUnits('19.99')).toBe(1999);
+  });
+
+  it('treats anything that is not a number as zero', () => {
+    expect(toMinorUnits('')).toBe(0);
+    expect(toMinorUnits('abc')).toBe(0);
+  });
+});
+
+describe('money arithmetic', () => {
+  it('adds up exactly where floats drift', () => {
+    const amounts = [0.1, 0.2, 0.3].map(toMinorUnits);
+    expect(sumMoney(amounts, amount => amount)).toBe(60);
+  });
+
+  it('rounds once when scaling and splitting', () => {
+    expect(multiplyMoney(toMinorUnits(3.33), 3)).toBe(999);
+    expect(divideMoney(toMinorUnits(10), 3)).toBe(333);
+    expect(divideMoney(toMinorUnits(10), 0)).toBe(0);
+  });
+});
+
+describe('readStoredMoney', () => {
+  it('reads flagged records as minor units and older ones as floats', () => {
+    expect(readStoredMoney({ amount: 1250, [MINOR_UNITS_FLAG]: true }, 'amount')).toBe(1250);
+    expect(readStoredMoney({ amount: 12.5 }, 'amount')).toBe(1250);
+  });
+});
+
+describe('convertLegacyMoney', () => {
+  it('converts the money fields a legacy record has and flags it', () => {
+    expect(convertLegacyMoney('purchases', {
+      product: 'Widget',
+      quantity: 3,
+      price: 2.5,
+      total: 7.5
+    })).toEqual({
+      price: 250,
+      total: 750,
+      [MINOR_UNITS_FLAG]: true
+    });
+  });
+
+  it('leaves records already in minor units alone', () => {
+    expect(convertLegacyMoney('purchases', { price: 250, [MINOR_UNITS_FLAG]: true })).toEqual({});
+  });
+});
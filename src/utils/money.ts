@@ -0,0 +1,92 @@
+import type { DocumentData } from 'firebase/firestore';
+
+// An amount in integer minor units (poisha, cents). Integers add up exactly,
+// so totals never drift the way float sums do. The brand stops a plain number
+// in major units from being passed where minor units are expected.
+export type Money = number & { readonly __money: true };
+
+export const ZERO_MONEY = 0 as Money;
+
+// Minor units per major unit
+const MINOR_PER_MAJOR = 100;
+
+// Records that store amounts as minor units carry this flag; older records hold floats
+export const MINOR_UNITS_FLAG = 'amountsInMinorUnits';
+
+// Money fields of each collection that stores amounts
+export const MONEY_FIELDS: Record<string, string[]> = {
+  sales: ['price', 'total', 'subtotal', 'discount', 'deliveryCharge', 'paidOnSale'],
+  saleReturns: ['subtotal', 'discount', 'total', 'balanceReduced'],
+  salePayments: ['amount'],
+  purchases: ['price', 'total', 'originalPrice', 'originalTotal', 'creditApplied', 'advanceApplied', 'paidOnPurchase'],
+  purchaseReturns: ['price', 'total', 'balanceReduced'],
+  purchaseOrders: ['total', 'advance', 'advanceUsed'],
+  stockAdjustments: ['unitCost', 'value'],
+  expenses: ['amount', 'paidOnExpense'],
+  billPayments: ['amount'],
+  investments: ['amount'],
+  assets: ['cost'],
+  products: ['defaultPrice']
+};
+
+// All rounding is half away from zero: 0.005 becomes 0.01 and -0.005 becomes -0.01.
+// The product is trimmed to 12 significant digits first so float noise such as
+// 1.005 * 100 = 100.49999999999999 rounds the way the written number would.
+const roundHalfAwayFromZero = (value: number): number => {
+  const trimmed = Number(value.toPrecision(12));
+  return Math.sign(trimmed) * Math.round(Math.abs(trimmed));
+};
+
+// Wrap a value that is already in minor units, such as a stored amount or a Firestore sum
+export const fromMinorUnits = (minor: number): Money => {
+  return roundHalfAwayFromZero(Number(minor) || 0) as Money;
+};
+
+// Convert an amount typed or stored in major units (taka, dollars) to minor units
+export const toMinorUnits = (major: number | string): Money => {
+  return roundHalfAwayFromZero((Number(major) || 0) * MINOR_PER_MAJOR) as Money;
+};
+
+// Major units for form inputs; never use the result for further arithmetic
+export const toMajorUnits = (amount: Money): number => amount / MINOR_PER_MAJOR;
+
+export const addMoney = (...amounts: Money[]): Money => {
+  return amounts.reduce((total, amount) => total + amount, 0) as Money;
+};
+
+export const subtractMoney = (amount: Money, deduction: Money): Money => {
+  return (amount - deduction) as Money;
+};
+
+export const sumMoney = <T>(items: T[], pick: (item: T) => Money): Money => {
+  return addMoney(...items.map(pick));
+};
+
+// Scale by a quantity or rate, rounding once at the end
+export const multiplyMoney = (amount: Money, factor: number): Money => {
+  return roundHalfAwayFromZero(amount * factor) as Money;
+};
+
+// Split by a count such as months or units, rounding once; zero when there is nothing to divide by
+export const divideMoney = (amount: Money, divisor: number): Money => {
+  return divisor === 0 ? ZERO_MONEY : roundHalfAwayFromZero(amount / divisor) as Money;
+};
+
+// Read an amount from a stored record, converting legacy float amounts
+export const readStoredMoney = (record: DocumentData, field: string): Money => {
+  return record[MINOR_UNITS_FLAG] ? fromMinorUnits(record[field]) : toMinorUnits(record[field]);
+};
+
+// The money fields of a legacy record converted to minor units, flagged as converted.
+// Fields added after the conversion, such as a purchase's original amounts, are skipped.
+export const convertLegacyMoney = (collectionName: string, record: DocumentData): DocumentData => {
+  if (record[MINOR_UNITS_FLAG]) {
+    return {};
+  }
+  return {
+    ...Object.fromEntries((MONEY_FIELDS[collectionName] ?? [])
+      .filter(field => record[field] !== undefined)
+      .map(field => [field, toMinorUnits(record[field])])),
+    [MINOR_UNITS_FLAG]: true
+  };
+};
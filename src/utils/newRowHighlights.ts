@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// How long rows added by teammates stay highlighted
+const HIGHLIGHT_DURATION = 5000;
+
+// Tracks rows that arrived from other sessions and forgets them after a few seconds
+export const useNewRowHighlights = () => {
+  const [newIds, setNewIds] = useState<string[]>([]);
+  const timeouts = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  useEffect(() => {
+    const pending = timeouts.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  const markNew = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setNewIds(prev => [...prev, ...ids]);
+    timeouts.current.push(setTimeout(() => {
+      setNewIds(prev => prev.filter(id => !ids.includes(id)));
+    }, HIGHLIGHT_DURATION));
+  }, []);
+
+  const isNew = useCallback((id?: string) => !!id && newIds.includes(id), [newIds]);
+
+  return { newCount: newIds.length, markNew, isNew };
+};
@@ -0,0 +1,90 @@
+import { toMajorUnits, ZERO_MONEY, type Money } from './money';
+
+// International: 1,000,000. South Asian (lakh/crore): 10,00,000. None: 1000000.
+export type DigitGrouping = 'international' | 'south-asian' | 'none';
+
+export interface MoneyFormat {
+  symbol: string;
+  // Digits shown after the decimal point; amounts are always stored in hundredths
+  decimals: 0 | 1 | 2;
+  grouping: DigitGrouping;
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  symbol: '৳',
+  decimals: 2,
+  grouping: 'south-asian'
+};
+
+export const DIGIT_GROUPINGS: { value: DigitGrouping; label: string; example: string }[] = [
+  { value: 'south-asian', label: 'Lakh / crore', example: '1,00,00,000' },
+  { value: 'international', label: 'Thousands', example: '10,000,000' },
+  { value: 'none', label: 'No grouping', example: '10000000' }
+];
+
+export const DECIMAL_OPTIONS: MoneyFormat['decimals'][] = [0, 1, 2];
+
+const isDigitGrouping = (value: unknown): value is DigitGrouping => {
+  return DIGIT_GROUPINGS.some(option => option.value === value);
+};
+
+// Fill in anything missing from a stored format, e.g. businesses created before it existed
+export const readMoneyFormat = (value: unknown): MoneyFormat => {
+  const stored = (value ?? {}) as Partial<MoneyFormat>;
+  return {
+    symbol: typeof stored.symbol === 'string' ? stored.symbol : DEFAULT_MONEY_FORMAT.symbol,
+    decimals: DECIMAL_OPTIONS.includes(stored.decimals as MoneyFormat['decimals'])
+      ? stored.decimals as MoneyFormat['decimals']
+      : DEFAULT_MONEY_FORMAT.decimals,
+    grouping: isDigitGrouping(stored.grouping) ? stored.grouping : DEFAULT_MONEY_FORMAT.grouping
+  };
+};
+
+let activeFormat: MoneyFormat = DEFAULT_MONEY_FORMAT;
+
+// The active business's format is set by BusinessContext, like the active business itself
+export const setMoneyFormat = (format: MoneyFormat | null) => {
+  activeFormat = format ?? DEFAULT_MONEY_FORMAT;
+};
+
+const groupDigits = (digits: string, grouping: DigitGrouping): string => {
+  if (grouping === 'none' || digits.length <= 3) {
+    return digits;
+  }
+  if (grouping === 'international') {
+    return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+  // Lakh/crore: the last three digits, then pairs
+  const head = digits.slice(0, -3);
+  const tail = digits.slice(-3);
+  return `${head.replace(/\B(?=(\d{2})+(?!\d))/g, ',')},${tail}`;
+};
+
+// Format a plain number with the active grouping, e.g. quantities and percentages
+export const formatNumber = (value: number, decimals = 0, format: MoneyFormat = activeFormat): string => {
+  const [whole, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const sign = value < 0 && Number(Math.abs(value).toFixed(decimals)) !== 0 ? '-' : '';
+  return `${sign}${groupDigits(whole, format.grouping)}${fraction ? `.${fraction}` : ''}`;
+};
+
+export const formatPercent = (value: number, format: MoneyFormat = activeFormat): string => {
+  return `${formatNumber(value, 1, format)}%`;
+};
+
+// The one place amounts are turned into text
+export const formatMoney = (amount: Money, format: MoneyFormat = activeFormat): string => {
+  const formatted = formatNumber(toMajorUnits(amount), format.decimals, format);
+  return formatted.startsWith('-')
+    ? `-${format.symbol}${formatted.slice(1)}`
+    : `${format.symbol}${formatted}`;
+};
+
+// An amount in a currency other than the base one, labelled with its code, e.g. "USD 1,250.00"
+export const formatCurrencyAmount = (amount: Money, currency: string, format: MoneyFormat = activeFormat): string => {
+  return `${currency} ${formatNumber(toMajorUnits(amount), format.decimals, format)}`;
+};
+
+// Placeholder for amount inputs, e.g. "৳0.00"
+export const moneyPlaceholder = (format: MoneyFormat = activeFormat): string => {
+  return formatMoney(ZERO_MONEY, format);
+};
@@ -0,0 +1,174 @@
+import { FirestoreError, Timestamp, type DocumentData, type WriteBatch } from 'firebase/firestore';
+import type { AuditAction } from './audit';
+
+export type OutboxStatus = 'pending' | 'conflict';
+
+// A write made while offline, replayed against Firestore once we reconnect
+export interface OutboxEntry {
+  id: string;
+  businessId: string;
+  collectionName: string;
+  recordId: string;
+  action: AuditAction;
+  // The full record for creates, or the changed fields for everything else
+  data: DocumentData;
+  // The record as the user saw it when they edited it; null for creates
+  base: DocumentData | null;
+  // The server's version of the record when a conflict was found
+  current: DocumentData | null;
+  status: OutboxStatus;
+  queuedAt: string;
+}
+
+const DB_NAME = 'opulec-outbox';
+const STORE_NAME = 'writes';
+
+// IndexedDB drops the Timestamp prototype, so timestamps are stored as tagged millis
+const TIMESTAMP_TAG = '__timestamp';
+
+const encode = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return { [TIMESTAMP_TAG]: value.toMillis() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encode(item)]));
+  }
+  return value;
+};
+
+const decode = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (value && typeof value === 'object') {
+    if (TIMESTAMP_TAG in value) {
+      return Timestamp.fromMillis((value as Record<string, number>)[TIMESTAMP_TAG]);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decode(item)]));
+  }
+  return value;
+};
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      database.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      database.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Called whenever the outbox changes, so status indicators can refresh
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// navigator.onLine is only a hint, but a false value reliably means no network
+export const hasNoNetwork = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Set when a write could not reach the server although the browser reported a network,
+// as behind a captive portal or on a flaky link, until a later write gets through
+let isServerUnreachable = false;
+
+const setServerReachable = (reachable: boolean) => {
+  if (isServerUnreachable === reachable) {
+    isServerUnreachable = !reachable;
+    notify();
+  }
+};
+
+export const isOffline = (): boolean => hasNoNetwork() || isServerUnreachable;
+
+// With the persistent cache a commit waits for the server for as long as it takes
+const COMMIT_TIMEOUT_MS = 10000;
+
+// Commit a batch, or return false once it has waited too long for the server or the
+// server is unavailable. Firestore keeps the batch queued either way and sends it when
+// the server can be reached again.
+export const commitBatch = async (batch: WriteBatch): Promise<boolean> => {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<false>(resolve => {
+    timeout = setTimeout(() => resolve(false), COMMIT_TIMEOUT_MS);
+  });
+  try {
+    const committed = await Promise.race([batch.commit().then(() => true), timedOut]);
+    setServerReachable(committed);
+    return committed;
+  } catch (error) {
+    if (error instanceof FirestoreError && error.code === 'unavailable') {
+      setServerReachable(false);
+      return false;
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+export const queueWrite = async (
+  entry: Omit<OutboxEntry, 'id' | 'status' | 'current' | 'queuedAt'>
+): Promise<void> => {
+  const stored = encode({
+    ...entry,
+    id: crypto.randomUUID(),
+    status: 'pending',
+    current: null,
+    queuedAt: new Date().toISOString()
+  });
+  await withStore('readwrite', store => store.add(stored));
+  notify();
+};
+
+// Entries for one business, oldest first so they replay in the order they were made
+export const getOutboxEntries = async (businessId: string): Promise<OutboxEntry[]> => {
+  const entries = await withStore('readonly', store => store.getAll());
+  return (entries.map(decode) as OutboxEntry[])
+    .filter(entry => entry.businessId === businessId)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const markConflict = async (entry: OutboxEntry, current: DocumentData | null): Promise<void> => {
+  await withStore('readwrite', store => store.put(encode({ ...entry, status: 'conflict', current })));
+  notify();
+};
+
+export const removeOutboxEntry = async (entryId: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(entryId));
+  notify();
+};
+
+// Success toasts say so when a write was only queued
+export const savedMessage = (message: string): string => {
+  return isOffline() ? "Saved offline. It will sync when you're back online" : message;
+};
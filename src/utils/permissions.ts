@@ -0,0 +1,25 @@
+import rolesConfig from '@/config/roles.json';
+
+// roles.json is the single source of truth for access control: the UI checks it
+// here and scripts/generate-firestore-rules.js compiles it into firestore.rules
+export type Role = keyof typeof rolesConfig.roles;
+export type Permission = keyof typeof rolesConfig.permissions;
+
+export const ROLES = Object.keys(rolesConfig.roles) as Role[];
+
+export const DEFAULT_INVITE_ROLE: Role = 'data-entry';
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && value in rolesConfig.roles;
+};
+
+export const getRoleLabel = (role: Role): string => rolesConfig.roles[role].label;
+
+export const getRoleDescription = (role: Role): string => rolesConfig.roles[role].description;
+
+export const hasPermission = (role: Role | null, permission: Permission): boolean => {
+  if (!role) {
+    return false;
+  }
+  return (rolesConfig.permissions[permission] as string[]).includes(role);
+};
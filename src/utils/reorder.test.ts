@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Product, PurchaseEntry, PurchaseOrder, SaleEntry, Supplier } from './database';
+import type { StockItem } from './inventory';
+import { ZERO_MONEY, toMinorUnits } from './money';
+import { incomingStock, suggestReorders } from './reorder';
+
+// Exchange rates are read through the business module, which opens Firebase on import
+vi.mock('@/main', () => ({ db: {}, auth: {} }));
+
+const product = (id: string, name: string, reorderLevel: number, isActive = true): Product => ({
+  id,
+  name,
+  sku: id,
+  unit: 'pcs',
+  defaultPrice: toMinorUnits(20),
+  reorderLevel,
+  isActive
+});
+
+const onHand = (productId: string, quantity: number): StockItem => ({
+  productId,
+  product: productId,
+  quantity,
+  averageCost: toMinorUnits(5),
+  currentValue: toMinorUnits(5 * quantity)
+});
+
+const sale = (id: string, date: string, productId: string, quantity: number): SaleEntry => {
+  const total = toMinorUnits(20 * quantity);
+  return {
+    id,
+    date,
+    order_number: id,
+    items: [{ productId, product: productId, quantity, price: toMinorUnits(20), total }],
+    quantity,
+    subtotal: total,
+    discount: ZERO_MONEY,
+    deliveryCharge: ZERO_MONEY,
+    total,
+    paidOnSale: total,
+    paymentMethod: 'cash'
+  };
+};
+
+const order = (
+  id: string,
+  status: PurchaseOrder['status'],
+  expectedDate: string,
+  exchangeRate: number,
+  items: PurchaseOrder['items']
+): PurchaseOrder => ({
+  id,
+  date: '2025-06-01',
+  order_number: id,
+  supplier: `Supplier ${id}`,
+  expectedDate,
+  currency: 'USD',
+  exchangeRate,
+  items,
+  total: ZERO_MONEY,
+  advance: ZERO_MONEY,
+  advanceUsed: ZERO_MONEY,
+  status,
+  notes: ''
+});
+
+describe('incomingStock', () => {
+  it('adds up what is left to receive on placed orders', () => {
+    const incoming = incomingStock([
+      order('o1', 'ordered', '2025-07-10', 1.5, [
+        { productId: 'p1', product: 'Widget', quantity: 10, received: 4, price: toMinorUnits(2) }
+      ]),
+      order('o2', 'partial', '2025-07-05', 1, [
+        { productId: 'p1', product: 'Widget', quantity: 5, received: 0, price: toMinorUnits(2) },
+        { productId: 'p2', product: 'Gadget', quantity: 3, received: 3, price: toMinorUnits(9) }
+      ]),
+      order('o3', 'draft', '2025-07-01', 1, [
+        { productId: 'p1', product: 'Widget', quantity: 50, received: 0, price: toMinorUnits(2) }
+      ])
+    ]);
+
+    expect(Object.keys(incoming)).toEqual(['p1']);
+    expect(incoming.p1).toMatchObject({
+      quantity: 11,
+      value: toMinorUnits(28),
+      expectedDate: '2025-07-05',
+      supplier: 'Supplier o2'
+    });
+  });
+});
+
+describe('suggestReorders', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 30, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const supplier: Supplier = {
+    id: 's1',
+    name: 'Acme',
+    contactPerson: '',
+    phone: '',
+    email: '',
+    address: '',
+    paymentTermsDays: 0,
+    leadTimeDays: 5,
+    notes: ''
+  };
+
+  const purchase: PurchaseEntry = {
+    date: '2025-05-20',
+    productId: 'p1',
+    product: 'Widget',
+    supplierId: 's1',
+    supplier: 'Acme Ltd',
+    quantity: 100,
+    price: toMinorUnits(5),
+    total: toMinorUnits(500),
+    paidOnPurchase: toMinorUnits(500),
+    dueDate: '2025-05-20'
+  };
+
+  // Sixty Widgets in the last 30 days is two a day; the older sale is outside the window
+  const sales = [
+    sale('s1', '2025-05-01', 'p1', 100),
+    sale('s2', '2025-06-01', 'p1', 30),
+    sale('s3', '2025-06-29', 'p1', 30)
+  ];
+
+  it('orders enough for the lead time and cover days, soonest to run out first', () => {
+    const suggestions = suggestReorders(
+      [product('p3', 'Bolt', 20), product('p1', 'Widget', 10), product('p2', 'Gadget', 0)],
+      { p1: onHand('p1', 5), p2: onHand('p2', 100), p3: onHand('p3', 4) },
+      sales,
+      [purchase],
+      [supplier]
+    );
+
+    expect(suggestions.map(suggestion => suggestion.productId)).toEqual(['p1', 'p3']);
+    expect(suggestions[0]).toMatchObject({
+      dailySales: 2,
+      daysLeft: 2.5,
+      supplier: 'Acme',
+      leadTimeDays: 5,
+      // Reorder level 10 plus 2 a day for 5 + 30 days, less 5 on hand
+      suggestedQuantity: 75
+    });
+    expect(suggestions[1]).toMatchObject({
+      daysLeft: null,
+      leadTimeDays: 7,
+      suggestedQuantity: 16
+    });
+  });
+
+  it('leaves out inactive products and those covered by open orders', () => {
+    const suggestions = suggestReorders(
+      [product('p4', 'Nut', 10, false), product('p5', 'Washer', 10)],
+      { p4: onHand('p4', 0), p5: onHand('p5', 2) },
+      [],
+      [],
+      [],
+      { p5: { productId: 'p5', product: 'Washer', quantity: 10, value: toMinorUnits(10), expectedDate: '' } }
+    );
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it('counts open orders towards the suggestion', () => {
+    const [suggestion] = suggestReorders(
+      [product('p5', 'Washer', 10)],
+      { p5: onHand('p5', 2) },
+      [],
+      [],
+      [],
+      { p5: { productId: 'p5', product: 'Washer', quantity: 3, value: toMinorUnits(3), expectedDate: '' } }
+    );
+
+    expect(suggestion).toMatchObject({ onOrder: 3, suggestedQuantity: 5 });
+  });
+});
@@ -0,0 +1,174 @@
+import dayjs from 'dayjs';
+import type { Product, PurchaseEntry, PurchaseOrder, SaleEntry, Supplier } from './database';
+import { convertToBase } from './currency';
+import { ZERO_MONEY, addMoney, multiplyMoney, type Money } from './money';
+import { ISO_DATE_FORMAT } from './dateFormat';
+import { productKey, type StockItem } from './inventory';
+
+// Sales velocity is the average over this many days up to today
+export const VELOCITY_WINDOW_DAYS = 30;
+
+// Used for suppliers with no lead time recorded, and products bought from no supplier
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+// A suggested order covers the lead time plus this many days of sales
+export const REORDER_COVER_DAYS = 30;
+
+export interface ReorderSuggestion {
+  productId: string;
+  product: string;
+  unit: string;
+  onHand: number;
+  reorderLevel: number;
+  // Average units sold per day over the velocity window
+  dailySales: number;
+  // Days until stock runs out at that rate; null when nothing is selling
+  daysLeft: number | null;
+  // Supplier of the product's latest purchase
+  supplierId?: string;
+  supplier?: string;
+  leadTimeDays: number;
+  // Units on open purchase orders, already counted towards the suggestion
+  onOrder: number;
+  suggestedQuantity: number;
+}
+
+// Units of a product still to arrive on open purchase orders
+export interface IncomingStock {
+  productId?: string;
+  product: string;
+  quantity: number;
+  // Base-currency value at the order prices
+  value: Money;
+  // Earliest expected delivery among the orders; empty if none gave a date
+  expectedDate: string;
+  supplier?: string;
+}
+
+// Outstanding lines of orders that are placed and not yet fully received, keyed by productKey
+export const incomingStock = (orders: PurchaseOrder[]): Record<string, IncomingStock> => {
+  const incoming: Record<string, IncomingStock> = {};
+  orders
+    .filter(order => order.status === 'ordered' || order.status === 'partial')
+    .forEach(order => order.items.forEach(line => {
+      const quantity = line.quantity - line.received;
+      if (quantity <= 0) return;
+
+      const key = productKey(line);
+      const existing = incoming[key];
+      const value = convertToBase(multiplyMoney(line.price, quantity), order.exchangeRate);
+      const isSooner = order.expectedDate && (!existing?.expectedDate || order.expectedDate < existing.expectedDate);
+      incoming[key] = {
+        productId: line.productId,
+        product: line.product,
+        quantity: (existing?.quantity ?? 0) + quantity,
+        value: addMoney(existing?.value ?? ZERO_MONEY, value),
+        expectedDate: isSooner ? order.expectedDate : existing?.expectedDate ?? '',
+        supplier: isSooner || !existing ? order.supplier : existing.supplier
+      };
+    }));
+  return incoming;
+};
+
+// Average units sold per day of each product over the window ending today, keyed by productKey
+export const salesVelocity = (sales: SaleEntry[], windowDays: number = VELOCITY_WINDOW_DAYS): Record<string, number> => {
+  const since = dayjs().startOf('day').subtract(windowDays - 1, 'day');
+  const sold: Record<string, number> = {};
+  sales
+    .filter(sale => !dayjs(sale.date, ISO_DATE_FORMAT).isBefore(since))
+    .forEach(sale => sale.items.forEach(item => {
+      const key = productKey(item);
+      sold[key] = (sold[key] ?? 0) + item.quantity;
+    }));
+  return Object.fromEntries(Object.entries(sold).map(([key, quantity]) => [key, quantity / windowDays]));
+};
+
+// The supplier each product was last bought from, keyed by productKey
+const latestSuppliers = (purchases: PurchaseEntry[]): Record<string, PurchaseEntry> => {
+  const latest: Record<string, PurchaseEntry> = {};
+  purchases
+    .filter(purchase => purchase.supplierId)
+    .forEach(purchase => {
+      const key = productKey(purchase);
+      if (!latest[key] || purchase.date > latest[key].date) {
+        latest[key] = purchase;
+      }
+    });
+  return latest;
+};
+
+// Active products that are at or below their reorder level, or will sell out before a
+// new order could arrive. The suggested quantity brings stock back up to the reorder
+// level plus enough to cover the lead time and the following REORDER_COVER_DAYS, less
+// what is already on order. Products whose open orders cover that are left out.
+export const suggestReorders = (
+  products: Product[],
+  stock: Record<string, StockItem>,
+  sales: SaleEntry[],
+  purchases: PurchaseEntry[],
+  suppliers: Supplier[],
+  incoming: Record<string, IncomingStock> = {}
+): ReorderSuggestion[] => {
+  const velocity = salesVelocity(sales);
+  const lastPurchases = latestSuppliers(purchases);
+
+  return products
+    .filter(product => product.isActive)
+    .flatMap(product => {
+      const key = productKey({ productId: product.id, product: product.name });
+      const onHand = stock[key]?.quantity ?? 0;
+      const dailySales = velocity[key] ?? 0;
+      const lastPurchase = lastPurchases[key];
+      const supplier = suppliers.find(candidate => candidate.id === lastPurchase?.supplierId);
+      const leadTimeDays = supplier?.leadTimeDays || DEFAULT_LEAD_TIME_DAYS;
+      const daysLeft = dailySales > 0 ? Math.max(0, onHand) / dailySales : null;
+
+      const isLow = (product.reorderLevel > 0 && onHand <= product.reorderLevel)
+        || (daysLeft !== null && daysLeft <= leadTimeDays);
+      if (!isLow) {
+        return [];
+      }
+
+      const target = product.reorderLevel + Math.ceil(dailySales * (leadTimeDays + REORDER_COVER_DAYS));
+      const onOrder = incoming[key]?.quantity ?? 0;
+      const suggestedQuantity = Math.max(0, target - onHand - onOrder);
+      if (onOrder > 0 && suggestedQuantity === 0) {
+        return [];
+      }
+
+      return [{
+        productId: product.id,
+        product: product.name,
+        unit: product.unit,
+        onHand,
+        reorderLevel: product.reorderLevel,
+        dailySales,
+        daysLeft,
+        ...(lastPurchase && {
+          supplierId: lastPurchase.supplierId,
+          supplier: supplier?.name ?? lastPurchase.supplier
+        }),
+        leadTimeDays,
+        onOrder,
+        suggestedQuantity
+      }];
+    })
+    // Soonest to run out first; products with no sales follow, lowest stock first
+    .sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) || a.onHand - b.onHand);
+};
+
+export const reorderCsvRows = (suggestions: ReorderSuggestion[]): (string | number)[][] => [
+  ['Product', 'Unit', 'On Hand', 'Reorder Level', 'Daily Sales', 'Days Left', 'Supplier', 'Lead Time (days)', 'On Order', 'Suggested Quantity'],
+  ...suggestions.map(suggestion => [
+    suggestion.product,
+    suggestion.unit,
+    suggestion.onHand,
+    suggestion.reorderLevel,
+    suggestion.dailySales.toFixed(2),
+    suggestion.daysLeft === null ? '' : Math.floor(suggestion.daysLeft),
+    suggestion.supplier ?? '',
+    suggestion.leadTimeDays,
+    suggestion.onOrder,
+    suggestion.suggestedQuantity
+  ])
+];